@@ -6,13 +6,21 @@
  */
 
 import * as vscode from 'vscode';
-import { ToolConnector, Task, WorkspaceContext, ToolResponse } from '../../../src/types';
+import { ToolConnector, Task, WorkspaceContext, ToolResponse, CancellationError, TimeoutError } from '../../src/types';
+import type { InvokeOptions } from '../../src/types';
+import { ResiliencePolicy, classifyError, isRetryable } from '../../src/resilience';
+import type { CircuitBreakerOptions, RetryOptions } from '../../src/resilience';
 
 interface ContinueConfig {
   enableChat: boolean;
   enableEdit: boolean;
   enableCompletion: boolean;
+
+  /** Per-attempt time limit for Continue commands, in ms */
   maxResponseTime: number;
+
+  retry?: Partial<RetryOptions>;
+  circuitBreaker?: Partial<CircuitBreakerOptions> | false;
 }
 
 /**
@@ -22,9 +30,18 @@ interface ContinueConfig {
 export class ContinueConnector extends ToolConnector {
   private extension: vscode.Extension<any> | null = null;
   private isInitialized = false;
+  private policy: ResiliencePolicy;
 
   constructor(private config: ContinueConfig) {
     super();
+    this.policy = new ResiliencePolicy('continue', {
+      timeout: config.maxResponseTime,
+      retry: { maxAttempts: 2, ...config.retry },
+      circuitBreaker: config.circuitBreaker,
+      // A command that timed out may still be running in Continue, and a
+      // second one could apply its edits twice
+      classify: error => (error instanceof TimeoutError ? { kind: 'permanent' } : classifyError(error))
+    });
   }
 
   async connect(): Promise<vscode.Extension<any>> {
@@ -32,7 +49,7 @@ export class ContinueConnector extends ToolConnector {
       return this.extension;
     }
 
-    this.extension = vscode.extensions.getExtension('Continue.continue');
+    this.extension = vscode.extensions.getExtension('Continue.continue') ?? null;
     if (!this.extension) {
       throw new Error('Continue extension not found');
     }
@@ -45,42 +62,45 @@ export class ContinueConnector extends ToolConnector {
     return this.extension;
   }
 
-  async invoke(task: Task, context: WorkspaceContext): Promise<ToolResponse> {
-    const extension = await this.connect();
+  async invoke(task: Task, context: WorkspaceContext, options: InvokeOptions = {}): Promise<ToolResponse> {
+    let attempts = 0;
 
     try {
-      switch (task.type) {
-        case 'completion':
-          return await this.handleCompletion(task, context);
-        case 'planning':
-          return await this.handlePlanning(task, context);
-        case 'refactoring':
-          return await this.handleRefactoring(task, context);
-        case 'analysis':
-          return await this.handleAnalysis(task, context);
-        default:
-          return await this.handleGenericTask(task, context);
+      await this.connect();
+
+      // Commands that exceed maxResponseTime are abandoned, not retried
+      const outcome = await this.policy.execute(() => this.dispatch(task, context), options.cancellationToken);
+      attempts = outcome.attempts;
+      if (!outcome.ok) {
+        throw outcome.error;
       }
-    } catch (error) {
+
+      return {
+        ...outcome.value,
+        metadata: { ...outcome.value.metadata, attempts, retryAttempts: attempts - 1 }
+      };
+    } catch (error: any) {
       return {
         success: false,
         error: error.message,
         toolId: 'continue',
         metadata: {
           taskType: task.type,
-          errorType: error.constructor.name
+          errorType: error.constructor.name,
+          attempts,
+          retryAttempts: Math.max(0, attempts - 1),
+          retryable: isRetryable(classifyError(error)),
+          cancelled: error instanceof CancellationError
         }
       };
     }
   }
 
   async testHealth(): Promise<boolean> {
-    try {
+    return this.policy.probe(async () => {
       const extension = vscode.extensions.getExtension('Continue.continue');
       return extension?.isActive || false;
-    } catch {
-      return false;
-    }
+    });
   }
 
   async disconnect(): Promise<void> {
@@ -88,10 +108,28 @@ export class ContinueConnector extends ToolConnector {
     this.isInitialized = false;
   }
 
+  /**
+   * Route a task to the matching Continue feature
+   */
+  private dispatch(task: Task, context: WorkspaceContext): Promise<ToolResponse> {
+    switch (task.type) {
+      case 'completion':
+        return this.handleCompletion(task);
+      case 'planning':
+        return this.handlePlanning(task, context);
+      case 'refactoring':
+        return this.handleRefactoring(task, context);
+      case 'analysis':
+        return this.handleAnalysis(task, context);
+      default:
+        return this.handleGenericTask(task, context);
+    }
+  }
+
   /**
    * Handle code completion requests
    */
-  private async handleCompletion(task: Task, context: WorkspaceContext): Promise<ToolResponse> {
+  private async handleCompletion(task: Task): Promise<ToolResponse> {
     if (!this.config.enableCompletion) {
       throw new Error('Completion not enabled for Continue');
     }
@@ -352,7 +390,9 @@ export function createContinueConfig(options: Partial<ContinueConfig> = {}): Con
     enableChat: options.enableChat ?? true,
     enableEdit: options.enableEdit ?? true,
     enableCompletion: options.enableCompletion ?? true,
-    maxResponseTime: options.maxResponseTime ?? 30000
+    maxResponseTime: options.maxResponseTime ?? 30000,
+    retry: options.retry,
+    circuitBreaker: options.circuitBreaker
   };
 }
 
@@ -5,20 +5,193 @@
  * that provides domain-specific AI capabilities.
  */
 
-import { ToolConnector, Task, WorkspaceContext, ToolResponse, Connection } from '../../../src/types';
+import {
+  ToolConnector,
+  Task,
+  WorkspaceContext,
+  ToolResponse,
+  CancellationError,
+  ConnectionError,
+  TimeoutError,
+  ValidationError
+} from '../../src/types';
+import type { CancellationToken, InvokeOptions, TaskPriority, TaskType, ToolProgress } from '../../src/types';
+import { TypedEventEmitter, computeBackoffDelay } from '../../src/utils';
+import { ResiliencePolicy, classifyError, isRetryable } from '../../src/resilience';
+import type { ErrorClassification, ResilienceOptions } from '../../src/resilience';
+import { fitContextToBudget } from '../../src/context';
+import {
+  JSON_RPC_ERROR_CODES,
+  LATEST_PROTOCOL_VERSION,
+  MCP_NOTIFICATIONS,
+  MCPCapabilityError,
+  MCPProtocolVersionError,
+  MCPRequestError,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  DEFAULT_HEARTBEAT_OPTIONS,
+  DEFAULT_RECONNECT_OPTIONS,
+  IDEMPOTENT_MCP_METHODS,
+  createMCPTransport,
+  expandResourceTemplate,
+  isJsonRpcNotification,
+  isJsonRpcRequest,
+  isJsonRpcResponse,
+  buildToolArguments,
+  missingPromptArguments,
+  rankToolsForTask,
+  renderPromptMessages,
+  resourceContentsToFileContexts,
+  validateToolArguments,
+  validateToolResult
+} from '../../src/mcp';
+import type {
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  MCPCallToolResult,
+  MCPClientCapabilities,
+  MCPClientEvents,
+  MCPConnectionState,
+  MCPGetPromptResult,
+  MCPHeartbeatOptions,
+  MCPImplementationInfo,
+  MCPInitializeResult,
+  MCPLogLevel,
+  MCPLogMessage,
+  MCPProgressNotification,
+  MCPPrompt,
+  MCPReadResourceResult,
+  MCPReconnectOptions,
+  MCPResource,
+  MCPResourceContents,
+  MCPResourceTemplate,
+  MCPServerCapabilities,
+  MCPServerFeature,
+  MCPTool,
+  MCPToolMatch,
+  MCPTransport,
+  MCPTransportConfig
+} from '../../src/mcp';
 
 interface CustomMCPConfig {
+  /** WebSocket endpoint, used when no transport is configured */
   endpoint: string;
+
+  /** How to reach the server: a local process over stdio or a WebSocket */
+  transport?: MCPTransportConfig;
+
+  /** Name and version reported to the server during initialize */
+  clientInfo?: MCPImplementationInfo;
+
+  /** Reconnect with backoff when the connection drops */
+  reconnect?: Partial<MCPReconnectOptions>;
+
+  /** Periodic ping that detects silently dead connections */
+  heartbeat?: Partial<MCPHeartbeatOptions>;
+
+  /** Re-send in-flight idempotent requests after reconnecting (default true) */
+  replayIdempotentRequests?: boolean;
+
+  /** Backoff and circuit breaker settings for tool calls */
+  resilience?: ResilienceOptions;
+
+  /** Token budget for the workspace context sent with each tool call */
+  contextSize?: number;
+
+  /** Receives the server's log messages; they are dropped without it */
+  onServerLog?: (message: MCPLogMessage) => void;
+
   apiKey?: string;
   timeout?: number;
   retryAttempts?: number;
 }
 
-interface CustomMCPTool {
-  name: string;
-  description: string;
-  inputSchema: any;
-  outputSchema: any;
+const DEFAULT_CLIENT_INFO: MCPImplementationInfo = {
+  name: 'ai-orchestration-vscode',
+  version: '0.1.0'
+};
+
+/** Failures of requests that never left the client */
+const unsentRequestErrors = new WeakSet<Error>();
+
+/**
+ * Tool calls are retried only when they never reached the server: like
+ * replay after a reconnect, resending one that did could make the tool act
+ * twice.
+ */
+function classifyToolCallError(error: unknown): ErrorClassification {
+  const classification = classifyError(error);
+  if (classification.kind === 'transient' && !(error instanceof Error && unsentRequestErrors.has(error))) {
+    return { kind: 'permanent' };
+  }
+  return classification;
+}
+
+/**
+ * A request as passed to CustomMCPClient.request(); the client adds the
+ * jsonrpc version and id
+ */
+type MCPRequest = Pick<JsonRpcRequest, 'method' | 'params'>;
+
+/**
+ * A successful response as CustomMCPClient.request() resolves it
+ */
+interface MCPResponse<T = unknown> extends Omit<JsonRpcResponse, 'result' | 'error'> {
+  result: T;
+
+  /** Token the request's progress notifications carried, when it asked for them */
+  progressToken?: JsonRpcId;
+
+  /** Tokens the server reports having used; not part of MCP */
+  tokensUsed?: number;
+}
+
+/**
+ * Per-request options for CustomMCPClient.request()
+ */
+interface MCPRequestOptions {
+  /** Cancel the request (and tell the server) when requested */
+  cancellationToken?: CancellationToken;
+
+  /** Ask the server for progress notifications and forward them here */
+  onProgress?: (progress: ToolProgress) => void;
+
+  /** Override the client's request timeout, in ms */
+  timeout?: number;
+
+  /** Allow replay after a reconnect; defaults to whether the method is idempotent */
+  replay?: boolean;
+}
+
+interface PendingRequest {
+  resolve: (response: MCPResponse) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+  method: string;
+
+  /** The message as sent, kept for replay */
+  message: JsonRpcRequest;
+  replayable: boolean;
+
+  progressToken?: string | number;
+  onProgress?: (progress: ToolProgress) => void;
+  cancellation?: { dispose(): unknown };
+}
+
+/**
+ * Task metadata understood by CustomMCPConnector.invoke():
+ * - mcpTool: call this tool instead of picking one by schema and description
+ * - mcpPrompt: render a server prompt and use it as the task description
+ * - mcpResources: resource URIs read into WorkspaceContext.openFiles
+ * - arguments: explicit values for tool input properties
+ */
+interface CustomMCPTaskMetadata {
+  mcpTool?: string;
+  mcpPrompt?: { name: string; arguments?: Record<string, string> };
+  mcpResources?: string[];
+  arguments?: Record<string, unknown>;
 }
 
 /**
@@ -27,301 +200,1025 @@ interface CustomMCPTool {
  */
 export class CustomMCPConnector extends ToolConnector {
   private client: CustomMCPClient | null = null;
-  private availableTools: CustomMCPTool[] = [];
+  private availableTools: MCPTool[] = [];
+  private availableResources: MCPResource[] | null = null;
+  private availablePrompts: MCPPrompt[] | null = null;
+  private unsubscribers: Array<() => void> = [];
+  private connecting: Promise<CustomMCPClient> | null = null;
+  private policy: ResiliencePolicy;
 
   constructor(private config: CustomMCPConfig) {
     super();
+
+    // Request timeouts are enforced by the client, which also tells the server
+    this.policy = new ResiliencePolicy('custom-mcp', {
+      classify: classifyToolCallError,
+      ...config.resilience,
+      retry: { maxAttempts: (config.retryAttempts ?? 3) + 1, ...config.resilience?.retry }
+    });
   }
 
-  async connect(): Promise<Connection> {
-    if (this.client) {
+  /**
+   * Return the live client, creating one if there is none or the previous
+   * one was closed. A client that is reconnecting is returned as-is; its
+   * requests wait for the connection to come back.
+   */
+  async connect(): Promise<CustomMCPClient> {
+    if (this.client && this.client.connectionState !== 'closed') {
       return this.client;
     }
 
-    this.client = new CustomMCPClient({
-      endpoint: this.config.endpoint,
-      apiKey: this.config.apiKey,
-      timeout: this.config.timeout || 30000
+    if (!this.connecting) {
+      this.connecting = this.createClient().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async createClient(): Promise<CustomMCPClient> {
+    this.releaseClient();
+
+    const client = new CustomMCPClient({
+      transport: createMCPTransport(this.config.transport ?? { type: 'websocket', url: this.config.endpoint }),
+      clientInfo: this.config.clientInfo ?? DEFAULT_CLIENT_INFO,
+      timeout: this.config.timeout || 30000,
+      reconnect: { ...DEFAULT_RECONNECT_OPTIONS, ...this.config.reconnect },
+      heartbeat: { ...DEFAULT_HEARTBEAT_OPTIONS, ...this.config.heartbeat },
+      replayIdempotentRequests: this.config.replayIdempotentRequests ?? true
     });
 
-    await this.client.initialize();
-    this.availableTools = await this.client.listTools();
+    // Only a client that finished its handshake is kept
+    try {
+      await client.initialize();
+      this.availableTools = client.supports('tools') ? await client.listTools() : [];
+    } catch (error) {
+      await client.close();
+      throw error;
+    }
+
+    this.client = client;
+    this.unsubscribers.push(
+      client.on('reconnected', () => {
+        // The server may have restarted with a different feature set
+        this.availableResources = null;
+        this.availablePrompts = null;
+        this.refreshTools(client);
+      }),
+      client.on('toolsChanged', () => {
+        this.refreshTools(client);
+      }),
+      client.on('resourcesChanged', () => {
+        this.availableResources = null;
+      }),
+      client.on('promptsChanged', () => {
+        this.availablePrompts = null;
+      }),
+      client.on('log', message => {
+        this.config.onServerLog?.(message);
+      })
+    );
 
-    return this.client;
+    return client;
   }
 
-  async invoke(task: Task, context: WorkspaceContext): Promise<ToolResponse> {
-    const client = await this.connect();
+  async invoke(task: Task, context: WorkspaceContext, options: InvokeOptions = {}): Promise<ToolResponse> {
+    let attempts = 0;
 
     try {
-      // Map task type to MCP tool
-      const mcpTool = this.mapTaskToMCPTool(task);
-      if (!mcpTool) {
-        throw new Error(`No MCP tool available for task type: ${task.type}`);
+      const client = await this.connect();
+
+      if (options.cancellationToken?.isCancellationRequested) {
+        throw new CancellationError();
+      }
+
+      const metadata = (task.metadata ?? {}) as CustomMCPTaskMetadata;
+      if (metadata.mcpPrompt) {
+        task = { ...task, description: await this.renderPrompt(metadata.mcpPrompt.name, metadata.mcpPrompt.arguments) };
+      }
+      if (metadata.mcpResources?.length) {
+        context = await this.withResources(context, metadata.mcpResources);
+      }
+      if (this.config.contextSize) {
+        context = fitContextToBudget(context, this.config.contextSize).context;
+      }
+
+      // Pick a tool from its schema and description, and build its arguments
+      const match = this.matchTool(task, context, metadata.mcpTool);
+      const mcpTool = match.tool;
+
+      const validation = validateToolArguments(mcpTool, match.arguments);
+      if (!validation.valid) {
+        throw new ValidationError(`Arguments for MCP tool '${mcpTool.name}' do not match its input schema`, validation.errors);
       }
 
       // Prepare MCP request
-      const mcpRequest = {
+      const mcpRequest: MCPRequest = {
         method: 'tools/call',
         params: {
           name: mcpTool.name,
-          arguments: {
-            description: task.description,
-            context: this.serializeContext(context),
-            language: task.language,
-            complexity: task.complexity
-          }
+          arguments: match.arguments
         }
       };
 
-      // Execute MCP request with retry logic
-      const response = await this.executeWithRetry(client, mcpRequest);
+      // Execute MCP request with retries and the circuit breaker
+      const startTime = Date.now();
+      const outcome = await this.policy.execute(
+        ({ cancellationToken }) => client.request<MCPCallToolResult>(mcpRequest, { ...options, cancellationToken }),
+        options.cancellationToken
+      );
+      attempts = outcome.attempts;
+      if (!outcome.ok) {
+        throw outcome.error;
+      }
+
+      const response = outcome.value;
+      const result = response.result;
+
+      if (result?.isError) {
+        throw new Error(`MCP tool '${mcpTool.name}' failed: ${this.resultText(result) || 'no details'}`);
+      }
+
+      const resultValidation = validateToolResult(mcpTool, result);
+      if (!resultValidation.valid) {
+        throw new ValidationError(`Result of MCP tool '${mcpTool.name}' does not match its output schema`, resultValidation.errors);
+      }
 
       return {
         success: true,
-        data: response.result,
+        data: result,
         toolId: 'custom-mcp',
         metadata: {
           toolUsed: mcpTool.name,
-          executionTime: response.executionTime,
-          tokensUsed: response.tokensUsed
+          executionTime: Date.now() - startTime,
+          tokensUsed: response.tokensUsed,
+          progressToken: response.progressToken,
+          attempts,
+          retryAttempts: attempts - 1
         }
       };
 
     } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
       return {
         success: false,
-        error: error.message,
+        error: failure.message,
         toolId: 'custom-mcp',
         metadata: {
-          errorType: error.constructor.name,
-          retryAttempts: this.config.retryAttempts || 0
+          errorType: failure.constructor.name,
+          attempts,
+          retryAttempts: Math.max(0, attempts - 1),
+          retryable: isRetryable(classifyError(error)),
+          cancelled: error instanceof CancellationError
         }
       };
     }
   }
 
+  /**
+   * Ping the server. While the circuit breaker is open the server is
+   * reported unhealthy without being contacted.
+   */
   async testHealth(): Promise<boolean> {
-    try {
-      const client = await this.connect();
-      const pingResponse = await client.request({
-        method: 'ping',
-        params: {}
-      });
-      return pingResponse.result === 'pong';
-    } catch (error) {
-      console.error('Custom MCP health check failed:', error);
-      return false;
-    }
+    return this.policy.probe(async () => {
+      try {
+        const client = await this.connect();
+        return await client.ping();
+      } catch (error) {
+        console.error('Custom MCP health check failed:', error);
+        return false;
+      }
+    });
   }
 
-  async disconnect(): Promise<void> {
-    if (this.client) {
-      await this.client.close();
-      this.client = null;
+  /**
+   * Capabilities the server advertised during initialize
+   */
+  async getServerCapabilities(): Promise<MCPServerCapabilities> {
+    const client = await this.connect();
+    return client.serverCapabilities;
+  }
+
+  /**
+   * Tools the server exposes (kept current as the server reports changes)
+   */
+  async listTools(): Promise<MCPTool[]> {
+    await this.connect();
+    return this.availableTools;
+  }
+
+  /**
+   * Resources the server exposes (cached until the server reports a change)
+   */
+  async listResources(): Promise<MCPResource[]> {
+    const client = await this.connect();
+    if (!this.availableResources) {
+      this.availableResources = client.supports('resources') ? await client.listResources() : [];
     }
+    return this.availableResources;
+  }
+
+  async listResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    const client = await this.connect();
+    return client.supports('resources') ? client.listResourceTemplates() : [];
+  }
+
+  async readResource(uri: string): Promise<MCPResourceContents[]> {
+    const client = await this.connect();
+    return (await client.readResource(uri)).contents;
   }
 
   /**
-   * Map orchestration task types to specific MCP tools
+   * Read the resource a template produces for the given variables
    */
-  private mapTaskToMCPTool(task: Task): CustomMCPTool | null {
-    const taskToToolMap: Record<string, string> = {
-      'analysis': 'code-analyzer',
-      'optimization': 'performance-optimizer',
-      'security': 'security-scanner',
-      'refactoring': 'code-refactorer',
-      'documentation': 'doc-generator'
+  async readResourceTemplate(uriTemplate: string, variables: Record<string, string>): Promise<MCPResourceContents[]> {
+    return this.readResource(expandResourceTemplate(uriTemplate, variables));
+  }
+
+  /**
+   * Return a copy of the context with the given resources added to
+   * openFiles. Binary resources are left out.
+   */
+  async withResources(context: WorkspaceContext, uris: string[]): Promise<WorkspaceContext> {
+    const contents = await Promise.all(uris.map(uri => this.readResource(uri)));
+    const files = resourceContentsToFileContexts(contents.flat());
+    const known = new Set(context.openFiles.map(file => file.path));
+
+    return {
+      ...context,
+      openFiles: [...context.openFiles, ...files.filter(file => !known.has(file.path))]
     };
+  }
+
+  /**
+   * Prompt templates the server exposes (cached until the server reports a change)
+   */
+  async listPrompts(): Promise<MCPPrompt[]> {
+    const client = await this.connect();
+    if (!this.availablePrompts) {
+      this.availablePrompts = client.supports('prompts') ? await client.listPrompts() : [];
+    }
+    return this.availablePrompts;
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPGetPromptResult> {
+    const client = await this.connect();
+    const prompt = (await this.listPrompts()).find(candidate => candidate.name === name);
+    if (!prompt) {
+      throw new Error(`MCP prompt not found: ${name}`);
+    }
+
+    const missing = missingPromptArguments(prompt, args);
+    if (missing.length > 0) {
+      throw new Error(`MCP prompt '${name}' requires argument(s): ${missing.join(', ')}`);
+    }
 
-    const toolName = taskToToolMap[task.type];
-    return this.availableTools.find(tool => tool.name === toolName) || null;
+    return client.getPrompt(name, args);
   }
 
   /**
-   * Serialize workspace context for MCP transmission
+   * Build a task whose description is a server prompt. The prompt reference
+   * is kept in metadata so the task can be re-rendered later.
    */
-  private serializeContext(context: WorkspaceContext): any {
+  async createTaskFromPrompt(
+    name: string,
+    args: Record<string, string>,
+    base: { type: TaskType; context: WorkspaceContext; priority?: TaskPriority }
+  ): Promise<Task> {
+    const description = await this.renderPrompt(name, args);
     return {
-      openFiles: context.openFiles.map(file => ({
-        path: file.path,
-        content: file.content,
-        language: file.language
-      })),
-      selection: context.selection,
-      projectInfo: {
-        type: context.projectInfo.type,
-        technologies: context.projectInfo.technologies,
-        dependencies: context.projectInfo.dependencies
-      },
-      workspaceRoot: context.workspaceRoot
+      type: base.type,
+      description,
+      context: base.context,
+      priority: base.priority ?? 'medium',
+      metadata: { mcpPrompt: { name, arguments: args } }
     };
   }
 
+  async disconnect(): Promise<void> {
+    const client = this.client;
+    this.releaseClient();
+
+    if (client) {
+      await client.close();
+    }
+  }
+
   /**
-   * Execute MCP request with retry logic
+   * Forget the current client and everything cached from it
    */
-  private async executeWithRetry(
-    client: CustomMCPClient,
-    request: any
-  ): Promise<any> {
-    const maxRetries = this.config.retryAttempts || 3;
-    let lastError: Error;
-
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        const startTime = Date.now();
-        const response = await client.request(request);
-        const executionTime = Date.now() - startTime;
-
-        return {
-          ...response,
-          executionTime,
-          attempt: attempt + 1
-        };
-      } catch (error) {
-        lastError = error;
+  private releaseClient(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.availableTools = [];
+    this.availableResources = null;
+    this.availablePrompts = null;
+    this.client = null;
+  }
 
-        if (attempt < maxRetries && this.isRetryableError(error)) {
-          const delayMs = Math.pow(2, attempt) * 1000; // Exponential backoff
-          await new Promise(resolve => setTimeout(resolve, delayMs));
-          continue;
-        }
-        break;
-      }
+  /**
+   * Re-fetch the tool list after the server reports that it changed
+   */
+  private async refreshTools(client: CustomMCPClient): Promise<void> {
+    try {
+      this.availableTools = client.supports('tools') ? await client.listTools() : [];
+    } catch (error) {
+      console.error('Failed to refresh Custom MCP tools:', error);
     }
+  }
 
-    throw lastError;
+  private async renderPrompt(name: string, args: Record<string, string> = {}): Promise<string> {
+    return renderPromptMessages((await this.getPrompt(name, args)).messages);
   }
 
   /**
-   * Determine if an error is worth retrying
+   * Choose the MCP tool for a task. An explicitly named tool wins; otherwise
+   * tools are ranked by how well their description fits the task and
+   * whether their inputSchema can be filled from it.
    */
-  private isRetryableError(error: Error): boolean {
-    const retryablePatterns = [
-      /timeout/i,
-      /connection reset/i,
-      /server temporarily unavailable/i,
-      /rate limit/i
-    ];
+  private matchTool(task: Task, context: WorkspaceContext, toolName?: string): MCPToolMatch {
+    if (toolName) {
+      const tool = this.availableTools.find(candidate => candidate.name === toolName);
+      if (!tool) {
+        throw new Error(`MCP tool not found: ${toolName}`);
+      }
+
+      const built = buildToolArguments(tool.inputSchema, task, context);
+      if (built.missing.length > 0) {
+        throw new Error(`Cannot fill required argument(s) of MCP tool '${tool.name}': ${built.missing.join(', ')}`);
+      }
+      return { tool, score: 0, ...built };
+    }
+
+    const [best] = rankToolsForTask(this.availableTools, task, context);
+    if (!best) {
+      throw new Error(`No MCP tool available for task type: ${task.type}`);
+    }
+    return best;
+  }
 
-    return retryablePatterns.some(pattern => pattern.test(error.message));
+  private resultText(result: MCPCallToolResult): string {
+    return (result.content ?? [])
+      .map(item => (item.type === 'text' ? item.text : ''))
+      .filter(text => text.length > 0)
+      .join('\n');
   }
 }
 
 /**
- * Simple MCP client implementation
+ * Simple MCP client implementation. Server notifications and connection
+ * state changes are emitted as typed events (see MCPClientEvents). A lost
+ * connection is re-established with backoff, and idempotent requests that
+ * were in flight are sent again once it is back.
  */
-class CustomMCPClient {
-  private ws: WebSocket | null = null;
+class CustomMCPClient extends TypedEventEmitter<MCPClientEvents> {
+  private transport: MCPTransport;
   private requestId = 0;
-  private pendingRequests = new Map<number, {
-    resolve: (value: any) => void;
-    reject: (error: Error) => void;
-  }>();
+  private initializeResult: MCPInitializeResult | null = null;
+  private pendingRequests = new Map<number, PendingRequest>();
+  private state: MCPConnectionState = 'idle';
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectDelay: { timer: ReturnType<typeof setTimeout>; resolve: () => void } | null = null;
+
+  /** Settles when an in-progress reconnect succeeds or is given up */
+  private reconnection: Promise<void> | null = null;
 
   constructor(private config: {
-    endpoint: string;
-    apiKey?: string;
+    transport: MCPTransport;
+    clientInfo: MCPImplementationInfo;
+    capabilities?: MCPClientCapabilities;
     timeout: number;
-  }) {}
+    reconnect: MCPReconnectOptions;
+    heartbeat: MCPHeartbeatOptions;
+    replayIdempotentRequests: boolean;
+  }) {
+    super();
+    this.transport = config.transport;
+  }
+
+  get connectionState(): MCPConnectionState {
+    return this.state;
+  }
+
+  /** Protocol version agreed with the server */
+  get protocolVersion(): string {
+    return this.requireInitialized().protocolVersion;
+  }
+
+  get serverCapabilities(): MCPServerCapabilities {
+    return this.requireInitialized().capabilities;
+  }
+
+  get serverInfo(): MCPImplementationInfo {
+    return this.requireInitialized().serverInfo;
+  }
+
+  /** Usage hints the server supplied for its tools, if any */
+  get instructions(): string | undefined {
+    return this.requireInitialized().instructions;
+  }
+
+  /**
+   * Whether the server advertised a feature during initialize
+   */
+  supports(feature: MCPServerFeature): boolean {
+    return this.initializeResult?.capabilities[feature] !== undefined;
+  }
 
   async initialize(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const wsUrl = this.config.endpoint.replace(/^http/, 'ws');
-      this.ws = new WebSocket(wsUrl);
+    this.transport.onmessage = (message) => {
+      this.handleMessage(message);
+    };
 
-      this.ws.onopen = () => {
-        console.log('Custom MCP client connected');
-        resolve();
-      };
+    this.transport.onerror = (error) => {
+      console.error('Custom MCP client transport error:', error);
+    };
 
-      this.ws.onerror = (error) => {
-        console.error('Custom MCP client connection error:', error);
-        reject(new Error('Failed to connect to MCP server'));
-      };
+    this.transport.onclose = () => {
+      this.handleTransportClose();
+    };
 
-      this.ws.onmessage = (event) => {
-        this.handleMessage(JSON.parse(event.data));
-      };
+    this.setState('connecting');
+    try {
+      await this.open();
+    } catch (error) {
+      this.setState('closed');
+      throw error;
+    }
 
-      this.ws.onclose = () => {
-        console.log('Custom MCP client disconnected');
-        this.rejectPendingRequests(new Error('Connection closed'));
-      };
+    this.setState('connected');
+    this.startHeartbeat();
+  }
 
-      // Connection timeout
-      setTimeout(() => {
-        if (this.ws?.readyState !== WebSocket.OPEN) {
-          reject(new Error('Connection timeout'));
-        }
-      }, this.config.timeout);
+  /**
+   * Start the transport and run the handshake within the connection timeout
+   */
+  private async open(): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new TimeoutError('Connection timeout', this.config.timeout)), this.config.timeout);
     });
+
+    try {
+      await Promise.race([this.transport.start(), timeout]);
+      await Promise.race([this.handshake(), timeout]);
+    } catch (error) {
+      this.initializeResult = null;
+      await this.transport.close();
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
-  async request(request: any): Promise<any> {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      throw new Error('MCP client not connected');
+  async request<T = unknown>(request: MCPRequest, options: MCPRequestOptions = {}): Promise<MCPResponse<T>> {
+    if (options.cancellationToken?.isCancellationRequested) {
+      throw new CancellationError(`Request ${request.method} cancelled`);
+    }
+
+    try {
+      // New requests made during a reconnect wait for it (the handshake itself cannot)
+      if (this.state === 'reconnecting' && request.method !== 'initialize') {
+        await this.waitForConnection(options.timeout ?? this.config.timeout);
+      }
+
+      if (!this.transport.isOpen) {
+        throw new ConnectionError('MCP client not connected');
+      }
+    } catch (error) {
+      unsentRequestErrors.add(error as Error);
+      throw error;
+    }
+
+    // Servers reject anything but ping before the handshake has completed
+    if (!this.initializeResult && request.method !== 'initialize' && request.method !== 'ping') {
+      throw new Error(`MCP client not initialized; cannot send ${request.method}`);
     }
 
     const id = ++this.requestId;
-    const message = {
-      jsonrpc: '2.0',
+
+    // The request id doubles as the progress token; it is unique per session
+    const progressToken = options.onProgress ? id : undefined;
+    const params = progressToken === undefined
+      ? request.params
+      : { ...request.params, _meta: { ...request.params?._meta, progressToken } };
+
+    const message: JsonRpcRequest = {
+      jsonrpc: '2.0' as const,
       id,
-      ...request
+      ...request,
+      ...(params !== undefined ? { params } : {})
     };
 
-    return new Promise((resolve, reject) => {
-      this.pendingRequests.set(id, { resolve, reject });
+    return new Promise<MCPResponse<T>>((resolve, reject) => {
+      // Request timeout
+      const timeout = options.timeout ?? this.config.timeout;
+      const timer = setTimeout(() => {
+        this.abandonRequest(id, new TimeoutError(`Request ${request.method} timed out after ${timeout}ms`, timeout), 'Request timed out');
+      }, timeout);
 
-      this.ws!.send(JSON.stringify(message));
+      this.pendingRequests.set(id, {
+        resolve: response => resolve(response as MCPResponse<T>),
+        reject,
+        timer,
+        method: request.method,
+        message,
+        replayable: options.replay ?? IDEMPOTENT_MCP_METHODS.has(request.method),
+        progressToken,
+        onProgress: options.onProgress
+      });
 
-      // Request timeout
-      setTimeout(() => {
-        const pending = this.pendingRequests.get(id);
-        if (pending) {
-          this.pendingRequests.delete(id);
-          pending.reject(new Error('Request timeout'));
+      const cancellation = options.cancellationToken?.onCancellationRequested(() => {
+        this.abandonRequest(id, new CancellationError(`Request ${request.method} cancelled`), 'Cancelled by client');
+      });
+      const pending = this.pendingRequests.get(id);
+      if (pending) {
+        pending.cancellation = cancellation;
+      } else {
+        cancellation?.dispose();
+      }
+
+      this.transport.send(message).catch(error => {
+        const failed = this.pendingRequests.get(id);
+        if (failed) {
+          this.settle(id, failed);
+          reject(error);
         }
-      }, this.config.timeout);
+      });
     });
   }
 
-  async listTools(): Promise<CustomMCPTool[]> {
+  /**
+   * Send a notification (no response expected)
+   */
+  async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    if (!this.transport.isOpen) {
+      throw new ConnectionError('MCP client not connected');
+    }
+
+    await this.transport.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+  }
+
+  /**
+   * Liveness check; servers answer ping with an empty result
+   */
+  async ping(): Promise<boolean> {
     const response = await this.request({
-      method: 'tools/list',
+      method: 'ping',
       params: {}
     });
+    return response.result !== undefined;
+  }
 
-    return response.result.tools;
+  async listTools(): Promise<MCPTool[]> {
+    this.requireFeature('tools');
+    return this.listAll<MCPTool>('tools/list', 'tools');
   }
 
-  async close(): Promise<void> {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+  async listResources(): Promise<MCPResource[]> {
+    this.requireFeature('resources');
+    return this.listAll<MCPResource>('resources/list', 'resources');
+  }
+
+  async listResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    this.requireFeature('resources');
+    return this.listAll<MCPResourceTemplate>('resources/templates/list', 'resourceTemplates');
+  }
+
+  async readResource(uri: string): Promise<MCPReadResourceResult> {
+    this.requireFeature('resources');
+    const response = await this.request<Partial<MCPReadResourceResult> | undefined>({
+      method: 'resources/read',
+      params: { uri }
+    });
+
+    return { contents: response.result?.contents ?? [] };
+  }
+
+  /**
+   * Ask for notifications/resources/updated when a resource changes
+   */
+  async subscribeResource(uri: string): Promise<void> {
+    if (!this.serverCapabilities.resources?.subscribe) {
+      throw new MCPCapabilityError('resources', this.serverInfo.name);
     }
+    await this.request({ method: 'resources/subscribe', params: { uri } });
+  }
+
+  async unsubscribeResource(uri: string): Promise<void> {
+    await this.request({ method: 'resources/unsubscribe', params: { uri } });
+  }
+
+  async listPrompts(): Promise<MCPPrompt[]> {
+    this.requireFeature('prompts');
+    return this.listAll<MCPPrompt>('prompts/list', 'prompts');
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPGetPromptResult> {
+    this.requireFeature('prompts');
+    const response = await this.request<MCPGetPromptResult>({
+      method: 'prompts/get',
+      params: { name, arguments: args }
+    });
+
+    return response.result;
+  }
+
+  /**
+   * Ask the server to send log messages at or above a level
+   */
+  async setLogLevel(level: MCPLogLevel): Promise<void> {
+    this.requireFeature('logging');
+    await this.request({
+      method: 'logging/setLevel',
+      params: { level }
+    });
+  }
+
+  async close(): Promise<void> {
+    this.setState('closed');
+    this.stopHeartbeat();
+    this.cancelReconnectDelay();
+    this.initializeResult = null;
+    await this.transport.close();
     this.rejectPendingRequests(new Error('Client closing'));
   }
 
-  private handleMessage(message: any): void {
-    if (message.id && this.pendingRequests.has(message.id)) {
-      const pending = this.pendingRequests.get(message.id)!;
-      this.pendingRequests.delete(message.id);
+  private setState(state: MCPConnectionState): void {
+    if (state === this.state) {
+      return;
+    }
+    const previous = this.state;
+    this.state = state;
+    this.emit('stateChange', state, previous);
+  }
+
+  /**
+   * The transport closed. Requests that cannot survive are rejected; an
+   * established connection is re-opened when reconnecting is enabled.
+   */
+  private handleTransportClose(): void {
+    const wasConnected = this.state === 'connected';
+    const willReconnect = wasConnected && this.config.reconnect.enabled;
+
+    this.initializeResult = null;
+    this.stopHeartbeat();
+
+    const keepReplayable = this.config.replayIdempotentRequests && (willReconnect || this.state === 'reconnecting');
+    for (const [id, pending] of Array.from(this.pendingRequests.entries())) {
+      if (!keepReplayable || !pending.replayable) {
+        this.settle(id, pending);
+        pending.reject(new ConnectionError('Connection closed'));
+      }
+    }
+
+    if (!wasConnected) {
+      return;
+    }
+
+    if (willReconnect) {
+      this.reconnect();
+    } else {
+      this.setState('closed');
+    }
+  }
+
+  /**
+   * Re-open the transport with exponential backoff until it succeeds, the
+   * attempt limit is reached or the client is closed.
+   */
+  private async reconnect(): Promise<void> {
+    const options = this.config.reconnect;
+    let settle!: (error?: Error) => void;
+    this.reconnection = new Promise<void>((resolve, reject) => {
+      settle = error => (error ? reject(error) : resolve());
+    });
+    this.reconnection.catch(() => undefined);
+    this.setState('reconnecting');
+
+    for (let attempt = 0; this.state === 'reconnecting'; attempt++) {
+      if (options.maxAttempts > 0 && attempt >= options.maxAttempts) {
+        const error = new ConnectionError(`MCP server unreachable after ${attempt} reconnect attempts`);
+        console.error(error.message);
+        this.setState('closed');
+        this.rejectPendingRequests(error);
+        this.reconnection = null;
+        settle(error);
+        return;
+      }
+
+      await this.waitBeforeReconnect(computeBackoffDelay(attempt, options));
+      if (this.state !== 'reconnecting') {
+        break;
+      }
+
+      try {
+        await this.open();
+      } catch (error) {
+        console.error(`Custom MCP reconnect attempt ${attempt + 1} failed:`, (error as Error).message);
+        continue;
+      }
+
+      if (this.state !== 'reconnecting') {
+        // Closed while the handshake was running
+        await this.transport.close();
+        break;
+      }
+
+      this.setState('connected');
+      this.reconnection = null;
+      settle();
+      this.emit('reconnected', attempt + 1);
+      this.replayPendingRequests();
+      this.startHeartbeat();
+      return;
+    }
+
+    this.reconnection = null;
+    settle(new ConnectionError('MCP client closed'));
+  }
+
+  private waitBeforeReconnect(delay: number): Promise<void> {
+    return new Promise(resolve => {
+      this.reconnectDelay = {
+        timer: setTimeout(() => {
+          this.reconnectDelay = null;
+          resolve();
+        }, delay),
+        resolve
+      };
+    });
+  }
+
+  private cancelReconnectDelay(): void {
+    if (this.reconnectDelay) {
+      clearTimeout(this.reconnectDelay.timer);
+      this.reconnectDelay.resolve();
+      this.reconnectDelay = null;
+    }
+  }
+
+  private async waitForConnection(timeout: number): Promise<void> {
+    if (!this.reconnection) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await Promise.race([
+        this.reconnection,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new ConnectionError('MCP client not connected')), timeout);
+        })
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Re-send requests kept across a reconnect. Ids are reused; the new
+   * session has not seen them and the counter has moved past them.
+   */
+  private replayPendingRequests(): void {
+    for (const [id, pending] of Array.from(this.pendingRequests.entries())) {
+      this.transport.send(pending.message).catch(error => {
+        if (this.pendingRequests.get(id) === pending) {
+          this.settle(id, pending);
+          pending.reject(error);
+        }
+      });
+    }
+  }
+
+  /**
+   * Ping the server periodically. After too many misses in a row the
+   * transport is closed, which triggers a reconnect.
+   */
+  private startHeartbeat(): void {
+    const options = this.config.heartbeat;
+    if (!options.enabled) {
+      return;
+    }
+
+    this.stopHeartbeat();
+    let misses = 0;
+    let inFlight = false;
+
+    this.heartbeatTimer = setInterval(async () => {
+      if (inFlight || this.state !== 'connected') {
+        return;
+      }
+
+      inFlight = true;
+      try {
+        await this.request({ method: 'ping', params: {} }, { timeout: options.timeout, replay: false });
+        misses = 0;
+      } catch (error) {
+        misses++;
+        this.emit('heartbeatMissed', misses, error as Error);
+        if (misses >= options.failureThreshold && this.state === 'connected') {
+          console.error(`Custom MCP server missed ${misses} heartbeats; reconnecting`);
+          await this.transport.close();
+        }
+      } finally {
+        inFlight = false;
+      }
+    }, options.interval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if (isJsonRpcResponse(message)) {
+      const pending = typeof message.id === 'number' ? this.pendingRequests.get(message.id) : undefined;
+      if (!pending) {
+        // Late answer to a request that already timed out or was cancelled
+        return;
+      }
 
+      this.settle(message.id as number, pending);
       if (message.error) {
-        pending.reject(new Error(message.error.message));
+        pending.reject(new MCPRequestError(message.error.message, message.error.code, pending.method, message.error.data));
       } else {
-        pending.resolve(message);
+        pending.resolve({ ...message, result: message.result, progressToken: pending.progressToken });
+      }
+    } else if (isJsonRpcRequest(message)) {
+      this.handleServerRequest(message);
+    } else if (isJsonRpcNotification(message)) {
+      this.handleNotification(message);
+    }
+  }
+
+  private handleNotification(notification: JsonRpcNotification): void {
+    const params: Record<string, unknown> | undefined = notification.params;
+    this.emit('notification', notification.method, params);
+
+    switch (notification.method) {
+      case MCP_NOTIFICATIONS.progress: {
+        const progress = params as unknown as MCPProgressNotification;
+        this.emit('progress', progress);
+        for (const pending of this.pendingRequests.values()) {
+          if (pending.progressToken === progress.progressToken) {
+            pending.onProgress?.({
+              progressToken: progress.progressToken,
+              progress: progress.progress,
+              total: progress.total,
+              message: progress.message
+            });
+          }
+        }
+        break;
+      }
+
+      case MCP_NOTIFICATIONS.message: {
+        const message = params as Partial<MCPLogMessage> | undefined;
+        this.emit('log', { level: message?.level ?? 'info', logger: message?.logger, data: message?.data });
+        break;
+      }
+
+      case MCP_NOTIFICATIONS.toolsListChanged:
+        this.emit('toolsChanged');
+        break;
+
+      case MCP_NOTIFICATIONS.resourcesListChanged:
+        this.emit('resourcesChanged');
+        break;
+
+      case MCP_NOTIFICATIONS.resourceUpdated:
+        this.emit('resourceUpdated', String(params?.uri));
+        break;
+
+      case MCP_NOTIFICATIONS.promptsListChanged:
+        this.emit('promptsChanged');
+        break;
+
+      case MCP_NOTIFICATIONS.cancelled:
+        // The server gave up on one of our requests; it will never answer
+        this.abandonRequest(
+          params?.requestId as number,
+          new CancellationError(typeof params?.reason === 'string' ? params.reason : 'Cancelled by server')
+        );
+        break;
+    }
+  }
+
+  /**
+   * Requests the server sends us. Only ping is supported; everything else
+   * is answered with method-not-found so the server does not wait forever.
+   */
+  private handleServerRequest(request: JsonRpcRequest): void {
+    const response = request.method === 'ping'
+      ? { jsonrpc: '2.0' as const, id: request.id, result: {} }
+      : {
+        jsonrpc: '2.0' as const,
+        id: request.id,
+        error: { code: JSON_RPC_ERROR_CODES.methodNotFound, message: `Method not found: ${request.method}` }
+      };
+
+    this.transport.send(response).catch(error => {
+      console.error(`Failed to answer server request ${request.method}:`, error);
+    });
+  }
+
+  /**
+   * Stop waiting for a request and reject it. When a reason is given the
+   * server is told via notifications/cancelled so it can stop working too.
+   */
+  private abandonRequest(id: number, error: Error, reason?: string): void {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) {
+      return;
+    }
+
+    this.settle(id, pending);
+    pending.reject(error);
+
+    // initialize must not be cancelled (per spec); the transport gets closed instead
+    if (reason !== undefined && pending.method !== 'initialize' && this.transport.isOpen) {
+      this.notify(MCP_NOTIFICATIONS.cancelled, { requestId: id, reason }).catch(sendError => {
+        console.error('Failed to send cancellation notice:', sendError);
+      });
+    }
+  }
+
+  private settle(id: number, pending: PendingRequest): void {
+    this.pendingRequests.delete(id);
+    clearTimeout(pending.timer);
+    pending.cancellation?.dispose();
+  }
+
+  /**
+   * MCP initialize handshake: propose a protocol version, record what the
+   * server supports, then confirm with notifications/initialized.
+   */
+  private async handshake(): Promise<void> {
+    const response = await this.request<MCPInitializeResult>({
+      method: 'initialize',
+      params: {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: this.config.capabilities ?? {},
+        clientInfo: this.config.clientInfo
       }
+    });
+
+    const result = response.result;
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+      throw new MCPProtocolVersionError(LATEST_PROTOCOL_VERSION, result.protocolVersion, SUPPORTED_PROTOCOL_VERSIONS);
+    }
+
+    this.initializeResult = {
+      protocolVersion: result.protocolVersion,
+      capabilities: result.capabilities ?? {},
+      serverInfo: result.serverInfo ?? { name: 'unknown', version: 'unknown' },
+      instructions: result.instructions
+    };
+
+    await this.notify(MCP_NOTIFICATIONS.initialized);
+  }
+
+  /**
+   * Fetch every page of a paginated list method
+   */
+  private async listAll<T>(method: string, key: string): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const response = await this.request<Record<string, unknown> | undefined>({
+        method,
+        params: cursor ? { cursor } : {}
+      });
+      items.push(...((response.result?.[key] as T[] | undefined) ?? []));
+      cursor = response.result?.nextCursor as string | undefined;
+    } while (cursor);
+
+    return items;
+  }
+
+  private requireInitialized(): MCPInitializeResult {
+    if (!this.initializeResult) {
+      throw new Error('MCP client not initialized');
+    }
+    return this.initializeResult;
+  }
+
+  private requireFeature(feature: MCPServerFeature): void {
+    if (!this.supports(feature)) {
+      throw new MCPCapabilityError(feature, this.initializeResult?.serverInfo.name ?? 'unknown');
     }
   }
 
   private rejectPendingRequests(error: Error): void {
-    for (const pending of this.pendingRequests.values()) {
+    for (const [id, pending] of Array.from(this.pendingRequests.entries())) {
+      this.settle(id, pending);
       pending.reject(error);
     }
-    this.pendingRequests.clear();
   }
 }
 
@@ -329,9 +1226,17 @@ class CustomMCPClient {
 export function createCustomMCPConfig(options: Partial<CustomMCPConfig>): CustomMCPConfig {
   return {
     endpoint: options.endpoint || 'ws://localhost:3003',
+    transport: options.transport,
+    clientInfo: options.clientInfo,
+    reconnect: options.reconnect,
+    heartbeat: options.heartbeat,
+    replayIdempotentRequests: options.replayIdempotentRequests,
     apiKey: options.apiKey || process.env.CUSTOM_MCP_API_KEY,
     timeout: options.timeout || 30000,
-    retryAttempts: options.retryAttempts || 3
+    retryAttempts: options.retryAttempts ?? 3,
+    resilience: options.resilience,
+    contextSize: options.contextSize,
+    onServerLog: options.onServerLog
   };
 }
 
@@ -344,6 +1249,17 @@ const config = createCustomMCPConfig({
 
 const connector = new CustomMCPConnector(config);
 
+// Or run a local MCP server process over stdio
+const stdioConnector = new CustomMCPConnector(createCustomMCPConfig({
+  transport: {
+    type: 'stdio',
+    command: 'npx',
+    args: ['-y', '@modelcontextprotocol/server-filesystem', '.'],
+    env: { LOG_LEVEL: 'warn' },
+    cwd: '/path/to/project'
+  }
+}));
+
 // Register with discovery system
 await toolDiscovery.registerCustomTool({
   id: 'custom-mcp',
@@ -352,7 +1268,22 @@ await toolDiscovery.registerCustomTool({
   capabilities: {
     tasks: ['analysis', 'optimization', 'security', 'refactoring'],
     languages: ['javascript', 'typescript', 'python'],
-    integrations: []
+    integrations: [],
+    commands: []
   }
 }, connector);
+
+// Or let discovery connect to the servers declared in .vscode/mcp.json,
+// .mcp.json and the Cursor and Claude Desktop configs
+const discovery = new ToolDiscovery({
+  probes: [
+    new MCPConfigProbe({
+      workspaceRoot: '/path/to/project',
+      createConnector: server => server.transport.type === 'stdio' || server.transport.type === 'websocket'
+        ? new CustomMCPConnector(createCustomMCPConfig({ transport: server.transport }))
+        : undefined
+    })
+  ]
+});
+await discovery.initializeDiscovery();
 */
\ No newline at end of file
@@ -0,0 +1,240 @@
+import { isJsonRpcNotification, isJsonRpcRequest, isJsonRpcResponse, JSON_RPC_ERROR_CODES } from '../mcp';
+import type { JsonRpcId, JsonRpcMessage, JsonRpcRequest, MCPTransport } from '../mcp';
+import { CancellationError, ConnectionError } from '../types';
+import type { CancellationToken } from '../types';
+import {
+  ACP_METHODS,
+  ACP_PROTOCOL_VERSION,
+  ACPRequestError
+} from './protocol';
+import type {
+  ACPClientCapabilities,
+  ACPContentBlock,
+  ACPImplementationInfo,
+  ACPInitializeResult,
+  ACPMcpServer,
+  ACPPermissionOutcome,
+  ACPReadTextFileParams,
+  ACPRequestPermissionParams,
+  ACPSessionNotification,
+  ACPSessionUpdate,
+  ACPStopReason,
+  ACPWriteTextFileParams
+} from './protocol';
+
+/**
+ * Answers the requests an agent sends to its client during a prompt turn.
+ */
+export interface ACPClientHandler {
+  readTextFile(params: ACPReadTextFileParams): Promise<{ content: string }>;
+  writeTextFile(params: ACPWriteTextFileParams): Promise<void>;
+  requestPermission(params: ACPRequestPermissionParams): Promise<ACPPermissionOutcome>;
+}
+
+export interface ACPConnectionOptions {
+  clientInfo?: ACPImplementationInfo;
+  clientCapabilities?: ACPClientCapabilities;
+
+  /** How long an agent may take to end a cancelled turn before it is abandoned (ms, default 5000) */
+  cancelGracePeriod?: number;
+}
+
+interface PendingRequest {
+  method: string;
+  resolve(result: any): void;
+  reject(error: Error): void;
+}
+
+/**
+ * Client side of an ACP connection: the initialize handshake, sessions and
+ * prompt turns. Session updates go to the listener of the turn they belong
+ * to, and the agent's file and permission requests to the handler.
+ */
+export class ACPConnection {
+  private nextId = 1;
+  private readonly pending = new Map<JsonRpcId, PendingRequest>();
+  private readonly sessionListeners = new Map<string, (update: ACPSessionUpdate) => void>();
+  private initializeResult: ACPInitializeResult | undefined;
+  private closed = false;
+
+  /** Called once when the agent goes away */
+  onclose?: () => void;
+
+  constructor(
+    private transport: MCPTransport,
+    private handler: ACPClientHandler,
+    private options: ACPConnectionOptions = {}
+  ) {}
+
+  get isOpen(): boolean {
+    return !this.closed && this.transport.isOpen;
+  }
+
+  /** What the agent said about itself during initialize */
+  get agent(): ACPInitializeResult | undefined {
+    return this.initializeResult;
+  }
+
+  /** Start the transport and run the initialize handshake */
+  async initialize(): Promise<ACPInitializeResult> {
+    this.transport.onmessage = message => this.handleMessage(message);
+    this.transport.onerror = error => console.error('ACP transport error:', error);
+    this.transport.onclose = () => this.handleClose();
+    await this.transport.start();
+
+    const result: ACPInitializeResult = await this.request(ACP_METHODS.initialize, {
+      protocolVersion: ACP_PROTOCOL_VERSION,
+      clientCapabilities: this.options.clientCapabilities ?? { fs: { readTextFile: true, writeTextFile: true }, terminal: false },
+      clientInfo: this.options.clientInfo
+    });
+
+    if (result.protocolVersion !== ACP_PROTOCOL_VERSION) {
+      await this.close();
+      throw new ConnectionError(`Agent speaks ACP version ${result.protocolVersion}; only version ${ACP_PROTOCOL_VERSION} is supported`);
+    }
+    this.initializeResult = result;
+    return result;
+  }
+
+  async authenticate(methodId: string): Promise<void> {
+    await this.request(ACP_METHODS.authenticate, { methodId });
+  }
+
+  async newSession(cwd: string, mcpServers: ACPMcpServer[] = []): Promise<string> {
+    const result = await this.request(ACP_METHODS.newSession, { cwd, mcpServers });
+    return result.sessionId;
+  }
+
+  /**
+   * Run one prompt turn. Updates stream to onUpdate until the agent answers
+   * with its stop reason. Cancellation sends session/cancel; the turn then
+   * ends with 'cancelled', or is abandoned after the grace period.
+   */
+  async prompt(
+    sessionId: string,
+    prompt: ACPContentBlock[],
+    onUpdate: (update: ACPSessionUpdate) => void,
+    cancellationToken?: CancellationToken
+  ): Promise<ACPStopReason> {
+    if (cancellationToken?.isCancellationRequested) {
+      throw new CancellationError();
+    }
+
+    this.sessionListeners.set(sessionId, onUpdate);
+    const call = this.call(ACP_METHODS.prompt, { sessionId, prompt });
+    let abandon: NodeJS.Timeout | undefined;
+    const cancellation = cancellationToken?.onCancellationRequested(() => {
+      this.cancel(sessionId).catch(() => undefined);
+      abandon = setTimeout(
+        () => this.settle(call.id)?.reject(new CancellationError('Agent did not end the cancelled turn')),
+        this.options.cancelGracePeriod ?? 5000
+      );
+    });
+
+    try {
+      const result = await call.result;
+      return result.stopReason;
+    } finally {
+      clearTimeout(abandon);
+      cancellation?.dispose();
+      this.sessionListeners.delete(sessionId);
+    }
+  }
+
+  /** Ask the agent to end the session's current turn */
+  cancel(sessionId: string): Promise<void> {
+    return this.notify(ACP_METHODS.cancel, { sessionId });
+  }
+
+  request(method: string, params: Record<string, any>): Promise<any> {
+    return this.call(method, params).result;
+  }
+
+  notify(method: string, params: Record<string, any>): Promise<void> {
+    return this.transport.send({ jsonrpc: '2.0', method, params });
+  }
+
+  async close(): Promise<void> {
+    await this.transport.close();
+    this.handleClose();
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if (isJsonRpcResponse(message)) {
+      const pending = this.settle(message.id);
+      if (!pending) {
+        return;
+      }
+      if (message.error) {
+        pending.reject(new ACPRequestError(message.error.message, message.error.code, pending.method, message.error.data));
+      } else {
+        pending.resolve(message.result);
+      }
+    } else if (isJsonRpcRequest(message)) {
+      this.answer(message);
+    } else if (isJsonRpcNotification(message) && message.method === ACP_METHODS.sessionUpdate) {
+      const notification = message.params as ACPSessionNotification;
+      this.sessionListeners.get(notification.sessionId)?.(notification.update);
+    }
+  }
+
+  private async answer(request: JsonRpcRequest): Promise<void> {
+    let reply: JsonRpcMessage;
+    try {
+      reply = { jsonrpc: '2.0', id: request.id, result: await this.dispatch(request) };
+    } catch (error) {
+      const code = error instanceof ACPRequestError ? error.code : JSON_RPC_ERROR_CODES.internalError;
+      reply = { jsonrpc: '2.0', id: request.id, error: { code, message: (error as Error).message } };
+    }
+    await this.transport.send(reply).catch(() => undefined);
+  }
+
+  private async dispatch(request: JsonRpcRequest): Promise<unknown> {
+    const params = request.params as any;
+    switch (request.method) {
+      case ACP_METHODS.readTextFile:
+        return this.handler.readTextFile(params);
+      case ACP_METHODS.writeTextFile:
+        await this.handler.writeTextFile(params);
+        return null;
+      case ACP_METHODS.requestPermission:
+        return { outcome: await this.handler.requestPermission(params) };
+      default:
+        throw new ACPRequestError(`Method not supported: ${request.method}`, JSON_RPC_ERROR_CODES.methodNotFound, request.method);
+    }
+  }
+
+  /** Send a request; the id lets a turn be abandoned without its response */
+  private call(method: string, params: Record<string, any>): { id: number; result: Promise<any> } {
+    const id = this.nextId++;
+    if (!this.isOpen && method !== ACP_METHODS.initialize) {
+      return { id, result: Promise.reject(new ConnectionError('ACP agent is not running')) };
+    }
+
+    const result = new Promise((resolve, reject) => {
+      this.pending.set(id, { method, resolve, reject });
+      this.transport.send({ jsonrpc: '2.0', id, method, params }).catch(error => {
+        this.settle(id)?.reject(new ConnectionError(`Could not send ${method} to the agent`, error));
+      });
+    });
+    return { id, result };
+  }
+
+  private settle(id: JsonRpcId): PendingRequest | undefined {
+    const pending = this.pending.get(id);
+    this.pending.delete(id);
+    return pending;
+  }
+
+  private handleClose(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    for (const id of Array.from(this.pending.keys())) {
+      this.settle(id)?.reject(new ConnectionError('ACP agent exited'));
+    }
+    this.sessionListeners.clear();
+    this.onclose?.();
+  }
+}
@@ -0,0 +1,350 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { extractCodeBlocks } from '../edits';
+import { StdioTransport } from '../mcp';
+import { classifyError, isRetryable } from '../resilience';
+import { CancellationError, TimeoutError, ToolConnector, ToolError } from '../types';
+import type { ConfigurationSchema, InvokeOptions, Task, ToolResponse, WorkspaceContext } from '../types';
+import { CancellationTokenSource } from '../utils';
+import { ACPConnection } from './connection';
+import type { ACPClientHandler } from './connection';
+import { FileSystemACPHost } from './host';
+import type { ACPClientHost } from './host';
+import { ACP_AUTH_REQUIRED_CODE, ACPRequestError } from './protocol';
+import type {
+  ACPContentBlock,
+  ACPMcpServer,
+  ACPPermissionOutcome,
+  ACPReadTextFileParams,
+  ACPRequestPermissionParams,
+  ACPWriteTextFileParams
+} from './protocol';
+import { ACPTurn } from './turn';
+
+const DEFAULT_TIMEOUT = 10 * 60 * 1000;
+
+export interface ACPConnectorOptions {
+  /** Tool id reported in responses; defaults to the command's base name */
+  id?: string;
+
+  args?: string[];
+
+  /** Added to the inherited environment */
+  env?: Record<string, string>;
+
+  /**
+   * Workspace the agent works in. Sessions start here and file requests
+   * outside it are refused. Defaults to the context's workspace root when
+   * that is absolute.
+   */
+  cwd?: string;
+
+  /** Reads, writes and permission answers; defaults to the file system, rejecting permissions */
+  host?: ACPClientHost;
+
+  /**
+   * Write the agent's file changes through the host right away. By default
+   * they are kept for the session, served back to the agent's own reads,
+   * and returned as `data.files` for review.
+   */
+  applyWrites?: boolean;
+
+  /** Files the agent may not read or write */
+  isExcluded?: (filePath: string) => boolean;
+
+  /** Applied to file contents before the agent reads them, e.g. secret redaction */
+  redactText?: (text: string) => string;
+
+  /** MCP servers the agent should connect to */
+  mcpServers?: ACPMcpServer[];
+
+  /** Time limit for a prompt turn, in ms (default 10 minutes) */
+  timeout?: number;
+
+  /** How long the agent gets to end a cancelled turn (ms, default 5000) */
+  cancelGracePeriod?: number;
+}
+
+/** Per-session state for the agent's file requests */
+interface SessionState {
+  root: string;
+  writes: Map<string, string>;
+  cancelled: boolean;
+}
+
+/**
+ * Connector for agents that speak the Agent Client Protocol. The agent is
+ * started once and kept running; each task gets a new session and one
+ * prompt turn, streamed as progress. The agent's file and permission
+ * requests are answered through the host.
+ */
+export class ACPConnector extends ToolConnector {
+  readonly toolId: string;
+  private connection: Promise<ACPConnection> | undefined;
+  private readonly sessions = new Map<string, SessionState>();
+  private readonly host: ACPClientHost;
+
+  constructor(private command: string, private options: ACPConnectorOptions = {}) {
+    super();
+    this.toolId = options.id ?? path.basename(command).replace(/\.(exe|cmd|bat)$/i, '');
+    this.host = options.host ?? new FileSystemACPHost();
+  }
+
+  /** Starts the agent and runs the initialize handshake, once */
+  connect(): Promise<ACPConnection> {
+    if (!this.connection) {
+      // A crashed agent, or one that failed to start, is started again on the next task
+      const forget = () => {
+        if (this.connection === started) {
+          this.connection = undefined;
+        }
+      };
+      const started = this.start(forget);
+      started.catch(forget);
+      this.connection = started;
+    }
+    return this.connection;
+  }
+
+  async invoke(task: Task, context: WorkspaceContext, options: InvokeOptions = {}): Promise<ToolResponse> {
+    const startTime = Date.now();
+    let sessionId: string | undefined;
+    const timeout = this.options.timeout ?? DEFAULT_TIMEOUT;
+
+    // Stopped by the caller or by the time limit
+    const source = new CancellationTokenSource();
+    const subscription = options.cancellationToken?.onCancellationRequested(() => source.cancel());
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      source.cancel();
+    }, timeout);
+
+    try {
+      if (options.cancellationToken?.isCancellationRequested) {
+        throw new CancellationError();
+      }
+
+      const root = this.options.cwd ?? (path.isAbsolute(context.workspaceRoot) ? context.workspaceRoot : undefined);
+      if (!root) {
+        throw new ToolError('ACP agents need an absolute workspace path; set the connector cwd', this.toolId);
+      }
+
+      const connection = await this.connect();
+      sessionId = await this.newSession(connection, root);
+      const session: SessionState = { root, writes: new Map(), cancelled: false };
+      this.sessions.set(sessionId, session);
+      source.token.onCancellationRequested(() => {
+        session.cancelled = true;
+      });
+
+      const turn = new ACPTurn();
+      const embedded = connection.agent?.agentCapabilities?.promptCapabilities?.embeddedContext ?? false;
+      const stopReason = await connection.prompt(
+        sessionId,
+        promptBlocks(task, context, root, embedded),
+        update => {
+          const progress = turn.apply(update);
+          if (progress) {
+            options.onProgress?.(progress);
+          }
+        },
+        source.token
+      );
+
+      if (stopReason === 'cancelled' || source.token.isCancellationRequested) {
+        throw new CancellationError();
+      }
+      if (stopReason === 'refusal') {
+        throw new ToolError(`${this.toolId} refused the task${turn.text ? `: ${turn.text}` : ''}`, this.toolId);
+      }
+
+      const files = Array.from(session.writes, ([filePath, content]) => ({ path: filePath, content }));
+      return {
+        success: true,
+        data: {
+          text: turn.text,
+          codeBlocks: extractCodeBlocks(turn.text),
+          // Only present when the agent wrote files, so code blocks still count otherwise
+          files: files.length > 0 ? files : undefined,
+          plan: turn.planEntries.length > 0 ? turn.planEntries : undefined,
+          toolCalls: turn.toolCallRecords,
+          thinking: turn.thinking || undefined
+        },
+        toolId: this.toolId,
+        metadata: {
+          taskType: task.type,
+          toolUsed: connection.agent?.agentInfo?.name ?? this.command,
+          executionTime: Date.now() - startTime,
+          stopReason,
+          sessionId
+        }
+      };
+    } catch (error) {
+      const failure = timedOut && error instanceof CancellationError
+        ? new TimeoutError(`${this.toolId} did not finish within ${timeout} ms`, timeout)
+        : error instanceof Error ? error : new Error(String(error));
+      return {
+        success: false,
+        error: failure.message,
+        toolId: this.toolId,
+        metadata: {
+          taskType: task.type,
+          executionTime: Date.now() - startTime,
+          errorType: failure.constructor.name,
+          retryable: isRetryable(classifyError(failure)),
+          cancelled: failure instanceof CancellationError,
+          sessionId
+        }
+      };
+    } finally {
+      clearTimeout(timer);
+      subscription?.dispose();
+      source.dispose();
+      if (sessionId) {
+        this.sessions.delete(sessionId);
+      }
+    }
+  }
+
+  async testHealth(): Promise<boolean> {
+    try {
+      return (await this.connect()).isOpen;
+    } catch {
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    const connection = this.connection;
+    this.connection = undefined;
+    this.sessions.clear();
+    await (await connection?.catch(() => undefined))?.close();
+  }
+
+  getConfigurationSchema(): ConfigurationSchema {
+    return {
+      type: 'object',
+      properties: {
+        args: { type: 'array', items: { type: 'string' } },
+        env: { type: 'object', additionalProperties: { type: 'string' } },
+        cwd: { type: 'string', description: 'Workspace the agent works in' },
+        applyWrites: { type: 'boolean', default: false, description: 'Write files right away instead of returning them for review' },
+        timeout: { type: 'number', minimum: 0, default: DEFAULT_TIMEOUT }
+      }
+    };
+  }
+
+  private async start(onClose: () => void): Promise<ACPConnection> {
+    const transport = new StdioTransport({
+      type: 'stdio',
+      command: this.command,
+      args: this.options.args,
+      env: this.options.env,
+      cwd: this.options.cwd
+    });
+    const connection = new ACPConnection(transport, this.clientHandler(), {
+      clientInfo: { name: 'ai-orchestration', title: 'AI Orchestration' },
+      cancelGracePeriod: this.options.cancelGracePeriod
+    });
+    connection.onclose = onClose;
+
+    await connection.initialize();
+    return connection;
+  }
+
+  private async newSession(connection: ACPConnection, root: string): Promise<string> {
+    try {
+      return await connection.newSession(root, this.options.mcpServers);
+    } catch (error) {
+      if (error instanceof ACPRequestError && error.code === ACP_AUTH_REQUIRED_CODE) {
+        const methods = connection.agent?.authMethods?.map(method => method.name).join(', ');
+        throw new ToolError(`${this.toolId} needs you to sign in first${methods ? ` (${methods})` : ''}`, this.toolId, error);
+      }
+      throw error;
+    }
+  }
+
+  /** Answers file and permission requests for whichever session they belong to */
+  private clientHandler(): ACPClientHandler {
+    return {
+      readTextFile: async (params: ACPReadTextFileParams) => {
+        const { session, filePath } = this.fileRequest(params);
+        const content = session.writes.get(filePath) ?? await this.host.readTextFile(filePath);
+        const redacted = this.options.redactText ? this.options.redactText(content) : content;
+        return { content: sliceLines(redacted, params.line, params.limit) };
+      },
+
+      writeTextFile: async (params: ACPWriteTextFileParams) => {
+        const { session, filePath } = this.fileRequest(params);
+        if (this.options.applyWrites) {
+          await this.host.writeTextFile(filePath, params.content);
+        } else {
+          session.writes.set(filePath, params.content);
+        }
+      },
+
+      requestPermission: async (params: ACPRequestPermissionParams): Promise<ACPPermissionOutcome> => {
+        const session = this.sessions.get(params.sessionId);
+        // Requests during or after cancellation must be answered with cancelled
+        if (!session || session.cancelled) {
+          return { outcome: 'cancelled' };
+        }
+        const outcome = await this.host.requestPermission(params);
+        return session.cancelled ? { outcome: 'cancelled' } : outcome;
+      }
+    };
+  }
+
+  private fileRequest(params: { sessionId: string; path: string }): { session: SessionState; filePath: string } {
+    const session = this.sessions.get(params.sessionId);
+    if (!session) {
+      throw new Error(`Unknown session: ${params.sessionId}`);
+    }
+
+    const filePath = path.resolve(session.root, params.path);
+    const relative = path.relative(session.root, filePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`${params.path} is outside the workspace`);
+    }
+    if (this.options.isExcluded?.(filePath)) {
+      throw new Error(`${params.path} may not be shared with agents`);
+    }
+    return { session, filePath };
+  }
+}
+
+/**
+ * The task as ACP content: the description, then the open files as
+ * embedded resources when the agent accepts them, or as links it can read
+ * through fs/read_text_file.
+ */
+function promptBlocks(task: Task, context: WorkspaceContext, root: string, embedded: boolean): ACPContentBlock[] {
+  const blocks: ACPContentBlock[] = [{ type: 'text', text: task.description }];
+
+  const selection = context.selection;
+  if (selection?.text) {
+    blocks.push({
+      type: 'text',
+      text: `Selected in ${selection.filePath} (lines ${selection.start.line + 1}-${selection.end.line + 1}):\n${selection.text}`
+    });
+  }
+
+  for (const file of context.openFiles) {
+    const uri = pathToFileURL(path.resolve(root, file.path)).href;
+    blocks.push(embedded
+      ? { type: 'resource', resource: { uri, text: file.content, mimeType: 'text/plain' } }
+      : { type: 'resource_link', uri, name: file.path });
+  }
+  return blocks;
+}
+
+/** Lines from a 1-based line, as fs/read_text_file asks for them */
+function sliceLines(content: string, line?: number, limit?: number): string {
+  if (line === undefined && limit === undefined) {
+    return content;
+  }
+  const start = Math.max(0, (line ?? 1) - 1);
+  const lines = content.split('\n');
+  return lines.slice(start, limit === undefined ? undefined : start + limit).join('\n');
+}
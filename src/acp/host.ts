@@ -0,0 +1,55 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { ACPPermissionOption, ACPPermissionOutcome, ACPRequestPermissionParams } from './protocol';
+
+/**
+ * The editor side of an agent's requests: where files are read from and
+ * written to, and who decides on permissions. ACPConnector adds workspace
+ * confinement, exclusion and review on top.
+ */
+export interface ACPClientHost {
+  /** Current text of a file, including unsaved changes where the host has them */
+  readTextFile(filePath: string): Promise<string>;
+
+  writeTextFile(filePath: string, content: string): Promise<void>;
+
+  requestPermission(request: ACPRequestPermissionParams): Promise<ACPPermissionOutcome>;
+}
+
+export type ACPPermissionPolicy = 'allow' | 'reject';
+
+/**
+ * Host backed by the file system, for use outside VS Code. Permission
+ * requests are answered by a fixed policy (default 'reject').
+ */
+export class FileSystemACPHost implements ACPClientHost {
+  constructor(private permissionPolicy: ACPPermissionPolicy = 'reject') {}
+
+  readTextFile(filePath: string): Promise<string> {
+    return fs.readFile(filePath, 'utf8');
+  }
+
+  async writeTextFile(filePath: string, content: string): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content, 'utf8');
+  }
+
+  async requestPermission(request: ACPRequestPermissionParams): Promise<ACPPermissionOutcome> {
+    return selectPermissionOption(request.options, this.permissionPolicy);
+  }
+}
+
+/**
+ * The one-time option matching a policy, falling back to the permanent
+ * one; cancelled when the agent offers neither.
+ */
+export function selectPermissionOption(options: ACPPermissionOption[], policy: ACPPermissionPolicy): ACPPermissionOutcome {
+  const kinds = policy === 'allow' ? ['allow_once', 'allow_always'] : ['reject_once', 'reject_always'];
+  for (const kind of kinds) {
+    const option = options.find(candidate => candidate.kind === kind);
+    if (option) {
+      return { outcome: 'selected', optionId: option.optionId };
+    }
+  }
+  return { outcome: 'cancelled' };
+}
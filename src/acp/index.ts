@@ -0,0 +1,13 @@
+/**
+ * Agent Client Protocol: a connector that runs ACP agents as subprocesses
+ * and answers their file and permission requests.
+ *
+ * The VS Code host lives in ./vscode-host and is not re-exported here, so
+ * this module stays usable outside VS Code.
+ */
+
+export * from './protocol';
+export * from './connection';
+export * from './host';
+export * from './turn';
+export * from './connector';
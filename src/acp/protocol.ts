@@ -0,0 +1,185 @@
+import { JSON_RPC_ERROR_CODES } from '../mcp';
+
+/**
+ * Agent Client Protocol (ACP) message shapes: JSON-RPC over stdio between
+ * an editor (the client, here the orchestrator) and a coding agent.
+ * https://agentclientprotocol.com
+ */
+
+export const ACP_PROTOCOL_VERSION = 1;
+
+/** Error code agents return when the client has to authenticate first */
+export const ACP_AUTH_REQUIRED_CODE = -32000;
+
+export interface ACPImplementationInfo {
+  name: string;
+  title?: string;
+  version?: string;
+}
+
+export interface ACPClientCapabilities {
+  fs: { readTextFile: boolean; writeTextFile: boolean };
+  terminal?: boolean;
+}
+
+export interface ACPInitializeParams {
+  protocolVersion: number;
+  clientCapabilities: ACPClientCapabilities;
+  clientInfo?: ACPImplementationInfo;
+}
+
+export interface ACPAgentCapabilities {
+  loadSession?: boolean;
+  promptCapabilities?: { image?: boolean; audio?: boolean; embeddedContext?: boolean };
+  mcpCapabilities?: { http?: boolean; sse?: boolean };
+}
+
+export interface ACPAuthMethod {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export interface ACPInitializeResult {
+  protocolVersion: number;
+  agentCapabilities?: ACPAgentCapabilities;
+  authMethods?: ACPAuthMethod[];
+  agentInfo?: ACPImplementationInfo;
+}
+
+/** An MCP server the agent should connect to for the session */
+export interface ACPMcpServer {
+  name: string;
+  command: string;
+  args: string[];
+  env: Array<{ name: string; value: string }>;
+}
+
+export interface ACPNewSessionParams {
+  /** Absolute path the session works in */
+  cwd: string;
+  mcpServers: ACPMcpServer[];
+}
+
+export type ACPContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'resource'; resource: { uri: string; text: string; mimeType?: string } }
+  | { type: 'resource_link'; uri: string; name: string; mimeType?: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'audio'; data: string; mimeType: string };
+
+export interface ACPPromptParams {
+  sessionId: string;
+  prompt: ACPContentBlock[];
+}
+
+export type ACPStopReason = 'end_turn' | 'max_tokens' | 'max_turn_requests' | 'refusal' | 'cancelled';
+
+export type ACPToolKind = 'read' | 'edit' | 'delete' | 'move' | 'search' | 'execute' | 'think' | 'fetch' | 'other';
+
+export type ACPToolCallStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+
+export type ACPToolCallContent =
+  | { type: 'content'; content: ACPContentBlock }
+  | { type: 'diff'; path: string; oldText?: string | null; newText: string }
+  | { type: 'terminal'; terminalId: string };
+
+export interface ACPToolCall {
+  toolCallId: string;
+  title?: string;
+  kind?: ACPToolKind;
+  status?: ACPToolCallStatus;
+  content?: ACPToolCallContent[];
+  locations?: Array<{ path: string; line?: number }>;
+  rawInput?: unknown;
+}
+
+export interface ACPPlanEntry {
+  content: string;
+  priority: 'high' | 'medium' | 'low';
+  status: 'pending' | 'in_progress' | 'completed';
+}
+
+/** Updates an agent streams during a prompt turn; clients ignore kinds they do not know */
+export type ACPSessionUpdate =
+  | { sessionUpdate: 'agent_message_chunk'; content: ACPContentBlock }
+  | { sessionUpdate: 'user_message_chunk'; content: ACPContentBlock }
+  | { sessionUpdate: 'agent_thought_chunk'; content: ACPContentBlock }
+  | ({ sessionUpdate: 'tool_call' } & ACPToolCall)
+  | ({ sessionUpdate: 'tool_call_update' } & ACPToolCall)
+  | { sessionUpdate: 'plan'; entries: ACPPlanEntry[] };
+
+export interface ACPSessionNotification {
+  sessionId: string;
+  update: ACPSessionUpdate;
+}
+
+export type ACPPermissionOptionKind = 'allow_once' | 'allow_always' | 'reject_once' | 'reject_always';
+
+export interface ACPPermissionOption {
+  optionId: string;
+  name: string;
+  kind: ACPPermissionOptionKind;
+}
+
+export interface ACPRequestPermissionParams {
+  sessionId: string;
+  toolCall: ACPToolCall;
+  options: ACPPermissionOption[];
+}
+
+export type ACPPermissionOutcome = { outcome: 'cancelled' } | { outcome: 'selected'; optionId: string };
+
+export interface ACPReadTextFileParams {
+  sessionId: string;
+
+  /** Absolute path */
+  path: string;
+
+  /** 1-based line to start at */
+  line?: number;
+
+  /** Most lines returned */
+  limit?: number;
+}
+
+export interface ACPWriteTextFileParams {
+  sessionId: string;
+
+  /** Absolute path */
+  path: string;
+  content: string;
+}
+
+/** Methods the client calls on the agent, and the agent on the client */
+export const ACP_METHODS = {
+  initialize: 'initialize',
+  authenticate: 'authenticate',
+  newSession: 'session/new',
+  prompt: 'session/prompt',
+  cancel: 'session/cancel',
+  sessionUpdate: 'session/update',
+  requestPermission: 'session/request_permission',
+  readTextFile: 'fs/read_text_file',
+  writeTextFile: 'fs/write_text_file'
+} as const;
+
+/**
+ * Error response returned by an ACP agent. Internal errors may succeed on
+ * retry; anything else will not.
+ */
+export class ACPRequestError extends Error {
+  constructor(
+    message: string,
+    public code: number,
+    public method: string,
+    public data?: unknown
+  ) {
+    super(message);
+    this.name = 'ACPRequestError';
+  }
+
+  get retryable(): boolean {
+    return this.code === JSON_RPC_ERROR_CODES.internalError;
+  }
+}
@@ -0,0 +1,104 @@
+import type { ToolProgress } from '../types';
+import type { ACPContentBlock, ACPPlanEntry, ACPSessionUpdate, ACPToolCall } from './protocol';
+
+/** A tool call as it stood when the turn ended */
+export interface ACPToolCallRecord {
+  id: string;
+  title: string;
+  kind?: string;
+  status?: string;
+  locations: string[];
+}
+
+/**
+ * Collects the updates of one prompt turn into an answer, and turns each
+ * into a progress report.
+ */
+export class ACPTurn {
+  private message = '';
+  private thoughts = '';
+  private plan: ACPPlanEntry[] = [];
+  private readonly toolCalls = new Map<string, ACPToolCallRecord>();
+  private updates = 0;
+
+  apply(update: ACPSessionUpdate): ToolProgress | undefined {
+    this.updates++;
+
+    switch (update.sessionUpdate) {
+      case 'agent_message_chunk':
+        this.message += blockText(update.content);
+        return this.progress(lastLine(this.message));
+
+      case 'agent_thought_chunk':
+        this.thoughts += blockText(update.content);
+        return this.progress(lastLine(this.thoughts));
+
+      case 'tool_call':
+      case 'tool_call_update': {
+        const record = this.recordToolCall(update);
+        return this.progress(`${record.title}${record.status ? ` (${record.status.replace('_', ' ')})` : ''}`);
+      }
+
+      case 'plan': {
+        this.plan = update.entries;
+        const current = update.entries.find(entry => entry.status === 'in_progress');
+        return current && this.progress(current.content);
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  get text(): string {
+    return this.message.trim();
+  }
+
+  get thinking(): string {
+    return this.thoughts.trim();
+  }
+
+  get planEntries(): ACPPlanEntry[] {
+    return this.plan;
+  }
+
+  get toolCallRecords(): ACPToolCallRecord[] {
+    return Array.from(this.toolCalls.values());
+  }
+
+  private recordToolCall(call: ACPToolCall): ACPToolCallRecord {
+    const existing = this.toolCalls.get(call.toolCallId);
+    const record: ACPToolCallRecord = {
+      id: call.toolCallId,
+      title: call.title ?? existing?.title ?? call.kind ?? 'Tool call',
+      kind: call.kind ?? existing?.kind,
+      status: call.status ?? existing?.status,
+      locations: call.locations?.map(location => location.path) ?? existing?.locations ?? []
+    };
+    this.toolCalls.set(record.id, record);
+    return record;
+  }
+
+  private progress(message: string): ToolProgress | undefined {
+    return message ? { progress: this.updates, message } : undefined;
+  }
+}
+
+/** Text of a content block; resources count by their text, other media not at all */
+export function blockText(block: ACPContentBlock): string {
+  switch (block.type) {
+    case 'text':
+      return block.text;
+    case 'resource':
+      return block.resource.text;
+    case 'resource_link':
+      return block.uri;
+    default:
+      return '';
+  }
+}
+
+function lastLine(text: string): string {
+  const lines = text.trim().split('\n');
+  return lines[lines.length - 1].slice(0, 200);
+}
@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { selectPermissionOption } from './host';
+import type { ACPClientHost } from './host';
+import type { ACPPermissionOutcome, ACPRequestPermissionParams } from './protocol';
+
+/**
+ * Answers an agent's requests through the VS Code workspace: reads see
+ * unsaved editor content, writes go through a WorkspaceEdit so they can be
+ * undone, and permission requests are put to the user.
+ */
+export class VSCodeACPHost implements ACPClientHost {
+  constructor(private agentName: string) {}
+
+  async readTextFile(filePath: string): Promise<string> {
+    const uri = vscode.Uri.file(filePath);
+    const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+    if (open) {
+      return open.getText();
+    }
+    return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+  }
+
+  async writeTextFile(filePath: string, content: string): Promise<void> {
+    const uri = vscode.Uri.file(filePath);
+    const edit = new vscode.WorkspaceEdit();
+
+    const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+    if (open) {
+      edit.replace(uri, new vscode.Range(open.positionAt(0), open.positionAt(open.getText().length)), content);
+    } else {
+      edit.createFile(uri, { overwrite: true, contents: new TextEncoder().encode(content) });
+    }
+
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      throw new Error(`Could not write ${vscode.workspace.asRelativePath(uri)}`);
+    }
+  }
+
+  async requestPermission(request: ACPRequestPermissionParams): Promise<ACPPermissionOutcome> {
+    const locations = request.toolCall.locations?.map(location => vscode.workspace.asRelativePath(location.path)) ?? [];
+    const choice = await vscode.window.showWarningMessage(
+      `${this.agentName}: ${request.toolCall.title ?? 'wants to use a tool'}`,
+      { modal: true, detail: locations.length > 0 ? `Affects ${locations.join(', ')}` : undefined },
+      ...request.options.map(option => option.name)
+    );
+
+    const option = request.options.find(candidate => candidate.name === choice);
+    // Dismissing the dialog is a refusal, not a cancelled turn
+    return option ? { outcome: 'selected', optionId: option.optionId } : selectPermissionOption(request.options, 'reject');
+  }
+}
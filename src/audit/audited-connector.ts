@@ -0,0 +1,142 @@
+import { randomUUID } from 'crypto';
+import { CancellationError, ToolConnector } from '../types';
+import type { ConfigurationSchema, Connection, InvokeOptions, Task, ToolResponse, WorkspaceContext } from '../types';
+import type { FileChange } from '../edits';
+import { hashContext } from './hash';
+import type { JsonlAuditLog } from './log';
+import type { RedactionRecord } from '../redaction';
+import type { EditsAuditEntry, InvocationAuditEntry, RedactionAuditEntry } from './types';
+
+/**
+ * Wraps a connector so every invoke() is written to the audit log. The
+ * response gets `metadata.auditId`, which links edits applied from it back
+ * to the invocation. Wrap inside any redaction so the log describes what was
+ * actually sent. Audit write failures are logged and never fail the call.
+ */
+export class AuditedConnector extends ToolConnector {
+  constructor(private inner: ToolConnector, readonly toolId: string, private log: JsonlAuditLog) {
+    super();
+  }
+
+  connect(): Promise<Connection> {
+    return this.inner.connect();
+  }
+
+  async invoke(task: Task, context: WorkspaceContext, options?: InvokeOptions): Promise<ToolResponse> {
+    const id = randomUUID();
+    const startedAt = Date.now();
+    const entry = (outcome: Pick<InvocationAuditEntry, 'status' | 'error' | 'errorType' | 'tokensUsed'>): InvocationAuditEntry => ({
+      kind: 'invocation',
+      id,
+      timestamp: new Date(startedAt).toISOString(),
+      toolId: this.toolId,
+      task: {
+        id: task.id,
+        type: task.type,
+        description: task.description,
+        priority: task.priority,
+        language: task.language,
+        complexity: task.complexity
+      },
+      contextHash: hashContext(context),
+      context: {
+        workspaceRoot: context.workspaceRoot,
+        files: context.openFiles.map(file => file.path),
+        selection: context.selection && {
+          filePath: context.selection.filePath,
+          start: context.selection.start,
+          end: context.selection.end
+        }
+      },
+      ...outcome,
+      durationMs: Date.now() - startedAt
+    });
+
+    let response: ToolResponse;
+    try {
+      response = await this.inner.invoke(task, context, options);
+    } catch (error) {
+      this.write(entry({
+        status: error instanceof CancellationError ? 'cancelled' : 'error',
+        error: error instanceof Error ? error.message : String(error),
+        errorType: error instanceof Error ? error.constructor.name : 'Error'
+      }));
+      throw error;
+    }
+
+    this.write(entry({
+      status: response.metadata?.cancelled ? 'cancelled' : response.success ? 'success' : 'failure',
+      error: response.error,
+      errorType: response.metadata?.errorType,
+      tokensUsed: response.metadata?.tokensUsed
+    }));
+    return { ...response, metadata: { ...response.metadata, auditId: id } };
+  }
+
+  testHealth(): Promise<boolean> {
+    return this.inner.testHealth();
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  getConfigurationSchema(): ConfigurationSchema {
+    return this.inner.getConfigurationSchema();
+  }
+
+  private write(entry: InvocationAuditEntry): void {
+    this.log.append(entry).catch(error => console.error(`Could not write audit entry for ${this.toolId}:`, error));
+  }
+}
+
+/**
+ * Convenience wrapper: `withAudit(connector, 'my-tool', log)`
+ */
+export function withAudit(connector: ToolConnector, toolId: string, log: JsonlAuditLog): AuditedConnector {
+  return new AuditedConnector(connector, toolId, log);
+}
+
+/**
+ * Record edits applied from a tool response. The response's
+ * `metadata.auditId` links them to the invocation that produced them.
+ */
+export function recordAppliedEdits(log: JsonlAuditLog, response: ToolResponse, changes: FileChange[]): Promise<void> {
+  const entry: EditsAuditEntry = {
+    kind: 'edits',
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    invocationId: response.metadata?.auditId,
+    toolId: response.toolId,
+    files: changes.map(change => ({
+      path: change.path,
+      hunks: change.hunks.length,
+      linesAdded: change.hunks.reduce((total, hunk) => total + hunk.added.length, 0),
+      linesRemoved: change.hunks.reduce((total, hunk) => total + hunk.removed.length, 0)
+    }))
+  };
+  return log.append(entry);
+}
+
+/**
+ * Record what the redactor removed from a request, summed per rule.
+ */
+export function recordRedaction(log: JsonlAuditLog, record: RedactionRecord): Promise<void> {
+  const counts = new Map<string, number>();
+  for (const finding of record.findings) {
+    counts.set(finding.rule, (counts.get(finding.rule) ?? 0) + finding.count);
+  }
+
+  const entry: RedactionAuditEntry = {
+    kind: 'redaction',
+    id: randomUUID(),
+    timestamp: record.timestamp.toISOString(),
+    toolId: record.toolId,
+    taskId: record.taskId,
+    taskType: record.taskType,
+    trust: record.trust,
+    redactions: Array.from(counts, ([rule, count]) => ({ rule, count })),
+    excludedFiles: record.excludedFiles
+  };
+  return log.append(entry);
+}
@@ -0,0 +1,20 @@
+import { createHash } from 'crypto';
+import type { WorkspaceContext } from '../types';
+
+/** JSON with object keys sorted, so equal values always serialize the same */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      return item;
+    }
+    return Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]));
+  });
+}
+
+/**
+ * SHA-256 (hex) of a context. Two requests with the same hash sent exactly
+ * the same files, selection, project info and environment.
+ */
+export function hashContext(context: WorkspaceContext): string {
+  return createHash('sha256').update(stableStringify(context)).digest('hex');
+}
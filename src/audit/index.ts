@@ -0,0 +1,9 @@
+/**
+ * Append-only audit log of tool invocations, the edits applied from them
+ * and what was redacted from requests, with rotation, queries and export.
+ */
+
+export * from './types';
+export * from './hash';
+export * from './log';
+export * from './audited-connector';
@@ -0,0 +1,240 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { AuditEntry, AuditQuery } from './types';
+
+export interface JsonlAuditLogOptions {
+  /** Directory the log files are kept in */
+  directory: string;
+
+  /** File name without extension (default 'audit': audit.jsonl, audit.1.jsonl, ...) */
+  baseName?: string;
+
+  /** Size at which the current file is rotated (bytes, default 5 MB) */
+  maxFileSize?: number;
+
+  /** Rotated files kept besides the current one (default 5) */
+  maxFiles?: number;
+}
+
+export type AuditExportFormat = 'jsonl' | 'json';
+
+/**
+ * Append-only audit log: one JSON entry per line. When the current file
+ * would grow past maxFileSize it is renamed to `<base>.1.jsonl`, older
+ * files move up one number, and the oldest beyond maxFiles is deleted.
+ * Writes are queued, so entries keep their order and never interleave.
+ */
+export class JsonlAuditLog {
+  private readonly baseName: string;
+  private readonly maxFileSize: number;
+  private readonly maxFiles: number;
+  private queue: Promise<void> = Promise.resolve();
+  private currentSize: number | undefined;
+
+  constructor(private options: JsonlAuditLogOptions) {
+    this.baseName = options.baseName ?? 'audit';
+    this.maxFileSize = options.maxFileSize ?? 5 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+  }
+
+  /** Path of the file entries are appended to */
+  get currentFile(): string {
+    return this.fileAt(0);
+  }
+
+  append(entry: AuditEntry): Promise<void> {
+    const serialized = JSON.stringify(entry) + '\n';
+    return this.enqueue(async () => {
+      let line = serialized;
+      let size = this.currentSize;
+      if (size === undefined) {
+        await fs.mkdir(this.options.directory, { recursive: true });
+        size = Math.max(0, await fileSize(this.currentFile));
+        // Finish a line cut short by a crash so the new entry stays readable
+        if (size > 0 && !(await endsWithNewline(this.currentFile))) {
+          line = '\n' + line;
+        }
+      }
+      const bytes = Buffer.byteLength(line);
+
+      this.currentSize = size;
+      if (size > 0 && size + bytes > this.maxFileSize) {
+        await this.rotateFiles();
+        this.currentSize = 0;
+      }
+
+      await fs.appendFile(this.currentFile, line, 'utf8');
+      this.currentSize += bytes;
+    });
+  }
+
+  /** Start a new file now, whatever the size of the current one */
+  rotate(): Promise<void> {
+    return this.enqueue(async () => {
+      if (await fileSize(this.currentFile) > 0) {
+        await this.rotateFiles();
+      }
+      this.currentSize = 0;
+    });
+  }
+
+  /** Existing log files, oldest first */
+  async files(): Promise<string[]> {
+    const files: string[] = [];
+    for (let index = this.maxFiles; index >= 0; index--) {
+      if (await fileSize(this.fileAt(index)) >= 0) {
+        files.push(this.fileAt(index));
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Entries matching the query, oldest first. Lines that cannot be parsed
+   * (e.g. cut short by a crash) are skipped.
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.queue;
+
+    const entries: AuditEntry[] = [];
+    for (const file of await this.files()) {
+      const text = await fs.readFile(file, 'utf8').catch(() => '');
+      for (const line of text.split('\n')) {
+        const entry = parseEntry(line);
+        if (entry && matchesAuditQuery(entry, query)) {
+          entries.push(entry);
+        }
+      }
+    }
+
+    return query.limit !== undefined ? entries.slice(Math.max(0, entries.length - query.limit)) : entries;
+  }
+
+  /**
+   * Write the entries matching the query to a file, as JSON lines or one
+   * JSON array. Resolves to the number of entries written.
+   */
+  async export(targetPath: string, query: AuditQuery = {}, format: AuditExportFormat = 'jsonl'): Promise<number> {
+    const entries = await this.query(query);
+    const text = format === 'json'
+      ? JSON.stringify(entries, null, 2) + '\n'
+      : entries.map(entry => JSON.stringify(entry) + '\n').join('');
+
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    await fs.writeFile(targetPath, text, 'utf8');
+    return entries.length;
+  }
+
+  private async rotateFiles(): Promise<void> {
+    await fs.rm(this.fileAt(this.maxFiles), { force: true });
+    for (let index = this.maxFiles - 1; index >= 0; index--) {
+      if (await fileSize(this.fileAt(index)) >= 0) {
+        await fs.rename(this.fileAt(index), this.fileAt(index + 1));
+      }
+    }
+  }
+
+  private fileAt(index: number): string {
+    const name = index === 0 ? `${this.baseName}.jsonl` : `${this.baseName}.${index}.jsonl`;
+    return path.join(this.options.directory, name);
+  }
+
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const result = this.queue.then(operation);
+    // A failed write must not block the ones after it
+    this.queue = result.catch(() => {
+      this.currentSize = undefined;
+    });
+    return result;
+  }
+}
+
+/** Whether an entry matches every condition of a query */
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.kind && entry.kind !== query.kind) {
+    return false;
+  }
+  if (query.toolId && entry.toolId !== query.toolId) {
+    return false;
+  }
+
+  const time = Date.parse(entry.timestamp);
+  if (query.since !== undefined && time < toTime(query.since)) {
+    return false;
+  }
+  if (query.until !== undefined && time > toTime(query.until)) {
+    return false;
+  }
+
+  if (entry.kind === 'redaction') {
+    return !query.status && !query.invocationId && !query.contextHash &&
+      (!query.taskId || entry.taskId === query.taskId) &&
+      (!query.file || entry.excludedFiles.some(file => file.endsWith(query.file!))) &&
+      (!query.text || entry.redactions.some(redaction => redaction.rule.toLowerCase().includes(query.text!.toLowerCase())));
+  }
+
+  const invocationId = entry.kind === 'invocation' ? entry.id : entry.invocationId;
+  if (query.invocationId && invocationId !== query.invocationId) {
+    return false;
+  }
+
+  if (entry.kind === 'edits') {
+    return !query.status && !query.taskId && !query.contextHash && !query.text &&
+      (!query.file || entry.files.some(file => file.path.endsWith(query.file!)));
+  }
+
+  if (query.status && entry.status !== query.status) {
+    return false;
+  }
+  if (query.taskId && entry.task.id !== query.taskId) {
+    return false;
+  }
+  if (query.contextHash && entry.contextHash !== query.contextHash) {
+    return false;
+  }
+  if (query.file && !entry.context.files.some(file => file.endsWith(query.file!))) {
+    return false;
+  }
+  if (query.text) {
+    const needle = query.text.toLowerCase();
+    return `${entry.task.description}\n${entry.error ?? ''}`.toLowerCase().includes(needle);
+  }
+  return true;
+}
+
+function parseEntry(line: string): AuditEntry | undefined {
+  if (line.trim().length === 0) {
+    return undefined;
+  }
+  try {
+    const entry = JSON.parse(line);
+    return entry && (entry.kind === 'invocation' || entry.kind === 'edits' || entry.kind === 'redaction') ? entry as AuditEntry : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toTime(value: string | number): number {
+  return typeof value === 'number' ? value : Date.parse(value);
+}
+
+async function endsWithNewline(filePath: string): Promise<boolean> {
+  const file = await fs.open(filePath, 'r');
+  try {
+    const { size } = await file.stat();
+    const buffer = Buffer.alloc(1);
+    await file.read(buffer, 0, 1, size - 1);
+    return buffer[0] === 0x0a;
+  } finally {
+    await file.close();
+  }
+}
+
+/** Size in bytes, or -1 when the file does not exist */
+async function fileSize(filePath: string): Promise<number> {
+  try {
+    return (await fs.stat(filePath)).size;
+  } catch {
+    return -1;
+  }
+}
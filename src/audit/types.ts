@@ -0,0 +1,107 @@
+import type { TrustLevel } from '../redaction';
+import type { TaskPriority, TaskType, TextPosition } from '../types';
+
+export type InvocationStatus = 'success' | 'failure' | 'cancelled' | 'error';
+
+/**
+ * One ToolConnector.invoke() call. `status` is 'failure' when the tool
+ * reported failure and 'error' when the connector threw.
+ */
+export interface InvocationAuditEntry {
+  kind: 'invocation';
+
+  /** Also set on the response as metadata.auditId */
+  id: string;
+
+  /** ISO 8601 */
+  timestamp: string;
+
+  toolId: string;
+
+  task: {
+    id?: string;
+    type: TaskType;
+    description: string;
+    priority: TaskPriority;
+    language?: string;
+    complexity?: string;
+  };
+
+  /** SHA-256 of the context as the connector received it */
+  contextHash: string;
+
+  /** What the context contained, without the content */
+  context: {
+    workspaceRoot: string;
+    files: string[];
+    selection?: { filePath: string; start: TextPosition; end: TextPosition };
+  };
+
+  status: InvocationStatus;
+  error?: string;
+  errorType?: string;
+
+  durationMs: number;
+  tokensUsed?: number;
+}
+
+/**
+ * Edits applied to the workspace from a tool response.
+ */
+export interface EditsAuditEntry {
+  kind: 'edits';
+  id: string;
+  timestamp: string;
+
+  /** Invocation the edits came from, when known */
+  invocationId?: string;
+  toolId: string;
+
+  files: Array<{ path: string; hunks: number; linesAdded: number; linesRemoved: number }>;
+}
+
+/**
+ * Secrets and files removed from a request before it reached a tool. Only
+ * the rules that matched are kept, never the removed values.
+ */
+export interface RedactionAuditEntry {
+  kind: 'redaction';
+  id: string;
+  timestamp: string;
+  toolId: string;
+  taskId?: string;
+  taskType: string;
+  trust: TrustLevel;
+
+  /** Matches per rule over the whole request */
+  redactions: Array<{ rule: string; count: number }>;
+
+  excludedFiles: string[];
+}
+
+export type AuditEntry = InvocationAuditEntry | EditsAuditEntry | RedactionAuditEntry;
+
+export interface AuditQuery {
+  kind?: AuditEntry['kind'];
+  toolId?: string;
+  status?: InvocationStatus;
+
+  /** Entries for this invocation id: the invocation and edits from it */
+  invocationId?: string;
+
+  taskId?: string;
+  contextHash?: string;
+
+  /** Entries that sent, edited or left out a file whose path ends with this */
+  file?: string;
+
+  /** Case-insensitive text in the task description, error or redaction rule */
+  text?: string;
+
+  /** ISO 8601 or epoch ms; inclusive */
+  since?: string | number;
+  until?: string | number;
+
+  /** Most entries returned, newest kept */
+  limit?: number;
+}
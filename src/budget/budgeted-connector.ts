@@ -0,0 +1,66 @@
+import { classifyError, isRetryable } from '../resilience';
+import { BudgetExceededError, CancellationError, RateLimitError, ToolConnector } from '../types';
+import type { ConfigurationSchema, Connection, InvokeOptions, Task, ToolResponse, WorkspaceContext } from '../types';
+import type { BudgetTracker } from './tracker';
+
+/**
+ * Wraps a connector so every invoke() waits for the tool's rate limits and
+ * is refused once its daily quota, or that of the workflow in the task's
+ * metadata, is used up. Tokens reported in the response count against both.
+ */
+export class BudgetedConnector extends ToolConnector {
+  constructor(private inner: ToolConnector, readonly toolId: string, private tracker: BudgetTracker) {
+    super();
+  }
+
+  connect(): Promise<Connection> {
+    return this.inner.connect();
+  }
+
+  async invoke(task: Task, context: WorkspaceContext, options?: InvokeOptions): Promise<ToolResponse> {
+    const workflowId = typeof task.metadata?.workflowId === 'string' ? task.metadata.workflowId : undefined;
+
+    try {
+      await this.tracker.acquire(this.toolId, { workflowId, cancellationToken: options?.cancellationToken });
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      return {
+        success: false,
+        error: failure.message,
+        toolId: this.toolId,
+        metadata: {
+          taskType: task.type,
+          errorType: failure.constructor.name,
+          retryable: isRetryable(classifyError(failure)),
+          cancelled: failure instanceof CancellationError,
+          budgetScope: failure instanceof BudgetExceededError ? failure.scope : undefined,
+          retryAfterMs: failure instanceof RateLimitError ? failure.retryAfterMs : undefined
+        }
+      };
+    }
+
+    const response = await this.inner.invoke(task, context, options);
+    const tokensUsed = response.metadata?.tokensUsed;
+    this.tracker.record(this.toolId, typeof tokensUsed === 'number' ? tokensUsed : undefined, workflowId);
+    return response;
+  }
+
+  testHealth(): Promise<boolean> {
+    return this.inner.testHealth();
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  getConfigurationSchema(): ConfigurationSchema {
+    return this.inner.getConfigurationSchema();
+  }
+}
+
+/**
+ * Convenience wrapper: `withBudget(connector, 'my-tool', tracker)`
+ */
+export function withBudget(connector: ToolConnector, toolId: string, tracker: BudgetTracker): BudgetedConnector {
+  return new BudgetedConnector(connector, toolId, tracker);
+}
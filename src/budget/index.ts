@@ -0,0 +1,9 @@
+/**
+ * Per-tool and per-workflow budgets: request rate limits that queue, and
+ * daily token and cost quotas that routing moves past once used up.
+ */
+
+export * from './types';
+export * from './storage';
+export * from './tracker';
+export * from './budgeted-connector';
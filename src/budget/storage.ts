@@ -0,0 +1,55 @@
+import type { BudgetUsage } from './types';
+
+/**
+ * Usage per budget, keyed by `tool:<id>` or `workflow:<id>`.
+ */
+export type BudgetUsageSnapshot = Record<string, BudgetUsage>;
+
+/**
+ * Where the budget tracker keeps daily usage between sessions.
+ */
+export interface BudgetStorage {
+  load(): Promise<BudgetUsageSnapshot>;
+  save(usage: BudgetUsageSnapshot): Promise<void>;
+}
+
+/**
+ * Structural subset of vscode.Memento, so globalState can be passed in
+ * without this module depending on VS Code.
+ */
+export interface BudgetMemento {
+  get<T>(key: string): T | undefined;
+  update(key: string, value: unknown): PromiseLike<void>;
+}
+
+/**
+ * Keeps usage in a Memento. Quotas protect an account rather than a
+ * workspace, so this is normally ExtensionContext.globalState.
+ */
+export class MementoBudgetStorage implements BudgetStorage {
+  constructor(private memento: BudgetMemento, private key = 'aiOrchestration.budgets') {}
+
+  async load(): Promise<BudgetUsageSnapshot> {
+    const usage = this.memento.get<BudgetUsageSnapshot>(this.key);
+    return usage && typeof usage === 'object' ? usage : {};
+  }
+
+  async save(usage: BudgetUsageSnapshot): Promise<void> {
+    await this.memento.update(this.key, usage);
+  }
+}
+
+/**
+ * Non-persistent storage, for tests and for running outside VS Code.
+ */
+export class InMemoryBudgetStorage implements BudgetStorage {
+  private usage: BudgetUsageSnapshot = {};
+
+  async load(): Promise<BudgetUsageSnapshot> {
+    return { ...this.usage };
+  }
+
+  async save(usage: BudgetUsageSnapshot): Promise<void> {
+    this.usage = { ...usage };
+  }
+}
@@ -0,0 +1,435 @@
+import { BudgetExceededError, CancellationError, RateLimitError } from '../types';
+import type { CancellationToken, Disposable, RateLimit } from '../types';
+import type { ToolBudgetSource } from '../routing';
+import { TypedEventEmitter } from '../utils';
+import { InMemoryBudgetStorage } from './storage';
+import type { BudgetStorage, BudgetUsageSnapshot } from './storage';
+import type { BudgetLimits, BudgetScope, BudgetStatus, BudgetUsage } from './types';
+
+export interface BudgetTrackerOptions {
+  /** Limits per tool id */
+  tools?: Record<string, BudgetLimits>;
+
+  /** Limits for tools without an entry in tools */
+  defaultToolLimits?: BudgetLimits;
+
+  /** Limits per workflow id, shared by every run of the workflow */
+  workflows?: Record<string, BudgetLimits>;
+
+  /** Limits for workflows without an entry in workflows */
+  defaultWorkflowLimits?: BudgetLimits;
+
+  /** Estimated cost per 1000 tokens, by tool id */
+  tokenPricing?: Record<string, number>;
+
+  /** Rate limit a tool declares itself, enforced alongside requestsPerMinute */
+  declaredRateLimit?: (toolId: string) => RateLimit | undefined;
+
+  /** Share of a daily quota at which budgetLow fires (default 0.8) */
+  warnAt?: number;
+
+  /** Longest a request queues behind a rate limit before failing (ms) */
+  maxQueueWait?: number;
+
+  /** Defaults to in-memory storage */
+  storage?: BudgetStorage;
+
+  /** Delay before usage changes are written to storage (ms) */
+  saveDelay?: number;
+}
+
+export interface BudgetTrackerEvents {
+  /** A daily quota passed warnAt; at most once per budget and day */
+  budgetLow: (status: BudgetStatus) => void;
+
+  /** A daily quota ran out; at most once per budget and day */
+  budgetExhausted: (status: BudgetStatus) => void;
+
+  /** A request is waiting for a rate limit */
+  throttled: (scope: BudgetScope, id: string, waitMs: number) => void;
+}
+
+export interface BudgetRequest {
+  /** Workflow the request is for, whose budget it also counts against */
+  workflowId?: string;
+
+  cancellationToken?: CancellationToken;
+}
+
+interface RateWindow {
+  requests: number;
+  periodMs: number;
+}
+
+const PERIOD_MS: Record<RateLimit['period'], number> = { second: 1000, minute: 60000, hour: 3600000 };
+
+/**
+ * Enforces request rates and daily token and cost quotas per tool and per
+ * workflow. Requests over a rate limit queue in arrival order; requests
+ * against a used-up quota fail with BudgetExceededError until the next day.
+ * Implements ToolBudgetSource so AdaptiveTaskRouter can route around tools
+ * whose quota is gone.
+ */
+export class BudgetTracker extends TypedEventEmitter<BudgetTrackerEvents> implements ToolBudgetSource {
+  private usage: BudgetUsageSnapshot = {};
+  private readonly storage: BudgetStorage;
+  private readonly warnAt: number;
+  private readonly maxQueueWait: number;
+
+  /** Start times of recent requests, per budget */
+  private readonly starts = new Map<string, number[]>();
+
+  /** Tail of the rate-limit queue, per budget */
+  private readonly queues = new Map<string, Promise<void>>();
+
+  /** Last warning raised per budget, so each fires once a day */
+  private readonly notified = new Map<string, { day: string; exhausted: boolean }>();
+
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private options: BudgetTrackerOptions = {}) {
+    super();
+    this.storage = options.storage ?? new InMemoryBudgetStorage();
+    this.warnAt = options.warnAt ?? 0.8;
+    this.maxQueueWait = options.maxQueueWait ?? 60000;
+  }
+
+  /**
+   * Load persisted usage for today, adding it to anything recorded since
+   * startup.
+   */
+  async load(): Promise<void> {
+    const persisted = await this.storage.load();
+    const today = localDay(new Date());
+
+    for (const [key, stored] of Object.entries(persisted)) {
+      if (stored?.day !== today) {
+        continue;
+      }
+      const current = this.usage[key]?.day === today ? this.usage[key] : undefined;
+      this.usage[key] = {
+        day: today,
+        requests: stored.requests + (current?.requests ?? 0),
+        tokens: stored.tokens + (current?.tokens ?? 0),
+        cost: stored.cost + (current?.cost ?? 0)
+      };
+    }
+  }
+
+  /**
+   * Wait for a request to the tool to be allowed. Throws BudgetExceededError
+   * when the tool's or workflow's quota is used up, RateLimitError when the
+   * wait would exceed maxQueueWait and CancellationError when cancelled
+   * while queued.
+   */
+  async acquire(toolId: string, request: BudgetRequest = {}): Promise<void> {
+    this.assertAvailable(toolId, request.workflowId);
+
+    const queuedSince = Date.now();
+    if (request.workflowId) {
+      await this.takeSlot('workflow', request.workflowId, request.cancellationToken, queuedSince);
+    }
+    await this.takeSlot('tool', toolId, request.cancellationToken, queuedSince);
+
+    // Requests ahead in the queue may have used up the quota meanwhile
+    this.assertAvailable(toolId, request.workflowId);
+
+    this.usageOf('tool', toolId).requests++;
+    if (request.workflowId) {
+      this.usageOf('workflow', request.workflowId).requests++;
+    }
+    this.scheduleSave();
+  }
+
+  /** Count the tokens a request to the tool used */
+  record(toolId: string, tokensUsed: number | undefined, workflowId?: string): void {
+    if (!tokensUsed || tokensUsed <= 0) {
+      return;
+    }
+
+    const cost = (tokensUsed / 1000) * (this.options.tokenPricing?.[toolId] ?? 0);
+    this.add('tool', toolId, tokensUsed, cost);
+    if (workflowId) {
+      this.add('workflow', workflowId, tokensUsed, cost);
+    }
+    this.scheduleSave();
+  }
+
+  getStatus(scope: BudgetScope, id: string): BudgetStatus {
+    const now = new Date();
+    const limits = this.limitsFor(scope, id);
+    const stored = this.usage[budgetKey(scope, id)];
+    const usage = stored?.day === localDay(now) ? { ...stored } : emptyUsage(now);
+
+    const shares: number[] = [];
+    let exhaustedBecause: string | undefined;
+    if (limits.tokensPerDay !== undefined) {
+      shares.push(share(usage.tokens, limits.tokensPerDay));
+      if (usage.tokens >= limits.tokensPerDay) {
+        exhaustedBecause = `used ${usage.tokens} of ${limits.tokensPerDay} tokens today`;
+      }
+    }
+    if (limits.costPerDay !== undefined) {
+      shares.push(share(usage.cost, limits.costPerDay));
+      if (usage.cost >= limits.costPerDay) {
+        exhaustedBecause ??= `spent ${usage.cost.toFixed(2)} of ${limits.costPerDay} today`;
+      }
+    }
+
+    return {
+      scope,
+      id,
+      limits,
+      usage,
+      used: Math.max(0, ...shares),
+      exhaustedBecause,
+      resetsAt: nextMidnight(now)
+    };
+  }
+
+  /** Status of every budget with limits or usage today */
+  getStatuses(): BudgetStatus[] {
+    const today = localDay(new Date());
+    const keys = new Set<string>([
+      ...Object.keys(this.options.tools ?? {}).map(id => budgetKey('tool', id)),
+      ...Object.keys(this.options.workflows ?? {}).map(id => budgetKey('workflow', id)),
+      ...Object.entries(this.usage).filter(([, usage]) => usage.day === today).map(([key]) => key)
+    ]);
+
+    return Array.from(keys, key => {
+      const [scope, id] = splitKey(key);
+      return this.getStatus(scope, id);
+    });
+  }
+
+  exhaustedReason(toolId: string): string | undefined {
+    return this.getStatus('tool', toolId).exhaustedBecause;
+  }
+
+  /** Write pending changes now */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    const today = localDay(new Date());
+    await this.storage.save(Object.fromEntries(Object.entries(this.usage).filter(([, usage]) => usage.day === today)));
+  }
+
+  async dispose(): Promise<void> {
+    if (this.saveTimer) {
+      await this.flush();
+    }
+    this.removeAllListeners();
+  }
+
+  private assertAvailable(toolId: string, workflowId: string | undefined): void {
+    const budgets: Array<[BudgetScope, string]> = [['tool', toolId]];
+    if (workflowId) {
+      budgets.push(['workflow', workflowId]);
+    }
+
+    for (const [scope, id] of budgets) {
+      const status = this.getStatus(scope, id);
+      if (status.exhaustedBecause) {
+        throw new BudgetExceededError(
+          `${scope === 'tool' ? 'Tool' : 'Workflow'} '${id}' has ${status.exhaustedBecause}; ` +
+            `its budget resets at ${status.resetsAt.toLocaleString()}`,
+          scope,
+          id,
+          status.resetsAt
+        );
+      }
+    }
+  }
+
+  /**
+   * Queue behind earlier requests to the same budget, then wait until its
+   * rate limits allow one more request and note its start.
+   */
+  private async takeSlot(scope: BudgetScope, id: string, token: CancellationToken | undefined, queuedSince: number): Promise<void> {
+    const windows = this.windowsFor(scope, id);
+    if (windows.length === 0) {
+      return;
+    }
+
+    const key = budgetKey(scope, id);
+    const ahead = this.queues.get(key) ?? Promise.resolve();
+    let leave!: () => void;
+    const done = new Promise<void>(resolve => {
+      leave = resolve;
+    });
+    const queue = ahead.then(() => done);
+    this.queues.set(key, queue);
+
+    try {
+      await untilCancelled(ahead, token);
+      for (;;) {
+        const now = Date.now();
+        const wait = this.waitTime(key, windows, now);
+        if (wait <= 0) {
+          this.starts.get(key)!.push(now);
+          return;
+        }
+        if (now + wait - queuedSince > this.maxQueueWait) {
+          throw new RateLimitError(
+            `${scope === 'tool' ? 'Tool' : 'Workflow'} '${id}' is over its rate limit and the queue is longer than ${Math.round(this.maxQueueWait / 1000)}s`,
+            Number.isFinite(wait) ? wait : undefined
+          );
+        }
+
+        this.emit('throttled', scope, id, wait);
+        await sleep(wait, token);
+      }
+    } finally {
+      leave();
+      if (this.queues.get(key) === queue) {
+        this.queues.delete(key);
+      }
+    }
+  }
+
+  /** How long until every window has room for another request (ms) */
+  private waitTime(key: string, windows: RateWindow[], now: number): number {
+    const longest = Math.max(...windows.map(window => window.periodMs));
+    const starts = (this.starts.get(key) ?? []).filter(start => start > now - longest);
+    this.starts.set(key, starts);
+
+    let wait = 0;
+    for (const window of windows) {
+      if (window.requests <= 0) {
+        return Infinity;
+      }
+      const inWindow = starts.filter(start => start > now - window.periodMs);
+      if (inWindow.length >= window.requests) {
+        wait = Math.max(wait, inWindow[inWindow.length - window.requests] + window.periodMs - now);
+      }
+    }
+    return wait;
+  }
+
+  private windowsFor(scope: BudgetScope, id: string): RateWindow[] {
+    const windows: RateWindow[] = [];
+    const perMinute = this.limitsFor(scope, id).requestsPerMinute;
+    if (perMinute !== undefined) {
+      windows.push({ requests: perMinute, periodMs: PERIOD_MS.minute });
+    }
+
+    const declared = scope === 'tool' ? this.options.declaredRateLimit?.(id) : undefined;
+    if (declared) {
+      windows.push({ requests: declared.requests, periodMs: PERIOD_MS[declared.period] });
+    }
+    return windows;
+  }
+
+  private limitsFor(scope: BudgetScope, id: string): BudgetLimits {
+    return scope === 'tool'
+      ? this.options.tools?.[id] ?? this.options.defaultToolLimits ?? {}
+      : this.options.workflows?.[id] ?? this.options.defaultWorkflowLimits ?? {};
+  }
+
+  /** Today's usage entry for a budget, starting a fresh one each day */
+  private usageOf(scope: BudgetScope, id: string): BudgetUsage {
+    const key = budgetKey(scope, id);
+    const now = new Date();
+    if (this.usage[key]?.day !== localDay(now)) {
+      this.usage[key] = emptyUsage(now);
+    }
+    return this.usage[key];
+  }
+
+  private add(scope: BudgetScope, id: string, tokens: number, cost: number): void {
+    const usage = this.usageOf(scope, id);
+    usage.tokens += tokens;
+    usage.cost += cost;
+
+    const status = this.getStatus(scope, id);
+    const key = budgetKey(scope, id);
+    const notified = this.notified.get(key);
+    const notifiedToday = notified?.day === usage.day ? notified : undefined;
+
+    if (status.exhaustedBecause) {
+      if (!notifiedToday?.exhausted) {
+        this.notified.set(key, { day: usage.day, exhausted: true });
+        this.emit('budgetExhausted', status);
+      }
+    } else if (status.used >= this.warnAt && !notifiedToday) {
+      this.notified.set(key, { day: usage.day, exhausted: false });
+      this.emit('budgetLow', status);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush().catch(error => console.error('Failed to save budget usage:', error));
+    }, this.options.saveDelay ?? 2000);
+  }
+}
+
+function budgetKey(scope: BudgetScope, id: string): string {
+  return `${scope}:${id}`;
+}
+
+function splitKey(key: string): [BudgetScope, string] {
+  const separator = key.indexOf(':');
+  return [key.slice(0, separator) as BudgetScope, key.slice(separator + 1)];
+}
+
+function share(used: number, limit: number): number {
+  return limit > 0 ? used / limit : 1;
+}
+
+function emptyUsage(now: Date): BudgetUsage {
+  return { day: localDay(now), requests: 0, tokens: 0, cost: 0 };
+}
+
+function localDay(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function nextMidnight(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+}
+
+/** Settle with the promise, or reject with CancellationError once cancelled */
+function untilCancelled(promise: Promise<void>, token: CancellationToken | undefined): Promise<void> {
+  if (!token) {
+    return promise;
+  }
+  if (token.isCancellationRequested) {
+    return Promise.reject(new CancellationError());
+  }
+
+  return new Promise((resolve, reject) => {
+    let subscription: Disposable | undefined;
+    subscription = token.onCancellationRequested(() => {
+      subscription?.dispose();
+      reject(new CancellationError());
+    });
+    promise.then(
+      () => {
+        subscription?.dispose();
+        resolve();
+      },
+      error => {
+        subscription?.dispose();
+        reject(error);
+      }
+    );
+  });
+}
+
+function sleep(ms: number, token: CancellationToken | undefined): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const elapsed = new Promise<void>(resolve => {
+    timer = setTimeout(resolve, ms);
+  });
+  return untilCancelled(elapsed, token).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,43 @@
+/**
+ * Limits for one tool or workflow. Unset limits are not enforced.
+ */
+export interface BudgetLimits {
+  /** Requests started per minute; further requests queue */
+  requestsPerMinute?: number;
+
+  /** Tokens per calendar day (local time) */
+  tokensPerDay?: number;
+
+  /** Estimated spend per calendar day, in the currency of tokenPricing */
+  costPerDay?: number;
+}
+
+export type BudgetScope = 'tool' | 'workflow';
+
+/**
+ * What a tool or workflow has used on one day. Persisted, so quotas survive
+ * restarts.
+ */
+export interface BudgetUsage {
+  /** Local date the usage is for, YYYY-MM-DD */
+  day: string;
+  requests: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface BudgetStatus {
+  scope: BudgetScope;
+  id: string;
+  limits: BudgetLimits;
+  usage: BudgetUsage;
+
+  /** Share of the most used daily quota, 0-1; 0 without quotas */
+  used: number;
+
+  /** Why no further requests are let through today */
+  exhaustedBecause?: string;
+
+  /** When daily usage starts over */
+  resetsAt: Date;
+}
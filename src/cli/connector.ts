@@ -0,0 +1,307 @@
+import { constants, promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findExecutable } from '../discovery';
+import { classifyError, isRetryable } from '../resilience';
+import { CancellationError, TimeoutError, ToolConnector, ToolError } from '../types';
+import type { ConfigurationSchema, InvokeOptions, Task, ToolProgress, ToolResponse, WorkspaceContext } from '../types';
+import { CancellationTokenSource } from '../utils';
+import { LineBuffer, outputEventText, parseCLIOutput, stripAnsi } from './output';
+import { runProcess } from './process';
+import { formatCLIPrompt } from './prompt';
+import type { CLIOptions, CLIResult, CLIRunOptions } from './types';
+
+const DEFAULT_TIMEOUT = 5 * 60 * 1000;
+const HEALTH_CHECK_TIMEOUT = 10000;
+
+/** Longest progress message taken from a line of output */
+const MAX_PROGRESS_MESSAGE = 200;
+
+/**
+ * A CLI finished with an exit code that does not mean success, was killed
+ * by a signal, or reported an error in its JSON output.
+ */
+export class CLIExitError extends Error {
+  constructor(
+    message: string,
+    public exitCode: number | null,
+    public signal: NodeJS.Signals | null,
+    public stderr: string,
+    public retryable: boolean
+  ) {
+    super(message);
+    this.name = 'CLIExitError';
+  }
+}
+
+/**
+ * Connector for command-line AI agents (Claude Code, Gemini CLI, Aider,
+ * ...). Each invoke() runs the CLI once with the task prompt, reports its
+ * output as progress while it runs, and answers with the parsed output.
+ * Nothing is kept running between tasks.
+ */
+export class CLIConnector extends ToolConnector {
+  readonly toolId: string;
+  private executable: string | undefined;
+  private readonly running = new Set<CancellationTokenSource>();
+
+  constructor(private command: string, private options: CLIOptions = {}) {
+    super();
+    this.toolId = options.id ?? path.basename(command).replace(/\.(exe|cmd|bat)$/i, '');
+  }
+
+  /** Whether a command resolves to an executable, as a path or on PATH */
+  static async isAvailable(command: string): Promise<boolean> {
+    return (await resolveExecutable(command)) !== undefined;
+  }
+
+  /** Resolves the executable; fails when the CLI is not installed */
+  async connect(): Promise<{ executable: string }> {
+    this.executable ??= await resolveExecutable(this.command);
+    if (this.executable === undefined) {
+      throw new ToolError(`'${this.command}' is not installed or not on PATH`, this.toolId);
+    }
+    return { executable: this.executable };
+  }
+
+  async invoke(task: Task, context: WorkspaceContext, options: InvokeOptions = {}): Promise<ToolResponse> {
+    const startTime = Date.now();
+    let promptDirectory: string | undefined;
+
+    try {
+      if (options.cancellationToken?.isCancellationRequested) {
+        throw new CancellationError();
+      }
+
+      const input = this.options.input ?? 'args';
+      const prompt = formatCLIPrompt(task, context, this.options.includeContext);
+      // A redacted context has '.' as its root; that is no place to run in
+      const cwd = this.options.cwd ?? (path.isAbsolute(context.workspaceRoot) ? context.workspaceRoot : undefined);
+
+      let promptFile: string | undefined;
+      if (input === 'file') {
+        promptDirectory = await fs.mkdtemp(path.join(os.tmpdir(), `${this.toolId}-prompt-`));
+        promptFile = path.join(promptDirectory, 'prompt.md');
+        await fs.writeFile(promptFile, prompt, 'utf8');
+      }
+
+      const reportLine = this.progressReporter(options.onProgress);
+      const lines = new LineBuffer();
+      const result = await this.executeCommand(this.taskArgs(input, prompt, promptFile, cwd), {
+        cwd,
+        input: input === 'stdin' ? prompt : undefined,
+        cancellationToken: options.cancellationToken,
+        onOutput: (chunk, stream) => {
+          this.options.onOutput?.(chunk, stream);
+          if (stream === 'stdout') {
+            lines.push(chunk).forEach(reportLine);
+          }
+        }
+      });
+      lines.flush().forEach(reportLine);
+
+      this.checkResult(result);
+      const output = parseCLIOutput(result.stdout, this.options.outputFormat ?? 'text', this.options.extractText);
+      if (output.isError) {
+        throw new CLIExitError(`${this.toolId} reported an error: ${output.text || 'no details'}`, result.exitCode, null, result.stderr, false);
+      }
+
+      return {
+        success: true,
+        data: {
+          text: output.text,
+          codeBlocks: output.codeBlocks,
+          json: output.json,
+          events: output.events,
+          stderr: stripAnsi(result.stderr).trim() || undefined
+        },
+        toolId: this.toolId,
+        metadata: {
+          taskType: task.type,
+          toolUsed: this.command,
+          executionTime: result.durationMs,
+          tokensUsed: output.tokensUsed,
+          exitCode: result.exitCode
+        }
+      };
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      return {
+        success: false,
+        error: failure.message,
+        toolId: this.toolId,
+        metadata: {
+          taskType: task.type,
+          executionTime: Date.now() - startTime,
+          errorType: failure.constructor.name,
+          retryable: isRetryable(classifyError(failure)),
+          cancelled: failure instanceof CancellationError,
+          exitCode: failure instanceof CLIExitError ? failure.exitCode : undefined
+        }
+      };
+    } finally {
+      if (promptDirectory) {
+        await fs.rm(promptDirectory, { recursive: true, force: true }).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Run the CLI with arguments, using the connector's working directory,
+   * environment and limits unless overridden. disconnect() stops it.
+   */
+  async executeCommand(args: string[], options: CLIRunOptions = {}): Promise<CLIResult> {
+    const { executable } = await this.connect();
+
+    // Own token, so disconnect() can stop the run as well as the caller
+    const source = new CancellationTokenSource();
+    const subscription = options.cancellationToken?.onCancellationRequested(() => source.cancel());
+    this.running.add(source);
+
+    try {
+      return await runProcess(executable, args, {
+        cwd: this.options.cwd,
+        env: this.options.env,
+        timeout: this.options.timeout ?? DEFAULT_TIMEOUT,
+        killGracePeriod: this.options.killGracePeriod,
+        maxOutputSize: this.options.maxOutputSize,
+        onOutput: this.options.onOutput,
+        ...options,
+        cancellationToken: source.token
+      });
+    } finally {
+      subscription?.dispose();
+      this.running.delete(source);
+      source.dispose();
+    }
+  }
+
+  /** First line the CLI prints for its version arguments */
+  async getVersion(): Promise<string> {
+    const result = await this.executeCommand(this.options.versionArgs ?? ['--version'], { timeout: HEALTH_CHECK_TIMEOUT });
+    this.checkResult(result);
+    return stripAnsi(result.stdout || result.stderr).trim().split('\n')[0];
+  }
+
+  async testHealth(): Promise<boolean> {
+    try {
+      await this.getVersion();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Stops any running invocation */
+  async disconnect(): Promise<void> {
+    for (const source of Array.from(this.running)) {
+      source.cancel();
+    }
+    this.executable = undefined;
+  }
+
+  getConfigurationSchema(): ConfigurationSchema {
+    return {
+      type: 'object',
+      properties: {
+        args: { type: 'array', items: { type: 'string' }, description: 'Arguments; {prompt}, {promptFile} and {cwd} are replaced' },
+        input: { type: 'string', enum: ['args', 'stdin', 'file'], default: 'args' },
+        outputFormat: { type: 'string', enum: ['text', 'json', 'jsonl'], default: 'text' },
+        cwd: { type: 'string' },
+        env: { type: 'object', additionalProperties: { type: 'string' } },
+        timeout: { type: 'number', minimum: 0, default: DEFAULT_TIMEOUT },
+        successExitCodes: { type: 'array', items: { type: 'number' }, default: [0] },
+        retryableExitCodes: { type: 'array', items: { type: 'number' }, default: [] },
+        includeContext: { type: 'boolean', default: true }
+      }
+    };
+  }
+
+  private taskArgs(input: CLIOptions['input'], prompt: string, promptFile: string | undefined, cwd: string | undefined): string[] {
+    const template = this.options.args ?? [];
+    const hasPlaceholder = template.some(arg => arg.includes('{prompt}') || arg.includes('{promptFile}'));
+    const args = template.map(arg => arg
+      .replace(/\{promptFile\}/g, () => promptFile ?? '')
+      .replace(/\{prompt\}/g, () => prompt)
+      .replace(/\{cwd\}/g, () => cwd ?? process.cwd()));
+
+    if (!hasPlaceholder && input === 'args') {
+      args.push(prompt);
+    } else if (!hasPlaceholder && input === 'file' && promptFile) {
+      args.push(promptFile);
+    }
+    return args;
+  }
+
+  /** Throws for a run that was stopped or exited unsuccessfully */
+  private checkResult(result: CLIResult): void {
+    if (result.cancelled) {
+      throw new CancellationError();
+    }
+    if (result.timedOut) {
+      const timeout = this.options.timeout ?? DEFAULT_TIMEOUT;
+      throw new TimeoutError(`${this.toolId} did not finish within ${timeout} ms`, timeout);
+    }
+    if (result.outputLimitExceeded) {
+      throw new CLIExitError(`${this.toolId} produced more output than allowed`, null, null, result.stderr, false);
+    }
+
+    if (result.exitCode === null) {
+      // Killed from outside, e.g. out of memory; it may work next time
+      throw new CLIExitError(`${this.toolId} was killed by ${result.signal ?? 'a signal'}`, null, result.signal, result.stderr, true);
+    }
+    if (!(this.options.successExitCodes ?? [0]).includes(result.exitCode)) {
+      const details = lastLines(stripAnsi(result.stderr).trim() || stripAnsi(result.stdout).trim());
+      throw new CLIExitError(
+        `${this.toolId} exited with code ${result.exitCode}${details ? `: ${details}` : ''}`,
+        result.exitCode,
+        null,
+        result.stderr,
+        this.options.retryableExitCodes?.includes(result.exitCode) ?? false
+      );
+    }
+  }
+
+  /** Turns each line of stdout into a progress update */
+  private progressReporter(onProgress: ((progress: ToolProgress) => void) | undefined): (line: string) => void {
+    let count = 0;
+    const extractText = this.options.extractText ?? outputEventText;
+    const structured = this.options.outputFormat === 'jsonl';
+
+    return line => {
+      if (!onProgress) {
+        return;
+      }
+      let text = stripAnsi(line).trim();
+      if (structured && text.startsWith('{')) {
+        try {
+          text = extractText(JSON.parse(text))?.trim() ?? '';
+        } catch {
+          // Not an event; report the raw line
+        }
+      }
+      if (text.length === 0) {
+        return;
+      }
+      count++;
+      onProgress({ progress: count, message: text.split('\n')[0].slice(0, MAX_PROGRESS_MESSAGE) });
+    };
+  }
+}
+
+/** Path of the executable a command runs, or undefined when there is none */
+async function resolveExecutable(command: string): Promise<string | undefined> {
+  if (!/[\\/]/.test(command)) {
+    return findExecutable(command);
+  }
+  try {
+    await fs.access(command, process.platform === 'win32' ? constants.F_OK : constants.X_OK);
+    return path.resolve(command);
+  } catch {
+    return undefined;
+  }
+}
+
+function lastLines(text: string, count = 3): string {
+  return text.split('\n').slice(-count).join('\n');
+}
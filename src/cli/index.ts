@@ -0,0 +1,11 @@
+/**
+ * CLI connector: runs command-line AI agents, streams and parses their
+ * output, and stops the whole process tree on timeout or cancellation.
+ */
+
+export * from './types';
+export * from './process';
+export * from './output';
+export * from './prompt';
+export * from './connector';
+export * from './presets';
@@ -0,0 +1,165 @@
+import { extractCodeBlocks } from '../edits';
+import type { CLIOutput, CLIOutputFormat } from './types';
+
+const ANSI_ESCAPE = /\u001b\[[0-9;?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)/g;
+
+/** Keys CLIs commonly put their answer under, in order of preference */
+const TEXT_KEYS = ['result', 'response', 'text', 'content', 'message', 'output', 'msg'];
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_ESCAPE, '');
+}
+
+/**
+ * Splits streamed output into complete lines; the last, unfinished line is
+ * held back until more output or flush().
+ */
+export class LineBuffer {
+  private pending = '';
+
+  push(chunk: string): string[] {
+    const lines = (this.pending + chunk).split(/\r?\n/);
+    this.pending = lines.pop() ?? '';
+    return lines;
+  }
+
+  flush(): string[] {
+    const rest = this.pending;
+    this.pending = '';
+    return rest.length > 0 ? [rest] : [];
+  }
+}
+
+/**
+ * Make sense of a CLI's stdout. JSON output that does not parse falls back
+ * to text, and non-JSON lines in jsonl output are kept as text, so a CLI
+ * that mixes logging into its output still gives a usable answer.
+ */
+export function parseCLIOutput(
+  stdout: string,
+  format: CLIOutputFormat,
+  extractText: (event: unknown) => string | undefined = outputEventText
+): CLIOutput {
+  const output = stripAnsi(stdout);
+
+  if (format === 'json') {
+    const json = parseJson(output.trim());
+    if (json !== undefined) {
+      const text = extractText(json) ?? output.trim();
+      return { text, json, codeBlocks: extractCodeBlocks(text), ...usageOf([json]) };
+    }
+  }
+
+  if (format === 'jsonl') {
+    const events: unknown[] = [];
+    const texts: string[] = [];
+    let result: string | undefined;
+
+    for (const line of output.split(/\r?\n/)) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+      const event = parseJson(line.trim());
+      if (event === undefined) {
+        texts.push(line);
+        continue;
+      }
+      events.push(event);
+
+      const text = extractText(event);
+      if (text === undefined) {
+        continue;
+      }
+      // A final result event holds the whole answer
+      if (isRecord(event) && event.type === 'result') {
+        result = text;
+      } else {
+        texts.push(text);
+      }
+    }
+
+    const text = result ?? texts.join('\n');
+    return { text, events, codeBlocks: extractCodeBlocks(text), ...usageOf(events) };
+  }
+
+  const text = output.trim();
+  return { text, codeBlocks: extractCodeBlocks(text) };
+}
+
+/**
+ * Text of one JSON output value: a string, a known answer key, or the text
+ * parts of a `content` array (`[{ type: 'text', text }]`), looked for one
+ * level deep (`{ message: { content: [...] } }`).
+ */
+export function outputEventText(event: unknown, depth = 0): string | undefined {
+  if (typeof event === 'string') {
+    return event;
+  }
+  if (Array.isArray(event)) {
+    // Tool calls and other non-text parts are not part of the answer
+    const texts = event
+      .filter(part => !isRecord(part) || part.type === undefined || part.type === 'text')
+      .map(part => outputEventText(part, depth))
+      .filter((part): part is string => part !== undefined);
+    return texts.length > 0 ? texts.join('') : undefined;
+  }
+  if (!isRecord(event) || depth > 2) {
+    return undefined;
+  }
+
+  for (const key of TEXT_KEYS) {
+    const text = outputEventText(event[key], depth + 1);
+    if (text !== undefined) {
+      return text;
+    }
+  }
+  return undefined;
+}
+
+/** Token usage and error flag from JSON output, e.g. `usage: { input_tokens, output_tokens }` */
+function usageOf(values: unknown[]): Pick<CLIOutput, 'tokensUsed' | 'isError'> {
+  let tokensUsed: number | undefined;
+  let isError: boolean | undefined;
+
+  for (const value of values) {
+    if (!isRecord(value)) {
+      continue;
+    }
+    if (value.is_error === true || value.isError === true) {
+      isError = true;
+    }
+
+    const usage = value.usage ?? (isRecord(value.stats) ? value.stats : undefined);
+    if (isRecord(usage)) {
+      const total = numberValue(usage.total_tokens) ?? numberValue(usage.totalTokens) ??
+        sum(numberValue(usage.input_tokens) ?? numberValue(usage.inputTokens), numberValue(usage.output_tokens) ?? numberValue(usage.outputTokens));
+      // The last report covers the whole run
+      tokensUsed = total ?? tokensUsed;
+    }
+  }
+
+  return { tokensUsed, isError };
+}
+
+function sum(a: number | undefined, b: number | undefined): number | undefined {
+  return a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+}
+
+function numberValue(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function parseJson(text: string): unknown {
+  if (!text.startsWith('{') && !text.startsWith('[')) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
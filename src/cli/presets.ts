@@ -0,0 +1,50 @@
+import type { CLIToolCandidate } from '../discovery';
+import { CLIConnector } from './connector';
+import type { CLIOptions } from './types';
+
+/**
+ * How to run the known AI CLIs non-interactively, by command. Tools that
+ * read the workspace themselves get the task without the file contents.
+ */
+export const CLI_TOOL_PRESETS: Record<string, CLIOptions> = {
+  claude: {
+    args: ['-p', '--output-format', 'stream-json', '--verbose'],
+    input: 'stdin',
+    outputFormat: 'jsonl',
+    includeContext: false
+  },
+  gemini: {
+    args: ['--output-format', 'json'],
+    input: 'stdin',
+    outputFormat: 'json',
+    includeContext: false
+  },
+  codex: {
+    args: ['exec', '--json', '-'],
+    input: 'stdin',
+    outputFormat: 'jsonl',
+    includeContext: false
+  },
+  aider: {
+    // Aider edits files itself; a dry run leaves applying the edits to the orchestrator
+    args: ['--message-file', '{promptFile}', '--dry-run', '--yes-always', '--no-auto-commits', '--no-pretty', '--no-stream'],
+    input: 'file',
+    includeContext: false
+  },
+  q: {
+    args: ['chat', '--no-interactive', '{prompt}'],
+    input: 'args'
+  }
+};
+
+/**
+ * CLIConnectorFactory for CLIProbe: a CLIConnector with the command's preset,
+ * or prompt-as-argument for commands without one.
+ */
+export function createCLIConnector(candidate: CLIToolCandidate, executablePath: string, overrides: CLIOptions = {}): CLIConnector {
+  return new CLIConnector(executablePath, {
+    ...CLI_TOOL_PRESETS[candidate.command],
+    ...overrides,
+    id: overrides.id ?? candidate.id ?? candidate.command
+  });
+}
@@ -0,0 +1,139 @@
+import { spawn } from 'child_process';
+import type { ChildProcess } from 'child_process';
+import type { CLIResult, CLIRunOptions } from './types';
+
+const DEFAULT_KILL_GRACE_PERIOD = 2000;
+const DEFAULT_MAX_OUTPUT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Run a command to completion, streaming its output to `onOutput`. The
+ * process gets its own process group, so a timeout, cancellation or output
+ * overflow stops everything it started, not just the command itself.
+ * Rejects only when the command cannot be started.
+ */
+export function runProcess(command: string, args: string[], options: CLIRunOptions = {}): Promise<CLIResult> {
+  const startedAt = Date.now();
+  const maxOutputSize = options.maxOutputSize ?? DEFAULT_MAX_OUTPUT_SIZE;
+
+  return new Promise((resolve, reject) => {
+    if (options.cancellationToken?.isCancellationRequested) {
+      resolve({
+        exitCode: null,
+        signal: null,
+        stdout: '',
+        stderr: '',
+        durationMs: 0,
+        timedOut: false,
+        cancelled: true,
+        outputLimitExceeded: false
+      });
+      return;
+    }
+
+    let child: ChildProcess;
+    try {
+      child = spawn(command, args, {
+        cwd: options.cwd,
+        // Colour codes only get in the way of parsing
+        env: { ...process.env, NO_COLOR: '1', FORCE_COLOR: '0', ...options.env },
+        stdio: ['pipe', 'pipe', 'pipe'],
+        detached: process.platform !== 'win32',
+        windowsHide: true
+      });
+    } catch (error) {
+      reject(error);
+      return;
+    }
+
+    let stdout = '';
+    let stderr = '';
+    let outputSize = 0;
+    let stopReason: 'timedOut' | 'cancelled' | 'outputLimitExceeded' | undefined;
+
+    const stop = (reason: NonNullable<typeof stopReason>) => {
+      if (stopReason || child.exitCode !== null || child.signalCode !== null) {
+        return;
+      }
+      stopReason = reason;
+      killProcessTree(child, options.killGracePeriod ?? DEFAULT_KILL_GRACE_PERIOD);
+    };
+
+    const timer = options.timeout !== undefined ? setTimeout(() => stop('timedOut'), options.timeout) : undefined;
+    const cancellation = options.cancellationToken?.onCancellationRequested(() => stop('cancelled'));
+
+    child.stdout!.setEncoding('utf8');
+    child.stdout!.on('data', (chunk: string) => {
+      outputSize += Buffer.byteLength(chunk);
+      if (outputSize > maxOutputSize) {
+        stop('outputLimitExceeded');
+        return;
+      }
+      stdout += chunk;
+      options.onOutput?.(chunk, 'stdout');
+    });
+
+    child.stderr!.setEncoding('utf8');
+    child.stderr!.on('data', (chunk: string) => {
+      // Only the tail matters for error messages
+      stderr = (stderr + chunk).slice(-64 * 1024);
+      options.onOutput?.(chunk, 'stderr');
+    });
+
+    // A CLI that exits without reading its input must not crash us
+    child.stdin!.on('error', () => undefined);
+    child.stdin!.end(options.input);
+
+    const cleanUp = () => {
+      clearTimeout(timer);
+      cancellation?.dispose();
+    };
+
+    child.once('error', error => {
+      cleanUp();
+      reject(error);
+    });
+
+    child.once('close', (exitCode, signal) => {
+      cleanUp();
+      resolve({
+        exitCode: stopReason ? null : exitCode,
+        signal,
+        stdout,
+        stderr,
+        durationMs: Date.now() - startedAt,
+        timedOut: stopReason === 'timedOut',
+        cancelled: stopReason === 'cancelled',
+        outputLimitExceeded: stopReason === 'outputLimitExceeded'
+      });
+    });
+  });
+}
+
+/**
+ * Stop a process and its descendants: SIGTERM to the process group, then
+ * SIGKILL after the grace period, which also catches descendants that
+ * outlive the process itself. On Windows, taskkill /T /F.
+ */
+export function killProcessTree(child: ChildProcess, gracePeriod = DEFAULT_KILL_GRACE_PERIOD): void {
+  const pid = child.pid;
+  if (pid === undefined) {
+    return;
+  }
+
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { windowsHide: true }).on('error', () => child.kill());
+    return;
+  }
+
+  const signalGroup = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(-pid, signal);
+    } catch {
+      // Not a group leader (or already gone); signal the process alone
+      child.kill(signal);
+    }
+  };
+
+  signalGroup('SIGTERM');
+  setTimeout(() => signalGroup('SIGKILL'), gracePeriod).unref();
+}
@@ -0,0 +1,44 @@
+import * as path from 'path';
+import type { Task, WorkspaceContext } from '../types';
+
+/**
+ * The prompt sent to a CLI: the task description, then the selection and
+ * the open files as fenced blocks named by their workspace-relative path.
+ */
+export function formatCLIPrompt(task: Task, context: WorkspaceContext, includeContext = true): string {
+  const sections = [task.description.trim()];
+  if (!includeContext) {
+    return sections[0];
+  }
+
+  const selection = context.selection;
+  if (selection?.text) {
+    const file = context.openFiles.find(candidate => candidate.path === selection.filePath);
+    sections.push(
+      `Selected code in ${displayPath(selection.filePath, context.workspaceRoot)} ` +
+      `(lines ${selection.start.line + 1}-${selection.end.line + 1}):\n` +
+      fence(selection.text, file?.language ?? task.language)
+    );
+  }
+
+  for (const file of context.openFiles) {
+    sections.push(`File: ${displayPath(file.path, context.workspaceRoot)}\n${fence(file.content, file.language)}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+function displayPath(filePath: string, root: string): string {
+  if (!path.isAbsolute(filePath) || !root) {
+    return filePath;
+  }
+  const relative = path.relative(root, filePath);
+  return relative.startsWith('..') ? filePath : relative.split(path.sep).join('/');
+}
+
+/** A fence longer than any backtick run in the content, so it cannot be closed early */
+function fence(content: string, language = ''): string {
+  const longestRun = Math.max(2, ...Array.from(content.matchAll(/`+/g), match => match[0].length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${content.replace(/\n$/, '')}\n${marker}`;
+}
@@ -0,0 +1,120 @@
+import type { CodeBlock } from '../edits';
+import type { CancellationToken } from '../types';
+
+/**
+ * How the prompt reaches the CLI:
+ * - args: as an argument, in place of `{prompt}` or appended last
+ * - stdin: written to standard input
+ * - file: written to a temporary file whose path replaces `{promptFile}`
+ *   or is appended last
+ */
+export type CLIPromptInput = 'args' | 'stdin' | 'file';
+
+/**
+ * How stdout is read: plain text, one JSON document, or one JSON event per
+ * line (`stream-json`, `--json` and similar modes).
+ */
+export type CLIOutputFormat = 'text' | 'json' | 'jsonl';
+
+export type CLIOutputStream = 'stdout' | 'stderr';
+
+export interface CLIOptions {
+  /** Tool id reported in responses; defaults to the command's base name */
+  id?: string;
+
+  /**
+   * Arguments for a task. `{prompt}`, `{promptFile}` and `{cwd}` are
+   * replaced; the prompt (or its file) is appended when neither
+   * placeholder is present.
+   */
+  args?: string[];
+
+  /** Default 'args' */
+  input?: CLIPromptInput;
+
+  /** Default 'text' */
+  outputFormat?: CLIOutputFormat;
+
+  /** Text of one JSON output event, when the built-in extraction does not fit */
+  extractText?: (event: unknown) => string | undefined;
+
+  /** Working directory; defaults to the context's workspace root */
+  cwd?: string;
+
+  /** Added to the inherited environment */
+  env?: Record<string, string>;
+
+  /** Time limit for a task, in ms (default 5 minutes) */
+  timeout?: number;
+
+  /** Wait between SIGTERM and SIGKILL when stopping the process (ms, default 2000) */
+  killGracePeriod?: number;
+
+  /** Exit codes that mean success (default [0]) */
+  successExitCodes?: number[];
+
+  /** Exit codes worth retrying, e.g. a CLI's rate limit code */
+  retryableExitCodes?: number[];
+
+  /** Largest stdout accepted before the process is stopped (bytes, default 10 MB) */
+  maxOutputSize?: number;
+
+  /** Include open files and the selection in the prompt (default true); turn off for CLIs that read the workspace themselves */
+  includeContext?: boolean;
+
+  /** Arguments that print the version, also used as the health check (default ['--version']) */
+  versionArgs?: string[];
+
+  /** Receives output as it arrives */
+  onOutput?: (chunk: string, stream: CLIOutputStream) => void;
+}
+
+export interface CLIRunOptions {
+  cwd?: string;
+  env?: Record<string, string>;
+
+  /** Written to stdin, which is then closed */
+  input?: string;
+
+  timeout?: number;
+  killGracePeriod?: number;
+  maxOutputSize?: number;
+  cancellationToken?: CancellationToken;
+
+  onOutput?: (chunk: string, stream: CLIOutputStream) => void;
+}
+
+/**
+ * Outcome of running a CLI. A process that was stopped has `exitCode` null
+ * and the reason in `timedOut`, `cancelled` or `outputLimitExceeded`.
+ */
+export interface CLIResult {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  timedOut: boolean;
+  cancelled: boolean;
+  outputLimitExceeded: boolean;
+}
+
+/**
+ * stdout made sense of. `text` is what the tool answered: the output itself
+ * for text, or the text of the JSON result.
+ */
+export interface CLIOutput {
+  text: string;
+
+  /** The parsed document (json) */
+  json?: unknown;
+
+  /** The parsed events (jsonl), in order */
+  events?: unknown[];
+
+  codeBlocks: CodeBlock[];
+
+  /** Reported by the tool in its JSON output */
+  tokensUsed?: number;
+  isError?: boolean;
+}
@@ -0,0 +1,244 @@
+import { CancellationError, TimeoutError } from '../types';
+import type { CancellationToken, DiscoveredTool, Task, ToolResponse, WorkspaceContext } from '../types';
+import { contextForTool } from '../context';
+import type { ToolPerformanceSource } from '../routing';
+import { CancellationTokenSource } from '../utils';
+import { completionKey, completionTexts, fitCompletion } from './candidates';
+
+export interface CompletionRequest {
+  filePath: string;
+  language: string;
+  position: { line: number; character: number };
+
+  /** Document text before the cursor */
+  prefix: string;
+
+  /** Document text after the cursor */
+  suffix: string;
+
+  workspaceRoot?: string;
+}
+
+export interface RankedCompletion {
+  text: string;
+
+  /** Tools that proposed this completion, best first */
+  sources: string[];
+
+  /** 0-1 */
+  score: number;
+}
+
+export interface CompletionArbiterOptions {
+  /** Tools to ask; completion-capable, healthy ones are picked from these */
+  tools: () => Iterable<DiscoveredTool>;
+
+  /** Whether a completion-capable tool may be asked; defaults to all */
+  isSource?: (tool: DiscoveredTool) => boolean;
+
+  /** Quiet time before the sources are asked (ms) */
+  debounce?: number;
+
+  /** How long to wait for each source (ms) */
+  timeout?: number;
+
+  /** Most completions returned */
+  maxCompletions?: number;
+
+  /** Per-tool priority, higher is better (user.toolPriorities) */
+  priorities?: Record<string, number>;
+
+  performance?: ToolPerformanceSource;
+}
+
+interface Candidate {
+  text: string;
+  sources: Array<{ toolId: string; latencyMs: number }>;
+}
+
+/**
+ * Fans an inline completion request out to every completion source, then
+ * merges equivalent completions and ranks them by how many sources agree,
+ * source priority and past success, and speed.
+ */
+export class CompletionArbiter {
+  private readonly debounce: number;
+  private readonly timeout: number;
+  private readonly maxCompletions: number;
+
+  constructor(private options: CompletionArbiterOptions) {
+    this.debounce = options.debounce ?? 150;
+    this.timeout = options.timeout ?? 2000;
+    this.maxCompletions = options.maxCompletions ?? 3;
+  }
+
+  /** Tools a request in the language would be sent to */
+  getSources(language?: string): DiscoveredTool[] {
+    return Array.from(this.options.tools()).filter(tool => {
+      const languages = tool.capabilities.languages;
+      return tool.isHealthy &&
+        tool.capabilities.tasks.includes('completion') &&
+        (!language || languages.length === 0 || languages.includes(language) || languages.includes('*')) &&
+        (this.options.isSource?.(tool) ?? true);
+    });
+  }
+
+  /**
+   * Ranked completions for the cursor position. Resolves to an empty list
+   * when the token is cancelled, which happens whenever the user types on
+   * during the debounce.
+   */
+  async complete(request: CompletionRequest, token?: CancellationToken): Promise<RankedCompletion[]> {
+    if (!(await this.wait(this.debounce, token))) {
+      return [];
+    }
+
+    const sources = this.getSources(request.language);
+    if (sources.length === 0) {
+      return [];
+    }
+
+    const task = this.buildTask(request);
+    const responses = await Promise.all(sources.map(tool => this.ask(tool, task, token)));
+    if (token?.isCancellationRequested) {
+      return [];
+    }
+
+    const candidates = new Map<string, Candidate>();
+    for (const { toolId, response, latencyMs } of responses) {
+      if (!response.success) {
+        continue;
+      }
+
+      for (const text of completionTexts(response)) {
+        const fitted = fitCompletion(text, request.prefix, request.suffix);
+        const key = completionKey(fitted);
+        if (key.length === 0) {
+          continue;
+        }
+
+        const candidate = candidates.get(key) ?? { text: fitted, sources: [] };
+        if (!candidate.sources.some(source => source.toolId === toolId)) {
+          candidate.sources.push({ toolId, latencyMs });
+        }
+        candidates.set(key, candidate);
+      }
+    }
+
+    const answered = responses.filter(entry => entry.response.success).length;
+    return Array.from(candidates.values())
+      .map(candidate => this.rank(candidate, answered))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.maxCompletions);
+  }
+
+  private rank(candidate: Candidate, answered: number): RankedCompletion {
+    const sources = [...candidate.sources].sort((a, b) => this.sourceWeight(b.toolId) - this.sourceWeight(a.toolId));
+    const agreement = candidate.sources.length / Math.max(answered, 1);
+    const weight = this.sourceWeight(sources[0].toolId);
+    const fastest = Math.min(...candidate.sources.map(source => source.latencyMs));
+    const speed = 1 - Math.min(fastest, this.timeout) / this.timeout;
+
+    return {
+      text: candidate.text,
+      sources: sources.map(source => source.toolId),
+      score: agreement * 0.4 + weight * 0.4 + speed * 0.2
+    };
+  }
+
+  /** Priority and past success of a source, 0-1 */
+  private sourceWeight(toolId: string): number {
+    const priorities = this.options.priorities ?? {};
+    const maxPriority = Math.max(0, ...Object.values(priorities));
+    const priority = maxPriority > 0 ? (priorities[toolId] ?? 0) / maxPriority : 0.5;
+
+    // How often its completions were accepted says more than how often it answered
+    const stats = this.options.performance?.getStats(toolId, 'completion');
+    const success = stats && stats.samples > 0 ? stats.acceptanceRate ?? stats.successRate : 0.5;
+    return priority * 0.5 + success * 0.5;
+  }
+
+  /** Never rejects: errors, timeouts and cancellation become failed responses */
+  private async ask(
+    tool: DiscoveredTool,
+    task: Task,
+    parentToken: CancellationToken | undefined
+  ): Promise<{ toolId: string; response: ToolResponse; latencyMs: number }> {
+    const startedAt = Date.now();
+    const source = new CancellationTokenSource();
+    const subscriptions = [parentToken?.onCancellationRequested(() => source.cancel())];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const interruption = new Promise<never>((_, reject) => {
+      subscriptions.push(source.token.onCancellationRequested(() => reject(new CancellationError())));
+      timer = setTimeout(() => {
+        reject(new TimeoutError(`Tool '${tool.id}' did not complete within ${this.timeout}ms`, this.timeout));
+        source.cancel();
+      }, this.timeout);
+    });
+
+    let response: ToolResponse;
+    try {
+      response = await Promise.race([
+        tool.connector.invoke(task, contextForTool(task.context, tool), { cancellationToken: source.token }),
+        interruption
+      ]);
+    } catch (error) {
+      response = { success: false, error: (error as Error).message, toolId: tool.id };
+    } finally {
+      clearTimeout(timer);
+      subscriptions.forEach(subscription => subscription?.dispose());
+      source.dispose();
+    }
+
+    return { toolId: tool.id, response, latencyMs: Date.now() - startedAt };
+  }
+
+  private buildTask(request: CompletionRequest): Task {
+    const context: WorkspaceContext = {
+      openFiles: [{ path: request.filePath, content: request.prefix + request.suffix, language: request.language }],
+      selection: { filePath: request.filePath, start: request.position, end: request.position },
+      workspaceRoot: request.workspaceRoot ?? '',
+      projectInfo: { type: 'unknown', technologies: [], dependencies: {} },
+      environment: {}
+    };
+
+    return {
+      type: 'completion',
+      description: `Complete the ${request.language} code at line ${request.position.line + 1}, column ${request.position.character + 1}`,
+      context,
+      priority: 'high',
+      language: request.language,
+      metadata: {
+        inputs: {
+          prefix: request.prefix,
+          suffix: request.suffix,
+          code: request.prefix,
+          path: request.filePath,
+          language: request.language
+        }
+      }
+    };
+  }
+
+  /** Resolves to false when cancelled before the time is up */
+  private wait(ms: number, token?: CancellationToken): Promise<boolean> {
+    if (token?.isCancellationRequested) {
+      return Promise.resolve(false);
+    }
+    if (ms <= 0) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        subscription?.dispose();
+        resolve(true);
+      }, ms);
+      const subscription = token?.onCancellationRequested(() => {
+        clearTimeout(timer);
+        resolve(false);
+      });
+    });
+  }
+}
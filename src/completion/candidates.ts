@@ -0,0 +1,82 @@
+import type { ToolResponse } from '../types';
+
+/** Keys connectors put a single completion under */
+const TEXT_KEYS = ['completion', 'suggestion', 'insertText', 'text', 'code', 'result'];
+
+/** Keys connectors put several completions under */
+const LIST_KEYS = ['completions', 'suggestions', 'items', 'choices'];
+
+/**
+ * The completion texts in a tool response. Accepts a plain string, an object
+ * with one of the usual text keys, or a list of strings or `{ text }` items.
+ * Fenced code blocks are unwrapped.
+ */
+export function completionTexts(response: ToolResponse): string[] {
+  return collect(response.data).map(unfence).filter(text => text.trim().length > 0);
+}
+
+/**
+ * Trim a completion so it inserts cleanly at the cursor: drop any part of
+ * the current line the tool repeated, and any text that the code after the
+ * cursor already starts with.
+ */
+export function fitCompletion(text: string, prefix: string, suffix: string): string {
+  let fitted = text;
+
+  const currentLine = prefix.slice(prefix.lastIndexOf('\n') + 1);
+  if (currentLine.trim().length > 0) {
+    const indentation = currentLine.length - currentLine.trimStart().length;
+    const typed = currentLine.slice(indentation);
+    if (fitted.startsWith(currentLine)) {
+      fitted = fitted.slice(currentLine.length);
+    } else if (fitted.trimStart().startsWith(typed)) {
+      fitted = fitted.trimStart().slice(typed.length);
+    }
+  }
+
+  // Longest end of the completion that the suffix starts with
+  const following = suffix.replace(/^[ \t]*/, '');
+  for (let length = Math.min(fitted.length, following.length); length > 0; length--) {
+    if (following.startsWith(fitted.slice(fitted.length - length))) {
+      fitted = fitted.slice(0, fitted.length - length);
+      break;
+    }
+  }
+
+  return fitted.replace(/\s+$/, match => (match.includes('\n') ? '' : match));
+}
+
+/** Key under which equivalent completions are merged */
+export function completionKey(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function collect(data: unknown): string[] {
+  if (typeof data === 'string') {
+    return [data];
+  }
+  if (Array.isArray(data)) {
+    return data.flatMap(collect);
+  }
+  if (typeof data !== 'object' || data === null) {
+    return [];
+  }
+
+  const record = data as Record<string, unknown>;
+  for (const key of LIST_KEYS) {
+    if (Array.isArray(record[key])) {
+      return (record[key] as unknown[]).flatMap(collect);
+    }
+  }
+  for (const key of TEXT_KEYS) {
+    if (typeof record[key] === 'string') {
+      return [record[key] as string];
+    }
+  }
+  return [];
+}
+
+function unfence(text: string): string {
+  const fenced = /^\s*```[^\n]*\n([\s\S]*?)\n?```\s*$/.exec(text);
+  return fenced ? fenced[1] : text;
+}
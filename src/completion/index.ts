@@ -0,0 +1,7 @@
+/**
+ * Inline completion arbitration: asks every completion source at once and
+ * ranks what comes back.
+ */
+
+export * from './candidates';
+export * from './arbiter';
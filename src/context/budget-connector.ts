@@ -0,0 +1,42 @@
+import { ToolConnector } from '../types';
+import type { ConfigurationSchema, Connection, InvokeOptions, Task, ToolResponse, WorkspaceContext } from '../types';
+import { fitContextToBudget } from './budget';
+import type { ContextBudgetOptions } from './budget';
+
+/**
+ * Wraps a connector so the context it is handed never exceeds a token
+ * budget. For connectors registered by hand; discovered tools are trimmed
+ * to their declared contextSize where they are invoked.
+ */
+export class ContextBudgetConnector extends ToolConnector {
+  constructor(private inner: ToolConnector, readonly maxTokens: number, private options: ContextBudgetOptions = {}) {
+    super();
+  }
+
+  connect(): Promise<Connection> {
+    return this.inner.connect();
+  }
+
+  invoke(task: Task, context: WorkspaceContext, options?: InvokeOptions): Promise<ToolResponse> {
+    return this.inner.invoke(task, fitContextToBudget(context, this.maxTokens, this.options).context, options);
+  }
+
+  testHealth(): Promise<boolean> {
+    return this.inner.testHealth();
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  getConfigurationSchema(): ConfigurationSchema {
+    return this.inner.getConfigurationSchema();
+  }
+}
+
+/**
+ * Convenience wrapper: `withContextBudget(connector, 8000)`
+ */
+export function withContextBudget(connector: ToolConnector, maxTokens: number, options?: ContextBudgetOptions): ContextBudgetConnector {
+  return new ContextBudgetConnector(connector, maxTokens, options);
+}
@@ -0,0 +1,115 @@
+import type { DiscoveredTool, FileContext, WorkspaceContext } from '../types';
+import { estimateTokens, truncateToTokens } from './tokens';
+import type { TokenEstimator } from './tokens';
+
+export interface ContextBudgetOptions {
+  /** Tokens kept back for the task description and the tool's answer (default 0) */
+  reserve?: number;
+
+  /** Smallest excerpt worth sending; files that would get less are dropped (default 64) */
+  minFileTokens?: number;
+
+  estimate?: TokenEstimator;
+}
+
+export interface ContextFileAllocation {
+  path: string;
+  tokens: number;
+  truncated: boolean;
+}
+
+export interface ContextBudgetReport {
+  budget: number;
+
+  /** Estimated tokens of the fitted context */
+  used: number;
+
+  files: ContextFileAllocation[];
+
+  /** Files left out entirely */
+  dropped: string[];
+}
+
+/** Per-file cost of the path and language around the content */
+const FILE_OVERHEAD_TOKENS = 8;
+
+/**
+ * Trim a context so its estimated size fits the budget. Open files are taken
+ * in order, except that the selected file always comes first; put the most
+ * relevant ones first (WorkspaceContextBuilder does). A file that does not
+ * fit whole is cut down around the selection or from the top to at most
+ * half of what is left, and once the budget is spent the remaining files
+ * are dropped.
+ */
+export function fitContextToBudget(
+  context: WorkspaceContext,
+  maxTokens: number,
+  options: ContextBudgetOptions = {}
+): { context: WorkspaceContext; report: ContextBudgetReport } {
+  const estimate = options.estimate ?? estimateTokens;
+  const minFileTokens = options.minFileTokens ?? 64;
+  const budget = Math.max(0, maxTokens - (options.reserve ?? 0));
+
+  const { openFiles, ...rest } = context;
+  let remaining = budget - estimate(JSON.stringify(rest));
+
+  const selected = context.selection?.filePath;
+  const ordered = [
+    ...openFiles.filter(file => file.path === selected),
+    ...openFiles.filter(file => file.path !== selected)
+  ];
+
+  const kept: FileContext[] = [];
+  const report: ContextBudgetReport = { budget, used: 0, files: [], dropped: [] };
+
+  for (const [index, file] of ordered.entries()) {
+    const available = remaining - FILE_OVERHEAD_TOKENS - estimate(file.path);
+    const tokens = estimate(file.content);
+
+    if (tokens <= available) {
+      kept.push(file);
+      report.files.push({ path: file.path, tokens, truncated: false });
+      remaining = available - tokens;
+      continue;
+    }
+
+    // A file cut down leaves half of what is left to the files after it
+    const share = index === ordered.length - 1 ? available : Math.max(minFileTokens, Math.floor(available / 2));
+    const focus = file.path === selected ? context.selection!.start.line : 0;
+    const excerpt = available < minFileTokens ? undefined : truncateToTokens(file.content, share, focus, estimate);
+    if (!excerpt || excerpt.lines === 0) {
+      report.dropped.push(file.path);
+      continue;
+    }
+
+    const { text } = excerpt;
+    const used = estimate(text);
+    kept.push({ ...file, content: text });
+    report.files.push({ path: file.path, tokens: used, truncated: true });
+    remaining = available - used;
+  }
+
+  report.used = budget - remaining;
+  return { context: { ...context, openFiles: kept }, report };
+}
+
+/**
+ * The context cut to what the tool accepts: its `contextSize`, when it
+ * declares one, less a quarter kept back for the prompt and the answer
+ * unless `options.reserve` says otherwise. Contexts that already fit are
+ * returned as they are.
+ */
+export function contextForTool(
+  context: WorkspaceContext,
+  tool: Pick<DiscoveredTool, 'capabilities'>,
+  options: ContextBudgetOptions = {}
+): WorkspaceContext {
+  const contextSize = tool.capabilities.contextSize;
+  if (contextSize === undefined) {
+    return context;
+  }
+
+  const fitted = fitContextToBudget(context, contextSize, { reserve: Math.floor(contextSize / 4), ...options });
+  const unchanged = fitted.report.dropped.length === 0 && fitted.report.files.every(file => !file.truncated);
+  return unchanged ? context : fitted.context;
+}
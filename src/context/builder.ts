@@ -0,0 +1,236 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { FileContext, GitContext, ProjectInfo, TextSelection, WorkspaceContext } from '../types';
+import { fitContextToBudget } from './budget';
+import type { ContextBudgetOptions } from './budget';
+import { extractImports, importCandidates, languageForPath } from './imports';
+import { detectProjectInfo } from './project-info';
+
+/** Why a file is part of the context */
+export type ContextFileReason = 'selection' | 'active' | 'reference' | 'import' | 'open' | 'recent';
+
+export interface RecentEdit {
+  path: string;
+
+  /** When the file was last changed (ms since epoch) */
+  editedAt: number;
+}
+
+/**
+ * What the editor knows when a request is made. Files that are open are
+ * passed with their (possibly unsaved) content; imports and recent edits
+ * that are not open are read from disk.
+ */
+export interface ContextRequest {
+  workspaceRoot: string;
+
+  /** File in the active editor */
+  activeFile?: FileContext;
+
+  selection?: TextSelection;
+
+  /** Files the user attached to the request */
+  referencedFiles?: FileContext[];
+
+  /** Other open editors */
+  openFiles?: FileContext[];
+
+  recentEdits?: RecentEdit[];
+
+  gitInfo?: GitContext;
+  environment?: Record<string, string>;
+}
+
+export interface RankedFile {
+  file: FileContext;
+  reason: ContextFileReason;
+
+  /** Relevance, 0-1 */
+  score: number;
+}
+
+export interface WorkspaceContextBuilderOptions {
+  /** Read a file; undefined when it does not exist */
+  readFile?: (filePath: string) => Promise<string | undefined>;
+
+  /** Most imported files followed (default 8) */
+  maxImports?: number;
+
+  /** Most recently edited files included (default 5) */
+  maxRecentEdits?: number;
+
+  budget?: ContextBudgetOptions;
+}
+
+const REASON_SCORES: Record<ContextFileReason, number> = {
+  selection: 1,
+  active: 1,
+  reference: 0.9,
+  import: 0.8,
+  open: 0.5,
+  recent: 0.45
+};
+
+/** Imports of the active file that the selection does not use */
+const UNUSED_IMPORT_SCORE = 0.65;
+
+/** Bonus for sharing the active file's directory */
+const NEIGHBOUR_BONUS = 0.05;
+
+/**
+ * Assembles the WorkspaceContext sent to tools: project info from the
+ * manifests, then the files most likely to matter, ranked and trimmed to a
+ * token budget.
+ */
+export class WorkspaceContextBuilder {
+  private readonly projects = new Map<string, Promise<ProjectInfo>>();
+  private readonly readFile: (filePath: string) => Promise<string | undefined>;
+
+  constructor(private options: WorkspaceContextBuilderOptions = {}) {
+    this.readFile = options.readFile ?? (filePath => fs.readFile(filePath, 'utf8').catch(() => undefined));
+  }
+
+  /**
+   * Context for a request, most relevant files first. With `maxTokens` the
+   * files are trimmed to fit; without it every ranked file is sent whole.
+   */
+  async build(request: ContextRequest, maxTokens?: number): Promise<WorkspaceContext> {
+    const [projectInfo, ranked] = await Promise.all([
+      this.getProjectInfo(request.workspaceRoot),
+      this.rankFiles(request)
+    ]);
+
+    const context: WorkspaceContext = {
+      openFiles: ranked.map(entry => entry.file),
+      selection: request.selection,
+      workspaceRoot: request.workspaceRoot,
+      projectInfo,
+      gitInfo: request.gitInfo,
+      environment: request.environment ?? {}
+    };
+
+    return maxTokens === undefined ? context : fitContextToBudget(context, maxTokens, this.options.budget).context;
+  }
+
+  /** Project info for a workspace root, read once and then cached */
+  getProjectInfo(workspaceRoot: string): Promise<ProjectInfo> {
+    let info = this.projects.get(workspaceRoot);
+    if (!info) {
+      info = workspaceRoot
+        ? detectProjectInfo(workspaceRoot, this.readFile)
+        : Promise.resolve({ type: 'unknown', technologies: [], dependencies: {} });
+      this.projects.set(workspaceRoot, info);
+    }
+    return info;
+  }
+
+  /** Forget cached project info, e.g. after a manifest changed */
+  invalidateProjectInfo(workspaceRoot?: string): void {
+    if (workspaceRoot === undefined) {
+      this.projects.clear();
+    } else {
+      this.projects.delete(workspaceRoot);
+    }
+  }
+
+  /** Every candidate file with its relevance, best first */
+  async rankFiles(request: ContextRequest): Promise<RankedFile[]> {
+    const ranked = new Map<string, RankedFile>();
+    const activeDirectory = request.activeFile && path.dirname(request.activeFile.path);
+
+    const add = (file: FileContext, reason: ContextFileReason, score: number) => {
+      if (activeDirectory && (reason === 'open' || reason === 'recent') && path.dirname(file.path) === activeDirectory) {
+        score += NEIGHBOUR_BONUS;
+      }
+      const existing = ranked.get(file.path);
+      if (!existing || existing.score < score) {
+        // Keep content already known: open editors may hold unsaved changes
+        ranked.set(file.path, { file: existing?.file ?? file, reason, score });
+      }
+    };
+
+    const { activeFile, selection } = request;
+    if (activeFile) {
+      add(activeFile, selection?.filePath === activeFile.path ? 'selection' : 'active', REASON_SCORES.active);
+    }
+    request.referencedFiles?.forEach(file => add(file, 'reference', REASON_SCORES.reference));
+    request.openFiles?.forEach(file => add(file, 'open', REASON_SCORES.open));
+
+    if (activeFile) {
+      for (const { file, usedBySelection } of await this.importedFiles(request, activeFile, ranked)) {
+        add(file, 'import', usedBySelection ? REASON_SCORES.import : UNUSED_IMPORT_SCORE);
+      }
+    }
+
+    const recent = [...(request.recentEdits ?? [])]
+      .sort((a, b) => b.editedAt - a.editedAt)
+      .slice(0, this.options.maxRecentEdits ?? 5);
+    for (const [index, edit] of recent.entries()) {
+      const file = ranked.get(edit.path)?.file ?? await this.load(edit.path);
+      if (file) {
+        add(file, 'recent', Math.max(REASON_SCORES.recent - index * 0.05, 0.2));
+      }
+    }
+
+    return Array.from(ranked.values()).sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Workspace files the active file imports, those whose names the selection
+   * uses first.
+   */
+  private async importedFiles(
+    request: ContextRequest,
+    activeFile: FileContext,
+    known: Map<string, RankedFile>
+  ): Promise<Array<{ file: FileContext; usedBySelection: boolean }>> {
+    const selected = selectedText(activeFile, request.selection);
+    const references = extractImports(activeFile.content, activeFile.language).map(reference => ({
+      reference,
+      usedBySelection: selected !== undefined && reference.names.some(name => new RegExp(`\\b${escapeRegExp(name)}\\b`).test(selected))
+    }));
+    references.sort((a, b) => Number(b.usedBySelection) - Number(a.usedBySelection));
+
+    const files: Array<{ file: FileContext; usedBySelection: boolean }> = [];
+    const maxImports = this.options.maxImports ?? 8;
+
+    for (const { reference, usedBySelection } of references) {
+      if (files.length >= maxImports) {
+        break;
+      }
+
+      const candidates = importCandidates(reference.specifier, activeFile.path, activeFile.language, request.workspaceRoot);
+      for (const candidate of candidates) {
+        const file = known.get(candidate)?.file ?? await this.load(candidate);
+        if (file) {
+          if (!files.some(entry => entry.file.path === file.path)) {
+            files.push({ file, usedBySelection });
+          }
+          break;
+        }
+      }
+    }
+
+    return files;
+  }
+
+  private async load(filePath: string): Promise<FileContext | undefined> {
+    const content = await this.readFile(filePath);
+    return content === undefined ? undefined : { path: filePath, content, language: languageForPath(filePath) };
+  }
+}
+
+/** The selected text in a file, undefined when nothing in it is selected */
+function selectedText(file: FileContext, selection: TextSelection | undefined): string | undefined {
+  if (!selection || selection.filePath !== file.path) {
+    return undefined;
+  }
+  if (selection.text !== undefined) {
+    return selection.text;
+  }
+  return file.content.split('\n').slice(selection.start.line, selection.end.line + 1).join('\n');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
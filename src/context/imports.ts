@@ -0,0 +1,195 @@
+import * as path from 'path';
+
+/**
+ * Import statements of a source file, and the workspace files they may
+ * refer to. Package imports are reported too but resolve to nothing; only
+ * files in the workspace are worth sending as context.
+ */
+
+export interface ImportReference {
+  /** Module as written, e.g. './router', 'app.models', 'crate::config' */
+  specifier: string;
+
+  /** Names the import brings into scope */
+  names: string[];
+}
+
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  '.ts': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.tsx': 'typescriptreact',
+  '.js': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.jsx': 'javascriptreact',
+  '.py': 'python',
+  '.rs': 'rust',
+  '.go': 'go',
+  '.java': 'java',
+  '.cs': 'csharp',
+  '.rb': 'ruby',
+  '.json': 'json',
+  '.md': 'markdown'
+};
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/** VS Code language id for a file path, 'plaintext' when unknown */
+export function languageForPath(filePath: string): string {
+  return LANGUAGE_EXTENSIONS[path.extname(filePath).toLowerCase()] ?? 'plaintext';
+}
+
+/** Imports declared in a file. Languages without an extractor have none. */
+export function extractImports(content: string, language: string): ImportReference[] {
+  switch (language) {
+    case 'typescript':
+    case 'typescriptreact':
+    case 'javascript':
+    case 'javascriptreact':
+      return scriptImports(content);
+    case 'python':
+      return pythonImports(content);
+    case 'rust':
+      return rustImports(content);
+    case 'go':
+      return goImports(content);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Workspace paths an import may refer to, most likely first. The caller
+ * checks which exist.
+ */
+export function importCandidates(specifier: string, fromPath: string, language: string, workspaceRoot: string): string[] {
+  const directory = path.dirname(fromPath);
+
+  switch (language) {
+    case 'typescript':
+    case 'typescriptreact':
+    case 'javascript':
+    case 'javascriptreact': {
+      if (!specifier.startsWith('./') && !specifier.startsWith('../')) {
+        return [];
+      }
+      const base = path.resolve(directory, specifier);
+      const withoutJs = base.replace(/\.(m|c)?js$/, '');
+      return unique([
+        ...(path.extname(base) ? [base] : []),
+        ...SCRIPT_EXTENSIONS.map(extension => withoutJs + extension),
+        ...SCRIPT_EXTENSIONS.map(extension => path.join(base, `index${extension}`))
+      ]);
+    }
+
+    case 'python': {
+      const dots = /^\.*/.exec(specifier)![0].length;
+      const modulePath = specifier.slice(dots).split('.').filter(Boolean);
+      const roots = dots > 0
+        ? [path.resolve(directory, ...Array(dots - 1).fill('..'))]
+        : [workspaceRoot, path.join(workspaceRoot, 'src')];
+      return roots.flatMap(root => {
+        const base = path.join(root, ...modulePath);
+        return [`${base}.py`, path.join(base, '__init__.py')];
+      });
+    }
+
+    case 'rust': {
+      // `mod name;` is written as a bare name, `use crate::a::b` as a path
+      const segments = specifier.split('::');
+      const base = segments[0] === 'crate' && segments.length > 1
+        ? path.join(workspaceRoot, 'src', segments[1])
+        : segments.length === 1 ? path.join(rustModuleDirectory(fromPath), specifier) : undefined;
+      return base ? [`${base}.rs`, path.join(base, 'mod.rs')] : [];
+    }
+
+    default:
+      // Go imports name packages (directories), not files
+      return [];
+  }
+}
+
+function scriptImports(content: string): ImportReference[] {
+  const imports: ImportReference[] = [];
+  const statement = /\bimport\s+(type\s+)?([\w$*{}\s,]+?)\s+from\s+['"]([^'"]+)['"]|\bimport\s+['"]([^'"]+)['"]|\bexport\s+(?:type\s+)?[\w$*{}\s,]+?\s+from\s+['"]([^'"]+)['"]|\brequire\(\s*['"]([^'"]+)['"]\s*\)|\bimport\(\s*['"]([^'"]+)['"]\s*\)/g;
+
+  for (const match of content.matchAll(statement)) {
+    if (match[3]) {
+      imports.push({ specifier: match[3], names: importedNames(match[2]) });
+    } else {
+      imports.push({ specifier: match[4] ?? match[5] ?? match[6] ?? match[7], names: [] });
+    }
+  }
+  return imports;
+}
+
+/** Local names bound by `a, { b, c as d }, * as e` */
+function importedNames(clause: string): string[] {
+  return clause
+    .replace(/[{}]/g, ',')
+    .split(',')
+    .map(part => part.trim().split(/\s+as\s+/).pop()!.replace(/^\*\s*/, '').replace(/^type\s+/, '').trim())
+    .filter(name => /^[\w$]+$/.test(name));
+}
+
+function pythonImports(content: string): ImportReference[] {
+  const imports: ImportReference[] = [];
+
+  for (const match of content.matchAll(/^[ \t]*from\s+([\w.]+)\s+import\s+(\([^)]*\)|[^\n#]+)/gm)) {
+    const names = match[2].replace(/[()\\]/g, ' ').split(',').map(name => name.trim().split(/\s+as\s+/).pop()!.trim()).filter(Boolean);
+    imports.push({ specifier: match[1], names: names.filter(name => name !== '*') });
+  }
+  for (const match of content.matchAll(/^[ \t]*import\s+([\w., \t]+)/gm)) {
+    for (const part of match[1].split(',')) {
+      const [module, alias] = part.trim().split(/\s+as\s+/);
+      if (module) {
+        imports.push({ specifier: module, names: [alias ?? module.split('.')[0]] });
+      }
+    }
+  }
+  return imports;
+}
+
+function rustImports(content: string): ImportReference[] {
+  const imports: ImportReference[] = [];
+
+  for (const match of content.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/gm)) {
+    imports.push({ specifier: match[1], names: [match[1]] });
+  }
+  for (const match of content.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?use\s+([\w:]+?)(?:::\{([^}]*)\}|\s+as\s+(\w+))?\s*;/gm)) {
+    const names = match[2]
+      ? match[2].split(',').map(name => name.trim().split(/\s+as\s+/).pop()!.trim()).filter(name => /^\w+$/.test(name))
+      : [match[3] ?? match[1].split('::').pop()!];
+    imports.push({ specifier: match[1], names });
+  }
+  return imports;
+}
+
+function goImports(content: string): ImportReference[] {
+  const imports: ImportReference[] = [];
+  const add = (alias: string | undefined, specifier: string) =>
+    imports.push({ specifier, names: [alias ?? specifier.split('/').pop()!] });
+
+  for (const block of content.matchAll(/^import\s*\(([\s\S]*?)\)/gm)) {
+    for (const match of block[1].matchAll(/^\s*([\w.]+\s+)?"([^"]+)"/gm)) {
+      add(match[1]?.trim(), match[2]);
+    }
+  }
+  for (const match of content.matchAll(/^import\s+([\w.]+\s+)?"([^"]+)"/gm)) {
+    add(match[1]?.trim(), match[2]);
+  }
+  return imports;
+}
+
+/** Directory `mod name;` resolves against: a module's own directory for main.rs, lib.rs and mod.rs */
+function rustModuleDirectory(fromPath: string): string {
+  const file = path.basename(fromPath);
+  return ['main.rs', 'lib.rs', 'mod.rs'].includes(file)
+    ? path.dirname(fromPath)
+    : path.join(path.dirname(fromPath), path.basename(fromPath, '.rs'));
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,11 @@
+/**
+ * Workspace context assembly: project detection from manifests, relevant
+ * file collection and ranking, and trimming to a tool's token budget.
+ */
+
+export * from './tokens';
+export * from './project-info';
+export * from './imports';
+export * from './budget';
+export * from './builder';
+export * from './budget-connector';
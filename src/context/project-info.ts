@@ -0,0 +1,317 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { ProjectInfo } from '../types';
+
+/** Manifests read from the workspace root; the first one found sets the project type */
+export const PROJECT_MANIFESTS = ['package.json', 'pyproject.toml', 'Cargo.toml', 'go.mod'] as const;
+
+export type ProjectManifest = typeof PROJECT_MANIFESTS[number];
+
+/** Dependencies that say which framework or tooling a project uses */
+const TECHNOLOGY_DEPENDENCIES: Record<string, string> = {
+  // JavaScript and TypeScript
+  'typescript': 'typescript',
+  'react': 'react',
+  'next': 'nextjs',
+  'vue': 'vue',
+  'nuxt': 'nuxt',
+  '@angular/core': 'angular',
+  'svelte': 'svelte',
+  'express': 'express',
+  'fastify': 'fastify',
+  '@nestjs/core': 'nestjs',
+  'electron': 'electron',
+  'jest': 'jest',
+  'vitest': 'vitest',
+  'mocha': 'mocha',
+  'vite': 'vite',
+  'webpack': 'webpack',
+
+  // Python
+  'django': 'django',
+  'flask': 'flask',
+  'fastapi': 'fastapi',
+  'pytest': 'pytest',
+  'numpy': 'numpy',
+  'pandas': 'pandas',
+  'torch': 'pytorch',
+
+  // Rust
+  'tokio': 'tokio',
+  'actix-web': 'actix',
+  'axum': 'axum',
+  'rocket': 'rocket',
+  'serde': 'serde',
+
+  // Go
+  'github.com/gin-gonic/gin': 'gin',
+  'github.com/labstack/echo/v4': 'echo',
+  'github.com/gofiber/fiber/v2': 'fiber',
+  'gorm.io/gorm': 'gorm'
+};
+
+const MANIFEST_TYPES: Record<ProjectManifest, string> = {
+  'package.json': 'node',
+  'pyproject.toml': 'python',
+  'Cargo.toml': 'rust',
+  'go.mod': 'go'
+};
+
+/**
+ * Project type, technologies and dependencies from the manifests in the
+ * workspace root. Several manifests are merged: the first sets the type and
+ * the others are listed as technologies (a Python service with a
+ * package.json for its frontend reports 'node' plus 'python').
+ */
+export async function detectProjectInfo(
+  workspaceRoot: string,
+  readFile: (filePath: string) => Promise<string | undefined> = readIfExists
+): Promise<ProjectInfo> {
+  const found: ProjectInfo[] = [];
+
+  for (const manifest of PROJECT_MANIFESTS) {
+    const text = await readFile(path.join(workspaceRoot, manifest));
+    if (text === undefined) {
+      continue;
+    }
+
+    const info = parseManifest(manifest, text);
+    if (info) {
+      found.push(info);
+    }
+  }
+
+  if (found.length === 0) {
+    return { type: 'unknown', technologies: [], dependencies: {} };
+  }
+
+  const technologies = new Set<string>();
+  const dependencies: Record<string, string> = {};
+  for (const [index, info] of found.entries()) {
+    if (index > 0) {
+      technologies.add(info.type);
+    }
+    info.technologies.forEach(technology => technologies.add(technology));
+    for (const [name, version] of Object.entries(info.dependencies)) {
+      dependencies[name] ??= version;
+    }
+  }
+
+  return { type: found[0].type, technologies: Array.from(technologies), dependencies };
+}
+
+/**
+ * Project info from one manifest's text; undefined when it cannot be read
+ * as that kind of manifest.
+ */
+export function parseManifest(manifest: ProjectManifest, text: string): ProjectInfo | undefined {
+  let dependencies: Record<string, string> | undefined;
+  const technologies: string[] = [];
+
+  switch (manifest) {
+    case 'package.json': {
+      const json = parseJson(text);
+      if (!json) {
+        return undefined;
+      }
+      dependencies = {
+        ...stringRecord(json.devDependencies),
+        ...stringRecord(json.dependencies)
+      };
+      if (isObject(json.engines) && typeof json.engines.vscode === 'string') {
+        technologies.push('vscode-extension');
+      }
+      break;
+    }
+
+    case 'pyproject.toml': {
+      const tables = parseToml(text);
+      dependencies = {};
+      for (const requirement of stringArray(tables['project']?.dependencies)) {
+        const match = /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*(.*)$/.exec(requirement);
+        if (match) {
+          dependencies[match[1].toLowerCase()] = match[2].split(';')[0].trim() || '*';
+        }
+      }
+      for (const [name, value] of Object.entries(tables['tool.poetry.dependencies'] ?? {})) {
+        if (name !== 'python') {
+          dependencies[name.toLowerCase()] = versionOf(value);
+        }
+      }
+      break;
+    }
+
+    case 'Cargo.toml': {
+      const tables = parseToml(text);
+      dependencies = {};
+      for (const table of ['dev-dependencies', 'dependencies']) {
+        for (const [name, value] of Object.entries(tables[table] ?? {})) {
+          dependencies[name] = versionOf(value);
+        }
+      }
+      break;
+    }
+
+    case 'go.mod':
+      if (!/^\s*module\s+\S+/m.test(text)) {
+        return undefined;
+      }
+      dependencies = parseGoRequires(text);
+      break;
+  }
+
+  for (const name of Object.keys(dependencies)) {
+    const technology = TECHNOLOGY_DEPENDENCIES[name];
+    if (technology && !technologies.includes(technology)) {
+      technologies.push(technology);
+    }
+  }
+
+  return { type: MANIFEST_TYPES[manifest], technologies, dependencies };
+}
+
+type TomlValue = string | string[] | Record<string, string>;
+
+/**
+ * The subset of TOML manifests use for dependencies: tables of string,
+ * string array and single-line inline table values. Everything else is
+ * skipped.
+ */
+function parseToml(text: string): Record<string, Record<string, TomlValue>> {
+  const tables: Record<string, Record<string, TomlValue>> = { '': {} };
+  let current = tables[''];
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = stripComment(lines[i]).trim();
+    if (line.length === 0) {
+      continue;
+    }
+
+    const header = /^\[\[?\s*([^\]]+?)\s*\]\]?$/.exec(line);
+    if (header) {
+      const name = header[1].split('.').map(part => unquote(part.trim())).join('.');
+      current = tables[name] ??= {};
+      continue;
+    }
+
+    const entry = /^("[^"]*"|'[^']*'|[A-Za-z0-9_.-]+)\s*=\s*(.*)$/.exec(line);
+    if (!entry) {
+      continue;
+    }
+
+    const key = unquote(entry[1]);
+    let value = entry[2];
+
+    if (value.startsWith('[')) {
+      // Arrays may span lines
+      while (bracketDepth(value) > 0 && i + 1 < lines.length) {
+        value += '\n' + stripComment(lines[++i]);
+      }
+      current[key] = Array.from(value.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g), match => match[1] ?? match[2]);
+    } else if (value.startsWith('{')) {
+      const inline: Record<string, string> = {};
+      for (const match of value.matchAll(/([A-Za-z0-9_-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|([^,}\s]+))/g)) {
+        inline[match[1]] = match[2] ?? match[3] ?? match[4];
+      }
+      current[key] = inline;
+    } else {
+      current[key] = unquote(value.trim());
+    }
+  }
+
+  return tables;
+}
+
+function parseGoRequires(text: string): Record<string, string> {
+  const dependencies: Record<string, string> = {};
+  const add = (spec: string) => {
+    const [name, version] = stripGoComment(spec).trim().split(/\s+/);
+    if (name && version) {
+      dependencies[name] = version;
+    }
+  };
+
+  for (const block of text.matchAll(/^\s*require\s*\(([\s\S]*?)^\s*\)/gm)) {
+    block[1].split(/\r?\n/).forEach(add);
+  }
+  for (const single of text.matchAll(/^\s*require\s+([^(\s][^\r\n]*)$/gm)) {
+    add(single[1]);
+  }
+  return dependencies;
+}
+
+function versionOf(value: TomlValue | undefined): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value && !Array.isArray(value) && typeof value.version === 'string') {
+    return value.version;
+  }
+  return '*';
+}
+
+function stripComment(line: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '#') {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function stripGoComment(line: string): string {
+  const comment = line.indexOf('//');
+  return comment === -1 ? line : line.slice(0, comment);
+}
+
+function bracketDepth(text: string): number {
+  const withoutStrings = text.replace(/"(?:[^"\\]|\\.)*"|'[^']*'/g, '');
+  return (withoutStrings.match(/\[/g)?.length ?? 0) - (withoutStrings.match(/\]/g)?.length ?? 0);
+}
+
+function unquote(text: string): string {
+  return /^(["']).*\1$/.test(text) ? text.slice(1, -1) : text;
+}
+
+function parseJson(text: string): Record<string, any> | undefined {
+  try {
+    const value = JSON.parse(text);
+    return isObject(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function stringRecord(value: unknown): Record<string, string> {
+  if (!isObject(value)) {
+    return {};
+  }
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+}
+
+function stringArray(value: TomlValue | undefined): string[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function readIfExists(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
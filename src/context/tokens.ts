@@ -0,0 +1,82 @@
+/**
+ * Rough token accounting. Tools do not share a tokenizer, so budgets are
+ * enforced with an estimate that errs towards counting too many.
+ */
+
+/** Characters per token for source code; English prose runs closer to 4 */
+const CHARS_PER_TOKEN = 3.5;
+
+/** What an omission marker line costs */
+const MARKER_TOKENS = 12;
+
+export type TokenEstimator = (text: string) => number;
+
+/** Estimated token count of a piece of text */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export interface TruncatedText {
+  text: string;
+  truncated: boolean;
+
+  /** Lines of the original text kept */
+  lines: number;
+}
+
+/**
+ * Cut text down to whole lines that fit the budget. Lines around `focusLine`
+ * (0-based) are kept, growing the window downwards first; without a focus
+ * the text is kept from the top. Dropped runs are replaced with a marker
+ * line saying how many lines were left out.
+ */
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  focusLine = 0,
+  estimate: TokenEstimator = estimateTokens
+): TruncatedText {
+  if (estimate(text) <= maxTokens) {
+    return { text, truncated: false, lines: text.split('\n').length };
+  }
+
+  const lines = text.split('\n');
+  const cost = lines.map(line => estimate(line) + 1);
+  const focus = Math.min(Math.max(focusLine, 0), lines.length - 1);
+
+  // Room for a marker on each side, whether or not one turns out to be needed
+  const budget = maxTokens - MARKER_TOKENS * (focus > 0 ? 2 : 1);
+  let start = focus;
+  let end = focus;
+  let used = 0;
+
+  if (cost[focus] <= budget) {
+    used = cost[focus];
+    end = focus + 1;
+    let grew = true;
+    while (grew) {
+      grew = false;
+      if (end < lines.length && used + cost[end] <= budget) {
+        used += cost[end++];
+        grew = true;
+      }
+      if (start > 0 && used + cost[start - 1] <= budget) {
+        used += cost[--start];
+        grew = true;
+      }
+    }
+  }
+
+  const kept = lines.slice(start, end);
+  if (start > 0) {
+    kept.unshift(omitted(start));
+  }
+  if (end < lines.length) {
+    kept.push(omitted(lines.length - end));
+  }
+  return { text: kept.join('\n'), truncated: true, lines: end - start };
+}
+
+function omitted(count: number): string {
+  return `[... ${count} line${count === 1 ? '' : 's'} omitted ...]`;
+}
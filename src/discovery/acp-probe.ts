@@ -0,0 +1,77 @@
+import * as path from 'path';
+import { DiscoveryError } from '../types';
+import type { TaskType, ToolConnector } from '../types';
+import { findExecutable } from './cli-probe';
+import type { DiscoveryProbe, DiscoveryProbeResult } from './types';
+
+/** An ACP agent the user configured */
+export interface ACPAgentDefinition {
+  id: string;
+  name?: string;
+
+  /** Executable that starts the agent, speaking ACP on stdio */
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+
+  /** Task types to route to the agent; defaults to DEFAULT_ACP_TASKS */
+  tasks?: TaskType[];
+}
+
+/** Coding agents can usually take on any of these */
+export const DEFAULT_ACP_TASKS: TaskType[] = ['planning', 'implementation', 'refactoring', 'debugging', 'analysis', 'testing', 'documentation'];
+
+export type ACPConnectorFactory = (agent: ACPAgentDefinition) => ToolConnector;
+
+export interface ACPAgentProbeOptions {
+  agents: ACPAgentDefinition[];
+  createConnector: ACPConnectorFactory;
+
+  /** Environment whose PATH is searched for agent commands */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Offers configured ACP agents whose command can be found. ACP has no
+ * discovery of its own, so agents are listed by the user; nothing is
+ * started until the registry's health check.
+ */
+export class ACPAgentProbe implements DiscoveryProbe {
+  readonly name = 'acp';
+
+  constructor(private options: ACPAgentProbeOptions) {}
+
+  async discover(): Promise<DiscoveryProbeResult> {
+    const result: DiscoveryProbeResult = { candidates: [], errors: [] };
+
+    for (const agent of this.options.agents) {
+      if (!agent.id || !agent.command) {
+        result.errors.push(new DiscoveryError('ACP agents need an id and a command', agent.id || agent.command || 'acp agent'));
+        continue;
+      }
+
+      const executable = /[\\/]/.test(agent.command) ? path.resolve(agent.command) : await findExecutable(agent.command, this.options.env);
+      if (!executable) {
+        result.errors.push(new DiscoveryError(`Command '${agent.command}' of ACP agent '${agent.id}' was not found`, agent.id));
+        continue;
+      }
+
+      result.candidates.push({
+        id: agent.id,
+        name: agent.name ?? agent.id,
+        type: 'acp-agent',
+        endpoint: executable,
+        capabilities: {
+          tasks: agent.tasks ?? DEFAULT_ACP_TASKS,
+          languages: ['*'],
+          integrations: ['acp'],
+          commands: []
+        },
+        fingerprint: JSON.stringify([agent.command, agent.args ?? [], agent.env ?? {}]),
+        createConnector: () => this.options.createConnector(agent)
+      });
+    }
+
+    return result;
+  }
+}
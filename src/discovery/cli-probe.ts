@@ -0,0 +1,117 @@
+import { constants, promises as fs } from 'fs';
+import * as path from 'path';
+import type { TaskType, ToolConnector } from '../types';
+import type { DiscoveryProbe, DiscoveryProbeResult } from './types';
+
+export interface CLIToolCandidate {
+  /** Tool id; defaults to the command */
+  id?: string;
+
+  /** Executable name looked up on PATH */
+  command: string;
+  name: string;
+  tasks: TaskType[];
+  integrations?: string[];
+}
+
+/** AI coding CLIs looked for when no candidate list is given */
+export const KNOWN_CLI_TOOLS: CLIToolCandidate[] = [
+  { command: 'claude', name: 'Claude Code', tasks: ['planning', 'implementation', 'refactoring', 'debugging', 'analysis', 'testing'] },
+  { command: 'gemini', name: 'Gemini CLI', tasks: ['analysis', 'planning', 'documentation', 'general-purpose'] },
+  { command: 'codex', name: 'Codex CLI', tasks: ['implementation', 'refactoring', 'debugging', 'testing'] },
+  { command: 'aider', name: 'Aider', tasks: ['implementation', 'refactoring', 'debugging'], integrations: ['git'] },
+  { id: 'amazon-q-cli', command: 'q', name: 'Amazon Q Developer CLI', tasks: ['deployment', 'implementation', 'general-purpose'], integrations: ['aws'] },
+  { command: 'gh', name: 'GitHub CLI', tasks: ['general-purpose'], integrations: ['github'] }
+];
+
+/** Builds the connector for a CLI tool found at executablePath */
+export type CLIConnectorFactory = (candidate: CLIToolCandidate, executablePath: string) => ToolConnector;
+
+export interface CLIProbeOptions {
+  createConnector: CLIConnectorFactory;
+
+  /** Tools to look for; defaults to KNOWN_CLI_TOOLS */
+  candidates?: CLIToolCandidate[];
+
+  /** Environment whose PATH (and PATHEXT on Windows) is searched */
+  env?: Record<string, string | undefined>;
+
+  platform?: NodeJS.Platform;
+}
+
+/**
+ * Discovers CLI tools by looking their executables up on PATH. Nothing is
+ * run; whether the tool actually works is left to the health check.
+ */
+export class CLIProbe implements DiscoveryProbe {
+  readonly name = 'cli';
+
+  constructor(private options: CLIProbeOptions) {}
+
+  async discover(): Promise<DiscoveryProbeResult> {
+    const candidates = this.options.candidates ?? KNOWN_CLI_TOOLS;
+    const located = await Promise.all(candidates.map(async candidate => ({
+      candidate,
+      executablePath: await findExecutable(candidate.command, this.options.env, this.options.platform)
+    })));
+
+    return {
+      candidates: located.flatMap(({ candidate, executablePath }) => executablePath === undefined ? [] : [{
+        id: candidate.id ?? candidate.command,
+        name: candidate.name,
+        type: 'cli-tool' as const,
+        endpoint: executablePath,
+        capabilities: {
+          tasks: candidate.tasks,
+          languages: ['*'],
+          integrations: candidate.integrations ?? [],
+          commands: []
+        },
+        fingerprint: executablePath,
+        createConnector: () => this.options.createConnector(candidate, executablePath)
+      }]),
+      errors: []
+    };
+  }
+}
+
+/**
+ * Resolve a command to an executable file on PATH, or undefined when it is
+ * not installed. On Windows the PATHEXT extensions are tried as well.
+ */
+export async function findExecutable(
+  command: string,
+  env: Record<string, string | undefined> = process.env,
+  platform: NodeJS.Platform = process.platform
+): Promise<string | undefined> {
+  const isWindows = platform === 'win32';
+  const pathValue = env.PATH ?? env.Path ?? '';
+  const directories = pathValue.split(isWindows ? ';' : ':').filter(directory => directory.length > 0);
+  const extensions = isWindows ? ['', ...(env.PATHEXT ?? '.COM;.EXE;.BAT;.CMD').split(';')] : [''];
+
+  for (const directory of directories) {
+    for (const extension of extensions) {
+      const candidate = path.join(directory, command + extension);
+      if (await isExecutable(candidate, isWindows)) {
+        return candidate;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+async function isExecutable(filePath: string, isWindows: boolean): Promise<boolean> {
+  try {
+    const stat = await fs.stat(filePath);
+    if (!stat.isFile()) {
+      return false;
+    }
+    if (!isWindows) {
+      await fs.access(filePath, constants.X_OK);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
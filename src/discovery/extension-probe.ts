@@ -0,0 +1,201 @@
+import * as vscode from 'vscode';
+import { CancellationError, ToolConnector } from '../types';
+import type { InvokeOptions, Task, TaskType, ToolResponse, WorkspaceContext } from '../types';
+import type { DiscoveryProbe, DiscoveryProbeResult, ToolCandidate } from './types';
+
+export interface ExtensionCommand {
+  command: string;
+
+  /** Task types the command can serve */
+  tasks: TaskType[];
+}
+
+/**
+ * How to recognise an AI assistant extension and drive it through its
+ * commands.
+ */
+export interface AssistantExtensionSignature {
+  /** Tool id used in routing preferences */
+  toolId: string;
+  extensionId: string;
+  name: string;
+  commands: ExtensionCommand[];
+}
+
+export const KNOWN_ASSISTANT_EXTENSIONS: AssistantExtensionSignature[] = [
+  {
+    toolId: 'copilot',
+    extensionId: 'GitHub.copilot',
+    name: 'GitHub Copilot',
+    commands: [
+      { command: 'editor.action.inlineSuggest.trigger', tasks: ['completion'] }
+    ]
+  },
+  {
+    toolId: 'copilot-chat',
+    extensionId: 'GitHub.copilot-chat',
+    name: 'GitHub Copilot Chat',
+    commands: [
+      { command: 'workbench.action.chat.open', tasks: ['planning', 'analysis', 'implementation', 'debugging', 'documentation', 'general-purpose'] }
+    ]
+  },
+  {
+    toolId: 'continue',
+    extensionId: 'Continue.continue',
+    name: 'Continue',
+    commands: [
+      { command: 'continue.quickEdit', tasks: ['completion', 'refactoring'] },
+      { command: 'continue.sendChatMessage', tasks: ['planning', 'analysis', 'general-purpose'] }
+    ]
+  },
+  {
+    toolId: 'codeium',
+    extensionId: 'Codeium.codeium',
+    name: 'Codeium',
+    commands: [
+      { command: 'editor.action.inlineSuggest.trigger', tasks: ['completion'] },
+      { command: 'codeium.openChat', tasks: ['analysis', 'documentation', 'general-purpose'] }
+    ]
+  },
+  {
+    toolId: 'amazon-q',
+    extensionId: 'AmazonWebServices.amazon-q-vscode',
+    name: 'Amazon Q',
+    commands: [
+      { command: 'editor.action.inlineSuggest.trigger', tasks: ['completion'] },
+      { command: 'aws.amazonq.focusChat', tasks: ['planning', 'deployment', 'security', 'general-purpose'] }
+    ]
+  }
+];
+
+export interface ExtensionProbeOptions {
+  /** Extensions to look for; defaults to KNOWN_ASSISTANT_EXTENSIONS */
+  signatures?: AssistantExtensionSignature[];
+
+  /** When non-empty, only these extension ids are considered */
+  extensionWhitelist?: string[];
+
+  /** Build the connector for a found extension; defaults to VSCodeCommandConnector */
+  createConnector?: (signature: AssistantExtensionSignature) => ToolConnector;
+}
+
+/**
+ * Discovers installed AI assistant extensions. Capabilities come from the
+ * signature commands that are actually registered, the same way
+ * testContinueCapabilities() probes Continue; an extension that has not
+ * activated yet is reported with every capability its signature lists.
+ */
+export class ExtensionProbe implements DiscoveryProbe {
+  readonly name = 'vscode-extensions';
+
+  constructor(private options: ExtensionProbeOptions = {}) {}
+
+  async discover(): Promise<DiscoveryProbeResult> {
+    const whitelist = (this.options.extensionWhitelist ?? []).map(id => id.toLowerCase());
+    const signatures = (this.options.signatures ?? KNOWN_ASSISTANT_EXTENSIONS)
+      .filter(signature => whitelist.length === 0 || whitelist.includes(signature.extensionId.toLowerCase()));
+
+    const registered = new Set(await vscode.commands.getCommands(true));
+    const candidates: ToolCandidate[] = [];
+
+    for (const signature of signatures) {
+      const extension = vscode.extensions.getExtension(signature.extensionId);
+      if (!extension) {
+        continue;
+      }
+
+      const available = signature.commands.filter(command => registered.has(command.command));
+      const commands = extension.isActive && available.length > 0 ? available : signature.commands;
+      const createConnector = this.options.createConnector ?? (() => new VSCodeCommandConnector(signature));
+
+      candidates.push({
+        id: signature.toolId,
+        name: extension.packageJSON?.displayName ?? signature.name,
+        type: 'vscode-extension',
+        capabilities: {
+          tasks: Array.from(new Set(commands.flatMap(command => command.tasks))),
+          languages: ['*'],
+          integrations: ['vscode'],
+          commands: commands.map(command => command.command)
+        },
+        fingerprint: `${extension.packageJSON?.version ?? ''}:${commands.map(command => command.command).join(',')}`,
+        createConnector: () => createConnector(signature)
+      });
+    }
+
+    return { candidates, errors: [] };
+  }
+
+  watch(onChange: () => void): vscode.Disposable {
+    return vscode.extensions.onDidChange(onChange);
+  }
+}
+
+/**
+ * Drives an assistant extension by running the command registered for the
+ * task type with the task description as its argument.
+ */
+export class VSCodeCommandConnector extends ToolConnector {
+  constructor(private signature: AssistantExtensionSignature) {
+    super();
+  }
+
+  async connect(): Promise<vscode.Extension<any>> {
+    const extension = vscode.extensions.getExtension(this.signature.extensionId);
+    if (!extension) {
+      throw new Error(`${this.signature.name} extension not found`);
+    }
+
+    if (!extension.isActive) {
+      await extension.activate();
+    }
+    return extension;
+  }
+
+  async invoke(task: Task, _context: WorkspaceContext, options: InvokeOptions = {}): Promise<ToolResponse> {
+    const command = this.commandFor(task.type);
+
+    try {
+      if (!command) {
+        throw new Error(`${this.signature.name} has no command for task type: ${task.type}`);
+      }
+
+      await this.connect();
+      if (options.cancellationToken?.isCancellationRequested) {
+        throw new CancellationError();
+      }
+
+      const result = await vscode.commands.executeCommand(command.command, task.description);
+      return {
+        success: true,
+        data: { type: task.type, response: result },
+        toolId: this.signature.toolId,
+        metadata: { method: command.command, taskType: task.type }
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+        toolId: this.signature.toolId,
+        metadata: {
+          taskType: task.type,
+          errorType: error.constructor.name,
+          cancelled: error instanceof CancellationError
+        }
+      };
+    }
+  }
+
+  async testHealth(): Promise<boolean> {
+    return vscode.extensions.getExtension(this.signature.extensionId) !== undefined;
+  }
+
+  async disconnect(): Promise<void> {
+    // VS Code extensions don't need explicit disconnection
+  }
+
+  private commandFor(taskType: TaskType): ExtensionCommand | undefined {
+    return this.signature.commands.find(command => command.tasks.includes(taskType))
+      ?? this.signature.commands.find(command => command.tasks.includes('general-purpose'));
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Tool discovery: probes that find tools and the registry that keeps them
+ * connected and health checked.
+ *
+ * The VS Code extension probe lives in ./extension-probe and is not
+ * re-exported here, so this module stays usable outside VS Code.
+ */
+
+export * from './types';
+export * from './mcp-config';
+export * from './mcp-probe';
+export * from './cli-probe';
+export * from './acp-probe';
+export * from './tool-discovery';
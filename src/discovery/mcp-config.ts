@@ -0,0 +1,225 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { MCPTransportConfig } from '../mcp';
+
+/**
+ * MCP server definitions read from the config files editors and agents
+ * already use. Two layouts exist: VS Code's `{ "servers": {...} }` and the
+ * `{ "mcpServers": {...} }` layout shared by Claude Desktop, Claude Code and
+ * Cursor. Both map a server name to a command line or a URL.
+ */
+
+/** A server reached over HTTP (streamable HTTP or SSE) */
+export interface MCPRemoteServerConfig {
+  type: 'http' | 'sse';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export type MCPServerTransport = MCPTransportConfig | MCPRemoteServerConfig;
+
+export interface MCPServerDefinition {
+  /** Server name as written in the config file */
+  name: string;
+
+  transport: MCPServerTransport;
+
+  /** Config file the definition came from */
+  source: string;
+}
+
+export interface MCPConfigPathOptions {
+  workspaceRoot?: string;
+  homeDir?: string;
+  platform?: NodeJS.Platform;
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Well-known MCP config locations, workspace files first so a project can
+ * override a user-level server of the same name.
+ */
+export function defaultMCPConfigPaths(options: MCPConfigPathOptions = {}): string[] {
+  const home = options.homeDir ?? os.homedir();
+  const platform = options.platform ?? process.platform;
+  const env = options.env ?? process.env;
+  const paths: string[] = [];
+
+  if (options.workspaceRoot) {
+    paths.push(
+      path.join(options.workspaceRoot, '.vscode', 'mcp.json'),
+      path.join(options.workspaceRoot, '.mcp.json'),
+      path.join(options.workspaceRoot, '.cursor', 'mcp.json')
+    );
+  }
+
+  paths.push(path.join(home, '.cursor', 'mcp.json'));
+
+  if (platform === 'darwin') {
+    paths.push(path.join(home, 'Library', 'Application Support', 'Claude', 'claude_desktop_config.json'));
+  } else if (platform === 'win32') {
+    paths.push(path.join(env.APPDATA ?? path.join(home, 'AppData', 'Roaming'), 'Claude', 'claude_desktop_config.json'));
+  } else {
+    paths.push(path.join(env.XDG_CONFIG_HOME ?? path.join(home, '.config'), 'Claude', 'claude_desktop_config.json'));
+  }
+
+  return paths;
+}
+
+/**
+ * Read one MCP config file. Resolves to an empty list when the file does not
+ * exist; throws when it exists but cannot be parsed.
+ */
+export async function readMCPConfigFile(filePath: string, options: MCPConfigPathOptions = {}): Promise<MCPServerDefinition[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  return parseMCPConfig(text, filePath, options);
+}
+
+/**
+ * Parse MCP config text in either layout. Comments and trailing commas are
+ * accepted, as VS Code allows them in mcp.json.
+ */
+export function parseMCPConfig(text: string, source: string, options: MCPConfigPathOptions = {}): MCPServerDefinition[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripJsonComments(text));
+  } catch (error) {
+    throw new Error(`Failed to parse ${source}: ${(error as Error).message}`);
+  }
+
+  if (!isObject(value)) {
+    throw new Error(`Failed to parse ${source}: expected an object`);
+  }
+
+  const servers = value.servers ?? value.mcpServers;
+  if (servers === undefined) {
+    return [];
+  }
+  if (!isObject(servers)) {
+    throw new Error(`Invalid ${source}: servers must be an object`);
+  }
+
+  const resolve = (text: string) => expandConfigVariables(text, options);
+
+  return Object.entries(servers).flatMap(([name, entry]) => {
+    if (!isObject(entry) || entry.disabled === true) {
+      return [];
+    }
+
+    const transport = serverTransport(entry, resolve);
+    return transport ? [{ name, transport, source }] : [];
+  });
+}
+
+function serverTransport(entry: Record<string, unknown>, resolve: (text: string) => string): MCPServerTransport | undefined {
+  if (typeof entry.command === 'string') {
+    return {
+      type: 'stdio',
+      command: resolve(entry.command),
+      args: Array.isArray(entry.args) ? entry.args.map(arg => resolve(String(arg))) : undefined,
+      env: isObject(entry.env) ? mapValues(entry.env, resolve) : undefined,
+      cwd: typeof entry.cwd === 'string' ? resolve(entry.cwd) : undefined
+    };
+  }
+
+  const url = typeof entry.url === 'string' ? entry.url : typeof entry.serverUrl === 'string' ? entry.serverUrl : undefined;
+  if (!url) {
+    return undefined;
+  }
+
+  const resolved = resolve(url);
+  if (/^wss?:/.test(resolved)) {
+    return { type: 'websocket', url: resolved };
+  }
+
+  return {
+    type: entry.type === 'sse' ? 'sse' : 'http',
+    url: resolved,
+    headers: isObject(entry.headers) ? mapValues(entry.headers, resolve) : undefined
+  };
+}
+
+/**
+ * Expand ${workspaceFolder}, ${userHome}, ${env:NAME} and ${NAME}. Anything
+ * else, such as VS Code's ${input:...} prompts, is left untouched.
+ */
+function expandConfigVariables(text: string, options: MCPConfigPathOptions): string {
+  const env = options.env ?? process.env;
+
+  return text.replace(/\$\{([^}]+)\}/g, (match, name: string) => {
+    if (name === 'workspaceFolder' || name === 'workspaceRoot') {
+      return options.workspaceRoot ?? match;
+    }
+    if (name === 'userHome') {
+      return options.homeDir ?? os.homedir();
+    }
+
+    const envName = name.startsWith('env:') ? name.slice(4) : name;
+    return env[envName] ?? match;
+  });
+}
+
+/**
+ * Remove // and block comments and trailing commas outside of strings.
+ */
+function stripJsonComments(text: string): string {
+  let output = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      output += char;
+      if (char === '\\') {
+        output += text[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') {
+        i++;
+      }
+      output += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      if (char === '}' || char === ']') {
+        output = withoutTrailingComma(output);
+      }
+      output += char;
+    }
+  }
+
+  return output;
+}
+
+function withoutTrailingComma(text: string): string {
+  let end = text.length - 1;
+  while (end >= 0 && /\s/.test(text[end])) {
+    end--;
+  }
+  return text[end] === ',' ? text.slice(0, end) + text.slice(end + 1) : text;
+}
+
+function mapValues(record: Record<string, unknown>, map: (value: string) => string): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, map(String(value))]));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,108 @@
+import { DiscoveryError } from '../types';
+import type { ToolConnector } from '../types';
+import { taskTypesForTools } from '../mcp';
+import type { MCPTool } from '../mcp';
+import { defaultMCPConfigPaths, readMCPConfigFile } from './mcp-config';
+import type { MCPConfigPathOptions, MCPServerDefinition } from './mcp-config';
+import type { DiscoveryProbe, DiscoveryProbeResult, ToolCandidate } from './types';
+
+/**
+ * Builds the connector for a configured server, or returns undefined when
+ * the server's transport is not supported.
+ */
+export type MCPConnectorFactory = (server: MCPServerDefinition) => ToolConnector | undefined;
+
+/** Connectors that can list the server's tools, used to infer capabilities */
+export interface MCPToolSource {
+  listTools(): Promise<MCPTool[]>;
+}
+
+export interface MCPConfigProbeOptions extends MCPConfigPathOptions {
+  /** Config files to read; defaults to defaultMCPConfigPaths() */
+  configPaths?: string[];
+
+  createConnector: MCPConnectorFactory;
+}
+
+/**
+ * Discovers MCP servers declared in config files. A server name found in
+ * several files is taken from the first file listed.
+ */
+export class MCPConfigProbe implements DiscoveryProbe {
+  readonly name = 'mcp-config';
+
+  constructor(private options: MCPConfigProbeOptions) {}
+
+  async discover(): Promise<DiscoveryProbeResult> {
+    const paths = this.options.configPaths && this.options.configPaths.length > 0
+      ? this.options.configPaths
+      : defaultMCPConfigPaths(this.options);
+
+    const files = await Promise.all(paths.map(async filePath => {
+      try {
+        return { servers: await readMCPConfigFile(filePath, this.options) };
+      } catch (error) {
+        const original = error instanceof Error ? error : new Error(String(error));
+        return { error: new DiscoveryError(original.message, filePath, original) };
+      }
+    }));
+
+    const result: DiscoveryProbeResult = { candidates: [], errors: [] };
+    const seen = new Set<string>();
+
+    for (const file of files) {
+      if (file.error) {
+        result.errors.push(file.error);
+        continue;
+      }
+
+      for (const server of file.servers ?? []) {
+        if (!seen.has(server.name)) {
+          seen.add(server.name);
+          result.candidates.push(this.toCandidate(server));
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private toCandidate(server: MCPServerDefinition): ToolCandidate {
+    const transport = server.transport;
+    const endpoint = transport.type === 'stdio'
+      ? [transport.command, ...(transport.args ?? [])].join(' ')
+      : transport.url;
+
+    return {
+      id: server.name,
+      name: server.name,
+      type: 'mcp-server',
+      endpoint,
+      capabilities: {
+        tasks: ['general-purpose'],
+        languages: ['*'],
+        integrations: ['mcp'],
+        commands: []
+      },
+      fingerprint: JSON.stringify(transport),
+      createConnector: () => {
+        const connector = this.options.createConnector(server);
+        if (!connector) {
+          throw new DiscoveryError(`Unsupported MCP transport '${transport.type}' for server '${server.name}'`, server.source);
+        }
+        return connector;
+      },
+      probeCapabilities: async connector => {
+        if (!isMCPToolSource(connector)) {
+          return {};
+        }
+
+        return { tasks: taskTypesForTools(await connector.listTools()) };
+      }
+    };
+  }
+}
+
+export function isMCPToolSource(connector: ToolConnector): connector is ToolConnector & MCPToolSource {
+  return typeof (connector as Partial<MCPToolSource>).listTools === 'function';
+}
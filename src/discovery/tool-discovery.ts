@@ -0,0 +1,417 @@
+import { DiscoveryError, TOOL_TYPES, assertValid, validateToolConfig } from '../types';
+import type {
+  DiscoveredTool,
+  DiscoveryConfig,
+  DiscoveryEvents,
+  DiscoverySummary,
+  Disposable,
+  HealthCheckResults,
+  TaskType,
+  ToolCapabilities,
+  ToolConfig,
+  ToolConnector,
+  ToolType
+} from '../types';
+import type { DiscoveryProbe, ToolCandidate } from './types';
+
+export const DEFAULT_DISCOVERY_CONFIG: DiscoveryConfig = {
+  enableAutoDiscovery: true,
+  scanPorts: [],
+  extensionWhitelist: [],
+  mcpConfigPaths: [],
+  discoveryInterval: 300000
+};
+
+export interface ToolDiscoveryOptions {
+  config?: Partial<DiscoveryConfig>;
+
+  /** Sources searched on every discovery pass */
+  probes?: DiscoveryProbe[];
+
+  events?: Partial<DiscoveryEvents>;
+
+  /** How often to health check registered tools (ms); 0 disables */
+  healthCheckInterval?: number;
+
+  /**
+   * Wraps every connector before its tool is registered, so each call goes
+   * through the wrapper (e.g. redaction). Capability probes still get the
+   * connector the probe created.
+   */
+  wrapConnector?: (connector: ToolConnector, tool: Pick<DiscoveredTool, 'id' | 'type' | 'endpoint'>) => ToolConnector;
+}
+
+/** Where a registry entry came from */
+interface ToolOrigin {
+  /** Probe name, or undefined for tools registered by hand */
+  probe?: string;
+  fingerprint?: string;
+
+  /** Connector as created, before wrapConnector */
+  connector: ToolConnector;
+
+  /** Refines capabilities whenever the tool becomes healthy */
+  probeCapabilities?: () => Promise<Partial<ToolCapabilities>>;
+}
+
+/**
+ * Keeps the registry of available tools. Probes are run on every discovery
+ * pass; tools they stop reporting are removed, tools whose configuration
+ * changed get a fresh connector, and unchanged tools keep theirs. Tools
+ * registered by hand are never touched by discovery.
+ */
+export class ToolDiscovery {
+  private readonly config: DiscoveryConfig;
+  private readonly probes: DiscoveryProbe[];
+  private readonly events: Partial<DiscoveryEvents>;
+  private readonly tools = new Map<string, DiscoveredTool>();
+  private readonly origins = new Map<string, ToolOrigin>();
+  private readonly disposables: Disposable[] = [];
+  private timers: Array<ReturnType<typeof setInterval>> = [];
+  private discovering: Promise<DiscoverySummary> | null = null;
+
+  constructor(private options: ToolDiscoveryOptions = {}) {
+    this.config = { ...DEFAULT_DISCOVERY_CONFIG, ...options.config };
+    this.probes = options.probes ?? [];
+    this.events = options.events ?? {};
+  }
+
+  /**
+   * Run the first discovery pass and, when auto discovery is enabled, keep
+   * rediscovering on the configured interval and when a probe reports a
+   * change.
+   */
+  async initializeDiscovery(): Promise<void> {
+    this.stopTimers();
+
+    if (!this.config.enableAutoDiscovery) {
+      return;
+    }
+
+    await this.rediscoverTools();
+
+    for (const probe of this.probes) {
+      const watcher = probe.watch?.(() => {
+        this.rediscoverTools().catch(error => console.error('Tool rediscovery failed:', error));
+      });
+      if (watcher) {
+        this.disposables.push(watcher);
+      }
+    }
+
+    if (this.config.discoveryInterval > 0) {
+      this.timers.push(setInterval(() => {
+        this.rediscoverTools().catch(error => console.error('Tool rediscovery failed:', error));
+      }, this.config.discoveryInterval));
+    }
+
+    const healthCheckInterval = this.options.healthCheckInterval ?? 0;
+    if (healthCheckInterval > 0) {
+      this.timers.push(setInterval(() => {
+        this.performHealthChecks().catch(error => console.error('Tool health check failed:', error));
+      }, healthCheckInterval));
+    }
+  }
+
+  /**
+   * Re-run every probe. Concurrent calls share the pass in progress.
+   */
+  async rediscoverTools(): Promise<DiscoverySummary> {
+    if (!this.discovering) {
+      this.discovering = this.discover().finally(() => {
+        this.discovering = null;
+      });
+    }
+    return this.discovering;
+  }
+
+  /** Get all currently discovered tools */
+  getDiscoveredTools(): Map<string, DiscoveredTool> {
+    return new Map(this.tools);
+  }
+
+  /**
+   * Healthy tools that can handle a task type. Tools that list the type come
+   * before general-purpose ones.
+   */
+  getToolsForTask(taskType: TaskType): DiscoveredTool[] {
+    const healthy = Array.from(this.tools.values()).filter(tool => tool.isHealthy);
+    const specific = healthy.filter(tool => tool.capabilities.tasks.includes(taskType));
+    const general = healthy.filter(tool =>
+      !specific.includes(tool) && tool.capabilities.tasks.includes('general-purpose')
+    );
+    return [...specific, ...general];
+  }
+
+  /**
+   * Register a tool by hand. It replaces any discovered tool with the same
+   * id and is kept until unregistered.
+   */
+  async registerCustomTool(config: ToolConfig, connector: ToolConnector): Promise<void> {
+    assertValid(validateToolConfig(config), 'tool registration');
+
+    this.removeTool(config.id, connector);
+    const endpoint = config.endpoint ?? config.command;
+    const tool: DiscoveredTool = {
+      id: config.id,
+      name: config.name,
+      type: config.type,
+      capabilities: { ...config.capabilities, rateLimit: config.capabilities.rateLimit ?? config.rateLimit },
+      connector: this.wrap(connector, { id: config.id, type: config.type, endpoint }),
+      endpoint,
+      isHealthy: false,
+      lastChecked: new Date()
+    };
+
+    this.tools.set(tool.id, tool);
+    this.origins.set(tool.id, { connector });
+    await this.checkHealth(tool, false);
+    this.events.onToolsDiscovered?.([tool]);
+  }
+
+  /** Remove a tool from the registry and disconnect it */
+  unregisterTool(toolId: string): void {
+    if (this.removeTool(toolId)) {
+      this.events.onToolsRemoved?.([toolId]);
+    }
+  }
+
+  /**
+   * Health check every registered tool. Transitions fire onToolUnhealthy and
+   * onToolRecovered.
+   */
+  async performHealthChecks(): Promise<HealthCheckResults> {
+    const startedAt = Date.now();
+    const results: HealthCheckResults = { checkedAt: new Date(startedAt), healthy: [], unhealthy: [], duration: 0 };
+
+    await Promise.all(Array.from(this.tools.values()).map(async tool => {
+      const error = await this.checkHealth(tool, true);
+      if (error) {
+        results.unhealthy.push({ toolId: tool.id, error: error.message });
+      } else {
+        results.healthy.push(tool.id);
+      }
+    }));
+
+    results.duration = Date.now() - startedAt;
+    return results;
+  }
+
+  /**
+   * Stop timers and watchers and disconnect every tool.
+   */
+  async dispose(): Promise<void> {
+    this.stopTimers();
+    const tools = Array.from(this.tools.values());
+    this.tools.clear();
+    this.origins.clear();
+    await Promise.all(tools.map(tool => disconnectQuietly(tool.connector)));
+  }
+
+  private async discover(): Promise<DiscoverySummary> {
+    const startedAt = Date.now();
+    const errors: DiscoveryError[] = [];
+    const accepted: Array<{ probe: DiscoveryProbe; candidate: ToolCandidate }> = [];
+    const removed: string[] = [];
+    const failedProbes = new Set<string>();
+    const seen = new Set<string>();
+
+    const outcomes = await Promise.all(this.probes.map(async probe => {
+      try {
+        return { probe, result: await probe.discover() };
+      } catch (error) {
+        const original = error instanceof Error ? error : new Error(String(error));
+        errors.push(new DiscoveryError(`Probe '${probe.name}' failed: ${original.message}`, probe.name, original));
+        failedProbes.add(probe.name);
+        return { probe, result: { candidates: [], errors: [] } };
+      }
+    }));
+
+    for (const { probe, result } of outcomes) {
+      errors.push(...result.errors);
+
+      for (const candidate of result.candidates) {
+        if (seen.has(candidate.id)) {
+          errors.push(new DiscoveryError(`Duplicate tool id '${candidate.id}'`, probe.name));
+          continue;
+        }
+        if (this.origins.get(candidate.id)?.probe === undefined && this.tools.has(candidate.id)) {
+          // Tools registered by hand take precedence
+          continue;
+        }
+        seen.add(candidate.id);
+        accepted.push({ probe, candidate });
+      }
+    }
+
+    const applied = await Promise.all(accepted.map(async ({ probe, candidate }) => {
+      try {
+        return await this.applyCandidate(probe, candidate);
+      } catch (error) {
+        if (error instanceof DiscoveryError) {
+          errors.push(error);
+        } else {
+          const original = error instanceof Error ? error : new Error(String(error));
+          errors.push(new DiscoveryError(original.message, candidate.id, original));
+        }
+        return undefined;
+      }
+    }));
+    const discovered = applied.filter((tool): tool is DiscoveredTool => tool !== undefined);
+
+    for (const [toolId, origin] of this.origins) {
+      if (origin.probe !== undefined && !seen.has(toolId) && !failedProbes.has(origin.probe)) {
+        this.removeTool(toolId);
+        removed.push(toolId);
+      }
+    }
+
+    if (removed.length > 0) {
+      this.events.onToolsRemoved?.(removed);
+    }
+    if (discovered.length > 0) {
+      this.events.onToolsDiscovered?.(discovered);
+    }
+
+    const summary = this.summarize(startedAt, errors);
+    this.events.onDiscoveryComplete?.(summary);
+    return summary;
+  }
+
+  /**
+   * Add or refresh the tool for a candidate. Returns the tool when it is new
+   * to the registry.
+   */
+  private async applyCandidate(probe: DiscoveryProbe, candidate: ToolCandidate): Promise<DiscoveredTool | undefined> {
+    const existing = this.tools.get(candidate.id);
+    const origin = this.origins.get(candidate.id);
+    if (existing && origin?.probe === probe.name && origin.fingerprint === candidate.fingerprint) {
+      existing.name = candidate.name;
+      return undefined;
+    }
+
+    const connector = candidate.createConnector();
+    const isNew = !existing;
+    this.removeTool(candidate.id);
+
+    const tool: DiscoveredTool = {
+      id: candidate.id,
+      name: candidate.name,
+      type: candidate.type,
+      capabilities: candidate.capabilities,
+      connector: this.wrap(connector, candidate),
+      endpoint: candidate.endpoint,
+      isHealthy: false,
+      lastChecked: new Date()
+    };
+
+    this.tools.set(tool.id, tool);
+    this.origins.set(tool.id, {
+      probe: probe.name,
+      fingerprint: candidate.fingerprint,
+      connector,
+      probeCapabilities: candidate.probeCapabilities && (() => candidate.probeCapabilities!(connector))
+    });
+
+    await this.checkHealth(tool, false);
+    return isNew ? tool : undefined;
+  }
+
+  /**
+   * Run one tool's health check and record the result. Returns the failure,
+   * if any. Transition events fire only when notify is set.
+   */
+  private async checkHealth(tool: DiscoveredTool, notify: boolean): Promise<Error | undefined> {
+    let failure: Error | undefined;
+    try {
+      if (!(await tool.connector.testHealth())) {
+        failure = new Error(`Health check failed for ${tool.id}`);
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error : new Error(String(error));
+    }
+
+    // The tool may have been replaced or removed while the check ran
+    if (this.tools.get(tool.id) !== tool) {
+      return failure;
+    }
+
+    const wasHealthy = tool.isHealthy;
+    tool.isHealthy = failure === undefined;
+    tool.lastChecked = new Date();
+
+    const probeCapabilities = this.origins.get(tool.id)?.probeCapabilities;
+    if (!wasHealthy && !failure && probeCapabilities) {
+      try {
+        tool.capabilities = { ...tool.capabilities, ...(await probeCapabilities()) };
+      } catch (error) {
+        console.error(`Capability probe for ${tool.id} failed:`, error);
+      }
+    }
+
+    if (notify && wasHealthy && failure) {
+      this.events.onToolUnhealthy?.(tool, failure);
+    } else if (notify && !wasHealthy && !failure) {
+      this.events.onToolRecovered?.(tool);
+    }
+
+    return failure;
+  }
+
+  /**
+   * Drop a tool and disconnect its connector, unless it is the connector
+   * about to replace it. Returns whether a tool was removed.
+   */
+  private removeTool(toolId: string, replacement?: ToolConnector): boolean {
+    const tool = this.tools.get(toolId);
+    if (!tool) {
+      return false;
+    }
+
+    const unwrapped = this.origins.get(toolId)?.connector ?? tool.connector;
+    this.tools.delete(toolId);
+    this.origins.delete(toolId);
+    if (unwrapped !== replacement) {
+      disconnectQuietly(tool.connector);
+    }
+    return true;
+  }
+
+  private wrap(connector: ToolConnector, tool: Pick<DiscoveredTool, 'id' | 'type' | 'endpoint'>): ToolConnector {
+    return this.options.wrapConnector?.(connector, { id: tool.id, type: tool.type, endpoint: tool.endpoint }) ?? connector;
+  }
+
+  private summarize(startedAt: number, errors: DiscoveryError[]): DiscoverySummary {
+    const byType = Object.fromEntries(TOOL_TYPES.map(type => [type, 0])) as Record<ToolType, number>;
+    let healthyTools = 0;
+
+    for (const tool of this.tools.values()) {
+      byType[tool.type]++;
+      if (tool.isHealthy) {
+        healthyTools++;
+      }
+    }
+
+    return {
+      totalTools: this.tools.size,
+      byType,
+      healthyTools,
+      duration: Date.now() - startedAt,
+      errors: errors.map(error => ({ target: error.discoveryTarget, message: error.message }))
+    };
+  }
+
+  private stopTimers(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+    this.disposables.splice(0).forEach(disposable => disposable.dispose());
+  }
+}
+
+async function disconnectQuietly(connector: ToolConnector): Promise<void> {
+  try {
+    await connector.disconnect();
+  } catch (error) {
+    console.error('Failed to disconnect tool:', error);
+  }
+}
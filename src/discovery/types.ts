@@ -0,0 +1,48 @@
+import type { DiscoveryError, Disposable, ToolCapabilities, ToolConnector, ToolType } from '../types';
+
+/**
+ * A tool a probe found, before the registry has connected to it. The
+ * connector is only created for candidates the registry does not already
+ * hold, so rediscovery does not restart servers that are unchanged.
+ */
+export interface ToolCandidate {
+  id: string;
+  name: string;
+  type: ToolType;
+  capabilities: ToolCapabilities;
+  endpoint?: string;
+
+  /**
+   * Identifies the configuration the candidate was built from. When it
+   * changes between passes the old connector is replaced.
+   */
+  fingerprint: string;
+
+  createConnector(): ToolConnector;
+
+  /**
+   * Refine capabilities once the tool is reachable, e.g. from the tool list
+   * of an MCP server. Only called after a successful health check.
+   */
+  probeCapabilities?(connector: ToolConnector): Promise<Partial<ToolCapabilities>>;
+}
+
+export interface DiscoveryProbeResult {
+  candidates: ToolCandidate[];
+
+  /** Targets the probe could not read; the rest of the result still counts */
+  errors: DiscoveryError[];
+}
+
+/**
+ * One source of tools: installed extensions, MCP config files, PATH, ...
+ */
+export interface DiscoveryProbe {
+  /** Short name used in logs and discovery errors */
+  readonly name: string;
+
+  discover(): Promise<DiscoveryProbeResult>;
+
+  /** Call onChange when the probe's source changes outside the discovery interval */
+  watch?(onChange: () => void): Disposable;
+}
@@ -0,0 +1,137 @@
+import { diffSequences, splitLines } from '../utils';
+import type { Hunk, TextReplacement } from './types';
+
+/**
+ * Hunks that turn one text into the other. Changes separated by no more
+ * than `mergeWithin` unchanged lines form one hunk, as in `git diff`.
+ */
+export function computeHunks(original: string | undefined, proposed: string | undefined, mergeWithin = 3): Hunk[] {
+  const originalLines = splitLines(original ?? '');
+  const proposedLines = splitLines(proposed ?? '');
+
+  const blocks: Array<Omit<Hunk, 'id' | 'removed' | 'added'>> = [];
+  let i = 0;
+  let j = 0;
+  for (const operation of diffSequences(originalLines, proposedLines)) {
+    const length = operation.items.length;
+    if (operation.type === 'equal') {
+      i += length;
+      j += length;
+      continue;
+    }
+
+    const last = blocks[blocks.length - 1];
+    const gap = last ? i - (last.originalStart + last.originalLength) : Infinity;
+    const block = last && gap <= mergeWithin
+      ? last
+      : { originalStart: i, originalLength: 0, proposedStart: j, proposedLength: 0 };
+    if (block !== last) {
+      blocks.push(block);
+    }
+
+    if (operation.type === 'delete') {
+      i += length;
+    } else {
+      j += length;
+    }
+    block.originalLength = i - block.originalStart;
+    block.proposedLength = j - block.proposedStart;
+  }
+
+  return blocks.map((block, index) => ({
+    id: `hunk-${index + 1}`,
+    ...block,
+    removed: originalLines.slice(block.originalStart, block.originalStart + block.originalLength),
+    added: proposedLines.slice(block.proposedStart, block.proposedStart + block.proposedLength)
+  }));
+}
+
+/**
+ * The editor edit that applies one hunk to the original text. A hunk that
+ * reaches the end of the file also takes the preceding line break, so
+ * trailing lines can be removed without leaving an empty line behind.
+ */
+export function hunkReplacement(original: string, hunk: Hunk): TextReplacement {
+  const lines = splitLines(original);
+  const eol = detectEol(original);
+  const end = hunk.originalStart + hunk.originalLength;
+
+  if (end < lines.length) {
+    return {
+      startLine: hunk.originalStart,
+      startCharacter: 0,
+      endLine: end,
+      endCharacter: 0,
+      text: hunk.added.map(line => line + eol).join('')
+    };
+  }
+
+  const lastLine = Math.max(0, lines.length - 1);
+  const lastCharacter = lines.length > 0 ? lines[lastLine].length : 0;
+  if (hunk.originalStart === 0) {
+    return { startLine: 0, startCharacter: 0, endLine: lastLine, endCharacter: lastCharacter, text: hunk.added.join(eol) };
+  }
+
+  return {
+    startLine: hunk.originalStart - 1,
+    startCharacter: lines[hunk.originalStart - 1].length,
+    endLine: lastLine,
+    endCharacter: lastCharacter,
+    text: hunk.added.length > 0 ? eol + hunk.added.join(eol) : ''
+  };
+}
+
+/**
+ * Apply some of a change's hunks, e.g. the ones the user accepted.
+ */
+export function applyHunks(original: string, hunks: Hunk[]): string {
+  const lines = splitLines(original);
+  const eol = detectEol(original);
+
+  // Offset of each line start, plus one past the end
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    offsets.push(offset);
+    offset += line.length + eol.length;
+  }
+  const toOffset = (line: number, character: number) => (line < offsets.length ? offsets[line] + character : original.length);
+
+  // Apply from the bottom up so earlier offsets stay valid
+  let text = original;
+  for (const hunk of [...hunks].sort((a, b) => b.originalStart - a.originalStart)) {
+    const replacement = hunkReplacement(original, hunk);
+    text = text.slice(0, toOffset(replacement.startLine, replacement.startCharacter)) +
+      replacement.text +
+      text.slice(toOffset(replacement.endLine, replacement.endCharacter));
+  }
+  return text;
+}
+
+/** Render hunks as a unified diff body, with `context` lines around each */
+export function formatUnifiedDiff(path: string, original: string | undefined, hunks: Hunk[], context = 3): string {
+  const lines = splitLines(original ?? '');
+  const output = [`--- ${original === undefined ? '/dev/null' : `a/${path}`}`, `+++ b/${path}`];
+
+  for (const hunk of hunks) {
+    const before = lines.slice(Math.max(0, hunk.originalStart - context), hunk.originalStart);
+    const after = lines.slice(hunk.originalStart + hunk.originalLength, hunk.originalStart + hunk.originalLength + context);
+    const originalStart = hunk.originalStart - before.length;
+    const proposedStart = hunk.proposedStart - before.length;
+    const originalLength = before.length + hunk.originalLength + after.length;
+    const proposedLength = before.length + hunk.proposedLength + after.length;
+
+    output.push(
+      `@@ -${originalStart + (originalLength > 0 ? 1 : 0)},${originalLength} +${proposedStart + (proposedLength > 0 ? 1 : 0)},${proposedLength} @@`,
+      ...before.map(line => ` ${line}`),
+      ...hunk.removed.map(line => `-${line}`),
+      ...hunk.added.map(line => `+${line}`),
+      ...after.map(line => ` ${line}`)
+    );
+  }
+  return output.join('\n');
+}
+
+export function detectEol(text: string): string {
+  return text.includes('\r\n') ? '\r\n' : '\n';
+}
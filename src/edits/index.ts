@@ -0,0 +1,12 @@
+/**
+ * Result application: turns code proposals from tool responses (code
+ * blocks, unified diffs, whole files) into per-file hunks.
+ *
+ * The WorkspaceEdit conversion lives in ./workspace-edit and is not
+ * re-exported here, so this module stays usable outside VS Code.
+ */
+
+export * from './types';
+export * from './hunks';
+export * from './unified-diff';
+export * from './proposals';
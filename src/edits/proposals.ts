@@ -0,0 +1,203 @@
+import { PatchError } from '../types';
+import type { ToolResponse } from '../types';
+import { applyDiffHunks, isUnifiedDiff, parseUnifiedDiff } from './unified-diff';
+import { computeHunks } from './hunks';
+import type { CodeBlock, EditProposal, FileChange } from './types';
+
+const FENCE = /```([^\n`]*)\n([\s\S]*?)```/g;
+
+/** First-line comments naming the file a code block belongs to */
+const PATH_COMMENT = /^\s*(?:\/\/|#|--|<!--|\/\*)\s*(file(?:name)?:\s*)?([\w./\\-]+\.\w+)\s*(?:-->|\*\/)?\s*$/i;
+
+/** Keys connectors commonly use for proposed code or diffs */
+const PAYLOAD_KEYS = ['diff', 'patch', 'changes', 'code', 'suggestion', 'result', 'content', 'text'];
+
+export interface ResolveOptions {
+  /** Current content of a file, or undefined when it does not exist */
+  readFile(path: string): Promise<string | undefined>;
+
+  /** Target for proposals that do not name a file, e.g. the active editor */
+  defaultPath?: string;
+
+  toolId?: string;
+}
+
+/**
+ * Find the code changes in a tool response. Understands, in order:
+ * - `files: [{ path, content | diff }]`
+ * - a refactoring result with `changes` and the `originalCode` it replaces
+ * - unified diffs, bare or in a ```diff block
+ * - fenced code blocks, named by their info string (```ts src/a.ts) or a
+ *   first-line comment (// src/a.ts)
+ *
+ * Code that names no file is usually an excerpt, not a whole file, so it
+ * only becomes a proposal when it is the single block of a response that
+ * names its file (`fileName`, `filePath`, `path`). Other unnamed blocks are
+ * skipped.
+ */
+export function extractEditProposals(response: ToolResponse): EditProposal[] {
+  const data = response.data;
+  const record = typeof data === 'object' && data !== null ? data as Record<string, unknown> : {};
+  const defaultPath = stringValue(record.fileName) ?? stringValue(record.filePath) ?? stringValue(record.path);
+
+  if (Array.isArray(record.files)) {
+    return record.files.flatMap(file => {
+      const entry = typeof file === 'object' && file !== null ? file as Record<string, unknown> : {};
+      const path = stringValue(entry.path);
+      const diff = stringValue(entry.diff) ?? stringValue(entry.patch);
+      const content = stringValue(entry.content);
+      if (diff !== undefined) {
+        return diffProposals(diff, path);
+      }
+      return content !== undefined && path !== undefined ? [{ kind: 'file' as const, path, content }] : [];
+    });
+  }
+
+  const text = typeof data === 'string' ? data : payloadText(record);
+  if (text === undefined) {
+    return [];
+  }
+
+  const original = stringValue(record.originalCode);
+  if (original !== undefined && original.length > 0 && !isUnifiedDiff(text)) {
+    const blocks = extractCodeBlocks(text);
+    return [{ kind: 'snippet', path: defaultPath, content: blocks.length > 0 ? blocks[0].code : text, original }];
+  }
+
+  if (isUnifiedDiff(text)) {
+    const fenced = extractCodeBlocks(text).filter(block => isUnifiedDiff(block.code));
+    return (fenced.length > 0 ? fenced.map(block => block.code) : [text]).flatMap(diff => diffProposals(diff, defaultPath));
+  }
+
+  const blocks = extractCodeBlocks(text);
+  if (blocks.length === 0) {
+    return typeof record.code === 'string' && defaultPath !== undefined
+      ? [{ kind: 'file', path: defaultPath, content: record.code }]
+      : [];
+  }
+
+  const unnamed = blocks.filter(block => block.path === undefined);
+  const proposals: EditProposal[] = [];
+  for (const block of blocks) {
+    if (block.path !== undefined) {
+      proposals.push({ kind: 'file', path: block.path, content: block.code });
+    } else if (defaultPath !== undefined && unnamed.length === 1) {
+      proposals.push({ kind: 'file', path: defaultPath, content: block.code });
+    }
+  }
+  return proposals;
+}
+
+/**
+ * Match proposals against the files they target. Several proposals for one
+ * file are applied in order. Proposals that change nothing are dropped.
+ */
+export async function resolveFileChanges(proposals: EditProposal[], options: ResolveOptions): Promise<FileChange[]> {
+  const files = new Map<string, { original?: string; proposed?: string; unnamed?: boolean }>();
+
+  for (const proposal of proposals) {
+    const path = proposal.path ?? options.defaultPath;
+    if (!path) {
+      throw new PatchError('Proposal does not name a file and no default file was given', '');
+    }
+
+    let file = files.get(path);
+    if (!file) {
+      const original = await options.readFile(path);
+      file = { original, proposed: original };
+      files.set(path, file);
+    }
+
+    file.proposed = applyProposal(proposal, file.proposed, file.original, path);
+    if (!proposal.path) {
+      file.unnamed = true;
+    }
+  }
+
+  const changes: FileChange[] = [];
+  for (const [path, file] of files) {
+    const created = file.original === undefined && file.proposed !== undefined;
+    const deleted = file.original !== undefined && file.proposed === undefined;
+    const hunks = computeHunks(file.original, file.proposed);
+    if (created || deleted || hunks.length > 0) {
+      changes.push({ path, original: file.original, proposed: file.proposed, hunks, toolId: options.toolId, unnamed: file.unnamed });
+    }
+  }
+  return changes;
+}
+
+function applyProposal(proposal: EditProposal, current: string | undefined, original: string | undefined, path: string): string | undefined {
+  switch (proposal.kind) {
+    case 'diff':
+      return proposal.deleted ? undefined : applyDiffHunks(current ?? '', proposal.hunks, path);
+
+    case 'file':
+      // Code blocks lose the file's final newline; keep it when the file had one
+      return original?.endsWith('\n') && !proposal.content.endsWith('\n') ? `${proposal.content}\n` : proposal.content;
+
+    case 'snippet': {
+      if (current === undefined) {
+        throw new PatchError('Cannot replace code in a file that does not exist', path);
+      }
+
+      let index = current.indexOf(proposal.original);
+      let length = proposal.original.length;
+      if (index === -1) {
+        index = current.indexOf(proposal.original.trim());
+        length = proposal.original.trim().length;
+      }
+      if (index === -1 || length === 0) {
+        throw new PatchError('The code the change was made against is no longer in the file', path);
+      }
+      return current.slice(0, index) + proposal.content + current.slice(index + length);
+    }
+  }
+}
+
+function diffProposals(diff: string, path: string | undefined): EditProposal[] {
+  return parseUnifiedDiff(diff).map(file => ({
+    kind: 'diff' as const,
+    path: file.path ?? path,
+    hunks: file.hunks,
+    deleted: file.deleted
+  }));
+}
+
+/** Fenced code blocks in a text, in order */
+export function extractCodeBlocks(text: string): CodeBlock[] {
+  return Array.from(text.matchAll(FENCE), match => {
+    const info = match[1].trim().split(/\s+/).filter(part => part.length > 0);
+    let code = match[2].replace(/\n$/, '');
+
+    // ```ts src/a.ts, ```ts title="src/a.ts" or ```src/a.ts
+    let path = info.map(part => part.replace(/^(?:title|file(?:name)?)=/, '').replace(/^["']|["']$/g, ''))
+      .find(part => /[\\/.]/.test(part) && /\.\w+$/.test(part));
+
+    if (!path) {
+      const [firstLine, ...rest] = code.split('\n');
+      const comment = PATH_COMMENT.exec(firstLine);
+      // A bare name like "// utils.ts" is too likely to be an ordinary comment
+      if (comment && (comment[1] || /[\\/]/.test(comment[2]))) {
+        path = comment[2];
+        code = rest.join('\n');
+      }
+    }
+    // The info string's first word is a language unless it is the path
+    const language = info.length > 0 && info[0] !== path && !info[0].includes('=') ? info[0] : undefined;
+    return { language, path, code };
+  });
+}
+
+function payloadText(record: Record<string, unknown>): string | undefined {
+  for (const key of PAYLOAD_KEYS) {
+    const value = record[key];
+    if (typeof value === 'string' && value.length > 0) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
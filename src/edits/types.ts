@@ -0,0 +1,79 @@
+/**
+ * A contiguous block of changed lines. Line numbers are 0-based; a length of
+ * 0 marks a pure insertion or deletion at that line.
+ */
+export interface Hunk {
+  /** Stable within one FileChange, e.g. for accept/reject choices */
+  id: string;
+
+  originalStart: number;
+  originalLength: number;
+  proposedStart: number;
+  proposedLength: number;
+
+  removed: string[];
+  added: string[];
+}
+
+/**
+ * A proposed change to one file, with the hunks that lead from its current
+ * to its proposed content.
+ */
+export interface FileChange {
+  /** As given by the tool: absolute or relative to the workspace root */
+  path: string;
+
+  /** Current content; undefined when the file does not exist yet */
+  original?: string;
+
+  /** Proposed content; undefined when the file is to be deleted */
+  proposed?: string;
+
+  hunks: Hunk[];
+
+  /** Tool that proposed the change */
+  toolId?: string;
+
+  /** A proposal named no file and was aimed at the default path instead */
+  unnamed?: boolean;
+}
+
+/**
+ * A fenced code block from a tool's answer. `language` and `path` come from
+ * the info string (```ts src/a.ts) or a first-line path comment.
+ */
+export interface CodeBlock {
+  language?: string;
+  path?: string;
+  code: string;
+}
+
+/**
+ * A change as a tool expressed it, before it is matched against the file.
+ */
+export type EditProposal =
+  /** One file's section of a unified diff */
+  | { kind: 'diff'; path?: string; hunks: DiffHunk[]; deleted?: boolean }
+  /** The complete new content of a file; never applied to a file it does not name */
+  | { kind: 'file'; path: string; content: string }
+  /** A replacement for a known piece of the file, e.g. the selection a refactoring started from */
+  | { kind: 'snippet'; path?: string; content: string; original: string };
+
+/**
+ * A hunk as written in a unified diff: 1-based, with context lines.
+ */
+export interface DiffHunk {
+  originalStart: number;
+  lines: Array<{ type: 'context' | 'remove' | 'add'; text: string }>;
+}
+
+/**
+ * An edit in editor coordinates: replace the range with the text.
+ */
+export interface TextReplacement {
+  startLine: number;
+  startCharacter: number;
+  endLine: number;
+  endCharacter: number;
+  text: string;
+}
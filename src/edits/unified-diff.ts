@@ -0,0 +1,151 @@
+import { PatchError } from '../types';
+import { splitLines } from '../utils';
+import { detectEol } from './hunks';
+import type { DiffHunk } from './types';
+
+export interface ParsedFileDiff {
+  /** Target path with any a/ or b/ prefix removed; the old path for deletions */
+  path?: string;
+  deleted: boolean;
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/** How far from its stated position a hunk may have moved */
+const MAX_DRIFT = 200;
+
+export function isUnifiedDiff(text: string): boolean {
+  return /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/m.test(text);
+}
+
+/**
+ * Parse a unified diff (git or plain) into one entry per file. A diff that
+ * has hunks but no file headers yields a single entry without a path.
+ */
+export function parseUnifiedDiff(text: string): ParsedFileDiff[] {
+  const files: ParsedFileDiff[] = [];
+  let file: ParsedFileDiff | undefined;
+  let hunk: DiffHunk | undefined;
+  let oldPath: string | undefined;
+
+  // Lines the current hunk header announced; once both are used up, a
+  // following "--- " line is a file header rather than a removal
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (const line of splitLines(text)) {
+    if (line.startsWith('diff --git ')) {
+      file = undefined;
+      hunk = undefined;
+      continue;
+    }
+
+    const headerAllowed = !hunk || (oldRemaining <= 0 && newRemaining <= 0);
+    if (line.startsWith('--- ') && headerAllowed) {
+      oldPath = headerPath(line.slice(4));
+      continue;
+    }
+    if (line.startsWith('+++ ') && headerAllowed) {
+      const newPath = headerPath(line.slice(4));
+      file = { path: newPath ?? oldPath, deleted: newPath === undefined, hunks: [] };
+      files.push(file);
+      hunk = undefined;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      if (!file) {
+        file = { deleted: false, hunks: [] };
+        files.push(file);
+      }
+      hunk = { originalStart: Number(header[1]), lines: [] };
+      oldRemaining = header[2] === undefined ? 1 : Number(header[2]);
+      newRemaining = header[4] === undefined ? 1 : Number(header[4]);
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk) {
+      continue;
+    }
+    if (line.startsWith('+')) {
+      hunk.lines.push({ type: 'add', text: line.slice(1) });
+      newRemaining--;
+    } else if (line.startsWith('-')) {
+      hunk.lines.push({ type: 'remove', text: line.slice(1) });
+      oldRemaining--;
+    } else if (line.startsWith(' ') || line === '') {
+      // Tools often strip the leading space of empty context lines
+      hunk.lines.push({ type: 'context', text: line.slice(1) });
+      oldRemaining--;
+      newRemaining--;
+    } else if (!line.startsWith('\\')) {
+      hunk = undefined;
+    }
+  }
+
+  // Trailing empty "context" lines are usually just the end of the text
+  for (const parsed of files) {
+    for (const entry of parsed.hunks) {
+      while (entry.lines.length > 0 && entry.lines[entry.lines.length - 1].type === 'context' && entry.lines[entry.lines.length - 1].text === '') {
+        entry.lines.pop();
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Apply diff hunks to a file's content. Each hunk is looked for at its
+ * stated line first and then nearby, so diffs made against a slightly
+ * different version still apply; trailing whitespace is ignored as a last
+ * resort.
+ */
+export function applyDiffHunks(original: string, hunks: DiffHunk[], path: string): string {
+  const lines = splitLines(original);
+  let drift = 0;
+
+  for (const hunk of hunks) {
+    const before = hunk.lines.filter(line => line.type !== 'add').map(line => line.text);
+    const after = hunk.lines.filter(line => line.type !== 'remove').map(line => line.text);
+
+    // A hunk against an empty range (new file, pure insertion) states the line before
+    const expected = Math.max(0, (before.length > 0 ? hunk.originalStart - 1 : hunk.originalStart) + drift);
+    const index = locate(lines, before, expected);
+    if (index === undefined) {
+      throw new PatchError(`Hunk at line ${hunk.originalStart} does not match the current content`, path);
+    }
+
+    lines.splice(index, before.length, ...after);
+    drift += index - expected + after.length - before.length;
+  }
+
+  return lines.join(detectEol(original));
+}
+
+function locate(lines: string[], needle: string[], expected: number): number | undefined {
+  if (needle.length === 0) {
+    return Math.min(expected, lines.length);
+  }
+
+  for (const equals of [(a: string, b: string) => a === b, (a: string, b: string) => a.trimEnd() === b.trimEnd()]) {
+    for (let distance = 0; distance <= MAX_DRIFT; distance++) {
+      for (const index of distance === 0 ? [expected] : [expected - distance, expected + distance]) {
+        if (index >= 0 && index + needle.length <= lines.length && needle.every((line, k) => equals(lines[index + k], line))) {
+          return index;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+function headerPath(value: string): string | undefined {
+  const path = value.split('\t')[0].trim();
+  if (path === '/dev/null') {
+    return undefined;
+  }
+  return path.replace(/^[ab]\//, '');
+}
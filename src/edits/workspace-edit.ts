@@ -0,0 +1,137 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { PatchError } from '../types';
+import type { ToolResponse } from '../types';
+import { hunkReplacement } from './hunks';
+import { extractEditProposals, resolveFileChanges } from './proposals';
+import type { FileChange, Hunk } from './types';
+
+export interface WorkspaceEditOptions {
+  /** Base for relative paths; defaults to the first workspace folder */
+  root?: vscode.Uri;
+
+  /**
+   * Mark every edit as needing confirmation, so applying opens the refactor
+   * preview where each hunk can be accepted or rejected. Edits to a file no
+   * proposal named always need confirmation.
+   */
+  confirm?: boolean;
+
+  /** Hunks to include; all when omitted */
+  include?: (change: FileChange, hunk: Hunk) => boolean;
+}
+
+/**
+ * Convert file changes into one WorkspaceEdit with an entry per hunk.
+ */
+export function createWorkspaceEdit(changes: FileChange[], options: WorkspaceEditOptions = {}): vscode.WorkspaceEdit {
+  const edit = new vscode.WorkspaceEdit();
+
+  for (const change of changes) {
+    const uri = resolveUri(change.path, options.root);
+    const label = `${change.toolId ?? 'Proposed'}: ${path.basename(change.path)}`;
+    const metadata = (description: string): vscode.WorkspaceEditEntryMetadata => ({
+      label,
+      description,
+      needsConfirmation: (options.confirm ?? false) || change.unnamed === true
+    });
+
+    if (change.original === undefined) {
+      edit.createFile(uri, { ignoreIfExists: false }, metadata('new file'));
+      edit.insert(uri, new vscode.Position(0, 0), change.proposed ?? '', metadata('new file'));
+      continue;
+    }
+    if (change.proposed === undefined) {
+      edit.deleteFile(uri, { ignoreIfNotExists: true }, metadata('delete file'));
+      continue;
+    }
+
+    for (const hunk of change.hunks) {
+      if (options.include && !options.include(change, hunk)) {
+        continue;
+      }
+
+      const replacement = hunkReplacement(change.original, hunk);
+      edit.replace(
+        uri,
+        new vscode.Range(replacement.startLine, replacement.startCharacter, replacement.endLine, replacement.endCharacter),
+        replacement.text,
+        metadata(describeHunk(hunk))
+      );
+    }
+  }
+
+  return edit;
+}
+
+/**
+ * Apply file changes as a single refactoring, so one undo reverts them in
+ * every file. With `confirm` the user reviews them in the refactor preview
+ * first. Resolves to false when nothing was applied.
+ */
+export async function applyFileChanges(changes: FileChange[], options: WorkspaceEditOptions = {}): Promise<boolean> {
+  if (changes.length === 0) {
+    return false;
+  }
+  return vscode.workspace.applyEdit(createWorkspaceEdit(changes, options), { isRefactoring: true });
+}
+
+/**
+ * Turn a tool response into file changes against the current workspace.
+ * Unnamed proposals target the active editor's file. Open documents are
+ * read with their unsaved edits.
+ */
+export async function fileChangesFromResponse(response: ToolResponse, root?: vscode.Uri): Promise<FileChange[]> {
+  const activeDocument = vscode.window.activeTextEditor?.document;
+  return resolveFileChanges(extractEditProposals(response), {
+    readFile: file => readWorkspaceFile(resolveUri(file, root)),
+    defaultPath: activeDocument && !activeDocument.isUntitled ? activeDocument.uri.fsPath : undefined,
+    toolId: response.toolId
+  });
+}
+
+/**
+ * Extract, preview and apply the code changes in a tool response. Resolves
+ * to false when the response holds no changes or the user cancels.
+ */
+export async function reviewAndApply(response: ToolResponse, root?: vscode.Uri): Promise<boolean> {
+  const changes = await fileChangesFromResponse(response, root);
+  return applyFileChanges(changes, { root, confirm: true });
+}
+
+async function readWorkspaceFile(uri: vscode.Uri): Promise<string | undefined> {
+  const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+  if (open) {
+    return open.getText();
+  }
+
+  try {
+    return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+  } catch (error) {
+    if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+function resolveUri(file: string, root?: vscode.Uri): vscode.Uri {
+  if (path.isAbsolute(file)) {
+    return vscode.Uri.file(file);
+  }
+
+  const base = root ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+  if (!base) {
+    throw new PatchError('Relative paths need an open workspace folder', file);
+  }
+  return vscode.Uri.joinPath(base, file);
+}
+
+function describeHunk(hunk: Hunk): string {
+  const first = hunk.originalStart + 1;
+  if (hunk.originalLength === 0) {
+    return `insert ${hunk.proposedLength} line${hunk.proposedLength === 1 ? '' : 's'} at line ${first}`;
+  }
+  const last = hunk.originalStart + hunk.originalLength;
+  return first === last ? `line ${first}` : `lines ${first}-${last}`;
+}
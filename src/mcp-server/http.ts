@@ -0,0 +1,276 @@
+import { randomUUID, timingSafeEqual } from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { JSON_RPC_ERROR_CODES, isJsonRpcRequest } from '../mcp';
+import type { JsonRpcErrorObject, JsonRpcMessage, JsonRpcNotification, JsonRpcResponse } from '../mcp';
+import type { MCPServer, MCPServerSession } from './server';
+
+const SESSION_HEADER = 'mcp-session-id';
+const DEFAULT_MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+/** Origins of pages served from this machine */
+const LOCAL_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/i;
+
+export interface MCPHttpServerOptions {
+  /** Clients must send `Authorization: Bearer <token>` */
+  token: string;
+
+  /** Interface to listen on; defaults to loopback only */
+  host?: string;
+
+  /** 0 picks a free port */
+  port?: number;
+
+  /** Endpoint path (default /mcp) */
+  path?: string;
+
+  /** Browser origins allowed besides localhost ones */
+  allowedOrigins?: string[];
+
+  /** Largest request body accepted, in bytes */
+  maxBodySize?: number;
+}
+
+/**
+ * Serves an MCPServer over MCP's Streamable HTTP transport on a local port.
+ * Each initialize starts a session identified by the Mcp-Session-Id header.
+ * Tool calls from clients that accept event streams get their progress
+ * streamed before the result; everything else is answered with plain JSON.
+ * There is no server-initiated stream, so GET is refused.
+ */
+export class MCPHttpServer {
+  private server: http.Server | undefined;
+  private readonly sessions = new Map<string, MCPServerSession>();
+
+  constructor(private mcp: MCPServer, private options: MCPHttpServerOptions) {}
+
+  /** Endpoint URL, once listening */
+  get url(): string | undefined {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    if (!address) {
+      return undefined;
+    }
+    const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}${this.options.path ?? '/mcp'}`;
+  }
+
+  /** Start listening; resolves with the endpoint URL */
+  async start(): Promise<string> {
+    if (this.server) {
+      throw new Error('MCP HTTP server already started');
+    }
+
+    const server = http.createServer((request, response) => {
+      this.handleRequest(request, response).catch(error => {
+        if (!response.headersSent) {
+          writeJson(response, 500, rpcError(JSON_RPC_ERROR_CODES.internalError, (error as Error).message));
+        } else {
+          response.end();
+        }
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    }).catch(error => {
+      this.server = undefined;
+      throw error;
+    });
+    return this.url!;
+  }
+
+  /** Stop listening and cancel every session's running requests */
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    for (const session of this.sessions.values()) {
+      this.mcp.closeSession(session);
+    }
+    this.sessions.clear();
+
+    if (server) {
+      await new Promise<void>(resolve => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    }
+  }
+
+  private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    if (url.pathname !== (this.options.path ?? '/mcp')) {
+      writeJson(response, 404, { error: 'Not found' });
+      return;
+    }
+
+    // Refuse pages on other sites, which could reach us through DNS rebinding
+    const origin = request.headers.origin;
+    if (origin && !LOCAL_ORIGIN.test(origin) && !this.options.allowedOrigins?.includes(origin)) {
+      writeJson(response, 403, rpcError(JSON_RPC_ERROR_CODES.invalidRequest, `Origin ${origin} is not allowed`));
+      return;
+    }
+    if (!this.isAuthorized(request.headers.authorization)) {
+      response.setHeader('WWW-Authenticate', 'Bearer');
+      writeJson(response, 401, rpcError(JSON_RPC_ERROR_CODES.invalidRequest, 'Missing or wrong bearer token'));
+      return;
+    }
+
+    const sessionId = header(request, SESSION_HEADER);
+    switch (request.method) {
+      case 'POST':
+        await this.handlePost(request, response, sessionId);
+        return;
+      case 'DELETE': {
+        const session = sessionId ? this.sessions.get(sessionId) : undefined;
+        if (!session) {
+          writeJson(response, 404, rpcError(JSON_RPC_ERROR_CODES.invalidRequest, 'Unknown session'));
+          return;
+        }
+        this.sessions.delete(session.id);
+        this.mcp.closeSession(session);
+        response.writeHead(204).end();
+        return;
+      }
+      default:
+        response.setHeader('Allow', 'POST, DELETE');
+        writeJson(response, 405, rpcError(JSON_RPC_ERROR_CODES.invalidRequest, `${request.method} is not supported`));
+    }
+  }
+
+  private async handlePost(request: http.IncomingMessage, response: http.ServerResponse, sessionId: string | undefined): Promise<void> {
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(request, this.options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE));
+    } catch (error) {
+      writeJson(response, 400, rpcError(JSON_RPC_ERROR_CODES.parseError, (error as Error).message));
+      return;
+    }
+
+    // Batches are from protocol versions before 2025-06-18
+    const messages = (Array.isArray(body) ? body : [body]) as JsonRpcMessage[];
+    if (messages.length === 0 || messages.some(message => message?.jsonrpc !== '2.0')) {
+      writeJson(response, 400, rpcError(JSON_RPC_ERROR_CODES.invalidRequest, 'Expected JSON-RPC 2.0 messages'));
+      return;
+    }
+
+    let session: MCPServerSession;
+    if (messages.some(message => isJsonRpcRequest(message) && message.method === 'initialize')) {
+      session = { id: randomUUID(), initialized: false };
+      this.sessions.set(session.id, session);
+      response.setHeader('Mcp-Session-Id', session.id);
+    } else {
+      const existing = sessionId ? this.sessions.get(sessionId) : undefined;
+      if (!existing) {
+        // 404 tells the client to start a new session
+        writeJson(response, sessionId ? 404 : 400, rpcError(
+          JSON_RPC_ERROR_CODES.invalidRequest,
+          sessionId ? 'Unknown session' : 'Missing Mcp-Session-Id header'
+        ));
+        return;
+      }
+      session = existing;
+    }
+
+    const requests = messages.filter(isJsonRpcRequest);
+    if (requests.length === 0) {
+      await Promise.all(messages.map(message => this.mcp.handle(message, session, () => undefined)));
+      response.writeHead(202).end();
+      return;
+    }
+
+    // Only tool calls have progress worth streaming
+    const message = messages[0];
+    const streaming = !Array.isArray(body) && isJsonRpcRequest(message) && message.method === 'tools/call'
+      && (header(request, 'accept') ?? '').includes('text/event-stream');
+    if (streaming) {
+      await this.stream(message, session, response);
+      return;
+    }
+
+    const responses = (await Promise.all(messages.map(message => this.mcp.handle(message, session, () => undefined))))
+      .filter((answer): answer is JsonRpcResponse => answer !== undefined);
+    writeJson(response, 200, Array.isArray(body) ? responses : responses[0]);
+  }
+
+  /**
+   * Answer one request as a server-sent event stream: notifications as they
+   * happen, then the response. A client that disconnects cancels the request.
+   */
+  private async stream(message: JsonRpcMessage, session: MCPServerSession, response: http.ServerResponse): Promise<void> {
+    response.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    const send = (payload: JsonRpcMessage) => {
+      if (!response.writableEnded) {
+        response.write(`event: message\ndata: ${JSON.stringify(payload)}\n\n`);
+      }
+    };
+
+    response.on('close', () => {
+      if (!response.writableEnded && isJsonRpcRequest(message)) {
+        const cancel: JsonRpcNotification = {
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId: message.id, reason: 'Client disconnected' }
+        };
+        this.mcp.handle(cancel, session, () => undefined).catch(() => undefined);
+      }
+    });
+
+    const answer = await this.mcp.handle(message, session, send);
+    if (answer) {
+      send(answer);
+    }
+    response.end();
+  }
+
+  private isAuthorized(authorization: string | undefined): boolean {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization ?? '');
+    if (!match) {
+      return false;
+    }
+    const given = Buffer.from(match[1].trim());
+    const expected = Buffer.from(this.options.token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+}
+
+function header(request: http.IncomingMessage, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function readBody(request: http.IncomingMessage, maxSize: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxSize) {
+        reject(new Error(`Request body is larger than ${maxSize} bytes`));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+/** Error body for failures that are not tied to a request id */
+function rpcError(code: number, message: string): { jsonrpc: '2.0'; id: null; error: JsonRpcErrorObject } {
+  return { jsonrpc: '2.0', id: null, error: { code, message } };
+}
+
+function writeJson(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
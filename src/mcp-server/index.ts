@@ -0,0 +1,9 @@
+/**
+ * The orchestrator as an MCP server, so outside agents can delegate to the
+ * tools it discovered.
+ */
+
+export * from './types';
+export * from './server';
+export * from './http';
+export * from './orchestrator';
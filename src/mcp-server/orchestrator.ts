@@ -0,0 +1,509 @@
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import type { BudgetStatus, BudgetTracker } from '../budget';
+import { contextForTool } from '../context';
+import type { ToolDiscovery } from '../discovery';
+import type { MCPImplementationInfo } from '../mcp';
+import type { MetricsGroupKey, ToolMetricsStore } from '../metrics';
+import { AdaptiveTaskRouter, classifyTask } from '../routing';
+import { TASK_TYPES } from '../types';
+import type { CancellationToken, DiscoveredTool, OrchestrationConfig, Task, TaskType, ToolResponse, WorkspaceContext } from '../types';
+import { answerText } from '../utils';
+import { WorkflowRunner, loadWorkflow, parseWorkflow } from '../workflow';
+import type { WorkflowCheckpointStore, WorkflowDefinition, WorkflowRunOptions, WorkflowRunResult } from '../workflow';
+import { MCPServer } from './server';
+import type { MCPToolCallContext, MCPToolResult } from './types';
+
+const CONTEXT_URI = 'orchestrator://workspace/context';
+const TOOLS_URI = 'orchestrator://tools';
+const FILE_URI_PREFIX = 'orchestrator://workspace/files/';
+
+export interface OrchestratorMCPServerOptions {
+  discovery: Pick<ToolDiscovery, 'getDiscoveredTools'>;
+  config: OrchestrationConfig;
+
+  /** Defaults to a router scored on `metrics` and `budgets` when given */
+  router?: AdaptiveTaskRouter;
+
+  /** Enables get_tool_metrics */
+  metrics?: ToolMetricsStore;
+
+  /** Enables get_budgets */
+  budgets?: BudgetTracker;
+
+  /** Checkpoints workflow runs and enables list_workflow_runs and resume_workflow */
+  checkpoints?: WorkflowCheckpointStore;
+
+  /** Context for tasks; connectors redact it as they would for any request */
+  collectContext(): Promise<WorkspaceContext>;
+
+  /**
+   * Applied to the context before it is published as resources. Outside
+   * agents should see no more than a tool would.
+   */
+  redactContext?(context: WorkspaceContext): WorkspaceContext;
+
+  /** Workflow files are resolved against this directory and must stay inside it */
+  workspaceRoot?: string;
+
+  /** Settles once tools have been discovered; calls wait for it */
+  ready?: Promise<void>;
+
+  serverInfo?: MCPImplementationInfo;
+}
+
+/**
+ * An MCP server publishing the orchestrator: outside agents can list the
+ * discovered tools, route a task to the best of them, run and resume
+ * workflows, read tool metrics and budgets, and read the workspace context
+ * as resources.
+ */
+export function createOrchestratorMCPServer(options: OrchestratorMCPServerOptions): MCPServer {
+  const server = new MCPServer({
+    serverInfo: options.serverInfo ?? { name: 'ai-orchestration', title: 'AI Orchestration', version: '0.1.0' },
+    instructions: 'Delegates coding tasks to the AI tools available in the editor. '
+      + 'Use list_tools to see them and route_task to hand one a task; the orchestrator picks the tool and falls back when it fails.'
+  });
+  const router = options.router ?? new AdaptiveTaskRouter(new Map(), options.config, {
+    performance: options.metrics,
+    budgets: options.budgets
+  });
+
+  /** Discovered tools, with the router brought up to date */
+  const currentTools = async (): Promise<Map<string, DiscoveredTool>> => {
+    await options.ready;
+    const tools = options.discovery.getDiscoveredTools();
+    router.updateAvailableTools(tools);
+    return tools;
+  };
+
+  /** Run or resume a workflow, reporting each task as progress */
+  const runWorkflow = async (definition: WorkflowDefinition, runOptions: WorkflowRunOptions, call: MCPToolCallContext): Promise<MCPToolResult> => {
+    const runner = new WorkflowRunner({
+      tools: await currentTools(),
+      context: await options.collectContext(),
+      selectTools: router.toWorkflowToolSelector()
+    });
+
+    // Resumed runs settle fewer tasks than the workflow has, so no total for them
+    const total = runOptions.resumeFrom
+      ? undefined
+      : definition.workflow.phases.reduce((count, phase) => count + phase.tasks.length, 0);
+    let settled = 0;
+    const result = await runner.run(definition, {
+      ...runOptions,
+      checkpoints: options.checkpoints,
+      cancellationToken: call.cancellationToken,
+      events: {
+        onTaskStart: state => call.reportProgress(settled, total, `${state.taskId} started`),
+        onTaskComplete: state => call.reportProgress(++settled, total, `${state.taskId} ${state.status}`)
+      }
+    });
+    return workflowResult(result);
+  };
+
+  const publishedContext = async (): Promise<WorkspaceContext> => {
+    const context = await options.collectContext();
+    return options.redactContext ? options.redactContext(context) : context;
+  };
+
+  server.addTool({
+    name: 'list_tools',
+    title: 'List discovered tools',
+    description: 'AI tools the orchestrator found in the editor, with the task types and languages they handle and whether they are healthy.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskType: { type: 'string', enum: [...TASK_TYPES], description: 'Only tools that handle this task type' },
+        healthyOnly: { type: 'boolean', default: false }
+      },
+      additionalProperties: false
+    },
+    annotations: { readOnlyHint: true },
+    handler: async args => {
+      const tools = Array.from((await currentTools()).values())
+        .filter(tool => !args.taskType || tool.capabilities.tasks.includes(args.taskType))
+        .filter(tool => !args.healthyOnly || tool.isHealthy)
+        .map(describeTool);
+      const text = tools.length === 0
+        ? 'No matching tools were found.'
+        : tools.map(tool => `- ${tool.id} (${tool.type}${tool.healthy ? '' : ', unavailable'}): ${tool.tasks.join(', ')}`).join('\n');
+      return { content: [{ type: 'text', text }], structuredContent: { tools } };
+    }
+  });
+
+  server.addTool({
+    name: 'route_task',
+    title: 'Route a task to the best tool',
+    description: 'Hands a task to the discovered tool best suited for it, trying fallbacks if it fails, and returns the answer. '
+      + 'The task type is guessed from the description unless given. With dryRun, only explains which tools would be used.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        description: { type: 'string', minLength: 1, description: 'What to do, as you would ask a coding assistant' },
+        taskType: { type: 'string', enum: [...TASK_TYPES] },
+        language: { type: 'string', description: 'Programming language the task is about' },
+        toolId: { type: 'string', description: 'Use this tool instead of the one the router picks' },
+        dryRun: { type: 'boolean', default: false }
+      },
+      required: ['description'],
+      additionalProperties: false
+    },
+    handler: async (args, call) => {
+      const tools = await currentTools();
+      const task: Task = {
+        id: randomUUID(),
+        type: args.taskType ?? classifyTask(args.description).type,
+        description: args.description,
+        context: await options.collectContext(),
+        priority: 'medium',
+        language: args.language,
+        metadata: { source: 'mcp' }
+      };
+
+      if (args.dryRun) {
+        const explanation = await router.explainRouting(task);
+        return {
+          content: [{ type: 'text', text: `${task.type}: ${explanation.summary}` }],
+          structuredContent: {
+            taskType: task.type,
+            candidates: explanation.candidates.map(({ toolId, role, score, reasons }) => ({ toolId, role, score, reasons }))
+          }
+        };
+      }
+
+      let chain: DiscoveredTool[];
+      if (args.toolId) {
+        const tool = tools.get(args.toolId);
+        if (!tool) {
+          throw new Error(`Unknown tool: ${args.toolId}. Use list_tools to see the available ones.`);
+        }
+        chain = [tool];
+      } else {
+        const plan = await router.routeTask(task);
+        chain = [plan.primary, ...plan.fallbacks];
+      }
+      return runChain(task, chain, call.cancellationToken, call.reportProgress);
+    }
+  });
+
+  server.addTool({
+    name: 'run_workflow',
+    title: 'Run a workflow',
+    description: 'Runs a multi-step workflow across the discovered tools and reports each task\'s outcome. '
+      + 'workflow is the path of a workflow JSON file in the workspace, or the definition itself.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow: { anyOf: [{ type: 'string', minLength: 1 }, { type: 'object' }] },
+        input: { type: 'object', description: 'Values for ${workflow.input.*}' },
+        maxConcurrency: { type: 'integer', minimum: 1 }
+      },
+      required: ['workflow'],
+      additionalProperties: false
+    },
+    handler: async (args, call) => runWorkflow(await resolveWorkflow(args.workflow, options.workspaceRoot), {
+      input: args.input,
+      maxConcurrency: args.maxConcurrency
+    }, call)
+  });
+
+  if (options.checkpoints) {
+    const checkpoints = options.checkpoints;
+    server.addTool({
+      name: 'list_workflow_runs',
+      title: 'List workflow runs',
+      description: 'Checkpointed workflow runs, most recent first, with the status of each task. Unfinished runs can be resumed with resume_workflow.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          workflowId: { type: 'string' },
+          limit: { type: 'integer', minimum: 1, default: 20 }
+        },
+        additionalProperties: false
+      },
+      annotations: { readOnlyHint: true },
+      handler: async args => {
+        const runs = (await checkpoints.list())
+          .filter(run => !args.workflowId || run.workflowId === args.workflowId)
+          .slice(0, args.limit ?? 20)
+          .map(run => ({
+            runId: run.runId,
+            workflowId: run.workflowId,
+            status: run.status,
+            updatedAt: run.updatedAt,
+            tasks: run.tasks.map(task => ({ taskId: task.taskId, status: task.status, toolId: task.toolId }))
+          }));
+        const text = runs.length === 0
+          ? 'No workflow runs were checkpointed.'
+          : runs.map(run => `- ${run.runId}: ${run.workflowId} ${run.status}, updated ${run.updatedAt} `
+            + `(${run.tasks.filter(task => task.status === 'succeeded').length}/${run.tasks.length} tasks done)`).join('\n');
+        return { content: [{ type: 'text', text }], structuredContent: { runs } };
+      }
+    });
+
+    server.addTool({
+      name: 'resume_workflow',
+      title: 'Resume a workflow run',
+      description: 'Continues a checkpointed workflow run. Tasks that succeeded keep their outputs; failed, skipped and unfinished tasks run again. '
+        + 'rerun repeats finished tasks (and what depends on them), and toolOverrides picks the tool per task id. '
+        + 'workflow replaces the run\'s definition, e.g. after fixing the file; changed tasks run again.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          runId: { type: 'string', minLength: 1 },
+          rerun: { type: 'array', items: { type: 'string' } },
+          toolOverrides: { type: 'object', additionalProperties: { type: 'string' } },
+          workflow: { anyOf: [{ type: 'string', minLength: 1 }, { type: 'object' }] },
+          maxConcurrency: { type: 'integer', minimum: 1 }
+        },
+        required: ['runId'],
+        additionalProperties: false
+      },
+      handler: async (args, call) => {
+        const checkpoint = await checkpoints.load(args.runId);
+        if (!checkpoint) {
+          throw new Error(`Unknown workflow run: ${args.runId}. Use list_workflow_runs to see the saved ones.`);
+        }
+        const definition = args.workflow ? await resolveWorkflow(args.workflow, options.workspaceRoot) : checkpoint.definition;
+        return runWorkflow(definition, {
+          resumeFrom: checkpoint,
+          rerun: args.rerun,
+          toolOverrides: args.toolOverrides,
+          maxConcurrency: args.maxConcurrency
+        }, call);
+      }
+    });
+  }
+
+  if (options.metrics) {
+    const metrics = options.metrics;
+    server.addTool({
+      name: 'get_tool_metrics',
+      title: 'Get tool metrics',
+      description: 'Success rate, latency percentiles, token usage and common errors of the discovered tools, from their recent invocations.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          toolId: { type: 'string' },
+          taskType: { type: 'string', enum: [...TASK_TYPES] },
+          groupBy: { type: 'array', items: { type: 'string', enum: ['toolId', 'taskType', 'language'] }, default: ['toolId'] },
+          sinceMinutes: { type: 'number', exclusiveMinimum: 0, description: 'Only invocations in this many recent minutes' }
+        },
+        additionalProperties: false
+      },
+      annotations: { readOnlyHint: true },
+      handler: async args => {
+        const summaries = metrics.summarizeBy((args.groupBy ?? ['toolId']) as MetricsGroupKey[], {
+          toolId: args.toolId,
+          taskType: args.taskType as TaskType | undefined,
+          since: args.sinceMinutes ? Date.now() - args.sinceMinutes * 60 * 1000 : undefined
+        });
+        const text = summaries.length === 0
+          ? 'No invocations were recorded.'
+          : summaries.map(summary => `- ${[summary.toolId, summary.taskType, summary.language].filter(Boolean).join(' / ') || 'all'}: `
+            + `${summary.samples} calls, ${Math.round(summary.successRate * 100)}% success, p50 ${Math.round(summary.p50LatencyMs)} ms, `
+            + `p95 ${Math.round(summary.p95LatencyMs)} ms, ${summary.totalTokens} tokens`).join('\n');
+        return { content: [{ type: 'text', text }], structuredContent: { summaries } };
+      }
+    });
+  }
+
+  if (options.budgets) {
+    const budgets = options.budgets;
+    server.addTool({
+      name: 'get_budgets',
+      title: 'Get budgets',
+      description: 'Rate limits and daily token and cost quotas of tools and workflows, with today\'s usage. Tools whose quota is used up are not routed to.',
+      inputSchema: { type: 'object', properties: {}, additionalProperties: false },
+      annotations: { readOnlyHint: true },
+      handler: async () => {
+        const statuses = budgets.getStatuses();
+        const text = statuses.length === 0
+          ? 'No budgets are configured.'
+          : statuses.map(describeBudget).join('\n');
+        return { content: [{ type: 'text', text }], structuredContent: { budgets: statuses } };
+      }
+    });
+  }
+
+  server.addResource({
+    uri: CONTEXT_URI,
+    name: 'workspace-context',
+    title: 'Workspace context',
+    description: 'Project type, technologies, git branch, selection and open files of the editor',
+    mimeType: 'application/json',
+    read: async () => {
+      const context = await publishedContext();
+      const summary = {
+        workspaceRoot: context.workspaceRoot,
+        projectInfo: context.projectInfo,
+        gitInfo: context.gitInfo,
+        selection: context.selection,
+        openFiles: context.openFiles.map(file => ({ path: file.path, language: file.language, uri: fileUri(file.path) }))
+      };
+      return [{ uri: CONTEXT_URI, mimeType: 'application/json', text: JSON.stringify(summary, null, 2) }];
+    }
+  });
+
+  server.addResource({
+    uri: TOOLS_URI,
+    name: 'tools',
+    title: 'Discovered tools',
+    mimeType: 'application/json',
+    read: async () => {
+      const tools = Array.from((await currentTools()).values(), describeTool);
+      return [{ uri: TOOLS_URI, mimeType: 'application/json', text: JSON.stringify(tools, null, 2) }];
+    }
+  });
+
+  // Open files, read from the context so they are redacted the same way
+  server.addResourceProvider({
+    list: async () => (await publishedContext()).openFiles.map(file => ({
+      uri: fileUri(file.path),
+      name: path.basename(file.path),
+      title: file.path,
+      mimeType: 'text/plain'
+    })),
+    read: async uri => {
+      if (!uri.startsWith(FILE_URI_PREFIX)) {
+        return undefined;
+      }
+      const file = (await publishedContext()).openFiles.find(candidate => fileUri(candidate.path) === uri);
+      return file && [{ uri, mimeType: 'text/plain', text: file.content }];
+    }
+  });
+
+  return server;
+}
+
+/** Try the tools in order until one succeeds */
+async function runChain(
+  task: Task,
+  chain: DiscoveredTool[],
+  cancellationToken: CancellationToken,
+  reportProgress: (progress: number, total?: number, message?: string) => void
+): Promise<MCPToolResult> {
+  const failures: Array<{ toolId: string; error: string }> = [];
+  let updates = 0;
+
+  for (const tool of chain) {
+    if (cancellationToken.isCancellationRequested) {
+      break;
+    }
+    reportProgress(++updates, undefined, `Asking ${tool.name}`);
+
+    let response: ToolResponse;
+    try {
+      response = await tool.connector.invoke(task, contextForTool(task.context, tool), {
+        cancellationToken,
+        onProgress: progress => reportProgress(++updates, undefined, progress.message ? `${tool.name}: ${progress.message}` : undefined)
+      });
+    } catch (error) {
+      response = { success: false, error: (error as Error).message, toolId: tool.id };
+    }
+
+    if (response.success) {
+      return {
+        content: [{ type: 'text', text: responseText(response) }],
+        structuredContent: { toolId: tool.id, taskType: task.type, data: response.data, failures }
+      };
+    }
+    failures.push({ toolId: tool.id, error: response.error ?? 'unknown error' });
+  }
+
+  const reasons = failures.map(failure => `- ${failure.toolId}: ${failure.error}`).join('\n');
+  return {
+    content: [{ type: 'text', text: cancellationToken.isCancellationRequested ? 'The task was cancelled.' : `No tool could complete the task.\n${reasons}` }],
+    structuredContent: { taskType: task.type, failures },
+    isError: true
+  };
+}
+
+async function resolveWorkflow(workflow: string | Record<string, unknown>, workspaceRoot: string | undefined): Promise<WorkflowDefinition> {
+  if (typeof workflow !== 'string') {
+    return parseWorkflow(JSON.stringify(workflow), 'the workflow argument');
+  }
+  if (!workspaceRoot) {
+    throw new Error('Workflow files need an open workspace; pass the definition instead');
+  }
+
+  const filePath = path.resolve(workspaceRoot, workflow);
+  const relative = path.relative(workspaceRoot, filePath);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`${workflow} is outside the workspace`);
+  }
+  return loadWorkflow(filePath);
+}
+
+function workflowResult(result: WorkflowRunResult): MCPToolResult {
+  const tasks = Array.from(result.tasks.values(), state => ({
+    taskId: state.taskId,
+    phaseId: state.phaseId,
+    status: state.status,
+    toolId: state.toolId,
+    error: state.error,
+    outputs: state.outputs
+  }));
+  const lines = tasks.map(task => `- ${task.taskId}: ${task.status}${task.toolId ? ` (${task.toolId})` : ''}${task.error ? ` - ${task.error}` : ''}`);
+  if (result.checkpointError) {
+    lines.push(`The run could not be checkpointed and may not be resumable: ${result.checkpointError}`);
+  }
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Workflow ${result.workflowId} ${result.status} (run ${result.runId}).\n${lines.join('\n')}`
+    }],
+    structuredContent: {
+      workflowId: result.workflowId,
+      runId: result.runId,
+      success: result.success,
+      status: result.status,
+      tasks,
+      ...(result.checkpointError ? { checkpointError: result.checkpointError } : {})
+    },
+    isError: !result.success
+  };
+}
+
+function describeBudget(status: BudgetStatus): string {
+  const usage = `${status.usage.requests} requests, ${status.usage.tokens} tokens, cost ${status.usage.cost.toFixed(2)} today`;
+  const quota = status.exhaustedBecause
+    ? ` (exhausted until ${status.resetsAt.toISOString()})`
+    : status.limits.tokensPerDay !== undefined || status.limits.costPerDay !== undefined
+      ? ` (${Math.round(status.used * 100)}% of the daily quota)`
+      : '';
+  return `- ${status.scope} ${status.id}: ${usage}${quota}`;
+}
+
+function describeTool(tool: DiscoveredTool) {
+  return {
+    id: tool.id,
+    name: tool.name,
+    type: tool.type,
+    tasks: tool.capabilities.tasks,
+    languages: tool.capabilities.languages,
+    healthy: tool.isHealthy
+  };
+}
+
+/** The answer of a response as text */
+function responseText(response: ToolResponse): string {
+  const data = response.data;
+  const answer = answerText(data);
+  if (answer !== undefined) {
+    return answer;
+  }
+  if (typeof data === 'object' && data !== null) {
+    if (typeof data.code === 'string') {
+      return `\`\`\`${data.language ?? ''}\n${data.code}\n\`\`\``;
+    }
+    return JSON.stringify(data, null, 2);
+  }
+  return 'The tool finished without returning any content.';
+}
+
+function fileUri(filePath: string): string {
+  return `${FILE_URI_PREFIX}${encodeURIComponent(filePath)}`;
+}
@@ -0,0 +1,228 @@
+import { JSON_RPC_ERROR_CODES, LATEST_PROTOCOL_VERSION, SUPPORTED_PROTOCOL_VERSIONS, isJsonRpcNotification, isJsonRpcRequest } from '../mcp';
+import type { JsonRpcErrorObject, JsonRpcId, JsonRpcMessage, JsonRpcNotification, JsonRpcResponse, MCPImplementationInfo, MCPResourceContents } from '../mcp';
+import { validateJsonSchema } from '../types';
+import { CancellationTokenSource } from '../utils';
+import type { MCPServerOptions, MCPServerResource, MCPServerResourceProvider, MCPServerTool, MCPToolResult } from './types';
+
+/** Error code MCP uses for an unknown resource URI */
+export const RESOURCE_NOT_FOUND_CODE = -32002;
+
+/**
+ * One client's conversation with the server, from initialize until it is
+ * closed. Transports keep one per connection or HTTP session.
+ */
+export interface MCPServerSession {
+  readonly id: string;
+  protocolVersion?: string;
+  clientInfo?: MCPImplementationInfo;
+  initialized: boolean;
+}
+
+/** A request being answered */
+interface RequestScope {
+  source: CancellationTokenSource;
+  progressToken?: string | number;
+  notify: (notification: JsonRpcNotification) => void;
+}
+
+/** Thrown by handlers to answer with a JSON-RPC error */
+export class MCPServerError extends Error {
+  constructor(message: string, public code: number, public data?: unknown) {
+    super(message);
+    this.name = 'MCPServerError';
+  }
+}
+
+/**
+ * The server side of MCP, independent of how messages arrive: the
+ * initialize handshake, tools and resources. Transports hand each message
+ * to handle() with a way to send notifications back on the same channel.
+ */
+export class MCPServer {
+  private readonly tools = new Map<string, MCPServerTool>();
+  private readonly resources = new Map<string, MCPServerResource>();
+  private readonly resourceProviders: MCPServerResourceProvider[] = [];
+
+  /** Requests in progress, per session, so they can be cancelled */
+  private readonly inFlight = new Map<MCPServerSession, Map<JsonRpcId, CancellationTokenSource>>();
+
+  constructor(private options: MCPServerOptions) {}
+
+  addTool(tool: MCPServerTool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  addResource(resource: MCPServerResource): void {
+    this.resources.set(resource.uri, resource);
+  }
+
+  addResourceProvider(provider: MCPServerResourceProvider): void {
+    this.resourceProviders.push(provider);
+  }
+
+  /**
+   * Answer a message. Requests get a response; notifications and stray
+   * responses get undefined.
+   */
+  async handle(
+    message: JsonRpcMessage,
+    session: MCPServerSession,
+    notify: (notification: JsonRpcNotification) => void
+  ): Promise<JsonRpcResponse | undefined> {
+    if (isJsonRpcNotification(message)) {
+      this.handleNotification(message, session);
+      return undefined;
+    }
+    if (!isJsonRpcRequest(message)) {
+      return undefined;
+    }
+
+    const source = new CancellationTokenSource();
+    const requests = this.inFlight.get(session) ?? new Map<JsonRpcId, CancellationTokenSource>();
+    this.inFlight.set(session, requests);
+    requests.set(message.id, source);
+
+    try {
+      const result = await this.dispatch(message.method, message.params ?? {}, session, {
+        source,
+        progressToken: message.params?._meta?.progressToken,
+        notify
+      });
+      return { jsonrpc: '2.0', id: message.id, result };
+    } catch (error) {
+      return { jsonrpc: '2.0', id: message.id, error: errorObject(error) };
+    } finally {
+      requests.delete(message.id);
+      source.dispose();
+    }
+  }
+
+  /** Cancels whatever the session still has running */
+  closeSession(session: MCPServerSession): void {
+    const requests = this.inFlight.get(session);
+    this.inFlight.delete(session);
+    requests?.forEach(source => source.cancel());
+  }
+
+  private handleNotification(message: JsonRpcNotification, session: MCPServerSession): void {
+    switch (message.method) {
+      case 'notifications/initialized':
+        session.initialized = true;
+        break;
+      case 'notifications/cancelled':
+        this.inFlight.get(session)?.get(message.params?.requestId)?.cancel();
+        break;
+    }
+  }
+
+  private async dispatch(method: string, params: Record<string, any>, session: MCPServerSession, request: RequestScope): Promise<unknown> {
+    if (method === 'initialize') {
+      return this.initialize(params, session);
+    }
+    if (method === 'ping') {
+      return {};
+    }
+    if (!session.protocolVersion) {
+      throw new MCPServerError('The session has not been initialized', JSON_RPC_ERROR_CODES.invalidRequest);
+    }
+
+    switch (method) {
+      case 'tools/list':
+        return {
+          tools: Array.from(this.tools.values(), ({ handler: _handler, ...tool }) => tool)
+        };
+      case 'tools/call':
+        return this.callTool(params, request);
+      case 'resources/list':
+        return { resources: await this.listResources() };
+      case 'resources/templates/list':
+        return { resourceTemplates: [] };
+      case 'resources/read':
+        return { contents: await this.readResource(params.uri) };
+      default:
+        throw new MCPServerError(`Method not found: ${method}`, JSON_RPC_ERROR_CODES.methodNotFound);
+    }
+  }
+
+  private initialize(params: Record<string, any>, session: MCPServerSession): unknown {
+    // Answer with the client's version when we speak it, otherwise our latest
+    const requested = params.protocolVersion;
+    session.protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : LATEST_PROTOCOL_VERSION;
+    session.clientInfo = params.clientInfo;
+
+    return {
+      protocolVersion: session.protocolVersion,
+      capabilities: {
+        tools: { listChanged: false },
+        resources: { subscribe: false, listChanged: false }
+      },
+      serverInfo: this.options.serverInfo,
+      instructions: this.options.instructions
+    };
+  }
+
+  private async callTool(params: Record<string, any>, request: RequestScope): Promise<MCPToolResult> {
+    const tool = this.tools.get(params.name);
+    if (!tool) {
+      throw new MCPServerError(`Unknown tool: ${params.name}`, JSON_RPC_ERROR_CODES.invalidParams);
+    }
+
+    const args = params.arguments ?? {};
+    const validation = validateJsonSchema(args, tool.inputSchema, 'arguments');
+    if (!validation.valid) {
+      throw new MCPServerError(
+        `Invalid arguments for ${tool.name}: ${validation.errors.map(issue => `${issue.path} ${issue.message}`).join('; ')}`,
+        JSON_RPC_ERROR_CODES.invalidParams
+      );
+    }
+
+    try {
+      return await tool.handler(args, {
+        cancellationToken: request.source.token,
+        reportProgress: (progress, total, message) => {
+          if (request.progressToken !== undefined) {
+            request.notify({
+              jsonrpc: '2.0',
+              method: 'notifications/progress',
+              params: { progressToken: request.progressToken, progress, total, message }
+            });
+          }
+        }
+      });
+    } catch (error) {
+      // Failures of the tool itself are results the client's model can see
+      return { content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }], isError: true };
+    }
+  }
+
+  private async listResources(): Promise<Array<Omit<MCPServerResource, 'read'>>> {
+    const fixed = Array.from(this.resources.values(), ({ read: _read, ...resource }) => resource);
+    const provided = await Promise.all(this.resourceProviders.map(provider => provider.list()));
+    return [...fixed, ...provided.flat()];
+  }
+
+  private async readResource(uri: unknown): Promise<MCPResourceContents[]> {
+    if (typeof uri !== 'string') {
+      throw new MCPServerError('resources/read needs a uri', JSON_RPC_ERROR_CODES.invalidParams);
+    }
+
+    const resource = this.resources.get(uri);
+    if (resource) {
+      return resource.read();
+    }
+    for (const provider of this.resourceProviders) {
+      const contents = await provider.read(uri);
+      if (contents) {
+        return contents;
+      }
+    }
+    throw new MCPServerError(`Resource not found: ${uri}`, RESOURCE_NOT_FOUND_CODE, { uri });
+  }
+}
+
+function errorObject(error: unknown): JsonRpcErrorObject {
+  if (error instanceof MCPServerError) {
+    return { code: error.code, message: error.message, data: error.data };
+  }
+  return { code: JSON_RPC_ERROR_CODES.internalError, message: error instanceof Error ? error.message : String(error) };
+}
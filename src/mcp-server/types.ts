@@ -0,0 +1,53 @@
+import type { MCPImplementationInfo, MCPPromptContent, MCPResourceContents, MCPTool } from '../mcp';
+import type { CancellationToken } from '../types';
+
+/**
+ * What a tool handler gets besides its arguments.
+ */
+export interface MCPToolCallContext {
+  /** Cancelled when the client sends notifications/cancelled or goes away */
+  cancellationToken: CancellationToken;
+
+  /** Sends notifications/progress; does nothing when the client gave no progressToken */
+  reportProgress(progress: number, total?: number, message?: string): void;
+}
+
+export interface MCPToolResult {
+  content: MCPPromptContent[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/** A tool the server publishes */
+export interface MCPServerTool extends MCPTool {
+  /** Arguments have been checked against inputSchema */
+  handler(args: Record<string, any>, context: MCPToolCallContext): Promise<MCPToolResult>;
+}
+
+/** A resource the server publishes; read on every resources/read */
+export interface MCPServerResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  read(): Promise<MCPResourceContents[]>;
+}
+
+/**
+ * Resources the server can only list once asked, e.g. the files currently
+ * open. read() receives any URI the list may have produced.
+ */
+export interface MCPServerResourceProvider {
+  list(): Promise<Array<Omit<MCPServerResource, 'read'>>>;
+
+  /** Undefined for URIs the provider does not own */
+  read(uri: string): Promise<MCPResourceContents[] | undefined>;
+}
+
+export interface MCPServerOptions {
+  serverInfo: MCPImplementationInfo;
+
+  /** Shown to the client's model as guidance on using the server */
+  instructions?: string;
+}
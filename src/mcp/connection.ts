@@ -0,0 +1,66 @@
+import type { BackoffOptions } from '../utils/backoff';
+
+/**
+ * Connection lifecycle for long-lived MCP clients: states, reconnect
+ * backoff, heartbeat settings and which requests are safe to replay.
+ */
+
+/**
+ * - idle: created, never connected
+ * - connecting: first transport start and initialize handshake
+ * - connected: handshake done, requests flow
+ * - reconnecting: connection lost, waiting for the next attempt
+ * - closed: closed by the caller or reconnect attempts exhausted
+ */
+export type MCPConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+export interface MCPReconnectOptions extends BackoffOptions {
+  enabled: boolean;
+
+  /** Give up after this many consecutive failures (0 = never) */
+  maxAttempts: number;
+}
+
+export interface MCPHeartbeatOptions {
+  enabled: boolean;
+
+  /** Time between pings, in ms */
+  interval: number;
+
+  /** How long a ping may take before it counts as missed, in ms */
+  timeout: number;
+
+  /** Missed pings in a row before the connection is considered dead */
+  failureThreshold: number;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: MCPReconnectOptions = {
+  enabled: true,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  multiplier: 2,
+  maxAttempts: 0,
+  jitter: 0.2
+};
+
+export const DEFAULT_HEARTBEAT_OPTIONS: MCPHeartbeatOptions = {
+  enabled: true,
+  interval: 30000,
+  timeout: 10000,
+  failureThreshold: 2
+};
+
+/**
+ * Requests without side effects. Only these are replayed after a reconnect;
+ * tools/call is excluded because a tool may already have acted.
+ */
+export const IDEMPOTENT_MCP_METHODS: ReadonlySet<string> = new Set([
+  'ping',
+  'tools/list',
+  'resources/list',
+  'resources/templates/list',
+  'resources/read',
+  'prompts/list',
+  'prompts/get',
+  'completion/complete'
+]);
@@ -0,0 +1,14 @@
+/**
+ * Model Context Protocol plumbing shared by MCP connectors.
+ */
+
+export * from './jsonrpc';
+export * from './protocol';
+export * from './connection';
+export * from './notifications';
+export * from './resources';
+export * from './prompts';
+export * from './tools';
+export * from './transport';
+export * from './stdio-transport';
+export * from './websocket-transport';
@@ -0,0 +1,52 @@
+import type { MCPConnectionState } from './connection';
+import type { MCPLogLevel } from './protocol';
+
+/**
+ * Server-to-client notifications and the events the MCP client raises for
+ * them and for its own connection lifecycle.
+ */
+
+export const MCP_NOTIFICATIONS = {
+  initialized: 'notifications/initialized',
+  cancelled: 'notifications/cancelled',
+  progress: 'notifications/progress',
+  message: 'notifications/message',
+  toolsListChanged: 'notifications/tools/list_changed',
+  resourcesListChanged: 'notifications/resources/list_changed',
+  resourceUpdated: 'notifications/resources/updated',
+  promptsListChanged: 'notifications/prompts/list_changed'
+} as const;
+
+export interface MCPProgressNotification {
+  progressToken: string | number;
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface MCPLogMessage {
+  level: MCPLogLevel;
+  logger?: string;
+  data: unknown;
+}
+
+export interface MCPClientEvents {
+  /** Every notification the server sends, before specific handling */
+  notification: (method: string, params: Record<string, any> | undefined) => void;
+
+  progress: (progress: MCPProgressNotification) => void;
+  log: (message: MCPLogMessage) => void;
+  toolsChanged: () => void;
+  resourcesChanged: () => void;
+  resourceUpdated: (uri: string) => void;
+  promptsChanged: () => void;
+
+  /** Connection lifecycle (see MCPConnectionState) */
+  stateChange: (state: MCPConnectionState, previous: MCPConnectionState) => void;
+
+  /** Connection re-established after a loss; `attempt` counts from 1 */
+  reconnected: (attempt: number) => void;
+
+  /** A heartbeat ping failed or timed out */
+  heartbeatMissed: (consecutiveMisses: number, error: Error) => void;
+}
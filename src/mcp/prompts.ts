@@ -0,0 +1,74 @@
+import type { MCPResourceContents } from './resources';
+
+/**
+ * MCP prompts: reusable message templates a server publishes, which the
+ * orchestrator can use as task templates.
+ */
+
+export interface MCPPromptArgument {
+  name: string;
+  title?: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export type MCPPromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'image' | 'audio'; data: string; mimeType: string }
+  | { type: 'resource'; resource: MCPResourceContents }
+  | { type: 'resource_link'; uri: string; name: string; description?: string; mimeType?: string };
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPPromptContent;
+}
+
+export interface MCPGetPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+/**
+ * Names of required prompt arguments missing from the supplied values
+ */
+export function missingPromptArguments(prompt: MCPPrompt, values: Record<string, string>): string[] {
+  return (prompt.arguments ?? [])
+    .filter(argument => argument.required && values[argument.name] === undefined)
+    .map(argument => argument.name);
+}
+
+/**
+ * Flatten prompt messages into plain text suitable for a task description.
+ * Embedded text resources are inlined; binary content is referenced only.
+ */
+export function renderPromptMessages(messages: MCPPromptMessage[]): string {
+  return messages
+    .map(message => {
+      const text = renderPromptContent(message.content);
+      return message.role === 'assistant' ? `Assistant: ${text}` : text;
+    })
+    .filter(text => text.length > 0)
+    .join('\n\n');
+}
+
+function renderPromptContent(content: MCPPromptContent): string {
+  switch (content.type) {
+    case 'text':
+      return content.text;
+    case 'resource':
+      return 'text' in content.resource
+        ? `${content.resource.uri}:\n${content.resource.text}`
+        : `[binary resource ${content.resource.uri}]`;
+    case 'resource_link':
+      return `[resource ${content.uri}]`;
+    default:
+      return `[${content.type} content]`;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * MCP lifecycle types: protocol versions, implementation info and the
+ * capabilities exchanged during the initialize handshake.
+ */
+
+/** Protocol version this client asks for first */
+export const LATEST_PROTOCOL_VERSION = '2025-06-18';
+
+/** Versions this client can speak, newest first */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export interface MCPImplementationInfo {
+  name: string;
+  version: string;
+  title?: string;
+}
+
+export interface MCPClientCapabilities {
+  roots?: { listChanged?: boolean };
+  sampling?: Record<string, never>;
+  elicitation?: Record<string, never>;
+  experimental?: Record<string, unknown>;
+}
+
+export interface MCPServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, never>;
+  completions?: Record<string, never>;
+  experimental?: Record<string, unknown>;
+}
+
+/** Server features a client may depend on */
+export type MCPServerFeature = 'tools' | 'resources' | 'prompts' | 'logging' | 'completions';
+
+export interface MCPInitializeResult {
+  protocolVersion: string;
+  capabilities: MCPServerCapabilities;
+  serverInfo: MCPImplementationInfo;
+  instructions?: string;
+}
+
+export type MCPLogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+/** Standard JSON-RPC error codes */
+export const JSON_RPC_ERROR_CODES = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603
+} as const;
+
+/**
+ * Error response returned by an MCP server.
+ */
+export class MCPRequestError extends Error {
+  constructor(
+    message: string,
+    public code: number,
+    public method: string,
+    public data?: unknown
+  ) {
+    super(message);
+    this.name = 'MCPRequestError';
+  }
+}
+
+/**
+ * The server answered initialize with a protocol version this client does
+ * not implement.
+ */
+export class MCPProtocolVersionError extends Error {
+  constructor(
+    public requestedVersion: string,
+    public serverVersion: string,
+    public supportedVersions: string[]
+  ) {
+    super(
+      `MCP server selected protocol version ${serverVersion}, ` +
+      `but this client supports ${supportedVersions.join(', ')} (requested ${requestedVersion})`
+    );
+    this.name = 'MCPProtocolVersionError';
+  }
+}
+
+/**
+ * A feature was used that the server did not advertise during initialize.
+ */
+export class MCPCapabilityError extends Error {
+  constructor(public feature: MCPServerFeature, public serverName: string) {
+    super(`MCP server '${serverName}' does not support ${feature}`);
+    this.name = 'MCPCapabilityError';
+  }
+}
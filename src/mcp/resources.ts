@@ -0,0 +1,99 @@
+import type { FileContext } from '../types';
+
+/**
+ * MCP resources: data a server exposes by URI (files, docs, database rows)
+ * and helpers to turn them into workspace context.
+ */
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+}
+
+/** Parameterised resource URIs (RFC 6570), e.g. docs://{project}/readme */
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPTextResourceContents {
+  uri: string;
+  mimeType?: string;
+  text: string;
+}
+
+export interface MCPBlobResourceContents {
+  uri: string;
+  mimeType?: string;
+
+  /** Base64 encoded binary data */
+  blob: string;
+}
+
+export type MCPResourceContents = MCPTextResourceContents | MCPBlobResourceContents;
+
+export interface MCPReadResourceResult {
+  contents: MCPResourceContents[];
+}
+
+const MIME_LANGUAGES: Record<string, string> = {
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'text/css': 'css',
+  'text/csv': 'csv',
+  'text/plain': 'plaintext',
+  'application/json': 'json',
+  'application/xml': 'xml',
+  'text/xml': 'xml',
+  'application/yaml': 'yaml',
+  'text/yaml': 'yaml',
+  'text/javascript': 'javascript',
+  'application/javascript': 'javascript',
+  'application/typescript': 'typescript',
+  'text/x-python': 'python'
+};
+
+export function isTextResourceContents(contents: MCPResourceContents): contents is MCPTextResourceContents {
+  return typeof (contents as MCPTextResourceContents).text === 'string';
+}
+
+/**
+ * Expand a resource template with simple {name} substitution. Values are
+ * URI-encoded; operators such as {+path} insert the value unencoded.
+ */
+export function expandResourceTemplate(uriTemplate: string, variables: Record<string, string>): string {
+  return uriTemplate.replace(/\{([+#]?)([^}]+)\}/g, (_match, operator: string, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new Error(`Missing value for '${name}' in resource template ${uriTemplate}`);
+    }
+    return operator ? value : encodeURIComponent(value);
+  });
+}
+
+/**
+ * Convert text resource contents into FileContext entries so they can be
+ * added to WorkspaceContext.openFiles. Binary contents are skipped.
+ */
+export function resourceContentsToFileContexts(contents: MCPResourceContents[]): FileContext[] {
+  return contents.filter(isTextResourceContents).map(item => ({
+    path: item.uri,
+    content: item.text,
+    language: languageForMimeType(item.mimeType)
+  }));
+}
+
+function languageForMimeType(mimeType: string | undefined): string {
+  if (!mimeType) {
+    return 'plaintext';
+  }
+  return MIME_LANGUAGES[mimeType.split(';')[0].trim().toLowerCase()] ?? 'plaintext';
+}
@@ -0,0 +1,113 @@
+import { spawn } from 'child_process';
+import type { ChildProcessWithoutNullStreams } from 'child_process';
+import type { JsonRpcMessage } from './jsonrpc';
+import type { MCPTransport, StdioTransportConfig } from './transport';
+
+/**
+ * Runs an MCP server as a child process and exchanges newline-delimited
+ * JSON-RPC messages over its stdin/stdout. Anything the server writes to
+ * stderr is treated as logging.
+ */
+export class StdioTransport implements MCPTransport {
+  private process: ChildProcessWithoutNullStreams | null = null;
+  private buffer = '';
+
+  onmessage?: (message: JsonRpcMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  constructor(private config: StdioTransportConfig) {}
+
+  get isOpen(): boolean {
+    return this.process !== null && this.process.exitCode === null && !this.process.killed;
+  }
+
+  async start(): Promise<void> {
+    if (this.process) {
+      throw new Error('Stdio transport already started');
+    }
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.config.command, this.config.args ?? [], {
+        cwd: this.config.cwd,
+        env: { ...process.env, ...this.config.env },
+        stdio: ['pipe', 'pipe', 'pipe']
+      });
+      this.process = child;
+
+      child.once('spawn', () => resolve());
+
+      child.on('error', (error) => {
+        if (child.pid === undefined) {
+          this.process = null;
+          reject(new Error(`Failed to start MCP server '${this.config.command}': ${error.message}`));
+        } else {
+          this.onerror?.(error);
+        }
+      });
+
+      child.on('exit', () => {
+        // A restarted transport must not be torn down by its old process
+        if (this.process !== child) {
+          return;
+        }
+        this.process = null;
+        this.buffer = '';
+        this.onclose?.();
+      });
+
+      child.stdout.setEncoding('utf8');
+      child.stdout.on('data', (chunk: string) => this.handleData(chunk));
+
+      child.stderr.setEncoding('utf8');
+      child.stderr.on('data', (chunk: string) => {
+        console.error(`[mcp:${this.config.command}] ${chunk.trimEnd()}`);
+      });
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.process || !this.isOpen) {
+      throw new Error('Stdio transport is not open');
+    }
+
+    const stdin = this.process.stdin;
+    await new Promise<void>((resolve, reject) => {
+      stdin.write(`${JSON.stringify(message)}\n`, error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  async close(): Promise<void> {
+    const child = this.process;
+    if (!child) {
+      return;
+    }
+
+    await new Promise<void>(resolve => {
+      child.once('exit', () => resolve());
+      child.stdin.end();
+      child.kill();
+    });
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline = this.buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      newline = this.buffer.indexOf('\n');
+
+      if (!line) {
+        continue;
+      }
+
+      try {
+        this.onmessage?.(JSON.parse(line));
+      } catch (error) {
+        this.onerror?.(new Error(`Invalid JSON from MCP server: ${(error as Error).message}`));
+      }
+    }
+  }
+}
@@ -0,0 +1,324 @@
+import { validateJsonSchema } from '../types';
+import type { FileContext, JSONSchema, Task, TaskType, ValidationResult, WorkspaceContext } from '../types';
+import type { MCPPromptContent } from './prompts';
+
+/**
+ * MCP tools and how tasks are mapped onto them. Tools are matched by their
+ * name and description, and arguments are built from each tool's declared
+ * inputSchema, so any server works without per-tool code.
+ */
+
+export interface MCPTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: JSONSchema;
+  outputSchema?: JSONSchema;
+  annotations?: Record<string, unknown>;
+}
+
+export interface MCPCallToolResult {
+  content: MCPPromptContent[];
+
+  /** Machine-readable result; present when the tool declares an outputSchema */
+  structuredContent?: Record<string, unknown>;
+
+  /** The tool ran but reported a failure */
+  isError?: boolean;
+}
+
+export interface MCPToolMatch {
+  tool: MCPTool;
+
+  /** Higher is better; only meaningful relative to other matches */
+  score: number;
+
+  /** Arguments built from the task for the tool's inputSchema */
+  arguments: Record<string, unknown>;
+
+  /** Required input properties no value could be found for */
+  missing: string[];
+}
+
+/** Word stems that suggest a tool handles a task type */
+const TASK_TYPE_KEYWORDS: Record<TaskType, string[]> = {
+  'planning': ['plan', 'design', 'architect', 'roadmap', 'breakdown'],
+  'completion': ['complet', 'suggest', 'autocomplet'],
+  'analysis': ['analy', 'inspect', 'review', 'lint', 'metric'],
+  'implementation': ['implement', 'generat', 'scaffold', 'creat', 'writ'],
+  'deployment': ['deploy', 'release', 'publish', 'provision'],
+  'testing': ['test', 'spec', 'coverage'],
+  'refactoring': ['refactor', 'restructur', 'renam', 'clean'],
+  'optimization': ['optimi', 'perform', 'perf', 'profil', 'speed'],
+  'documentation': ['doc', 'readme', 'comment', 'explain'],
+  'debugging': ['debug', 'diagnos', 'fix', 'trace', 'error'],
+  'security': ['secur', 'vulnerab', 'audit', 'scan', 'cve'],
+  'general-purpose': []
+};
+
+const STOP_WORDS = new Set(['this', 'that', 'with', 'from', 'into', 'the', 'and', 'for', 'code', 'file', 'files', 'make', 'should']);
+
+type ArgumentSource = (task: Task, context: WorkspaceContext) => unknown;
+
+/**
+ * Where values for commonly named input properties come from. Property
+ * names are compared lower-cased with '_' and '-' removed.
+ */
+const ARGUMENT_SOURCES: Array<[RegExp, ArgumentSource]> = [
+  [/^(description|prompt|query|task|instructions?|request|question|message|text|input|goal|objective)$/, task => task.description],
+  [/^(code|source|sourcecode|content|contents|snippet|selection)$/, (_task, context) => activeCode(context)],
+  [/^(language|lang|programminglanguage)$/, (task, context) => task.language ?? activeFile(context)?.language],
+  [/^(path|file|filepath|filename|uri|target)$/, (_task, context) => context.selection?.filePath ?? activeFile(context)?.path],
+  [/^(files|paths|filepaths|openfiles)$/, (_task, context) => context.openFiles],
+  [/^(root|rootpath|workspace|workspaceroot|projectroot|directory|dir|cwd)$/, (_task, context) => context.workspaceRoot],
+  [/^(context|workspacecontext)$/, (_task, context) => serializeWorkspaceContext(context)],
+  [/^(type|tasktype|kind|mode|category)$/, task => task.type],
+  [/^complexity$/, task => task.complexity],
+  [/^priority$/, task => task.priority],
+  [/^(project|projecttype)$/, (_task, context) => context.projectInfo.type],
+  [/^(technologies|frameworks|stack)$/, (_task, context) => context.projectInfo.technologies],
+  [/^dependencies$/, (_task, context) => context.projectInfo.dependencies],
+  [/^branch$/, (_task, context) => context.gitInfo?.branch]
+];
+
+/**
+ * Rank the tools that can run a task, best first. Tools whose required
+ * inputs cannot be filled, or that show no sign of handling the task, are
+ * left out.
+ */
+export function rankToolsForTask(tools: MCPTool[], task: Task, context: WorkspaceContext): MCPToolMatch[] {
+  return tools
+    .map(tool => {
+      const relevance = toolRelevance(tool, task);
+      const { arguments: args, missing } = buildToolArguments(tool.inputSchema, task, context);
+      const filled = Object.keys(args).length;
+      return { tool, score: relevance + filled * 0.1, relevance, arguments: args, missing };
+    })
+    .filter(match => match.missing.length === 0 && (match.relevance > 0 || task.type === 'general-purpose'))
+    .sort((a, b) => b.score - a.score)
+    .map(({ relevance: _relevance, ...match }) => match);
+}
+
+/**
+ * Task types a set of tools appears to cover, judged from their names and
+ * descriptions. Falls back to 'general-purpose' when nothing matches.
+ */
+export function taskTypesForTools(tools: MCPTool[]): TaskType[] {
+  const toolWords = tools.flatMap(tool => words(`${tool.name} ${tool.title ?? ''} ${tool.description ?? ''}`));
+  const covered = (Object.keys(TASK_TYPE_KEYWORDS) as TaskType[]).filter(type =>
+    TASK_TYPE_KEYWORDS[type].some(stem => toolWords.some(word => word.startsWith(stem)))
+  );
+  return covered.length > 0 ? covered : ['general-purpose'];
+}
+
+/**
+ * Build tool arguments for a task from an inputSchema. Values come from, in
+ * order: task.metadata.arguments, task.metadata.inputs, well-known property
+ * names (description, code, language, path, ...) and schema defaults. Values
+ * are coerced to the declared type and dropped when they violate an enum.
+ *
+ * A schema that declares no properties receives the generic task payload.
+ */
+export function buildToolArguments(
+  schema: JSONSchema,
+  task: Task,
+  context: WorkspaceContext
+): { arguments: Record<string, unknown>; missing: string[] } {
+  const properties = schema.properties ?? {};
+  if (Object.keys(properties).length === 0) {
+    return {
+      arguments: schema.additionalProperties === false ? {} : genericArguments(task, context),
+      missing: []
+    };
+  }
+
+  const explicit: Record<string, unknown> = {
+    ...(isObject(task.metadata?.inputs) ? task.metadata!.inputs : {}),
+    ...(isObject(task.metadata?.arguments) ? task.metadata!.arguments : {})
+  };
+
+  const args: Record<string, unknown> = {};
+  for (const [name, propertySchema] of Object.entries(properties)) {
+    const candidates = [explicit[name], wellKnownValue(name, task, context), propertySchema.default];
+    for (const candidate of candidates) {
+      const value = candidate === undefined ? undefined : fitToSchema(candidate, propertySchema);
+      if (value !== undefined) {
+        args[name] = value;
+        break;
+      }
+    }
+  }
+
+  const missing = (schema.required ?? []).filter(name => args[name] === undefined);
+  return { arguments: args, missing };
+}
+
+/**
+ * Check built arguments against the tool's inputSchema before sending.
+ */
+export function validateToolArguments(tool: MCPTool, args: Record<string, unknown>): ValidationResult {
+  return validateJsonSchema(args, tool.inputSchema, 'arguments');
+}
+
+/**
+ * Check a tools/call result against the tool's outputSchema. Tools without
+ * an outputSchema always pass.
+ */
+export function validateToolResult(tool: MCPTool, result: MCPCallToolResult): ValidationResult {
+  if (!tool.outputSchema) {
+    return { valid: true, errors: [] };
+  }
+  if (result.structuredContent === undefined) {
+    return { valid: false, errors: [{ path: 'structuredContent', message: 'is required by the tool outputSchema' }] };
+  }
+  return validateJsonSchema(result.structuredContent, tool.outputSchema, 'structuredContent');
+}
+
+/**
+ * Workspace context in the shape sent to MCP servers
+ */
+export function serializeWorkspaceContext(context: WorkspaceContext): Record<string, unknown> {
+  return {
+    openFiles: context.openFiles.map(file => ({
+      path: file.path,
+      content: file.content,
+      language: file.language
+    })),
+    selection: context.selection,
+    projectInfo: {
+      type: context.projectInfo.type,
+      technologies: context.projectInfo.technologies,
+      dependencies: context.projectInfo.dependencies
+    },
+    workspaceRoot: context.workspaceRoot
+  };
+}
+
+function toolRelevance(tool: MCPTool, task: Task): number {
+  const toolWords = words(`${tool.name} ${tool.title ?? ''} ${tool.description ?? ''}`);
+  const hasStem = (stem: string) => toolWords.some(word => word.startsWith(stem));
+
+  const typeScore = TASK_TYPE_KEYWORDS[task.type].filter(hasStem).length * 3;
+
+  const taskWords = new Set(words(task.description).filter(word => word.length > 3 && !STOP_WORDS.has(word)));
+  const overlap = Array.from(taskWords).filter(word => toolWords.includes(word)).length;
+
+  return typeScore + Math.min(overlap, 3);
+}
+
+function genericArguments(task: Task, context: WorkspaceContext): Record<string, unknown> {
+  return {
+    description: task.description,
+    context: serializeWorkspaceContext(context),
+    language: task.language,
+    complexity: task.complexity
+  };
+}
+
+function wellKnownValue(name: string, task: Task, context: WorkspaceContext): unknown {
+  const normalized = name.toLowerCase().replace(/[_-]/g, '');
+  const source = ARGUMENT_SOURCES.find(([pattern]) => pattern.test(normalized));
+  return source ? source[1](task, context) : undefined;
+}
+
+/**
+ * Coerce a value to the schema's type; undefined when it cannot fit.
+ */
+function fitToSchema(value: unknown, schema: JSONSchema): unknown {
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  let fitted = value;
+
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    fitted = undefined;
+    for (const type of types) {
+      fitted = coerce(value, type, schema);
+      if (fitted !== undefined) {
+        break;
+      }
+    }
+  } else if (Array.isArray(value) && isObject(schema.items)) {
+    fitted = value.map(item => fitToSchema(item, schema.items as JSONSchema)).filter(item => item !== undefined);
+  }
+
+  if (fitted !== undefined && schema.enum) {
+    const match = schema.enum.find(option =>
+      option === fitted || (typeof option === 'string' && typeof fitted === 'string' && option.toLowerCase() === fitted.toLowerCase())
+    );
+    return match;
+  }
+
+  return fitted;
+}
+
+function coerce(value: unknown, type: string, schema: JSONSchema): unknown {
+  switch (type) {
+    case 'string':
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+      }
+      if (isFileContext(value)) {
+        return value.path;
+      }
+      return typeof value === 'object' && value !== null ? JSON.stringify(value) : undefined;
+
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      return Number.isFinite(number) && (type === 'number' || Number.isInteger(number)) ? number : undefined;
+    }
+
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : undefined;
+
+    case 'array': {
+      const items = isObject(schema.items) ? schema.items as JSONSchema : {};
+      return [value].map(item => fitToSchema(item, items)).filter(item => item !== undefined);
+    }
+
+    case 'object':
+      return isFileContext(value) ? { ...value } : undefined;
+
+    default:
+      return undefined;
+  }
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function activeFile(context: WorkspaceContext): FileContext | undefined {
+  const selected = context.selection?.filePath;
+  return context.openFiles.find(file => file.path === selected) ?? context.openFiles[0];
+}
+
+function activeCode(context: WorkspaceContext): string | undefined {
+  return context.selection?.text || activeFile(context)?.content;
+}
+
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 0);
+}
+
+function isFileContext(value: unknown): value is FileContext {
+  return isObject(value) && typeof value.path === 'string' && typeof value.content === 'string';
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
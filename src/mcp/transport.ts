@@ -0,0 +1,62 @@
+import type { JsonRpcMessage } from './jsonrpc';
+import { StdioTransport } from './stdio-transport';
+import { WebSocketTransport } from './websocket-transport';
+import type { WebSocketConstructor } from './websocket-transport';
+
+/**
+ * A bidirectional channel carrying JSON-RPC messages to and from an MCP
+ * server. Callbacks follow the WebSocket style the MCP client already uses.
+ */
+export interface MCPTransport {
+  /** Open the channel; resolves once messages can be sent */
+  start(): Promise<void>;
+
+  send(message: JsonRpcMessage): Promise<void>;
+
+  close(): Promise<void>;
+
+  /** Whether the channel is currently open */
+  readonly isOpen: boolean;
+
+  onmessage?: (message: JsonRpcMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+}
+
+export interface StdioTransportConfig {
+  type: 'stdio';
+
+  /** Executable that runs the MCP server */
+  command: string;
+  args?: string[];
+
+  /** Extra environment variables, merged over the current environment */
+  env?: Record<string, string>;
+
+  /** Working directory for the server process */
+  cwd?: string;
+}
+
+export interface WebSocketTransportConfig {
+  type: 'websocket';
+
+  /** ws:// or wss:// URL; http(s):// is rewritten to ws(s):// */
+  url: string;
+
+  /**
+   * WebSocket implementation, e.g. the `ws` package. Defaults to the global
+   * WebSocket, which Node only has from version 22.
+   */
+  webSocket?: WebSocketConstructor;
+}
+
+export type MCPTransportConfig = StdioTransportConfig | WebSocketTransportConfig;
+
+export function createMCPTransport(config: MCPTransportConfig): MCPTransport {
+  switch (config.type) {
+    case 'stdio':
+      return new StdioTransport(config);
+    case 'websocket':
+      return new WebSocketTransport(config);
+  }
+}
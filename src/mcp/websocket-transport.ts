@@ -0,0 +1,120 @@
+import type { JsonRpcMessage } from './jsonrpc';
+import type { MCPTransport, WebSocketTransportConfig } from './transport';
+
+/** WebSocket.OPEN */
+const OPEN = 1;
+
+export interface WebSocketMessageEvent {
+  data: unknown;
+}
+
+export interface WebSocketCloseEvent {
+  code: number;
+  reason: string;
+}
+
+export interface WebSocketErrorEvent {
+  /** Set by `ws`; browser error events carry no detail */
+  message?: string;
+}
+
+/**
+ * The part of the WebSocket API the transport needs. Both the global
+ * WebSocket and the `ws` package provide it.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  addEventListener(type: 'open', listener: () => void): void;
+  addEventListener(type: 'message', listener: (event: WebSocketMessageEvent) => void): void;
+  addEventListener(type: 'close', listener: (event: WebSocketCloseEvent) => void): void;
+  addEventListener(type: 'error', listener: (event: WebSocketErrorEvent) => void): void;
+  send(data: string): void;
+  close(): void;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+/**
+ * Exchanges JSON-RPC messages with an MCP server over a WebSocket.
+ */
+export class WebSocketTransport implements MCPTransport {
+  private ws: WebSocketLike | null = null;
+
+  onmessage?: (message: JsonRpcMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  constructor(private config: WebSocketTransportConfig) {}
+
+  get isOpen(): boolean {
+    return this.ws?.readyState === OPEN;
+  }
+
+  async start(): Promise<void> {
+    if (this.ws) {
+      throw new Error('WebSocket transport already started');
+    }
+
+    const WebSocketImpl = this.config.webSocket ?? (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+    if (!WebSocketImpl) {
+      throw new Error('No WebSocket implementation available; pass one as the transport\'s webSocket option');
+    }
+
+    return new Promise((resolve, reject) => {
+      const url = this.config.url.replace(/^http/, 'ws');
+      const ws = new WebSocketImpl(url);
+      this.ws = ws;
+      let opened = false;
+
+      ws.addEventListener('open', () => {
+        opened = true;
+        resolve();
+      });
+
+      ws.addEventListener('error', event => {
+        const detail = event.message ? `: ${event.message}` : '';
+        if (!opened) {
+          this.ws = null;
+          reject(new Error(`Failed to connect to MCP server at ${url}${detail}`));
+        } else {
+          this.onerror?.(new Error(`WebSocket error on ${url}${detail}`));
+        }
+      });
+
+      ws.addEventListener('message', event => {
+        try {
+          this.onmessage?.(JSON.parse(String(event.data)));
+        } catch (error) {
+          this.onerror?.(new Error(`Invalid JSON from MCP server: ${(error as Error).message}`));
+        }
+      });
+
+      ws.addEventListener('close', event => {
+        // close() already detached this socket; a restart may have replaced it
+        if (this.ws !== ws && this.ws !== null) {
+          return;
+        }
+        this.ws = null;
+        if (!opened) {
+          reject(new Error(`MCP server at ${url} closed the connection (${event.code}${event.reason ? ` ${event.reason}` : ''})`));
+        } else {
+          this.onclose?.();
+        }
+      });
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.ws || !this.isOpen) {
+      throw new Error('WebSocket transport is not open');
+    }
+    this.ws.send(JSON.stringify(message));
+  }
+
+  async close(): Promise<void> {
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import type { ToolMetricsSummary } from './types';
+
+/**
+ * Render summaries as a Markdown table for a chat response, hover or
+ * webview. Rows are sorted by tool, then task type, then language.
+ */
+export function renderMetricsTable(summaries: ToolMetricsSummary[]): string {
+  if (summaries.length === 0) {
+    return '_No tool invocations recorded yet._';
+  }
+
+  const rows = [...summaries].sort((a, b) =>
+    (a.toolId ?? '').localeCompare(b.toolId ?? '') ||
+    (a.taskType ?? '').localeCompare(b.taskType ?? '') ||
+    (a.language ?? '').localeCompare(b.language ?? '')
+  );
+
+  const lines = [
+    '| Tool | Task type | Language | Runs | Success | p50 | p95 | Avg tokens | Est. cost | Top error |',
+    '|------|-----------|----------|-----:|--------:|----:|----:|-----------:|----------:|-----------|'
+  ];
+
+  for (const summary of rows) {
+    const topError = summary.topErrors[0];
+    lines.push(`| ${[
+      summary.toolId ?? 'all',
+      summary.taskType ?? 'all',
+      summary.language ?? 'all',
+      String(summary.samples),
+      `${Math.round(summary.successRate * 100)}%`,
+      formatDuration(summary.p50LatencyMs),
+      formatDuration(summary.p95LatencyMs),
+      summary.averageTokens > 0 ? String(Math.round(summary.averageTokens)) : '-',
+      summary.estimatedCost !== undefined ? `$${summary.estimatedCost.toFixed(2)}` : '-',
+      topError ? `${topError.errorType} (${topError.count})` : '-'
+    ].join(' | ')} |`);
+  }
+
+  return lines.join('\n');
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
@@ -0,0 +1,10 @@
+/**
+ * Per-tool performance metrics: invocation outcomes recorded in workspace
+ * storage and summarised for routing and dashboards.
+ */
+
+export * from './types';
+export * from './storage';
+export * from './store';
+export * from './metered-connector';
+export * from './dashboard';
@@ -0,0 +1,60 @@
+import { ToolConnector } from '../types';
+import type { ConfigurationSchema, Connection, InvokeOptions, Task, ToolResponse, WorkspaceContext } from '../types';
+import type { ToolMetricsStore } from './store';
+
+/**
+ * Wraps a connector so every invoke() outcome is recorded in a metrics
+ * store. Cancelled invocations are not recorded; they say nothing about the
+ * tool.
+ */
+export class MeteredConnector extends ToolConnector {
+  constructor(private inner: ToolConnector, readonly toolId: string, private store: ToolMetricsStore) {
+    super();
+  }
+
+  connect(): Promise<Connection> {
+    return this.inner.connect();
+  }
+
+  async invoke(task: Task, context: WorkspaceContext, options?: InvokeOptions): Promise<ToolResponse> {
+    const startedAt = Date.now();
+    let response: ToolResponse;
+
+    try {
+      response = await this.inner.invoke(task, context, options);
+    } catch (error) {
+      // Connectors should report failures in the response, but not all do
+      this.store.recordInvocation(this.toolId, task, {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        toolId: this.toolId,
+        metadata: { errorType: error instanceof Error ? error.constructor.name : 'Error' }
+      }, Date.now() - startedAt);
+      throw error;
+    }
+
+    if (!response.metadata?.cancelled) {
+      this.store.recordInvocation(this.toolId, task, response, Date.now() - startedAt);
+    }
+    return response;
+  }
+
+  testHealth(): Promise<boolean> {
+    return this.inner.testHealth();
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  getConfigurationSchema(): ConfigurationSchema {
+    return this.inner.getConfigurationSchema();
+  }
+}
+
+/**
+ * Convenience wrapper: `withMetrics(connector, 'my-tool', store)`
+ */
+export function withMetrics(connector: ToolConnector, toolId: string, store: ToolMetricsStore): MeteredConnector {
+  return new MeteredConnector(connector, toolId, store);
+}
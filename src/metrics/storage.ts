@@ -0,0 +1,50 @@
+import type { InvocationRecord } from './types';
+
+/**
+ * Where the metrics store keeps its records between sessions.
+ */
+export interface MetricsStorage {
+  load(): Promise<InvocationRecord[]>;
+  save(records: InvocationRecord[]): Promise<void>;
+}
+
+/**
+ * Structural subset of vscode.Memento, so workspaceState can be passed in
+ * without this module depending on VS Code.
+ */
+export interface MetricsMemento {
+  get<T>(key: string): T | undefined;
+  update(key: string, value: unknown): PromiseLike<void>;
+}
+
+/**
+ * Keeps records in a Memento, normally ExtensionContext.workspaceState so
+ * metrics are per workspace.
+ */
+export class MementoMetricsStorage implements MetricsStorage {
+  constructor(private memento: MetricsMemento, private key = 'aiOrchestration.metrics') {}
+
+  async load(): Promise<InvocationRecord[]> {
+    const records = this.memento.get<InvocationRecord[]>(this.key);
+    return Array.isArray(records) ? records : [];
+  }
+
+  async save(records: InvocationRecord[]): Promise<void> {
+    await this.memento.update(this.key, records);
+  }
+}
+
+/**
+ * Non-persistent storage, for tests and for running outside VS Code.
+ */
+export class InMemoryMetricsStorage implements MetricsStorage {
+  private records: InvocationRecord[] = [];
+
+  async load(): Promise<InvocationRecord[]> {
+    return [...this.records];
+  }
+
+  async save(records: InvocationRecord[]): Promise<void> {
+    this.records = [...records];
+  }
+}
@@ -0,0 +1,269 @@
+import type { Task, TaskType, ToolResponse } from '../types';
+import type { ToolPerformanceSource, ToolPerformanceStats } from '../routing';
+import { TypedEventEmitter } from '../utils';
+import { InMemoryMetricsStorage } from './storage';
+import type { MetricsStorage } from './storage';
+import type { InvocationRecord, MetricsFilter, MetricsGroupKey, ToolMetricsSummary } from './types';
+
+export interface ToolMetricsStoreOptions {
+  /** Defaults to in-memory storage */
+  storage?: MetricsStorage;
+
+  /** Records kept per tool; older ones roll off */
+  windowSize?: number;
+
+  /** Records older than this are dropped (ms) */
+  maxAge?: number;
+
+  /** Estimated cost per 1000 tokens, by tool id */
+  tokenPricing?: Record<string, number>;
+
+  /** Delay before recorded changes are written to storage (ms) */
+  saveDelay?: number;
+}
+
+export interface MetricsStoreEvents {
+  recorded: (record: InvocationRecord) => void;
+  cleared: (toolId?: string) => void;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Records the outcome of every invocation per tool, task type and language,
+ * and derives rolling success rate, latency percentiles and token usage.
+ * Implements ToolPerformanceSource so AdaptiveTaskRouter can route on it.
+ */
+export class ToolMetricsStore extends TypedEventEmitter<MetricsStoreEvents> implements ToolPerformanceSource {
+  private readonly records = new Map<string, InvocationRecord[]>();
+  private readonly storage: MetricsStorage;
+  private readonly windowSize: number;
+  private readonly maxAge: number;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private options: ToolMetricsStoreOptions = {}) {
+    super();
+    this.storage = options.storage ?? new InMemoryMetricsStorage();
+    this.windowSize = options.windowSize ?? 200;
+    this.maxAge = options.maxAge ?? 30 * DAY;
+  }
+
+  /**
+   * Load persisted records, merging them under any recorded since startup.
+   */
+  async load(): Promise<void> {
+    const persisted = await this.storage.load();
+    const current = Array.from(this.records.values()).flat();
+    this.records.clear();
+
+    for (const record of [...persisted, ...current].sort((a, b) => a.timestamp - b.timestamp)) {
+      this.append(record);
+    }
+  }
+
+  record(record: InvocationRecord): void {
+    this.append(record);
+    this.emit('recorded', record);
+    this.scheduleSave();
+  }
+
+  /**
+   * Record a connector response. Latency is the measured wall-clock time;
+   * tokens, errorType and method come from the response metadata.
+   */
+  recordInvocation(toolId: string, task: Task, response: ToolResponse, latencyMs: number): InvocationRecord {
+    const metadata = response.metadata ?? {};
+    const record: InvocationRecord = {
+      toolId,
+      taskType: task.type,
+      language: task.language,
+      success: response.success,
+      latencyMs,
+      tokensUsed: typeof metadata.tokensUsed === 'number' ? metadata.tokensUsed : undefined,
+      errorType: response.success ? undefined : metadata.errorType,
+      method: metadata.method,
+      timestamp: Date.now()
+    };
+
+    this.record(record);
+    return record;
+  }
+
+  /**
+   * Note that the user accepted a completion the tools proposed, by marking
+   * each tool's latest successful completion record.
+   */
+  recordAcceptance(toolIds: string[]): void {
+    for (const toolId of toolIds) {
+      const records = this.records.get(toolId) ?? [];
+      for (let i = records.length - 1; i >= 0; i--) {
+        if (records[i].taskType === 'completion' && records[i].success) {
+          records[i].accepted = true;
+          break;
+        }
+      }
+    }
+    this.scheduleSave();
+  }
+
+  getStats(toolId: string, taskType?: TaskType): ToolPerformanceStats | undefined {
+    const summary = this.summarize({ toolId, taskType });
+    if (summary.samples === 0) {
+      return undefined;
+    }
+
+    return {
+      samples: summary.samples,
+      successRate: summary.successRate,
+      averageLatencyMs: summary.averageLatencyMs,
+      p50LatencyMs: summary.p50LatencyMs,
+      p95LatencyMs: summary.p95LatencyMs,
+      acceptanceRate: summary.acceptanceRate
+    };
+  }
+
+  /** Statistics over every record matching the filter */
+  summarize(filter: MetricsFilter = {}): ToolMetricsSummary {
+    return {
+      toolId: filter.toolId,
+      taskType: filter.taskType,
+      language: filter.language,
+      ...this.compute(this.query(filter))
+    };
+  }
+
+  /**
+   * One summary per distinct combination of the group keys, e.g.
+   * ['toolId', 'taskType'] for a per-tool, per-task-type breakdown.
+   */
+  summarizeBy(groupBy: MetricsGroupKey[] = ['toolId'], filter: MetricsFilter = {}): ToolMetricsSummary[] {
+    const groups = new Map<string, InvocationRecord[]>();
+    for (const record of this.query(filter)) {
+      const key = JSON.stringify(groupBy.map(name => record[name] ?? null));
+      groups.set(key, [...(groups.get(key) ?? []), record]);
+    }
+
+    return Array.from(groups.values()).map(records => {
+      const first = records[0];
+      return {
+        toolId: groupBy.includes('toolId') ? first.toolId : undefined,
+        taskType: groupBy.includes('taskType') ? first.taskType : undefined,
+        language: groupBy.includes('language') ? first.language : undefined,
+        ...this.compute(records)
+      };
+    });
+  }
+
+  /** Raw records matching the filter, oldest first */
+  query(filter: MetricsFilter = {}): InvocationRecord[] {
+    const cutoff = Math.max(filter.since ?? 0, Date.now() - this.maxAge);
+    const pools = filter.toolId !== undefined
+      ? [this.records.get(filter.toolId) ?? []]
+      : Array.from(this.records.values());
+
+    return pools.flat().filter(record =>
+      record.timestamp >= cutoff &&
+      (filter.taskType === undefined || record.taskType === filter.taskType) &&
+      (filter.language === undefined || record.language === filter.language)
+    );
+  }
+
+  /** Forget one tool's records, or everything */
+  clear(toolId?: string): void {
+    if (toolId === undefined) {
+      this.records.clear();
+    } else {
+      this.records.delete(toolId);
+    }
+    this.emit('cleared', toolId);
+    this.scheduleSave();
+  }
+
+  /** Write pending changes now */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    await this.storage.save(Array.from(this.records.values()).flat());
+  }
+
+  async dispose(): Promise<void> {
+    if (this.saveTimer) {
+      await this.flush();
+    }
+    this.removeAllListeners();
+  }
+
+  private append(record: InvocationRecord): void {
+    const window = this.records.get(record.toolId) ?? [];
+    window.push(record);
+
+    const cutoff = Date.now() - this.maxAge;
+    const expired = window.findIndex(entry => entry.timestamp >= cutoff);
+    window.splice(0, Math.max(expired === -1 ? window.length : expired, window.length - this.windowSize));
+    this.records.set(record.toolId, window);
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush().catch(error => console.error('Failed to save tool metrics:', error));
+    }, this.options.saveDelay ?? 2000);
+  }
+
+  private compute(records: InvocationRecord[]): Omit<ToolMetricsSummary, 'toolId' | 'taskType' | 'language'> {
+    const latencies = records.map(record => record.latencyMs).sort((a, b) => a - b);
+    const tokenRecords = records.filter(record => record.tokensUsed !== undefined);
+    const totalTokens = tokenRecords.reduce((sum, record) => sum + record.tokensUsed!, 0);
+
+    const pricing = this.options.tokenPricing ?? {};
+    const priced = records.filter(record => pricing[record.toolId] !== undefined && record.tokensUsed !== undefined);
+    const estimatedCost = priced.length > 0
+      ? priced.reduce((sum, record) => sum + (record.tokensUsed! / 1000) * pricing[record.toolId], 0)
+      : undefined;
+
+    const errorCounts = new Map<string, number>();
+    for (const record of records) {
+      if (!record.success && record.errorType) {
+        errorCounts.set(record.errorType, (errorCounts.get(record.errorType) ?? 0) + 1);
+      }
+    }
+
+    const lastTimestamp = records.reduce((latest, record) => Math.max(latest, record.timestamp), 0);
+    const completions = records.filter(record => record.taskType === 'completion' && record.success);
+
+    return {
+      samples: records.length,
+      successRate: records.length > 0 ? records.filter(record => record.success).length / records.length : 0,
+      averageLatencyMs: latencies.length > 0 ? latencies.reduce((sum, value) => sum + value, 0) / latencies.length : 0,
+      p50LatencyMs: percentile(latencies, 50),
+      p95LatencyMs: percentile(latencies, 95),
+      totalTokens,
+      averageTokens: tokenRecords.length > 0 ? totalTokens / tokenRecords.length : 0,
+      estimatedCost,
+      acceptanceRate: completions.length > 0
+        ? completions.filter(record => record.accepted).length / completions.length
+        : undefined,
+      topErrors: Array.from(errorCounts, ([errorType, count]) => ({ errorType, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5),
+      lastInvokedAt: lastTimestamp > 0 ? new Date(lastTimestamp) : undefined
+    };
+  }
+}
+
+/**
+ * Nearest-rank percentile of an ascending list; 0 for an empty list.
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
@@ -0,0 +1,67 @@
+import type { TaskType } from '../types';
+
+/**
+ * One connector invocation as recorded by the metrics store.
+ */
+export interface InvocationRecord {
+  toolId: string;
+  taskType: TaskType;
+  language?: string;
+  success: boolean;
+
+  /** Wall-clock time of the invocation (ms) */
+  latencyMs: number;
+
+  tokensUsed?: number;
+  errorType?: string;
+
+  /** Connector method or command that served the task */
+  method?: string;
+
+  /** Set on a completion the user accepted */
+  accepted?: boolean;
+
+  /** Epoch milliseconds */
+  timestamp: number;
+}
+
+export interface MetricsFilter {
+  toolId?: string;
+  taskType?: TaskType;
+  language?: string;
+
+  /** Only records at or after this epoch time */
+  since?: number;
+}
+
+export type MetricsGroupKey = 'toolId' | 'taskType' | 'language';
+
+/**
+ * Rolling statistics over the records matching a filter or group.
+ */
+export interface ToolMetricsSummary {
+  toolId?: string;
+  taskType?: TaskType;
+  language?: string;
+
+  samples: number;
+  successRate: number;
+  averageLatencyMs: number;
+  p50LatencyMs: number;
+  p95LatencyMs: number;
+
+  /** Tokens across all samples that reported them */
+  totalTokens: number;
+  averageTokens: number;
+
+  /** Estimated spend, when pricing is configured for the tool */
+  estimatedCost?: number;
+
+  /** Share of successful completions that were accepted; undefined without any */
+  acceptanceRate?: number;
+
+  /** Most frequent errorType values, most frequent first */
+  topErrors: Array<{ errorType: string; count: number }>;
+
+  lastInvokedAt?: Date;
+}
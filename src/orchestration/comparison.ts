@@ -0,0 +1,109 @@
+import type { ToolResponse } from '../types';
+import { similarityRatio, splitLines } from '../utils';
+
+/**
+ * The comparable part of a tool response: code when the response carries
+ * any, otherwise its text.
+ */
+export interface Proposal {
+  text: string;
+  isCode: boolean;
+  language?: string;
+}
+
+/**
+ * Scores how alike two proposals are, 0 (unrelated) to 1 (identical).
+ * Plug in an AST-based comparator for languages with a parser at hand.
+ */
+export interface ProposalComparator {
+  readonly name: string;
+  compare(a: Proposal, b: Proposal): number;
+}
+
+const FENCE = /```([\w+#.-]*)[^\n]*\n([\s\S]*?)```/g;
+
+/** Keys connectors commonly use for the main payload, most specific first */
+const PAYLOAD_KEYS = ['code', 'changes', 'suggestion', 'result', 'response', 'analysis', 'plan', 'text', 'content'];
+
+/**
+ * Pull the proposal out of a response's data. Fenced code blocks win over
+ * surrounding prose; a structured payload is compared as JSON.
+ */
+export function extractProposal(response: ToolResponse): Proposal {
+  const text = payloadText(response.data);
+  const blocks = extractCodeBlocks(text);
+
+  if (blocks.length > 0) {
+    return { text: blocks.map(block => block.code).join('\n'), isCode: true, language: blocks[0].language };
+  }
+
+  const data = response.data;
+  const isCode = typeof data === 'object' && data !== null && typeof data.code === 'string';
+  return { text, isCode };
+}
+
+export function extractCodeBlocks(text: string): Array<{ language?: string; code: string }> {
+  return Array.from(text.matchAll(FENCE), match => ({
+    language: match[1] || undefined,
+    code: match[2].replace(/\n$/, '')
+  }));
+}
+
+/**
+ * Line-based diff ratio, ignoring trailing whitespace.
+ */
+export const textDiffComparator: ProposalComparator = {
+  name: 'text-diff',
+  compare(a, b) {
+    const lines = (proposal: Proposal) => splitLines(proposal.text.trim()).map(line => line.trimEnd());
+    return similarityRatio(lines(a), lines(b));
+  }
+};
+
+/**
+ * Token-based ratio that ignores whitespace, comments and quote style, so
+ * proposals that differ only in formatting compare as equal. A lightweight
+ * stand-in for an AST diff.
+ */
+export const tokenDiffComparator: ProposalComparator = {
+  name: 'token-diff',
+  compare(a, b) {
+    return similarityRatio(codeTokens(a.text), codeTokens(b.text));
+  }
+};
+
+/**
+ * Split code into identifier, number, string and punctuation tokens with
+ * comments and whitespace dropped.
+ */
+export function codeTokens(code: string): string[] {
+  const withoutComments = code
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/(^|[^:'"])\/\/.*$/gm, '$1')
+    .replace(/^\s*#(?!include|define|if|endif|pragma).*$/gm, '');
+
+  return (withoutComments.match(/[A-Za-z_$][\w$]*|\d[\w.]*|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|`(?:\\.|[^`\\])*`|\S/g) ?? [])
+    .map(token => /^['"`]/.test(token) ? `"${token.slice(1, -1)}"` : token);
+}
+
+function payloadText(data: unknown): string {
+  if (typeof data === 'string') {
+    return data;
+  }
+  if (typeof data !== 'object' || data === null) {
+    return data === undefined ? '' : String(data);
+  }
+
+  const record = data as Record<string, unknown>;
+  for (const key of PAYLOAD_KEYS) {
+    const value = record[key];
+    if (typeof value === 'string' && value.length > 0) {
+      return value;
+    }
+    if (typeof value === 'object' && value !== null) {
+      return payloadText(value);
+    }
+  }
+
+  return JSON.stringify(data, null, 2);
+}
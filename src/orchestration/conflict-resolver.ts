@@ -0,0 +1,214 @@
+import type { Conflict, Task, TaskResult } from '../types';
+import { extractProposal, textDiffComparator, tokenDiffComparator } from './comparison';
+import type { Proposal, ProposalComparator } from './comparison';
+
+/**
+ * How the results of a fan-out are combined into one:
+ * - first-success: the first tool to succeed wins; the others are cancelled
+ * - majority-vote: the largest group of agreeing proposals wins
+ * - best-scored: the proposal with the highest score wins
+ * - user-pick: the options are shown side by side and the user chooses
+ */
+export type MergeStrategy = 'first-success' | 'majority-vote' | 'best-scored' | 'user-pick';
+
+export const MERGE_STRATEGIES: readonly MergeStrategy[] = ['first-success', 'majority-vote', 'best-scored', 'user-pick'];
+
+export interface ResolutionOption {
+  result: TaskResult;
+  proposal: Proposal;
+
+  /** Mean similarity to the other successful proposals, 0-1 */
+  agreement: number;
+
+  score: number;
+}
+
+/** Scores a successful result; higher wins under best-scored */
+export type ResultScorer = (option: Omit<ResolutionOption, 'score'>) => number;
+
+/**
+ * Lets the user choose between options. Resolves to undefined when the user
+ * dismisses the choice.
+ */
+export type ResolutionPicker = (options: ResolutionOption[], conflict: Conflict) => Promise<ResolutionOption | undefined>;
+
+export interface ConflictResolverOptions {
+  /** Overrides the default: token diff for code, line diff for text */
+  comparator?: ProposalComparator;
+
+  /** Similarity at which two proposals count as agreeing */
+  agreementThreshold?: number;
+
+  scorer?: ResultScorer;
+
+  /** Needed for user-pick; without it user-pick falls back to best-scored */
+  pick?: ResolutionPicker;
+}
+
+export interface Resolution {
+  strategy: MergeStrategy;
+
+  /** Undefined when nothing succeeded or the user dismissed the choice */
+  winner?: TaskResult;
+
+  rationale: string;
+
+  /** Successful results, best scored first */
+  options: ResolutionOption[];
+
+  /** Successful results grouped by agreement, largest group first */
+  groups: TaskResult[][];
+
+  conflicts: Conflict[];
+}
+
+/**
+ * Compares the proposals several tools returned for the same task, reports
+ * where they disagree and picks the result to keep.
+ */
+export class ConflictResolver {
+  private readonly agreementThreshold: number;
+
+  constructor(private options: ConflictResolverOptions = {}) {
+    this.agreementThreshold = options.agreementThreshold ?? 0.85;
+  }
+
+  /** Similarity of two proposals under the configured comparator */
+  similarity(a: Proposal, b: Proposal): number {
+    const comparator = this.options.comparator ?? (a.isCode && b.isCode ? tokenDiffComparator : textDiffComparator);
+    return comparator.compare(a, b);
+  }
+
+  /**
+   * Score the successful results and group those that agree. Results whose
+   * proposals fall into more than one group are in conflict.
+   */
+  analyze(sessionId: string, task: Task, results: TaskResult[]): Omit<Resolution, 'strategy' | 'winner' | 'rationale'> {
+    const successful = results.filter(result => result.response.success);
+    const proposals = successful.map(result => extractProposal(result.response));
+
+    const similarities = proposals.map((a, i) => proposals.map((b, j) => (i === j ? 1 : this.similarity(a, b))));
+    const fastest = Math.min(...successful.map(duration));
+
+    const options = successful.map((result, i) => {
+      const others = similarities[i].filter((_, j) => j !== i);
+      const agreement = others.length > 0 ? others.reduce((sum, value) => sum + value, 0) / others.length : 1;
+      const base = { result, proposal: proposals[i], agreement };
+      const score = this.options.scorer
+        ? this.options.scorer(base)
+        : agreement * 0.8 + (fastest / Math.max(duration(result), 1)) * 0.2;
+      return { ...base, score };
+    }).sort((a, b) => b.score - a.score);
+
+    // Greedy grouping: join the first group whose first member agrees
+    const groups: ResolutionOption[][] = [];
+    for (const option of options) {
+      const group = groups.find(members =>
+        similarities[successful.indexOf(members[0].result)][successful.indexOf(option.result)] >= this.agreementThreshold
+      );
+      if (group) {
+        group.push(option);
+      } else {
+        groups.push([option]);
+      }
+    }
+    groups.sort((a, b) => b.length - a.length);
+
+    const conflicts = groups.length > 1 ? [this.describeConflict(sessionId, task, groups, similarities, successful)] : [];
+    return { options, groups: groups.map(group => group.map(option => option.result)), conflicts };
+  }
+
+  async resolve(sessionId: string, task: Task, results: TaskResult[], strategy: MergeStrategy): Promise<Resolution> {
+    const analysis = this.analyze(sessionId, task, results);
+    const { options, groups, conflicts } = analysis;
+
+    if (options.length === 0) {
+      return { ...analysis, strategy, rationale: 'No tool returned a successful result.' };
+    }
+    if (options.length === 1) {
+      return { ...analysis, strategy, winner: options[0].result, rationale: `Only ${options[0].result.toolId} succeeded.` };
+    }
+
+    switch (strategy) {
+      case 'first-success': {
+        const first = [...options].sort((a, b) => a.result.completedAt.getTime() - b.result.completedAt.getTime())[0];
+        return { ...analysis, strategy, winner: first.result, rationale: `${first.result.toolId} succeeded first.` };
+      }
+
+      case 'majority-vote': {
+        const [largest, runnerUp] = groups;
+        if (runnerUp && runnerUp.length === largest.length) {
+          const best = options[0];
+          return {
+            ...analysis,
+            strategy,
+            winner: best.result,
+            rationale: `No majority among ${options.length} results; picked the best scored (${best.result.toolId}).`
+          };
+        }
+
+        // Options are sorted by score, so the group's first member is its best
+        const winner = largest[0];
+        return {
+          ...analysis,
+          strategy,
+          winner,
+          rationale: `${largest.length} of ${options.length} tools agree (${largest.map(result => result.toolId).join(', ')}).`
+        };
+      }
+
+      case 'best-scored': {
+        const best = options[0];
+        return {
+          ...analysis,
+          strategy,
+          winner: best.result,
+          rationale: `${best.result.toolId} scored highest (${best.score.toFixed(2)}, agreement ${best.agreement.toFixed(2)}).`
+        };
+      }
+
+      case 'user-pick': {
+        if (!this.options.pick || conflicts.length === 0) {
+          const best = options[0];
+          const reason = conflicts.length === 0 ? 'All results agree' : 'No picker configured';
+          return { ...analysis, strategy, winner: best.result, rationale: `${reason}; kept ${best.result.toolId}.` };
+        }
+
+        const picked = await this.options.pick(options, conflicts[0]);
+        return picked
+          ? { ...analysis, strategy, winner: picked.result, rationale: `User picked ${picked.result.toolId}.` }
+          : { ...analysis, strategy, rationale: 'User dismissed the choice.' };
+      }
+    }
+  }
+
+  private describeConflict(
+    sessionId: string,
+    task: Task,
+    groups: ResolutionOption[][],
+    similarities: number[][],
+    successful: TaskResult[]
+  ): Conflict {
+    const indexes = groups.map(group => successful.indexOf(group[0].result));
+    const textuallyDifferent = indexes.some((i, n) => indexes.slice(n + 1).some(j => similarities[i][j] < this.agreementThreshold));
+
+    // Token-equal code that differs only as text is a formatting difference
+    const [first, second] = groups.map(group => group[0].proposal);
+    const styleOnly = first.isCode && second.isCode &&
+      tokenDiffComparator.compare(first, second) >= 0.98 && textuallyDifferent;
+
+    const type: Conflict['type'] = styleOnly ? 'style' : task.type === 'planning' ? 'architectural' : 'implementation';
+    const summary = groups.map(group => group.map(option => option.result.toolId).join(' + ')).join(' vs ');
+
+    return {
+      sessionId,
+      type,
+      description: `${groups.length} differing ${type} proposals: ${summary}`,
+      responses: groups.map(group => group[0].result.response)
+    };
+  }
+}
+
+function duration(result: TaskResult): number {
+  return result.completedAt.getTime() - result.startedAt.getTime();
+}
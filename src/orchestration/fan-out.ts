@@ -0,0 +1,170 @@
+import { randomUUID } from 'crypto';
+import { CancellationError, TimeoutError } from '../types';
+import type {
+  CancellationToken,
+  DiscoveredTool,
+  OrchestrationEvents,
+  OrchestrationResult,
+  Task,
+  TaskResult,
+  ToolResponse,
+  WorkspaceContext
+} from '../types';
+import { contextForTool } from '../context';
+import { CancellationTokenSource } from '../utils';
+import { ConflictResolver } from './conflict-resolver';
+import type { MergeStrategy, Resolution } from './conflict-resolver';
+
+export interface FanOutOptions {
+  strategy?: MergeStrategy;
+
+  /** Per-tool time limit (ms); a tool that runs over counts as failed */
+  timeout?: number;
+
+  cancellationToken?: CancellationToken;
+
+  sessionId?: string;
+}
+
+export interface FanOutResult extends OrchestrationResult {
+  resolution: Resolution;
+
+  /** The winning response, annotated with how it was chosen */
+  response?: ToolResponse;
+}
+
+export interface IntegrationEngineOptions {
+  resolver?: ConflictResolver;
+  events?: Partial<Pick<OrchestrationEvents, 'onToolResponse' | 'onConflictDetected' | 'onOrchestrationComplete'>>;
+}
+
+/**
+ * Sends one task to several tools at once and merges what comes back, e.g.
+ * to have an MCP analyzer cross-check a refactoring from Continue.
+ */
+export class IntegrationEngine {
+  private readonly resolver: ConflictResolver;
+
+  constructor(private options: IntegrationEngineOptions = {}) {
+    this.resolver = options.resolver ?? new ConflictResolver();
+  }
+
+  async fanOut(task: Task, context: WorkspaceContext, tools: DiscoveredTool[], options: FanOutOptions = {}): Promise<FanOutResult> {
+    const sessionId = options.sessionId ?? randomUUID();
+    const strategy = options.strategy ?? 'majority-vote';
+    const events = this.options.events ?? {};
+
+    const source = new CancellationTokenSource();
+    const parent = options.cancellationToken?.onCancellationRequested(() => source.cancel());
+
+    let results: TaskResult[];
+    try {
+      results = await new Promise<TaskResult[]>(resolve => {
+        const settled: TaskResult[] = [];
+        let finished = false;
+
+        const finish = () => {
+          if (!finished) {
+            finished = true;
+            resolve(settled);
+          }
+        };
+
+        if (tools.length === 0) {
+          finish();
+          return;
+        }
+
+        for (const tool of tools) {
+          void this.invoke(tool, task, context, source.token, options.timeout).then(result => {
+            if (finished) {
+              return;
+            }
+            settled.push(result);
+            events.onToolResponse?.(tool.id, result.response);
+
+            // Under first-success the remaining tools are not worth waiting for
+            if (strategy === 'first-success' && result.response.success) {
+              source.cancel();
+              finish();
+            } else if (settled.length === tools.length) {
+              finish();
+            }
+          });
+        }
+      });
+    } finally {
+      parent?.dispose();
+      source.dispose();
+    }
+
+    const resolution = await this.resolver.resolve(sessionId, task, results, strategy);
+    resolution.conflicts.forEach(conflict => events.onConflictDetected?.(conflict));
+
+    const winner = resolution.winner;
+    const response = winner && {
+      ...winner.response,
+      metadata: {
+        ...winner.response.metadata,
+        fanOut: {
+          strategy,
+          toolIds: results.map(result => result.toolId),
+          agreement: resolution.options.find(option => option.result === winner)?.agreement,
+          rationale: resolution.rationale
+        }
+      }
+    };
+
+    const result: FanOutResult = {
+      sessionId,
+      success: winner !== undefined,
+      results,
+      conflicts: resolution.conflicts,
+      summary: resolution.rationale,
+      resolution,
+      response
+    };
+    events.onOrchestrationComplete?.(result);
+    return result;
+  }
+
+  /** Never rejects: errors, timeouts and cancellation become failed responses */
+  private async invoke(
+    tool: DiscoveredTool,
+    task: Task,
+    context: WorkspaceContext,
+    parentToken: CancellationToken,
+    timeout: number | undefined
+  ): Promise<TaskResult> {
+    const startedAt = new Date();
+    const source = new CancellationTokenSource();
+    const subscriptions = [parentToken.onCancellationRequested(() => source.cancel())];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const interruption = new Promise<never>((_, reject) => {
+      subscriptions.push(source.token.onCancellationRequested(() => reject(new CancellationError())));
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          reject(new TimeoutError(`Tool '${tool.id}' did not respond within ${timeout}ms`, timeout));
+          source.cancel();
+        }, timeout);
+      }
+    });
+
+    let response: ToolResponse;
+    try {
+      response = await Promise.race([
+        tool.connector.invoke(task, contextForTool(context, tool), { cancellationToken: source.token }),
+        interruption
+      ]);
+    } catch (error) {
+      response = { success: false, error: (error as Error).message, toolId: tool.id };
+    } finally {
+      clearTimeout(timer);
+      subscriptions.forEach(subscription => subscription.dispose());
+      source.dispose();
+    }
+
+    return { task, response, toolId: tool.id, startedAt, completedAt: new Date() };
+  }
+}
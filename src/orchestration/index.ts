@@ -0,0 +1,8 @@
+/**
+ * Multi-tool fan-out: sends one task to several tools, compares their
+ * proposals and merges the results by strategy.
+ */
+
+export * from './comparison';
+export * from './conflict-resolver';
+export * from './fan-out';
@@ -0,0 +1,34 @@
+import * as vscode from 'vscode';
+import type { Conflict } from '../types';
+import type { ResolutionOption, ResolutionPicker } from './conflict-resolver';
+
+/**
+ * A ResolutionPicker that opens the top two proposals in a diff editor and
+ * lets the user choose one from a quick pick.
+ */
+export function createQuickPickResolver(): ResolutionPicker {
+  return async (options: ResolutionOption[], conflict: Conflict) => {
+    const [first, second] = options;
+    const documents = await Promise.all([first, second].map(option =>
+      vscode.workspace.openTextDocument({ content: option.proposal.text, language: option.proposal.language })
+    ));
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      documents[0].uri,
+      documents[1].uri,
+      `${first.result.toolId} ↔ ${second.result.toolId}`,
+      { preview: true }
+    );
+
+    const picked = await vscode.window.showQuickPick(
+      options.map(option => ({
+        label: option.result.toolId,
+        description: `score ${option.score.toFixed(2)}, agreement ${Math.round(option.agreement * 100)}%`,
+        detail: option.proposal.text.split('\n', 1)[0],
+        option
+      })),
+      { title: conflict.description, placeHolder: 'Choose the result to keep', ignoreFocusOut: true }
+    );
+    return picked?.option;
+  };
+}
@@ -0,0 +1,169 @@
+import type { SecretRule } from './types';
+
+/**
+ * Secret detection: well-known credential formats first, then an entropy
+ * check for random-looking strings that no rule recognises.
+ */
+
+export const SECRET_RULES: SecretRule[] = [
+  {
+    id: 'private-key',
+    description: 'PEM private key block',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g
+  },
+  { id: 'aws-access-key-id', description: 'AWS access key id', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { id: 'github-token', description: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { id: 'slack-token', description: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { id: 'stripe-key', description: 'Stripe secret or restricted key', pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { id: 'google-api-key', description: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/g },
+  { id: 'anthropic-api-key', description: 'Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { id: 'openai-api-key', description: 'OpenAI API key', pattern: /\bsk-(?:proj-|svcacct-)?[A-Za-z0-9_-]{20,}/g },
+  {
+    id: 'jwt',
+    description: 'JSON Web Token',
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g
+  },
+  {
+    id: 'url-credentials',
+    description: 'Password in a URL',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:([^\s@/]+)@/gi,
+    group: 1
+  },
+  {
+    id: 'secret-assignment',
+    description: 'Quoted value assigned to a secret-named key',
+    pattern: /\b[\w.-]*(?:password|passwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|credentials?)[\w.-]*['"]?\s*[:=]\s*(['"`])([^'"`\s]{6,})\1/gi,
+    group: 2
+  },
+  {
+    id: 'env-secret',
+    description: 'Secret-named variable in an env file or shell export',
+    pattern: /^[ \t]*(?:export[ \t]+)?[A-Z0-9_]*(?:PASSWORD|PASSWD|SECRET|TOKEN|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|CREDENTIALS?)[A-Z0-9_]*[ \t]*=[ \t]*([^\s'"#][^\s#]{5,})/gm,
+    group: 1
+  }
+];
+
+/** Environment variable names whose values are always removed */
+export const SECRET_NAME_PATTERN = /password|passwd|secret|token|api_?key|access_?key|private_?key|credential|auth/i;
+
+export interface EntropyOptions {
+  /** Shortest string checked (default 20) */
+  minLength?: number;
+
+  /** Bits per character above which a base64-like string counts as a secret (default 4) */
+  threshold?: number;
+
+  /** Same for hex strings, which carry at most 4 bits per character (default 3) */
+  hexThreshold?: number;
+}
+
+export interface SecretMatch {
+  rule: string;
+
+  /** 0-based line of the start of the match */
+  line: number;
+}
+
+export interface RedactSecretsOptions {
+  rules?: SecretRule[];
+
+  /** Check for high-entropy strings; off when undefined */
+  entropy?: EntropyOptions;
+}
+
+/** Shannon entropy in bits per character */
+export function shannonEntropy(text: string): number {
+  if (text.length === 0) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Replace secrets in text with `[REDACTED:<rule>]` and report where they
+ * were. Overlapping matches are merged under the first rule that found them.
+ */
+export function redactSecrets(text: string, options: RedactSecretsOptions = {}): { text: string; matches: SecretMatch[] } {
+  const ranges: Array<{ start: number; end: number; rule: string }> = [];
+  const overlaps = (start: number, end: number) => ranges.some(range => start < range.end && end > range.start);
+
+  for (const rule of options.rules ?? SECRET_RULES) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const value = rule.group === undefined ? match[0] : match[rule.group];
+      if (!value) {
+        continue;
+      }
+      const start = match.index! + (rule.group === undefined ? 0 : match[0].lastIndexOf(value));
+      const end = start + value.length;
+      if (!overlaps(start, end) && !isPlaceholder(value)) {
+        ranges.push({ start, end, rule: rule.id });
+      }
+    }
+  }
+
+  if (options.entropy) {
+    for (const match of text.matchAll(/[A-Za-z0-9+/_=-]+/g)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (!overlaps(start, end) && isHighEntropy(match[0], options.entropy)) {
+        ranges.push({ start, end, rule: 'high-entropy' });
+      }
+    }
+  }
+
+  if (ranges.length === 0) {
+    return { text, matches: [] };
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  let redacted = '';
+  let offset = 0;
+  for (const range of ranges) {
+    redacted += text.slice(offset, range.start) + `[REDACTED:${range.rule}]`;
+    offset = range.end;
+  }
+  redacted += text.slice(offset);
+
+  const matches = ranges.map(range => ({ rule: range.rule, line: lineAt(text, range.start) }));
+  return { text: redacted, matches };
+}
+
+function isHighEntropy(token: string, options: EntropyOptions): boolean {
+  const value = token.replace(/^[-_=]+|[-_=]+$/g, '');
+  if (value.length < (options.minLength ?? 20)) {
+    return false;
+  }
+
+  // Identifiers and paths are long but not random; secrets mix letters and digits
+  if (!/[0-9]/.test(value) || !/[A-Za-z]/.test(value) || value.includes('/') && !/[+=]/.test(value)) {
+    return false;
+  }
+
+  const threshold = /^[0-9a-f]+$/i.test(value) ? options.hexThreshold ?? 3 : options.threshold ?? 4;
+  return shannonEntropy(value) > threshold;
+}
+
+/** Values that document where a secret goes rather than being one */
+function isPlaceholder(value: string): boolean {
+  return /^(?:\$\{?[\w.]+\}?|<[^>]*>|\[REDACTED:[\w-]+\]|x+|\*+|(?:your|my|example|changeme|placeholder)[\w-]*)$/i.test(value) ||
+    /^process\.env\b|^os\.environ\b/.test(value);
+}
+
+function lineAt(text: string, index: number): number {
+  let line = 0;
+  for (let i = text.indexOf('\n'); i !== -1 && i < index; i = text.indexOf('\n', i + 1)) {
+    line++;
+  }
+  return line;
+}
@@ -0,0 +1,9 @@
+/**
+ * Redaction of secrets, excluded files and local paths from requests before
+ * they leave the editor, with an audit record of every request.
+ */
+
+export * from './types';
+export * from './detectors';
+export * from './redactor';
+export * from './redacting-connector';
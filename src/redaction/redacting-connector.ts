@@ -0,0 +1,64 @@
+import { ToolConnector } from '../types';
+import type { ConfigurationSchema, Connection, DiscoveredTool, InvokeOptions, Task, ToolResponse, WorkspaceContext } from '../types';
+import type { Redactor } from './redactor';
+import type { TrustLevel } from './types';
+
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '::1', '[::1]']);
+
+/**
+ * Trust level a tool gets unless configured otherwise. Only MCP servers
+ * started as a local process or listening on loopback count as local;
+ * extensions, CLIs and services may forward content to hosted models.
+ */
+export function defaultTrustLevel(tool: Pick<DiscoveredTool, 'type' | 'endpoint'>): TrustLevel {
+  if (tool.type !== 'mcp-server') {
+    return 'remote';
+  }
+  if (!tool.endpoint || !/^[a-z][a-z0-9+.-]*:\/\//i.test(tool.endpoint)) {
+    return 'local';
+  }
+
+  try {
+    return LOOPBACK_HOSTS.has(new URL(tool.endpoint).hostname) ? 'local' : 'remote';
+  } catch {
+    return 'remote';
+  }
+}
+
+/**
+ * Wraps a connector so every request is redacted for the tool's trust level
+ * before the connector sees it.
+ */
+export class RedactingConnector extends ToolConnector {
+  constructor(private inner: ToolConnector, readonly toolId: string, readonly trust: TrustLevel, private redactor: Redactor) {
+    super();
+  }
+
+  connect(): Promise<Connection> {
+    return this.inner.connect();
+  }
+
+  invoke(task: Task, context: WorkspaceContext, options?: InvokeOptions): Promise<ToolResponse> {
+    const redacted = this.redactor.redact(task, context, this.toolId, this.trust);
+    return this.inner.invoke(redacted.task, redacted.context, options);
+  }
+
+  testHealth(): Promise<boolean> {
+    return this.inner.testHealth();
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  getConfigurationSchema(): ConfigurationSchema {
+    return this.inner.getConfigurationSchema();
+  }
+}
+
+/**
+ * Convenience wrapper: `withRedaction(connector, 'my-tool', redactor, 'remote')`
+ */
+export function withRedaction(connector: ToolConnector, toolId: string, redactor: Redactor, trust: TrustLevel = 'remote'): RedactingConnector {
+  return new RedactingConnector(connector, toolId, trust, redactor);
+}
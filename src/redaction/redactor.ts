@@ -0,0 +1,235 @@
+import * as os from 'os';
+import * as path from 'path';
+import type { FileContext, Task, WorkspaceContext } from '../types';
+import { matchesGlob } from '../utils';
+import { SECRET_NAME_PATTERN, SECRET_RULES, redactSecrets } from './detectors';
+import type { EntropyOptions, SecretMatch } from './detectors';
+import type { RedactionEvents, RedactionFinding, RedactionPolicy, RedactionRecord, SecretRule, TrustLevel } from './types';
+
+/** Files never sent to any tool */
+export const DEFAULT_EXCLUDE_GLOBS = [
+  '.env',
+  '.env.*',
+  '*.pem',
+  '*.key',
+  '*.p12',
+  '*.pfx',
+  'id_rsa*',
+  'id_ed25519*',
+  '.npmrc',
+  '.pypirc',
+  '.netrc',
+  '**/.aws/credentials',
+  '**/.docker/config.json',
+  '*.tfstate',
+  'secrets.*'
+];
+
+export const DEFAULT_REDACTION_POLICIES: Record<TrustLevel, RedactionPolicy> = {
+  local: { patterns: true, entropy: false, relativePaths: false, dropEnvironment: false },
+  remote: { patterns: true, entropy: true, relativePaths: true, dropEnvironment: true }
+};
+
+export interface RedactorOptions {
+  rules?: SecretRule[];
+
+  /** Globs, relative to the workspace root, of files left out entirely */
+  exclude?: string[];
+
+  /** Changes to the default policy of each trust level */
+  policies?: Partial<Record<TrustLevel, Partial<RedactionPolicy>>>;
+
+  entropy?: EntropyOptions;
+
+  events?: Partial<RedactionEvents>;
+}
+
+export interface RedactedRequest {
+  task: Task;
+  context: WorkspaceContext;
+  record: RedactionRecord;
+}
+
+/**
+ * Removes secrets and excluded files from a request before it goes to a
+ * tool. Every call produces an audit record, changed or not; records say
+ * what was removed and where, never the removed values.
+ */
+export class Redactor {
+  private readonly rules: SecretRule[];
+  private readonly exclude: string[];
+  private readonly policies: Record<TrustLevel, RedactionPolicy>;
+
+  constructor(private options: RedactorOptions = {}) {
+    this.rules = options.rules ?? SECRET_RULES;
+    this.exclude = options.exclude ?? DEFAULT_EXCLUDE_GLOBS;
+    this.policies = {
+      local: { ...DEFAULT_REDACTION_POLICIES.local, ...options.policies?.local },
+      remote: { ...DEFAULT_REDACTION_POLICIES.remote, ...options.policies?.remote }
+    };
+  }
+
+  getPolicy(trust: TrustLevel): RedactionPolicy {
+    return this.policies[trust];
+  }
+
+  /** Whether a file is left out of every request */
+  isExcluded(filePath: string, workspaceRoot: string): boolean {
+    return matchesGlob(relativeTo(workspaceRoot, filePath), this.exclude);
+  }
+
+  /**
+   * The task and context as they may be sent to the tool. The task's own
+   * context is redacted too; when it is the context passed in, both stay the
+   * same object.
+   */
+  redact(task: Task, context: WorkspaceContext, toolId: string, trust: TrustLevel): RedactedRequest {
+    const policy = this.policies[trust];
+    const pass = new RedactionPass(policy, text => this.scan(text, policy), (filePath, root) => this.isExcluded(filePath, root));
+
+    const redactedContext = pass.context(context);
+    const redactedTask: Task = {
+      ...task,
+      description: pass.text(task.description, 'description'),
+      context: task.context === context ? redactedContext : pass.context(task.context),
+      metadata: task.metadata && pass.value(task.metadata, 'metadata') as Record<string, unknown>
+    };
+
+    const record: RedactionRecord = {
+      timestamp: new Date(),
+      toolId,
+      taskId: task.id,
+      taskType: task.type,
+      trust,
+      findings: pass.findings,
+      excludedFiles: Array.from(pass.excluded),
+      redacted: pass.findings.length > 0 || pass.excluded.size > 0
+    };
+
+    this.options.events?.onRedaction?.(record);
+    return { task: redactedTask, context: redactedContext, record };
+  }
+
+  /** Secrets in a piece of text replaced under the trust level's policy */
+  redactText(text: string, trust: TrustLevel): { text: string; matches: SecretMatch[] } {
+    return this.scan(text, this.policies[trust]);
+  }
+
+  private scan(text: string, policy: RedactionPolicy): { text: string; matches: SecretMatch[] } {
+    return redactSecrets(text, {
+      rules: policy.patterns ? this.rules : [],
+      entropy: policy.entropy ? this.options.entropy ?? {} : undefined
+    });
+  }
+}
+
+/** State of one redact() call */
+class RedactionPass {
+  readonly findings: RedactionFinding[] = [];
+  readonly excluded = new Set<string>();
+
+  constructor(
+    private policy: RedactionPolicy,
+    private scan: (text: string) => { text: string; matches: SecretMatch[] },
+    private isExcluded: (filePath: string, workspaceRoot: string) => boolean
+  ) {}
+
+  context(context: WorkspaceContext): WorkspaceContext {
+    const root = context.workspaceRoot;
+    const displayPath = (filePath: string) => this.policy.relativePaths ? relativeTo(root, filePath) : filePath;
+
+    const openFiles: FileContext[] = [];
+    for (const file of context.openFiles) {
+      const shown = displayPath(file.path);
+      if (this.isExcluded(file.path, root)) {
+        this.excluded.add(shown);
+        continue;
+      }
+      openFiles.push({ ...file, path: shown, content: this.text(file.content, `file:${shown}`, true) });
+    }
+
+    let selection = context.selection;
+    if (selection) {
+      if (this.isExcluded(selection.filePath, root)) {
+        this.excluded.add(displayPath(selection.filePath));
+        selection = undefined;
+      } else {
+        selection = {
+          ...selection,
+          filePath: displayPath(selection.filePath),
+          text: selection.text === undefined ? undefined : this.text(selection.text, 'selection', true)
+        };
+      }
+    }
+
+    const environment: Record<string, string> = {};
+    if (!this.policy.dropEnvironment) {
+      for (const [name, value] of Object.entries(context.environment)) {
+        if (SECRET_NAME_PATTERN.test(name)) {
+          this.findings.push({ location: `environment.${name}`, rule: 'secret-name', count: 1 });
+        } else {
+          environment[name] = this.text(value, `environment.${name}`);
+        }
+      }
+    }
+
+    return {
+      ...context,
+      openFiles,
+      selection,
+      workspaceRoot: this.policy.relativePaths ? '.' : root,
+      gitInfo: context.gitInfo && {
+        ...context.gitInfo,
+        remoteUrl: context.gitInfo.remoteUrl && this.text(context.gitInfo.remoteUrl, 'gitInfo.remoteUrl'),
+        modifiedFiles: context.gitInfo.modifiedFiles
+          ?.filter(file => !this.isExcluded(file, root))
+          .map(displayPath)
+      },
+      environment
+    };
+  }
+
+  text(text: string, location: string, withLines = false): string {
+    const { text: redacted, matches } = this.scan(text);
+    const byRule = new Map<string, SecretMatch[]>();
+    for (const match of matches) {
+      byRule.set(match.rule, [...(byRule.get(match.rule) ?? []), match]);
+    }
+    for (const [rule, ruleMatches] of byRule) {
+      this.findings.push({
+        location,
+        rule,
+        count: ruleMatches.length,
+        lines: withLines ? ruleMatches.map(match => match.line + 1) : undefined
+      });
+    }
+    return redacted;
+  }
+
+  /** Strings anywhere in a JSON-like value */
+  value(value: unknown, location: string): unknown {
+    if (typeof value === 'string') {
+      return this.text(value, location);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.value(item, `${location}[${index}]`));
+    }
+    if (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.value(item, `${location}.${key}`)]));
+    }
+    return value;
+  }
+}
+
+/** Path relative to the root with forward slashes, or with the home directory shortened to ~ when outside it */
+function relativeTo(root: string, filePath: string): string {
+  if (root && path.isAbsolute(filePath)) {
+    const relative = path.relative(root, filePath);
+    if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+      return relative.split(path.sep).join('/');
+    }
+  }
+
+  const home = os.homedir();
+  return home && filePath.startsWith(home + path.sep) ? `~${filePath.slice(home.length)}` : filePath;
+}
@@ -0,0 +1,70 @@
+/**
+ * How far a tool is trusted with workspace content. Local tools (MCP servers
+ * over stdio or on this machine) keep paths and environment; remote ones get
+ * the strictest treatment.
+ */
+export type TrustLevel = 'local' | 'remote';
+
+export const TRUST_LEVELS: readonly TrustLevel[] = ['local', 'remote'];
+
+/** What is redacted for one trust level */
+export interface RedactionPolicy {
+  /** Replace matches of the secret rules */
+  patterns: boolean;
+
+  /** Replace long random-looking strings that no rule recognises */
+  entropy: boolean;
+
+  /** Send paths relative to the workspace root instead of absolute ones */
+  relativePaths: boolean;
+
+  /** Leave environment values out entirely; otherwise only secret-named ones are removed */
+  dropEnvironment: boolean;
+}
+
+export interface SecretRule {
+  id: string;
+  description: string;
+
+  /** Must be global. Only `group` is replaced when given, otherwise the whole match. */
+  pattern: RegExp;
+  group?: number;
+}
+
+/** Matches of one rule in one place; the matched values are never kept */
+export interface RedactionFinding {
+  /** Where the matches were, e.g. 'description', 'file:src/config.ts', 'environment.API_KEY' */
+  location: string;
+
+  /** Rule id, or 'high-entropy' */
+  rule: string;
+
+  count: number;
+
+  /** 1-based lines of the matches, for file content and selections */
+  lines?: number[];
+}
+
+/**
+ * What was removed from one request before it was sent.
+ */
+export interface RedactionRecord {
+  timestamp: Date;
+  toolId: string;
+  taskId?: string;
+  taskType: string;
+  trust: TrustLevel;
+
+  findings: RedactionFinding[];
+
+  /** Files left out because they matched an exclude glob */
+  excludedFiles: string[];
+
+  /** Whether the request was changed at all */
+  redacted: boolean;
+}
+
+export interface RedactionEvents {
+  /** Fired for every request, before it is handed to the connector */
+  onRedaction: (record: RedactionRecord) => void;
+}
@@ -0,0 +1,137 @@
+import { TypedEventEmitter } from '../utils';
+
+/**
+ * - closed: calls flow normally
+ * - open: calls are refused until the reset timeout has passed
+ * - half-open: one probe call is let through to test recovery
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+
+  /** How long the circuit stays open before a probe is allowed, in ms */
+  resetTimeout: number;
+
+  /** Successful probes needed to close the circuit again */
+  successThreshold: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeout: 30000,
+  successThreshold: 1
+};
+
+export interface CircuitBreakerEvents {
+  stateChange: (state: CircuitState, previous: CircuitState) => void;
+}
+
+/**
+ * Tracks consecutive failures of one tool and stops calling it once they
+ * pile up, then lets single probes through to detect recovery.
+ */
+export class CircuitBreaker extends TypedEventEmitter<CircuitBreakerEvents> {
+  private readonly options: CircuitBreakerOptions;
+  private currentState: CircuitState = 'closed';
+  private failures = 0;
+  private probeSuccesses = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(
+    public readonly toolId: string,
+    options: Partial<CircuitBreakerOptions> = {},
+    private now: () => number = Date.now
+  ) {
+    super();
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /** When the next probe will be allowed, while the circuit is open */
+  get retryAt(): Date | null {
+    return this.currentState === 'open' ? new Date(this.openedAt + this.options.resetTimeout) : null;
+  }
+
+  /**
+   * Whether a call may go ahead now. Moves an open circuit to half-open
+   * once the reset timeout has passed, and then admits one probe at a time.
+   */
+  allowRequest(): boolean {
+    switch (this.currentState) {
+      case 'closed':
+        return true;
+
+      case 'open':
+        if (this.now() < this.openedAt + this.options.resetTimeout) {
+          return false;
+        }
+        this.transition('half-open');
+        this.probeInFlight = true;
+        return true;
+
+      case 'half-open':
+        if (this.probeInFlight) {
+          return false;
+        }
+        this.probeInFlight = true;
+        return true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    if (this.currentState === 'half-open') {
+      this.probeInFlight = false;
+      this.probeSuccesses++;
+      if (this.probeSuccesses >= this.options.successThreshold) {
+        this.transition('closed');
+      }
+    }
+  }
+
+  recordFailure(): void {
+    if (this.currentState === 'half-open') {
+      this.open();
+      return;
+    }
+
+    this.failures++;
+    if (this.currentState === 'closed' && this.failures >= this.options.failureThreshold) {
+      this.open();
+    }
+  }
+
+  /**
+   * A probe ended without telling us anything (e.g. it was cancelled)
+   */
+  releaseProbe(): void {
+    this.probeInFlight = false;
+  }
+
+  reset(): void {
+    this.failures = 0;
+    this.transition('closed');
+  }
+
+  private open(): void {
+    this.openedAt = this.now();
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState): void {
+    this.probeInFlight = false;
+    this.probeSuccesses = 0;
+    if (state === this.currentState) {
+      return;
+    }
+    const previous = this.currentState;
+    this.currentState = state;
+    this.emit('stateChange', state, previous);
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  BudgetExceededError,
+  CancellationError,
+  CircuitOpenError,
+  ConnectionError,
+  RateLimitError,
+  TimeoutError,
+  ValidationError
+} from '../types';
+import { JSON_RPC_ERROR_CODES, MCPCapabilityError, MCPProtocolVersionError, MCPRequestError } from '../mcp';
+
+/**
+ * How a failure should be treated:
+ * - transient: the tool may succeed if asked again (timeouts, dropped connections)
+ * - rate-limited: retry, but not before the tool's requested delay
+ * - permanent: retrying cannot help (bad arguments, missing features)
+ * - cancelled: the caller gave up; neither retry nor count against the tool
+ */
+export type ErrorKind = 'transient' | 'rate-limited' | 'permanent' | 'cancelled';
+
+export interface ErrorClassification {
+  kind: ErrorKind;
+
+  /** Minimum wait before retrying, when the tool said so */
+  retryAfterMs?: number;
+}
+
+/** Node socket error codes that indicate a transient network problem */
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ESOCKETTIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN'
+]);
+
+/**
+ * Classify an error by its type. Errors from outside the orchestrator may
+ * opt in with a boolean `retryable` property, an HTTP `status`/`statusCode`
+ * or a Node error `code`; anything unrecognised is permanent.
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof CancellationError) {
+    return { kind: 'cancelled' };
+  }
+  if (error instanceof RateLimitError) {
+    return { kind: 'rate-limited', retryAfterMs: error.retryAfterMs };
+  }
+  if (error instanceof TimeoutError || error instanceof ConnectionError) {
+    return { kind: 'transient' };
+  }
+  if (
+    error instanceof BudgetExceededError ||
+    error instanceof CircuitOpenError ||
+    error instanceof ValidationError ||
+    error instanceof MCPCapabilityError ||
+    error instanceof MCPProtocolVersionError
+  ) {
+    return { kind: 'permanent' };
+  }
+  if (error instanceof MCPRequestError) {
+    return { kind: error.code === JSON_RPC_ERROR_CODES.internalError ? 'transient' : 'permanent' };
+  }
+
+  if (typeof error !== 'object' || error === null) {
+    return { kind: 'permanent' };
+  }
+
+  const details = error as { retryable?: unknown; status?: unknown; statusCode?: unknown; code?: unknown };
+  if (typeof details.retryable === 'boolean') {
+    return { kind: details.retryable ? 'transient' : 'permanent' };
+  }
+
+  const status = typeof details.status === 'number' ? details.status : details.statusCode;
+  if (typeof status === 'number') {
+    if (status === 429) {
+      return { kind: 'rate-limited' };
+    }
+    return { kind: status === 408 || status >= 500 ? 'transient' : 'permanent' };
+  }
+
+  if (typeof details.code === 'string' && TRANSIENT_ERROR_CODES.has(details.code)) {
+    return { kind: 'transient' };
+  }
+
+  return { kind: 'permanent' };
+}
+
+/**
+ * Whether a failure of this kind is worth another attempt
+ */
+export function isRetryable(classification: ErrorClassification): boolean {
+  return classification.kind === 'transient' || classification.kind === 'rate-limited';
+}
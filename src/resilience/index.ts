@@ -0,0 +1,9 @@
+/**
+ * Shared fault handling for tool connectors: error classification,
+ * retries with backoff, per-attempt timeouts and circuit breakers.
+ */
+
+export * from './classification';
+export * from './circuit-breaker';
+export * from './policy';
+export * from './resilient-connector';
@@ -0,0 +1,195 @@
+import { CancellationError, CircuitOpenError, TimeoutError } from '../types';
+import type { CancellationToken } from '../types';
+import { CancellationTokenSource, computeBackoffDelay } from '../utils';
+import type { BackoffOptions } from '../utils';
+import { CircuitBreaker } from './circuit-breaker';
+import type { CircuitBreakerOptions } from './circuit-breaker';
+import { classifyError, isRetryable } from './classification';
+import type { ErrorClassification } from './classification';
+
+export interface RetryOptions extends BackoffOptions {
+  /** Total attempts, including the first */
+  maxAttempts: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  initialDelay: 500,
+  maxDelay: 10000,
+  multiplier: 2,
+  jitter: 0.2
+};
+
+export interface ResilienceOptions {
+  /** Time limit for a single attempt, in ms; no limit when omitted */
+  timeout?: number;
+
+  retry?: Partial<RetryOptions>;
+
+  /** Circuit breaker settings, or false to disable it */
+  circuitBreaker?: Partial<CircuitBreakerOptions> | false;
+
+  /** Override how errors are classified */
+  classify?: (error: unknown) => ErrorClassification;
+}
+
+export interface AttemptContext {
+  /** 1 for the first attempt */
+  attempt: number;
+
+  /** Cancelled when the attempt times out or the caller cancels */
+  cancellationToken: CancellationToken;
+}
+
+export type ExecutionOutcome<T> =
+  | { ok: true; value: T; attempts: number }
+  | { ok: false; error: Error; attempts: number; classification: ErrorClassification };
+
+/**
+ * Timeouts, retries with jittered backoff and a circuit breaker for calls
+ * to one tool. Connectors use execute() around their remote calls, or are
+ * wrapped whole in a ResilientConnector.
+ */
+export class ResiliencePolicy {
+  readonly circuit: CircuitBreaker | null;
+  private readonly retry: RetryOptions;
+
+  constructor(public readonly toolId: string, private options: ResilienceOptions = {}) {
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.circuit = options.circuitBreaker === false ? null : new CircuitBreaker(toolId, options.circuitBreaker);
+  }
+
+  /**
+   * Run an operation until it succeeds, fails permanently, is cancelled or
+   * runs out of attempts. Never throws; the outcome reports how many
+   * attempts were made.
+   */
+  async execute<T>(
+    operation: (context: AttemptContext) => Promise<T>,
+    cancellationToken?: CancellationToken
+  ): Promise<ExecutionOutcome<T>> {
+    const classify = this.options.classify ?? classifyError;
+    let last: { error: Error; classification: ErrorClassification } | null = null;
+
+    for (let attempt = 1; ; attempt++) {
+      if (cancellationToken?.isCancellationRequested) {
+        return this.failure(new CancellationError(), attempt - 1, { kind: 'cancelled' });
+      }
+
+      if (this.circuit && !this.circuit.allowRequest()) {
+        // Our own failures opened the circuit: report what actually went wrong
+        if (last) {
+          return this.failure(last.error, attempt - 1, last.classification);
+        }
+        const retryAt = this.circuit.retryAt ?? new Date();
+        return this.failure(new CircuitOpenError(this.toolId, retryAt), 0, { kind: 'permanent' });
+      }
+
+      try {
+        const value = await this.runAttempt(operation, attempt, cancellationToken);
+        this.circuit?.recordSuccess();
+        return { ok: true, value, attempts: attempt };
+      } catch (caught) {
+        const error = caught instanceof Error ? caught : new Error(String(caught));
+        const classification = classify(error);
+        this.recordOutcome(classification);
+        last = { error, classification };
+
+        if (!isRetryable(classification) || attempt >= this.retry.maxAttempts) {
+          return this.failure(error, attempt, classification);
+        }
+
+        const wait = Math.max(classification.retryAfterMs ?? 0, computeBackoffDelay(attempt - 1, this.retry));
+        await this.wait(wait, cancellationToken);
+      }
+    }
+  }
+
+  /**
+   * Health check gated by the circuit breaker: while the circuit is open the
+   * tool is reported unhealthy without being contacted; once the reset
+   * timeout passes the check doubles as the recovery probe.
+   */
+  async probe(check: () => Promise<boolean>): Promise<boolean> {
+    if (this.circuit && !this.circuit.allowRequest()) {
+      return false;
+    }
+
+    let healthy = false;
+    try {
+      healthy = await check();
+    } catch {
+      healthy = false;
+    }
+
+    if (healthy) {
+      this.circuit?.recordSuccess();
+    } else {
+      this.circuit?.recordFailure();
+    }
+    return healthy;
+  }
+
+  private async runAttempt<T>(
+    operation: (context: AttemptContext) => Promise<T>,
+    attempt: number,
+    parentToken: CancellationToken | undefined
+  ): Promise<T> {
+    const source = new CancellationTokenSource();
+    const subscriptions = [parentToken?.onCancellationRequested(() => source.cancel())];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const interruption = new Promise<never>((_, reject) => {
+      subscriptions.push(source.token.onCancellationRequested(() => reject(new CancellationError())));
+      if (this.options.timeout !== undefined) {
+        const timeout = this.options.timeout;
+        timer = setTimeout(() => {
+          reject(new TimeoutError(`Tool '${this.toolId}' did not respond within ${timeout}ms`, timeout));
+          source.cancel();
+        }, timeout);
+      }
+    });
+
+    try {
+      return await Promise.race([operation({ attempt, cancellationToken: source.token }), interruption]);
+    } finally {
+      clearTimeout(timer);
+      subscriptions.forEach(subscription => subscription?.dispose());
+      source.dispose();
+    }
+  }
+
+  /**
+   * Only failures that say something about the tool's health count against
+   * the circuit. A permanent error still means the tool answered.
+   */
+  private recordOutcome(classification: ErrorClassification): void {
+    if (!this.circuit) {
+      return;
+    }
+    if (isRetryable(classification)) {
+      this.circuit.recordFailure();
+    } else if (classification.kind === 'permanent') {
+      this.circuit.recordSuccess();
+    } else {
+      this.circuit.releaseProbe();
+    }
+  }
+
+  private wait(ms: number, cancellationToken: CancellationToken | undefined): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        subscription?.dispose();
+        resolve();
+      }, ms);
+      const subscription = cancellationToken?.onCancellationRequested(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  private failure<T>(error: Error, attempts: number, classification: ErrorClassification): ExecutionOutcome<T> {
+    return { ok: false, error, attempts, classification };
+  }
+}
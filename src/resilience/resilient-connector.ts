@@ -0,0 +1,98 @@
+import { CancellationError, ToolConnector } from '../types';
+import type {
+  ConfigurationSchema,
+  Connection,
+  InvokeOptions,
+  Task,
+  ToolResponse,
+  WorkspaceContext
+} from '../types';
+import { ResiliencePolicy } from './policy';
+import type { ResilienceOptions } from './policy';
+
+/** errorType values connectors report for failures worth retrying */
+const TRANSIENT_ERROR_TYPES = new Set(['TimeoutError', 'ConnectionError', 'RateLimitError']);
+
+/**
+ * A failed ToolResponse turned into an error so the policy can retry it.
+ */
+class FailedResponseError extends Error {
+  readonly retryable: boolean;
+
+  constructor(public response: ToolResponse) {
+    super(response.error ?? `Tool '${response.toolId}' reported failure`);
+    this.name = 'FailedResponseError';
+    this.retryable = response.metadata?.retryable ??
+      TRANSIENT_ERROR_TYPES.has(String(response.metadata?.errorType ?? ''));
+  }
+}
+
+/**
+ * Wraps any connector with a ResiliencePolicy. Use it for connectors that
+ * have no retry logic of their own; wrapping one that already uses a policy
+ * multiplies the attempts.
+ */
+export class ResilientConnector extends ToolConnector {
+  readonly policy: ResiliencePolicy;
+
+  constructor(private inner: ToolConnector, toolId: string, options: ResilienceOptions = {}) {
+    super();
+    this.policy = new ResiliencePolicy(toolId, options);
+  }
+
+  connect(): Promise<Connection> {
+    return this.inner.connect();
+  }
+
+  async invoke(task: Task, context: WorkspaceContext, options: InvokeOptions = {}): Promise<ToolResponse> {
+    const outcome = await this.policy.execute(async ({ cancellationToken }) => {
+      const response = await this.inner.invoke(task, context, { ...options, cancellationToken });
+      if (!response.success) {
+        throw new FailedResponseError(response);
+      }
+      return response;
+    }, options.cancellationToken);
+
+    const attempts = { attempts: outcome.attempts, retryAttempts: Math.max(0, outcome.attempts - 1) };
+
+    if (outcome.ok) {
+      return { ...outcome.value, metadata: { ...outcome.value.metadata, ...attempts } };
+    }
+
+    if (outcome.error instanceof FailedResponseError) {
+      const response = outcome.error.response;
+      return { ...response, metadata: { ...response.metadata, ...attempts } };
+    }
+
+    return {
+      success: false,
+      error: outcome.error.message,
+      toolId: this.policy.toolId,
+      metadata: {
+        taskType: task.type,
+        errorType: outcome.error.constructor.name,
+        cancelled: outcome.error instanceof CancellationError,
+        ...attempts
+      }
+    };
+  }
+
+  testHealth(): Promise<boolean> {
+    return this.policy.probe(() => this.inner.testHealth());
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  getConfigurationSchema(): ConfigurationSchema {
+    return this.inner.getConfigurationSchema();
+  }
+}
+
+/**
+ * Convenience wrapper: `withResilience(connector, 'my-tool', { timeout: 10000 })`
+ */
+export function withResilience(connector: ToolConnector, toolId: string, options: ResilienceOptions = {}): ResilientConnector {
+  return new ResilientConnector(connector, toolId, options);
+}
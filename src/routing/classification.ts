@@ -0,0 +1,53 @@
+import type { TaskType } from '../types';
+
+export interface TaskClassification {
+  type: TaskType;
+
+  /** Share of keyword hits that went to the chosen type, 0-1 */
+  confidence: number;
+
+  /** Words in the request that decided the type */
+  matched: string[];
+}
+
+/**
+ * Word stems that suggest a task type in a free-form request. Listed from
+ * most to least specific, which also breaks ties: "write tests" is testing,
+ * not implementation.
+ */
+const REQUEST_KEYWORDS: Array<[TaskType, string[]]> = [
+  ['security', ['secur', 'vulnerab', 'cve', 'xss', 'injection', 'exploit', 'sanitiz', 'secret']],
+  ['testing', ['test', 'spec', 'coverage', 'mock', 'assert']],
+  ['debugging', ['debug', 'bug', 'fix', 'crash', 'error', 'exception', 'fail', 'broken', 'trace', 'stack']],
+  ['refactoring', ['refactor', 'restructur', 'renam', 'extract', 'clean', 'simplif', 'dedup', 'split']],
+  ['optimization', ['optimi', 'perform', 'faster', 'speed', 'slow', 'latency', 'memory', 'profil']],
+  ['documentation', ['doc', 'readme', 'comment', 'jsdoc', 'docstring', 'changelog']],
+  ['deployment', ['deploy', 'release', 'publish', 'docker', 'kubernetes', 'pipeline', 'ci']],
+  ['planning', ['plan', 'design', 'architect', 'roadmap', 'breakdown', 'approach', 'strategy']],
+  ['analysis', ['review', 'analy', 'explain', 'understand', 'why', 'what', 'how', 'inspect', 'audit']],
+  ['completion', ['complet', 'finish', 'continue']],
+  ['implementation', ['implement', 'add', 'create', 'build', 'write', 'generat', 'scaffold', 'make', 'support']]
+];
+
+/**
+ * Guess the task type of a free-form request, e.g. a chat message. Falls
+ * back to general-purpose when nothing matches.
+ */
+export function classifyTask(text: string): TaskClassification {
+  const words = text.toLowerCase().match(/[a-z]+/g) ?? [];
+  let best: { type: TaskType; matched: string[] } | undefined;
+  let total = 0;
+
+  for (const [type, stems] of REQUEST_KEYWORDS) {
+    const matched = words.filter(word => stems.some(stem => stem.length <= 2 ? word === stem : word.startsWith(stem)));
+    total += matched.length;
+    if (matched.length > (best?.matched.length ?? 0)) {
+      best = { type, matched };
+    }
+  }
+
+  if (!best) {
+    return { type: 'general-purpose', confidence: 0, matched: [] };
+  }
+  return { type: best.type, confidence: best.matched.length / total, matched: Array.from(new Set(best.matched)) };
+}
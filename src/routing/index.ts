@@ -0,0 +1,9 @@
+/**
+ * Task routing: scores discovered tools for a task and builds the plan of
+ * primary, supporting and fallback tools.
+ */
+
+export * from './performance';
+export * from './scoring';
+export * from './router';
+export * from './classification';
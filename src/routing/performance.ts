@@ -0,0 +1,87 @@
+import type { TaskResult, TaskType } from '../types';
+
+/**
+ * Measured behaviour of a tool, as the router sees it.
+ */
+export interface ToolPerformanceStats {
+  /** Outcomes the stats are based on */
+  samples: number;
+
+  /** Share of successful invocations, 0-1 */
+  successRate: number;
+
+  averageLatencyMs: number;
+
+  /** Median latency, when the source tracks percentiles */
+  p50LatencyMs?: number;
+
+  p95LatencyMs?: number;
+
+  /** Share of successful completions the user accepted, when the source tracks it */
+  acceptanceRate?: number;
+}
+
+/**
+ * Anything that can report how a tool has performed, optionally for one
+ * task type.
+ */
+export interface ToolPerformanceSource {
+  getStats(toolId: string, taskType?: TaskType): ToolPerformanceStats | undefined;
+}
+
+interface Outcome {
+  success: boolean;
+  latencyMs: number;
+}
+
+/**
+ * In-memory rolling window of recent outcomes per tool and task type.
+ */
+export class PerformanceTracker implements ToolPerformanceSource {
+  private readonly outcomes = new Map<string, Outcome[]>();
+
+  constructor(private readonly windowSize = 50) {}
+
+  record(toolId: string, taskType: TaskType, success: boolean, latencyMs: number): void {
+    for (const key of [toolId, `${toolId}\u0000${taskType}`]) {
+      const window = this.outcomes.get(key) ?? [];
+      window.push({ success, latencyMs });
+      if (window.length > this.windowSize) {
+        window.shift();
+      }
+      this.outcomes.set(key, window);
+    }
+  }
+
+  recordResult(result: TaskResult): void {
+    const latencyMs = result.response.metadata?.executionTime
+      ?? result.completedAt.getTime() - result.startedAt.getTime();
+    this.record(result.toolId, result.task.type, result.response.success, latencyMs);
+  }
+
+  getStats(toolId: string, taskType?: TaskType): ToolPerformanceStats | undefined {
+    const window = this.outcomes.get(taskType ? `${toolId}\u0000${taskType}` : toolId);
+    if (!window || window.length === 0) {
+      return undefined;
+    }
+
+    return {
+      samples: window.length,
+      successRate: window.filter(outcome => outcome.success).length / window.length,
+      averageLatencyMs: window.reduce((sum, outcome) => sum + outcome.latencyMs, 0) / window.length
+    };
+  }
+
+  clear(toolId?: string): void {
+    if (toolId === undefined) {
+      this.outcomes.clear();
+      return;
+    }
+
+    for (const key of Array.from(this.outcomes.keys())) {
+      if (key === toolId || key.startsWith(`${toolId}\u0000`)) {
+        this.outcomes.delete(key);
+      }
+    }
+  }
+}
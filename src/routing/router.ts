@@ -0,0 +1,285 @@
+import { RoutingError } from '../types';
+import type { DiscoveredTool, OrchestrationConfig, OrchestrationEvents, RoutingPlan, Task, TaskType } from '../types';
+import type { WorkflowToolSelector } from '../workflow';
+import { PerformanceTracker } from './performance';
+import type { ToolPerformanceSource } from './performance';
+import { DEFAULT_ROUTING_WEIGHTS, routingCriteria, scoreTool } from './scoring';
+import type { RoutingCriteria, RoutingWeights, ScoreFactor, ToolBudgetSource, ToolScore } from './scoring';
+
+export interface AdaptiveTaskRouterOptions {
+  /** Where past latency and success rates come from; defaults to a PerformanceTracker */
+  performance?: ToolPerformanceSource;
+
+  /** Tools whose quota is used up are left out, even as fallbacks */
+  budgets?: ToolBudgetSource;
+
+  weights?: Partial<RoutingWeights>;
+
+  /** Health results older than this count for less (ms) */
+  healthStaleAfter?: number;
+
+  events?: Partial<Pick<OrchestrationEvents, 'onRoutingStart' | 'onRoutingComplete'>>;
+}
+
+export type RoutingRole = 'primary' | 'supporting' | 'fallback' | 'excluded';
+
+export interface RoutingCandidate {
+  toolId: string;
+  name: string;
+  role: RoutingRole;
+  score: number;
+  factors: Record<ScoreFactor, number>;
+
+  /** Why the tool was picked or left out */
+  reasons: string[];
+}
+
+export interface RoutingExplanation {
+  taskType: TaskType;
+
+  /** The plan, or undefined when no tool could take the task */
+  plan?: RoutingPlan;
+
+  /** Every known tool, ranked, with its role in the plan */
+  candidates: RoutingCandidate[];
+
+  /** Same text as plan.explanation, or why routing failed */
+  summary: string;
+}
+
+/** Minimum share of the primary's score a supporting tool needs */
+const SUPPORTING_SCORE_RATIO = 0.75;
+
+/**
+ * Routes tasks to tools. Every tool is scored on capability match, language
+ * support, health, user and task preferences and past performance; the best
+ * becomes the primary, the rest form an ordered fallback chain and, with
+ * aggressive parallelism, close runners-up join as supporting tools.
+ */
+export class AdaptiveTaskRouter {
+  private readonly performance: ToolPerformanceSource;
+  private readonly weights: RoutingWeights;
+  private readonly healthStaleAfter: number;
+
+  constructor(
+    private availableTools: Map<string, DiscoveredTool>,
+    private userPreferences: OrchestrationConfig,
+    private options: AdaptiveTaskRouterOptions = {}
+  ) {
+    this.performance = options.performance ?? new PerformanceTracker();
+    this.weights = { ...DEFAULT_ROUTING_WEIGHTS, ...options.weights };
+    this.healthStaleAfter = options.healthStaleAfter ?? 300000;
+  }
+
+  /** The performance source scores are based on */
+  get performanceSource(): ToolPerformanceSource {
+    return this.performance;
+  }
+
+  /**
+   * Generate the routing plan for a task. Throws a RoutingError when no tool
+   * can take it and fallbacks are disabled or nothing general-purpose is
+   * available.
+   */
+  async routeTask(task: Task): Promise<RoutingPlan> {
+    this.options.events?.onRoutingStart?.(task);
+
+    const plan = this.buildPlan(task, this.rankTools(routingCriteria(task)));
+    if (!plan) {
+      throw new RoutingError(
+        `No suitable tools available for task: ${task.type}`,
+        task,
+        Array.from(this.availableTools.keys())
+      );
+    }
+
+    this.options.events?.onRoutingComplete?.(plan);
+    return plan;
+  }
+
+  /** Update available tools (called when discovery changes) */
+  updateAvailableTools(tools: Map<string, DiscoveredTool>): void {
+    this.availableTools = tools;
+  }
+
+  /**
+   * Re-check tools that are unhealthy or whose health result is stale, so
+   * the next plans reflect tools that failed or came back.
+   */
+  async recomputeRoutingStrategies(): Promise<void> {
+    const now = Date.now();
+    const tools = Array.from(this.availableTools.values())
+      .filter(tool => !tool.isHealthy || now - tool.lastChecked.getTime() > this.healthStaleAfter);
+
+    await Promise.all(tools.map(async tool => {
+      try {
+        tool.isHealthy = await tool.connector.testHealth();
+      } catch {
+        tool.isHealthy = false;
+      }
+      tool.lastChecked = new Date();
+    }));
+  }
+
+  /**
+   * Explain how a task would be routed: every tool's score, factors and role.
+   */
+  async explainRouting(task: Task): Promise<RoutingExplanation> {
+    const scores = this.rankTools(routingCriteria(task));
+    const plan = this.buildPlan(task, scores);
+
+    const roleOf = (score: ToolScore): RoutingRole => {
+      if (plan?.primary === score.tool) {
+        return 'primary';
+      }
+      if (plan?.supporting.includes(score.tool)) {
+        return 'supporting';
+      }
+      return plan?.fallbacks.includes(score.tool) ? 'fallback' : 'excluded';
+    };
+
+    return {
+      taskType: task.type,
+      plan,
+      candidates: scores.map(score => ({
+        toolId: score.tool.id,
+        name: score.tool.name,
+        role: roleOf(score),
+        score: round(score.total),
+        factors: score.factors,
+        reasons: score.excludedBecause ? [score.excludedBecause, ...score.reasons] : score.reasons
+      })),
+      summary: plan?.explanation ?? `No suitable tools available for task: ${task.type}`
+    };
+  }
+
+  /**
+   * Score every available tool for the criteria, best first. Excluded tools
+   * come last.
+   */
+  rankTools(criteria: RoutingCriteria, tools: Iterable<DiscoveredTool> = this.availableTools.values()): ToolScore[] {
+    const options = {
+      config: this.userPreferences,
+      weights: this.weights,
+      performance: this.performance,
+      budgets: this.options.budgets,
+      healthStaleAfter: this.healthStaleAfter
+    };
+
+    return Array.from(tools)
+      .map(tool => scoreTool(tool, criteria, options))
+      .sort((a, b) => Number(a.excludedBecause !== undefined) - Number(b.excludedBecause !== undefined) || b.total - a.total);
+  }
+
+  /**
+   * Tool selector for WorkflowRunner: orders tools for a workflow step the
+   * same way routeTask orders the primary and its fallbacks.
+   */
+  toWorkflowToolSelector(): WorkflowToolSelector {
+    return (step, tools) => this.rankTools({
+      taskType: step.type,
+      preferredTools: step.preferredTools ?? [],
+      requiredCapabilities: step.requiredCapabilities ?? []
+    }, tools.values())
+      .filter(score => score.excludedBecause === undefined)
+      .map(score => score.tool);
+  }
+
+  private buildPlan(task: Task, scores: ToolScore[]): RoutingPlan | undefined {
+    const eligible = scores.filter(score => score.excludedBecause === undefined);
+    const specialised = eligible.filter(score => !score.generalPurpose);
+
+    if (eligible.length === 0) {
+      return this.createFallbackPlan(task, scores);
+    }
+
+    const [primary, ...rest] = eligible;
+    const supporting = this.pickSupporting(primary, rest);
+    const degraded = specialised.length === 0;
+
+    return {
+      primary: primary.tool,
+      supporting: supporting.map(score => score.tool),
+      fallbacks: rest.map(score => score.tool),
+      degraded,
+      explanation: this.describePlan(task, primary, supporting, rest, scores, degraded),
+      confidence: round(degraded ? primary.total * 0.6 : primary.total)
+    };
+  }
+
+  /**
+   * With no eligible tool, fall back (when allowed) to any healthy tool with
+   * budget left, preferring general-purpose ones and ignoring language
+   * support.
+   */
+  private createFallbackPlan(task: Task, scores: ToolScore[]): RoutingPlan | undefined {
+    if (this.userPreferences.routing.fallbackBehavior === 'fail-fast' || !this.userPreferences.user.allowFallbacks) {
+      return undefined;
+    }
+
+    const healthy = scores
+      .filter(score => score.tool.isHealthy && !this.options.budgets?.exhaustedReason(score.tool.id))
+      .sort((a, b) => Number(b.tool.capabilities.tasks.includes('general-purpose')) - Number(a.tool.capabilities.tasks.includes('general-purpose'))
+        || b.total - a.total);
+    if (healthy.length === 0) {
+      return undefined;
+    }
+
+    const [primary, ...rest] = healthy;
+    return {
+      primary: primary.tool,
+      supporting: [],
+      fallbacks: rest.map(score => score.tool),
+      degraded: true,
+      explanation: `No tool is suited to ${task.type}${task.language ? ` in ${task.language}` : ''}. ` +
+        `Using ${primary.tool.name} as a fallback (${primary.excludedBecause}).`,
+      confidence: round(primary.total * 0.3)
+    };
+  }
+
+  private pickSupporting(primary: ToolScore, rest: ToolScore[]): ToolScore[] {
+    if (this.userPreferences.routing.parallelismLevel !== 'aggressive') {
+      return [];
+    }
+
+    const limit = Math.max(0, this.userPreferences.routing.maxConcurrentTasks - 1);
+    return rest
+      .filter(score => !score.generalPurpose && score.total >= primary.total * SUPPORTING_SCORE_RATIO)
+      .slice(0, limit);
+  }
+
+  private describePlan(
+    task: Task,
+    primary: ToolScore,
+    supporting: ToolScore[],
+    fallbacks: ToolScore[],
+    scores: ToolScore[],
+    degraded: boolean
+  ): string {
+    const describe = (score: ToolScore) => `${score.tool.name} (${round(score.total)})`;
+    const lines = [
+      `Routed ${task.type} task to ${describe(primary)}: ${primary.reasons.join(', ')}.`
+    ];
+
+    if (degraded) {
+      lines.push(`No specialised tool is available; ${primary.tool.name} is a general-purpose fallback.`);
+    }
+    if (supporting.length > 0) {
+      lines.push(`Supporting: ${supporting.map(describe).join(', ')}.`);
+    }
+    if (fallbacks.length > 0) {
+      lines.push(`Fallbacks: ${fallbacks.map(describe).join(' → ')}.`);
+    }
+
+    const excluded = scores.filter(score => score.excludedBecause !== undefined);
+    if (excluded.length > 0) {
+      lines.push(`Excluded: ${excluded.map(score => `${score.tool.name} (${score.excludedBecause})`).join(', ')}.`);
+    }
+
+    return lines.join('\n');
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,215 @@
+import type { DiscoveredTool, OrchestrationConfig, Task, TaskType } from '../types';
+import type { ToolPerformanceSource } from './performance';
+
+/**
+ * What a task needs from a tool, extracted from the task and its metadata.
+ */
+export interface RoutingCriteria {
+  taskType: TaskType;
+  language?: string;
+
+  /** Tool ids preferred for this task, best first (workflow preferredTools) */
+  preferredTools: string[];
+
+  /** Capabilities the task asks for beyond its type (workflow requiredCapabilities) */
+  requiredCapabilities: string[];
+}
+
+export type ScoreFactor = 'capability' | 'language' | 'health' | 'preference' | 'performance';
+
+export type RoutingWeights = Record<ScoreFactor, number>;
+
+export const DEFAULT_ROUTING_WEIGHTS: RoutingWeights = {
+  capability: 0.35,
+  preference: 0.25,
+  performance: 0.2,
+  health: 0.1,
+  language: 0.1
+};
+
+export interface ToolScore {
+  tool: DiscoveredTool;
+
+  /** Weighted sum of the factors, 0-1 */
+  total: number;
+
+  /** Each factor's raw value, 0-1 */
+  factors: Record<ScoreFactor, number>;
+
+  /** Why the tool cannot take the task at all, when it cannot */
+  excludedBecause?: string;
+
+  /** Only handles the task as a general-purpose tool */
+  generalPurpose: boolean;
+
+  /** Short human-readable notes behind the factors */
+  reasons: string[];
+}
+
+/**
+ * Anything that knows when a tool's usage quota has run out.
+ */
+export interface ToolBudgetSource {
+  /** Why the tool must not be asked now, or undefined while it has budget left */
+  exhaustedReason(toolId: string): string | undefined;
+}
+
+export interface ScoringOptions {
+  config: OrchestrationConfig;
+  weights: RoutingWeights;
+  performance?: ToolPerformanceSource;
+  budgets?: ToolBudgetSource;
+
+  /** Health results older than this count for less (ms) */
+  healthStaleAfter: number;
+
+  now?: number;
+}
+
+export function routingCriteria(task: Task): RoutingCriteria {
+  const metadata = task.metadata ?? {};
+  return {
+    taskType: task.type,
+    language: task.language,
+    preferredTools: stringArray(metadata.preferredTools),
+    requiredCapabilities: stringArray(metadata.requiredCapabilities)
+  };
+}
+
+/**
+ * Score one tool for a task. Unhealthy tools, tools whose budget is used
+ * up, tools without the task type (or general-purpose) and tools that lack
+ * the task's language are excluded, but still scored so explanations can
+ * show them.
+ */
+export function scoreTool(tool: DiscoveredTool, criteria: RoutingCriteria, options: ScoringOptions): ToolScore {
+  const reasons: string[] = [];
+  const tasks = tool.capabilities.tasks;
+  let excludedBecause: string | undefined;
+
+  // Capability: the task type itself, then any extra required capabilities
+  const handlesType = tasks.includes(criteria.taskType);
+  const generalPurpose = !handlesType && tasks.includes('general-purpose');
+  let capability = handlesType ? 1 : generalPurpose ? 0.4 : 0;
+  if (handlesType) {
+    reasons.push(`handles ${criteria.taskType}`);
+  } else if (generalPurpose) {
+    reasons.push('general-purpose');
+  } else {
+    excludedBecause = `does not handle ${criteria.taskType}`;
+  }
+
+  if (criteria.requiredCapabilities.length > 0) {
+    const offered = new Set<string>([...tasks, ...tool.capabilities.integrations]);
+    const matched = criteria.requiredCapabilities.filter(required => offered.has(required));
+    capability = capability * 0.7 + (matched.length / criteria.requiredCapabilities.length) * 0.3;
+    reasons.push(`${matched.length}/${criteria.requiredCapabilities.length} required capabilities`);
+  }
+
+  // Language
+  const languages = tool.capabilities.languages;
+  let language = 1;
+  if (criteria.language) {
+    if (languages.includes(criteria.language)) {
+      reasons.push(`supports ${criteria.language}`);
+    } else if (languages.includes('*')) {
+      language = 0.8;
+    } else {
+      language = 0;
+      excludedBecause ??= `does not support ${criteria.language}`;
+    }
+  }
+
+  // Health
+  const now = options.now ?? Date.now();
+  let health = 0;
+  if (!tool.isHealthy) {
+    excludedBecause = 'unhealthy';
+  } else if (now - tool.lastChecked.getTime() > options.healthStaleAfter) {
+    health = 0.5;
+    reasons.push('health not checked recently');
+  } else {
+    health = 1;
+  }
+
+  const overBudget = options.budgets?.exhaustedReason(tool.id);
+  if (overBudget) {
+    excludedBecause = overBudget;
+  }
+
+  const preference = preferenceScore(tool, criteria, options.config, reasons);
+  const performance = performanceScore(tool, criteria, options.performance, reasons);
+
+  const factors: Record<ScoreFactor, number> = { capability, language, health, preference, performance };
+  const total = (Object.keys(factors) as ScoreFactor[])
+    .reduce((sum, factor) => sum + factors[factor] * options.weights[factor], 0)
+    / Object.values(options.weights).reduce((sum, weight) => sum + weight, 0);
+
+  return { tool, total, factors, excludedBecause, generalPurpose, reasons };
+}
+
+/**
+ * Preference from, in order of strength: the task's own preferredTools, the
+ * user's routing.preferredTools for the task type, and user.toolPriorities.
+ */
+function preferenceScore(tool: DiscoveredTool, criteria: RoutingCriteria, config: OrchestrationConfig, reasons: string[]): number {
+  const rank = (list: string[]) => {
+    const index = list.indexOf(tool.id);
+    return index === -1 ? 0 : Math.max(0.5, 1 - index * 0.15);
+  };
+
+  const taskPreference = rank(criteria.preferredTools);
+  const userPreference = rank(config.routing.preferredTools[criteria.taskType] ?? []) * 0.9;
+
+  const priorities = Object.values(config.user.toolPriorities);
+  const maxPriority = Math.max(0, ...priorities);
+  const priority = maxPriority > 0 ? ((config.user.toolPriorities[tool.id] ?? 0) / maxPriority) * 0.8 : 0;
+
+  if (taskPreference > 0) {
+    reasons.push('preferred by the task');
+  } else if (userPreference > 0) {
+    reasons.push(`preferred for ${criteria.taskType}`);
+  } else if (priority > 0) {
+    reasons.push(`priority ${config.user.toolPriorities[tool.id]}`);
+  }
+
+  return Math.max(taskPreference, userPreference, priority);
+}
+
+/**
+ * Success rate and latency for the task type (or overall when there is no
+ * history for the type). Few samples pull the score towards neutral.
+ */
+function performanceScore(
+  tool: DiscoveredTool,
+  criteria: RoutingCriteria,
+  source: ToolPerformanceSource | undefined,
+  reasons: string[]
+): number {
+  const neutral = 0.5;
+  const stats = source?.getStats(tool.id, criteria.taskType) ?? source?.getStats(tool.id);
+  if (!stats || stats.samples === 0) {
+    reasons.push('no history');
+    return neutral;
+  }
+
+  // The median resists the odd very slow call better than the mean
+  const typicalLatency = stats.p50LatencyMs ?? stats.averageLatencyMs;
+  const latency = 1 / (1 + typicalLatency / 10000);
+  const measured = stats.successRate * 0.7 + latency * 0.3;
+  const confidence = Math.min(1, stats.samples / 5);
+
+  reasons.push(
+    `${Math.round(stats.successRate * 100)}% success over ${stats.samples} run${stats.samples === 1 ? '' : 's'}, ` +
+    `${stats.p50LatencyMs !== undefined ? 'p50' : 'avg'} ${formatLatency(typicalLatency)}`
+  );
+  return neutral + (measured - neutral) * confidence;
+}
+
+function formatLatency(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
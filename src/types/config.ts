@@ -0,0 +1,56 @@
+import type { TaskType } from './core';
+
+/**
+ * Main configuration object for the orchestration system.
+ */
+export interface OrchestrationConfig {
+  discovery: DiscoveryConfig;
+  routing: RoutingConfig;
+  capabilities: CapabilitiesConfig;
+  user: UserConfig;
+}
+
+export interface DiscoveryConfig {
+  /** Enable automatic tool discovery */
+  enableAutoDiscovery: boolean;
+
+  /** Ports to scan for MCP servers */
+  scanPorts: number[];
+
+  /** Allowed extension IDs */
+  extensionWhitelist: string[];
+
+  /** Paths to MCP configuration files */
+  mcpConfigPaths: string[];
+
+  /** How often to rediscover tools (ms) */
+  discoveryInterval: number;
+}
+
+export interface RoutingConfig {
+  /** User preferences for task routing */
+  preferredTools: Partial<Record<TaskType, string[]>>;
+
+  /** How to handle fallbacks */
+  fallbackBehavior: 'graceful' | 'fail-fast';
+
+  /** Parallelism strategy */
+  parallelismLevel: 'conservative' | 'aggressive';
+
+  /** Maximum concurrent tasks */
+  maxConcurrentTasks: number;
+}
+
+export interface CapabilitiesConfig {
+  enableCapabilityTesting: boolean;
+  cacheDuration: number;
+  retestInterval: number;
+  healthCheckInterval: number;
+}
+
+export interface UserConfig {
+  allowFallbacks: boolean;
+  requireConfirmation: boolean;
+  showRoutingExplanations: boolean;
+  toolPriorities: Record<string, number>;
+}
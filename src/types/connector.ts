@@ -0,0 +1,34 @@
+import type { ConfigurationSchema, Connection, InvokeOptions, Task, ToolResponse, WorkspaceContext } from './core';
+import { ToolError } from './errors';
+
+/**
+ * Abstract base class for tool integration implementations.
+ */
+export abstract class ToolConnector {
+  /** Establish connection to the tool */
+  abstract connect(): Promise<Connection>;
+
+  /** Execute a task using this tool */
+  abstract invoke(task: Task, context: WorkspaceContext, options?: InvokeOptions): Promise<ToolResponse>;
+
+  /** Test if the tool is currently healthy/available */
+  abstract testHealth(): Promise<boolean>;
+
+  /** Clean up and disconnect from the tool */
+  abstract disconnect(): Promise<void>;
+
+  /** Get tool-specific configuration options */
+  getConfigurationSchema(): ConfigurationSchema {
+    return { type: 'object', properties: {} };
+  }
+
+  /** Handle tool-specific errors */
+  protected handleError(error: unknown, toolId: string = this.constructor.name): ToolError {
+    if (error instanceof ToolError) {
+      return error;
+    }
+
+    const original = error instanceof Error ? error : new Error(String(error));
+    return new ToolError(original.message, toolId, original);
+  }
+}
@@ -0,0 +1,392 @@
+import type { ToolConnector } from './connector';
+
+/**
+ * Task types understood by the orchestrator. Kept as a runtime array so
+ * validators and workflow files can check values against the same list.
+ */
+export const TASK_TYPES = [
+  'planning',
+  'completion',
+  'analysis',
+  'implementation',
+  'deployment',
+  'testing',
+  'refactoring',
+  'optimization',
+  'documentation',
+  'debugging',
+  'security',
+  'general-purpose'
+] as const;
+
+export type TaskType = typeof TASK_TYPES[number];
+
+export type ToolType = 'mcp-server' | 'vscode-extension' | 'cli-tool' | 'acp-agent' | 'api-service';
+
+export const TOOL_TYPES: readonly ToolType[] = ['mcp-server', 'vscode-extension', 'cli-tool', 'acp-agent', 'api-service'];
+
+export type TaskPriority = 'high' | 'medium' | 'low';
+
+export type TaskComplexity = 'simple' | 'medium' | 'complex';
+
+/**
+ * Minimal JSON Schema shape used for tool input/output schemas and
+ * connector configuration schemas.
+ */
+export interface JSONSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema | JSONSchema[];
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  additionalProperties?: boolean | JSONSchema;
+  oneOf?: JSONSchema[];
+  anyOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+  definitions?: Record<string, JSONSchema>;
+  [keyword: string]: unknown;
+}
+
+/** Configuration options a connector accepts, described as JSON Schema */
+export type ConfigurationSchema = JSONSchema;
+
+export interface RateLimit {
+  /** Requests allowed per period */
+  requests: number;
+
+  /** Period the request count applies to */
+  period: 'second' | 'minute' | 'hour';
+}
+
+/**
+ * Defines what a tool can do and its constraints.
+ */
+export interface ToolCapabilities {
+  /** Task types this tool can handle */
+  tasks: TaskType[];
+
+  /** Programming languages supported ('*' for any) */
+  languages: string[];
+
+  /** External integrations available */
+  integrations: string[];
+
+  /** VS Code commands exposed (for extensions) */
+  commands: string[];
+
+  /** Maximum context size in tokens */
+  contextSize?: number;
+
+  /** Rate limiting information */
+  rateLimit?: RateLimit;
+}
+
+/**
+ * Represents an AI tool discovered by the system.
+ */
+export interface DiscoveredTool {
+  /** Unique identifier for the tool */
+  id: string;
+
+  /** Human-readable display name */
+  name: string;
+
+  /** Integration method used to connect to this tool */
+  type: ToolType;
+
+  /** What this tool can do */
+  capabilities: ToolCapabilities;
+
+  /** Connection handler for this tool */
+  connector: ToolConnector;
+
+  /** Network endpoint (for MCP/API tools) */
+  endpoint?: string;
+
+  /** Current health status */
+  isHealthy: boolean;
+
+  /** Last time health was checked */
+  lastChecked: Date;
+}
+
+/**
+ * Configuration used to register a tool manually.
+ */
+export interface ToolConfig {
+  id: string;
+  name: string;
+  type: ToolType;
+
+  // Connection details
+  endpoint?: string;
+  command?: string;
+  extensionId?: string;
+
+  // Capabilities
+  capabilities: ToolCapabilities;
+
+  // Authentication
+  authentication?: {
+    type: 'none' | 'bearer' | 'api-key' | 'oauth';
+    tokenEnvVar?: string;
+    refreshUrl?: string;
+  };
+
+  // Performance
+  rateLimit?: RateLimit;
+
+  // Health checking
+  healthCheck?: {
+    endpoint?: string;
+    command?: string;
+    interval: number;
+  };
+}
+
+export interface TextPosition {
+  line: number;
+  character: number;
+}
+
+export interface TextSelection {
+  /** File the selection belongs to */
+  filePath: string;
+
+  start: TextPosition;
+  end: TextPosition;
+
+  /** Selected text, if already resolved */
+  text?: string;
+}
+
+export interface FileContext {
+  path: string;
+  content: string;
+  language: string;
+}
+
+export interface ProjectInfo {
+  /** Detected project type, e.g. 'node', 'python', 'rust' */
+  type: string;
+
+  /** Frameworks and technologies in use */
+  technologies: string[];
+
+  /** Declared dependencies mapped to their version ranges */
+  dependencies: Record<string, string>;
+}
+
+export interface GitContext {
+  branch: string;
+  commit?: string;
+  remoteUrl?: string;
+  modifiedFiles?: string[];
+}
+
+/**
+ * Provides context about the current development environment.
+ */
+export interface WorkspaceContext {
+  /** Currently open files and their content */
+  openFiles: FileContext[];
+
+  /** Current cursor position and selection */
+  selection?: TextSelection;
+
+  /** Project root directory */
+  workspaceRoot: string;
+
+  /** Detected project type and technologies */
+  projectInfo: ProjectInfo;
+
+  /** Git repository information */
+  gitInfo?: GitContext;
+
+  /** Environment variables and configuration */
+  environment: Record<string, string>;
+}
+
+/**
+ * Represents a work item to be executed by AI tools.
+ */
+export interface Task {
+  /** Optional stable identifier (workflow task id, session id, ...) */
+  id?: string;
+
+  /** Type of task being performed */
+  type: TaskType;
+
+  /** Human-readable description of what to do */
+  description: string;
+
+  /** Code and workspace context */
+  context: WorkspaceContext;
+
+  /** Task priority level */
+  priority: TaskPriority;
+
+  /** Programming language (if relevant) */
+  language?: string;
+
+  /** Task complexity estimate */
+  complexity?: TaskComplexity;
+
+  /** Additional metadata */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Metadata connectors attach to their responses. The named fields are the
+ * ones the orchestrator reads; connectors may add anything else.
+ */
+export interface ToolResponseMetadata {
+  taskType?: TaskType;
+  method?: string;
+  toolUsed?: string;
+  executionTime?: number;
+  tokensUsed?: number;
+  errorType?: string;
+  retryAttempts?: number;
+
+  /** Attempts actually made, including the first */
+  attempts?: number;
+
+  /** Whether the failure is worth retrying, when the connector knows */
+  retryable?: boolean;
+
+  progressToken?: string | number;
+  cancelled?: boolean;
+
+  /** Audit log entry of the invocation, when it was audited */
+  auditId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Result of a single connector invocation.
+ */
+export interface ToolResponse {
+  success: boolean;
+  data?: any;
+  error?: string;
+  toolId: string;
+  metadata?: ToolResponseMetadata;
+}
+
+export interface Disposable {
+  dispose(): unknown;
+}
+
+/**
+ * Signals that the caller no longer wants a result. Structurally compatible
+ * with vscode.CancellationToken.
+ */
+export interface CancellationToken {
+  readonly isCancellationRequested: boolean;
+  onCancellationRequested(listener: (e: any) => any): Disposable;
+}
+
+/**
+ * Incremental progress reported while a tool works on a task.
+ */
+export interface ToolProgress {
+  /** Tool-specific token identifying the operation */
+  progressToken?: string | number;
+
+  /** Progress so far; increases monotonically */
+  progress: number;
+
+  /** Total amount of work, when known */
+  total?: number;
+
+  message?: string;
+}
+
+/**
+ * Per-invocation options accepted by every connector.
+ */
+export interface InvokeOptions {
+  /** Abort the invocation when cancellation is requested */
+  cancellationToken?: CancellationToken;
+
+  /** Receives progress updates while the tool is working */
+  onProgress?: (progress: ToolProgress) => void;
+}
+
+/**
+ * Handle returned by ToolConnector.connect(). Its shape is connector specific
+ * (an MCP client, a VS Code extension, a child process), so it is left open.
+ */
+export type Connection = unknown;
+
+/**
+ * Execution plan generated by the router.
+ */
+export interface RoutingPlan {
+  /** Primary tool to handle the task */
+  primary: DiscoveredTool;
+
+  /** Supporting tools for collaboration */
+  supporting: DiscoveredTool[];
+
+  /** Fallback tools if primary fails */
+  fallbacks: DiscoveredTool[];
+
+  /** Whether this is a degraded mode operation */
+  degraded?: boolean;
+
+  /** Human-readable explanation of routing decision */
+  explanation: string;
+
+  /** Confidence score (0-1) in this routing plan */
+  confidence: number;
+}
+
+export interface TaskResult {
+  task: Task;
+  response: ToolResponse;
+  toolId: string;
+  startedAt: Date;
+  completedAt: Date;
+}
+
+export type CollaborationStatus = 'routing' | 'running' | 'resolving' | 'completed' | 'failed' | 'cancelled';
+
+export interface CollaborationSession {
+  id: string;
+  task: Task;
+  plan: RoutingPlan;
+  status: CollaborationStatus;
+  startedAt: Date;
+  results: TaskResult[];
+}
+
+export interface Conflict {
+  sessionId: string;
+  type: 'architectural' | 'style' | 'implementation';
+  description: string;
+  responses: ToolResponse[];
+}
+
+export interface OrchestrationResult {
+  sessionId: string;
+  success: boolean;
+  results: TaskResult[];
+  conflicts: Conflict[];
+  summary: string;
+}
@@ -0,0 +1,132 @@
+import type { Task, TaskResult } from './core';
+import type { ValidationIssue } from './validation';
+
+export class ToolError extends Error {
+  constructor(
+    message: string,
+    public toolId: string,
+    public originalError?: Error
+  ) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+export class DiscoveryError extends Error {
+  constructor(
+    message: string,
+    public discoveryTarget: string,
+    public originalError?: Error
+  ) {
+    super(message);
+    this.name = 'DiscoveryError';
+  }
+}
+
+export class RoutingError extends Error {
+  constructor(
+    message: string,
+    public task: Task,
+    public availableTools: string[]
+  ) {
+    super(message);
+    this.name = 'RoutingError';
+  }
+}
+
+export class OrchestrationError extends Error {
+  constructor(
+    message: string,
+    public sessionId: string,
+    public partialResults?: TaskResult[]
+  ) {
+    super(message);
+    this.name = 'OrchestrationError';
+  }
+}
+
+export class ValidationError extends Error {
+  constructor(
+    message: string,
+    public issues: ValidationIssue[]
+  ) {
+    super(`${message}: ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+export class CancellationError extends Error {
+  constructor(message = 'Operation cancelled') {
+    super(message);
+    this.name = 'CancellationError';
+  }
+}
+
+/**
+ * An operation did not finish within its time limit. Transient; callers may
+ * retry.
+ */
+export class TimeoutError extends Error {
+  constructor(message: string, public timeoutMs: number) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The channel to a tool is missing or broke mid-request. Transient.
+ */
+export class ConnectionError extends Error {
+  constructor(message: string, public originalError?: Error) {
+    super(message);
+    this.name = 'ConnectionError';
+  }
+}
+
+/**
+ * A tool asked us to slow down. `retryAfterMs` is set when the tool said
+ * how long to wait.
+ */
+export class RateLimitError extends Error {
+  constructor(message: string, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * A tool's or workflow's daily token or cost quota is used up. Asking the
+ * same tool again cannot help before `resetsAt`; another tool may.
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public scope: 'tool' | 'workflow',
+    public budgetId: string,
+    public resetsAt: Date
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Calls to a tool are being refused because it failed repeatedly.
+ */
+export class CircuitOpenError extends Error {
+  constructor(public toolId: string, public retryAt: Date) {
+    super(`Tool '${toolId}' is unavailable after repeated failures; next probe at ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * A proposed change could not be placed in the file it targets, e.g. a diff
+ * hunk whose context no longer matches.
+ */
+export class PatchError extends Error {
+  constructor(message: string, public filePath: string) {
+    super(message);
+    this.name = 'PatchError';
+  }
+}
@@ -0,0 +1,86 @@
+import type {
+  CollaborationSession,
+  Conflict,
+  DiscoveredTool,
+  OrchestrationResult,
+  RoutingPlan,
+  Task,
+  ToolResponse,
+  ToolType
+} from './core';
+
+export interface DiscoverySummary {
+  /** Total number of tools known after discovery */
+  totalTools: number;
+
+  /** Tools found per integration type */
+  byType: Record<ToolType, number>;
+
+  /** Tools that passed their health check */
+  healthyTools: number;
+
+  /** How long the discovery pass took (ms) */
+  duration: number;
+
+  /** Discovery targets that could not be probed */
+  errors: Array<{ target: string; message: string }>;
+}
+
+/**
+ * Outcome of one health check pass over the registered tools.
+ */
+export interface HealthCheckResults {
+  checkedAt: Date;
+
+  /** Ids of tools that answered their health check */
+  healthy: string[];
+
+  /** Tools that failed, with the reason */
+  unhealthy: Array<{ toolId: string; error: string }>;
+
+  /** How long the pass took (ms) */
+  duration: number;
+}
+
+/**
+ * Discovery lifecycle callbacks.
+ */
+export interface DiscoveryEvents {
+  /** Fired when new tools are discovered */
+  onToolsDiscovered: (tools: DiscoveredTool[]) => void;
+
+  /** Fired when tools disappear on rediscovery or are unregistered */
+  onToolsRemoved: (toolIds: string[]) => void;
+
+  /** Fired when a tool becomes unhealthy */
+  onToolUnhealthy: (tool: DiscoveredTool, error: Error) => void;
+
+  /** Fired when a tool recovers */
+  onToolRecovered: (tool: DiscoveredTool) => void;
+
+  /** Fired when discovery process completes */
+  onDiscoveryComplete: (summary: DiscoverySummary) => void;
+}
+
+/**
+ * Orchestration lifecycle callbacks.
+ */
+export interface OrchestrationEvents {
+  /** Fired when task routing begins */
+  onRoutingStart: (task: Task) => void;
+
+  /** Fired when routing plan is generated */
+  onRoutingComplete: (plan: RoutingPlan) => void;
+
+  /** Fired when task execution begins */
+  onExecutionStart: (session: CollaborationSession) => void;
+
+  /** Fired when tool responds */
+  onToolResponse: (toolId: string, response: ToolResponse) => void;
+
+  /** Fired when conflict resolution is needed */
+  onConflictDetected: (conflict: Conflict) => void;
+
+  /** Fired when orchestration completes */
+  onOrchestrationComplete: (result: OrchestrationResult) => void;
+}
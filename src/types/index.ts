@@ -0,0 +1,14 @@
+/**
+ * Core type definitions for the AI orchestration system.
+ *
+ * Everything a connector, router or workflow needs to agree on lives here
+ * so that tool integrations can be built against a stable contract.
+ */
+
+export * from './core';
+export * from './config';
+export * from './events';
+export * from './errors';
+export * from './connector';
+export * from './validation';
+export * from './schema-validation';
@@ -0,0 +1,189 @@
+import type { JSONSchema } from './core';
+import type { ValidationIssue, ValidationResult } from './validation';
+
+/**
+ * Validation of values against the JSON Schema subset tools use to describe
+ * their inputs and outputs: type, enum/const, object properties/required/
+ * additionalProperties, array items and bounds, string length/pattern,
+ * numeric bounds, allOf/anyOf/oneOf and local $ref into definitions/$defs.
+ * Unknown keywords are ignored.
+ */
+export function validateJsonSchema(value: unknown, schema: JSONSchema | boolean, path = 'value'): ValidationResult {
+  const errors: ValidationIssue[] = [];
+  const root = typeof schema === 'object' ? schema : {};
+  check(value, schema, path, root, errors);
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * The JSON Schema type name of a value ('integer' for whole numbers)
+ */
+export function jsonSchemaTypeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value;
+}
+
+function check(value: unknown, schema: JSONSchema | boolean, path: string, root: JSONSchema, errors: ValidationIssue[]): void {
+  if (schema === true) {
+    return;
+  }
+  if (schema === false) {
+    errors.push({ path, message: 'is not allowed' });
+    return;
+  }
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(schema.$ref, root);
+    if (!target) {
+      errors.push({ path, message: `has unresolvable schema reference ${schema.$ref}` });
+      return;
+    }
+    check(value, target, path, root, errors);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = jsonSchemaTypeOf(value);
+    const matches = types.some(type => type === actual || (type === 'number' && actual === 'integer'));
+    if (!matches) {
+      errors.push({ path, message: `must be of type ${types.join(' or ')}` });
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => deepEqual(option, value))) {
+    errors.push({ path, message: `must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+  }
+  if ('const' in schema && schema.const !== undefined && !deepEqual(schema.const, value)) {
+    errors.push({ path, message: `must equal ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'string') {
+    checkString(value, schema, path, errors);
+  } else if (typeof value === 'number') {
+    checkNumber(value, schema, path, errors);
+  } else if (Array.isArray(value)) {
+    checkArray(value, schema, path, root, errors);
+  } else if (typeof value === 'object' && value !== null) {
+    checkObject(value as Record<string, unknown>, schema, path, root, errors);
+  }
+
+  for (const sub of schema.allOf ?? []) {
+    check(value, sub, path, root, errors);
+  }
+
+  if (schema.anyOf && !schema.anyOf.some(sub => validateSub(value, sub, path, root))) {
+    errors.push({ path, message: 'must match at least one allowed schema' });
+  }
+
+  if (schema.oneOf) {
+    const matching = schema.oneOf.filter(sub => validateSub(value, sub, path, root)).length;
+    if (matching !== 1) {
+      errors.push({ path, message: `must match exactly one allowed schema (matched ${matching})` });
+    }
+  }
+}
+
+function checkString(value: string, schema: JSONSchema, path: string, errors: ValidationIssue[]): void {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+    errors.push({ path, message: `must match pattern ${schema.pattern}` });
+  }
+}
+
+function checkNumber(value: number, schema: JSONSchema, path: string, errors: ValidationIssue[]): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ path, message: `must be >= ${schema.minimum}` });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push({ path, message: `must be <= ${schema.maximum}` });
+  }
+}
+
+function checkArray(value: unknown[], schema: JSONSchema, path: string, root: JSONSchema, errors: ValidationIssue[]): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push({ path, message: `must have at least ${schema.minItems} items` });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push({ path, message: `must have at most ${schema.maxItems} items` });
+  }
+
+  if (Array.isArray(schema.items)) {
+    schema.items.forEach((itemSchema, index) => {
+      if (index < value.length) {
+        check(value[index], itemSchema, `${path}[${index}]`, root, errors);
+      }
+    });
+  } else if (schema.items) {
+    value.forEach((item, index) => check(item, schema.items as JSONSchema, `${path}[${index}]`, root, errors));
+  }
+}
+
+function checkObject(
+  value: Record<string, unknown>,
+  schema: JSONSchema,
+  path: string,
+  root: JSONSchema,
+  errors: ValidationIssue[]
+): void {
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined) {
+      errors.push({ path: `${path}.${key}`, message: 'is required' });
+    }
+  }
+
+  const properties = schema.properties ?? {};
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) {
+      continue;
+    }
+    if (key in properties) {
+      check(item, properties[key], `${path}.${key}`, root, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path: `${path}.${key}`, message: 'is not an allowed property' });
+    } else if (typeof schema.additionalProperties === 'object') {
+      check(item, schema.additionalProperties, `${path}.${key}`, root, errors);
+    }
+  }
+}
+
+function validateSub(value: unknown, schema: JSONSchema, path: string, root: JSONSchema): boolean {
+  const errors: ValidationIssue[] = [];
+  check(value, schema, path, root, errors);
+  return errors.length === 0;
+}
+
+function resolveRef(ref: string, root: JSONSchema): JSONSchema | undefined {
+  if (ref === '#') {
+    return root;
+  }
+  if (!ref.startsWith('#/')) {
+    return undefined;
+  }
+
+  let current: unknown = root;
+  for (const segment of ref.slice(2).split('/')) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+  return typeof current === 'object' && current !== null ? current as JSONSchema : undefined;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,325 @@
+import { TASK_TYPES, TOOL_TYPES } from './core';
+import type { TaskType, ToolType } from './core';
+import { ValidationError } from './errors';
+
+/**
+ * Runtime validators for the core types.
+ *
+ * Tool responses, workflow files and user configuration all arrive as
+ * untyped JSON, so these check the shape before the rest of the system
+ * relies on it. Every issue carries the JSON path of the offending value.
+ */
+
+export interface ValidationIssue {
+  /** JSON path of the offending value, e.g. 'context.openFiles[0].path' */
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationIssue[];
+}
+
+const PRIORITIES = ['high', 'medium', 'low'];
+const COMPLEXITIES = ['simple', 'medium', 'complex'];
+const RATE_LIMIT_PERIODS = ['second', 'minute', 'hour'];
+
+export function isTaskType(value: unknown): value is TaskType {
+  return typeof value === 'string' && (TASK_TYPES as readonly string[]).includes(value);
+}
+
+export function isToolType(value: unknown): value is ToolType {
+  return typeof value === 'string' && (TOOL_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Validate a task, including its embedded workspace context.
+ */
+export function validateTask(value: unknown, path = 'task'): ValidationResult {
+  const errors: ValidationIssue[] = [];
+
+  if (!isObject(value)) {
+    return invalid(path, 'must be an object');
+  }
+
+  if (!isTaskType(value.type)) {
+    errors.push({ path: `${path}.type`, message: `must be one of: ${TASK_TYPES.join(', ')}` });
+  }
+  checkString(value, 'description', path, errors, true);
+  checkEnum(value, 'priority', PRIORITIES, path, errors, true);
+  checkString(value, 'id', path, errors, false);
+  checkString(value, 'language', path, errors, false);
+  checkEnum(value, 'complexity', COMPLEXITIES, path, errors, false);
+
+  if (value.metadata !== undefined && !isObject(value.metadata)) {
+    errors.push({ path: `${path}.metadata`, message: 'must be an object' });
+  }
+
+  errors.push(...validateWorkspaceContext(value.context, `${path}.context`).errors);
+
+  return result(errors);
+}
+
+/**
+ * Validate a workspace context snapshot.
+ */
+export function validateWorkspaceContext(value: unknown, path = 'context'): ValidationResult {
+  const errors: ValidationIssue[] = [];
+
+  if (!isObject(value)) {
+    return invalid(path, 'must be an object');
+  }
+
+  if (!Array.isArray(value.openFiles)) {
+    errors.push({ path: `${path}.openFiles`, message: 'must be an array' });
+  } else {
+    value.openFiles.forEach((file, index) => {
+      const filePath = `${path}.openFiles[${index}]`;
+      if (!isObject(file)) {
+        errors.push({ path: filePath, message: 'must be an object' });
+        return;
+      }
+      checkString(file, 'path', filePath, errors, true);
+      checkString(file, 'content', filePath, errors, true);
+      checkString(file, 'language', filePath, errors, true);
+    });
+  }
+
+  checkString(value, 'workspaceRoot', path, errors, true);
+
+  if (value.selection !== undefined) {
+    const selectionPath = `${path}.selection`;
+    if (!isObject(value.selection)) {
+      errors.push({ path: selectionPath, message: 'must be an object' });
+    } else {
+      checkString(value.selection, 'filePath', selectionPath, errors, true);
+      checkPosition(value.selection.start, `${selectionPath}.start`, errors);
+      checkPosition(value.selection.end, `${selectionPath}.end`, errors);
+      checkString(value.selection, 'text', selectionPath, errors, false);
+    }
+  }
+
+  const projectPath = `${path}.projectInfo`;
+  if (!isObject(value.projectInfo)) {
+    errors.push({ path: projectPath, message: 'must be an object' });
+  } else {
+    checkString(value.projectInfo, 'type', projectPath, errors, true);
+    checkStringArray(value.projectInfo, 'technologies', projectPath, errors, true);
+    if (!isStringRecord(value.projectInfo.dependencies)) {
+      errors.push({ path: `${projectPath}.dependencies`, message: 'must be an object of strings' });
+    }
+  }
+
+  if (value.gitInfo !== undefined) {
+    const gitPath = `${path}.gitInfo`;
+    if (!isObject(value.gitInfo)) {
+      errors.push({ path: gitPath, message: 'must be an object' });
+    } else {
+      checkString(value.gitInfo, 'branch', gitPath, errors, true);
+      checkString(value.gitInfo, 'commit', gitPath, errors, false);
+      checkString(value.gitInfo, 'remoteUrl', gitPath, errors, false);
+      checkStringArray(value.gitInfo, 'modifiedFiles', gitPath, errors, false);
+    }
+  }
+
+  if (!isStringRecord(value.environment)) {
+    errors.push({ path: `${path}.environment`, message: 'must be an object of strings' });
+  }
+
+  return result(errors);
+}
+
+/**
+ * Validate a tool capability declaration.
+ */
+export function validateToolCapabilities(value: unknown, path = 'capabilities'): ValidationResult {
+  const errors: ValidationIssue[] = [];
+
+  if (!isObject(value)) {
+    return invalid(path, 'must be an object');
+  }
+
+  if (!Array.isArray(value.tasks)) {
+    errors.push({ path: `${path}.tasks`, message: 'must be an array' });
+  } else {
+    value.tasks.forEach((task, index) => {
+      if (!isTaskType(task)) {
+        errors.push({ path: `${path}.tasks[${index}]`, message: `unknown task type '${String(task)}'` });
+      }
+    });
+  }
+
+  checkStringArray(value, 'languages', path, errors, true);
+  checkStringArray(value, 'integrations', path, errors, true);
+  checkStringArray(value, 'commands', path, errors, true);
+
+  if (value.contextSize !== undefined && !isPositiveNumber(value.contextSize)) {
+    errors.push({ path: `${path}.contextSize`, message: 'must be a positive number' });
+  }
+
+  if (value.rateLimit !== undefined) {
+    errors.push(...validateRateLimit(value.rateLimit, `${path}.rateLimit`).errors);
+  }
+
+  return result(errors);
+}
+
+/**
+ * Validate a manual tool registration.
+ */
+export function validateToolConfig(value: unknown, path = 'tool'): ValidationResult {
+  const errors: ValidationIssue[] = [];
+
+  if (!isObject(value)) {
+    return invalid(path, 'must be an object');
+  }
+
+  checkString(value, 'id', path, errors, true);
+  checkString(value, 'name', path, errors, true);
+  if (!isToolType(value.type)) {
+    errors.push({ path: `${path}.type`, message: `must be one of: ${TOOL_TYPES.join(', ')}` });
+  }
+  checkString(value, 'endpoint', path, errors, false);
+  checkString(value, 'command', path, errors, false);
+  checkString(value, 'extensionId', path, errors, false);
+
+  errors.push(...validateToolCapabilities(value.capabilities, `${path}.capabilities`).errors);
+
+  if (value.rateLimit !== undefined) {
+    errors.push(...validateRateLimit(value.rateLimit, `${path}.rateLimit`).errors);
+  }
+
+  return result(errors);
+}
+
+/**
+ * Validate a response returned by a connector.
+ */
+export function validateToolResponse(value: unknown, path = 'response'): ValidationResult {
+  const errors: ValidationIssue[] = [];
+
+  if (!isObject(value)) {
+    return invalid(path, 'must be an object');
+  }
+
+  if (typeof value.success !== 'boolean') {
+    errors.push({ path: `${path}.success`, message: 'must be a boolean' });
+  }
+  checkString(value, 'toolId', path, errors, true);
+  checkString(value, 'error', path, errors, false);
+
+  if (value.success === false && value.error === undefined) {
+    errors.push({ path: `${path}.error`, message: 'is required when success is false' });
+  }
+
+  if (value.metadata !== undefined && !isObject(value.metadata)) {
+    errors.push({ path: `${path}.metadata`, message: 'must be an object' });
+  }
+
+  return result(errors);
+}
+
+/**
+ * Throw a ValidationError when a validation result has issues.
+ */
+export function assertValid(validation: ValidationResult, subject: string): void {
+  if (!validation.valid) {
+    throw new ValidationError(`Invalid ${subject}`, validation.errors);
+  }
+}
+
+function validateRateLimit(value: unknown, path: string): ValidationResult {
+  if (!isObject(value)) {
+    return invalid(path, 'must be an object');
+  }
+
+  const errors: ValidationIssue[] = [];
+  if (!isPositiveNumber(value.requests)) {
+    errors.push({ path: `${path}.requests`, message: 'must be a positive number' });
+  }
+  checkEnum(value, 'period', RATE_LIMIT_PERIODS, path, errors, true);
+  return result(errors);
+}
+
+function checkString(
+  target: Record<string, unknown>,
+  key: string,
+  path: string,
+  errors: ValidationIssue[],
+  required: boolean
+): void {
+  const value = target[key];
+  if (value === undefined) {
+    if (required) {
+      errors.push({ path: `${path}.${key}`, message: 'is required' });
+    }
+  } else if (typeof value !== 'string') {
+    errors.push({ path: `${path}.${key}`, message: 'must be a string' });
+  }
+}
+
+function checkStringArray(
+  target: Record<string, unknown>,
+  key: string,
+  path: string,
+  errors: ValidationIssue[],
+  required: boolean
+): void {
+  const value = target[key];
+  if (value === undefined) {
+    if (required) {
+      errors.push({ path: `${path}.${key}`, message: 'is required' });
+    }
+  } else if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    errors.push({ path: `${path}.${key}`, message: 'must be an array of strings' });
+  }
+}
+
+function checkEnum(
+  target: Record<string, unknown>,
+  key: string,
+  allowed: string[],
+  path: string,
+  errors: ValidationIssue[],
+  required: boolean
+): void {
+  const value = target[key];
+  if (value === undefined) {
+    if (required) {
+      errors.push({ path: `${path}.${key}`, message: 'is required' });
+    }
+  } else if (typeof value !== 'string' || !allowed.includes(value)) {
+    errors.push({ path: `${path}.${key}`, message: `must be one of: ${allowed.join(', ')}` });
+  }
+}
+
+function checkPosition(value: unknown, path: string, errors: ValidationIssue[]): void {
+  if (!isObject(value) || !isNonNegativeInteger(value.line) || !isNonNegativeInteger(value.character)) {
+    errors.push({ path, message: 'must be a position with non-negative line and character' });
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringRecord(value: unknown): boolean {
+  return isObject(value) && Object.values(value).every(item => typeof item === 'string');
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function invalid(path: string, message: string): ValidationResult {
+  return { valid: false, errors: [{ path, message }] };
+}
+
+function result(errors: ValidationIssue[]): ValidationResult {
+  return { valid: errors.length === 0, errors };
+}
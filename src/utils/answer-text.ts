@@ -0,0 +1,24 @@
+/** Keys tools commonly put their answer under, most specific first */
+const ANSWER_KEYS = ['response', 'result', 'analysis', 'plan', 'suggestion', 'changes', 'text', 'content'];
+
+/**
+ * The answer in a tool response's data: the data itself when it is text,
+ * otherwise the first non-empty string under a common answer key.
+ */
+export function answerText(data: unknown): string | undefined {
+  if (typeof data === 'string') {
+    return data;
+  }
+  if (typeof data !== 'object' || data === null) {
+    return undefined;
+  }
+
+  const fields = data as Record<string, unknown>;
+  for (const key of ANSWER_KEYS) {
+    const value = fields[key];
+    if (typeof value === 'string' && value.length > 0) {
+      return value;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,32 @@
+/**
+ * Exponential backoff shared by reconnect loops and retry policies.
+ */
+export interface BackoffOptions {
+  /** Delay before the first retry, in ms */
+  initialDelay: number;
+
+  /** Upper bound for any delay, in ms */
+  maxDelay: number;
+
+  /** Factor applied to the delay after each attempt */
+  multiplier: number;
+
+  /** Randomise delays by up to this fraction to avoid thundering herds */
+  jitter: number;
+}
+
+/**
+ * Delay before retry number `attempt` (starting at 0)
+ */
+export function computeBackoffDelay(attempt: number, options: BackoffOptions, random: () => number = Math.random): number {
+  const base = Math.min(options.maxDelay, options.initialDelay * Math.pow(options.multiplier, attempt));
+  const spread = base * options.jitter;
+  return Math.max(0, Math.round(base - spread + random() * spread * 2));
+}
+
+/**
+ * Resolve after `ms` milliseconds
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,46 @@
+import type { CancellationToken, Disposable } from '../types';
+
+/**
+ * Creates cancellation tokens outside VS Code. Tokens are structurally
+ * compatible with vscode.CancellationToken, so either can be passed to
+ * connectors.
+ */
+export class CancellationTokenSource {
+  private cancelled = false;
+  private readonly listeners = new Set<(e: unknown) => unknown>();
+
+  readonly token: CancellationToken;
+
+  constructor() {
+    const isCancelled = () => this.cancelled;
+
+    this.token = {
+      get isCancellationRequested() {
+        return isCancelled();
+      },
+      onCancellationRequested: (listener: (e: unknown) => unknown): Disposable => {
+        if (this.cancelled) {
+          listener(undefined);
+          return { dispose: () => undefined };
+        }
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+      }
+    };
+  }
+
+  cancel(): void {
+    if (this.cancelled) {
+      return;
+    }
+    this.cancelled = true;
+    for (const listener of Array.from(this.listeners)) {
+      listener(undefined);
+    }
+    this.listeners.clear();
+  }
+
+  dispose(): void {
+    this.listeners.clear();
+  }
+}
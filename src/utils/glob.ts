@@ -0,0 +1,52 @@
+/**
+ * Path globs as used in VS Code settings: `*` and `?` stay within a path
+ * segment, `**` crosses segments and `{a,b}` matches either alternative.
+ * A pattern without a slash matches the file name in any directory.
+ */
+
+const cache = new Map<string, RegExp>();
+
+export function globToRegExp(glob: string): RegExp {
+  let regexp = cache.get(glob);
+  if (regexp) {
+    return regexp;
+  }
+
+  const pattern = glob.includes('/') ? glob.replace(/^\.?\//, '') : `**/${glob}`;
+  let source = '';
+  let braces = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` may match no directory at all
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  regexp = new RegExp(`^${source}$`);
+  cache.set(glob, regexp);
+  return regexp;
+}
+
+/** Whether a relative path (either separator) matches any of the globs */
+export function matchesGlob(relativePath: string, globs: string | string[]): boolean {
+  const normalized = relativePath.replace(/\\/g, '/').replace(/^\.\//, '');
+  return (Array.isArray(globs) ? globs : [globs]).some(glob => globToRegExp(glob).test(normalized));
+}
@@ -0,0 +1,10 @@
+/**
+ * Small runtime helpers shared across the orchestration modules.
+ */
+
+export * from './typed-emitter';
+export * from './cancellation';
+export * from './backoff';
+export * from './text-diff';
+export * from './glob';
+export * from './answer-text';
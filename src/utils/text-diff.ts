@@ -0,0 +1,117 @@
+/**
+ * Minimal sequence diff (longest common subsequence) used to compare tool
+ * proposals and to turn proposed file contents into hunks.
+ */
+
+export type DiffOperation<T> =
+  | { type: 'equal'; items: T[] }
+  | { type: 'delete'; items: T[] }
+  | { type: 'insert'; items: T[] };
+
+/** Above this many LCS cells the unmatched middle is reported as replaced */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Diff two sequences. Common prefix and suffix are matched first, so large
+ * inputs with a small change stay cheap.
+ */
+export function diffSequences<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean = (x, y) => x === y): DiffOperation<T>[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && equals(a[prefix], b[prefix])) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    equals(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+
+  const operations: DiffOperation<T>[] = [];
+  push(operations, 'equal', a.slice(0, prefix));
+  for (const operation of diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix), equals)) {
+    push(operations, operation.type, operation.items);
+  }
+  push(operations, 'equal', a.slice(a.length - suffix));
+  return operations;
+}
+
+/**
+ * Line diff of two texts.
+ */
+export function diffLines(a: string, b: string): DiffOperation<string>[] {
+  return diffSequences(splitLines(a), splitLines(b));
+}
+
+/**
+ * Share of items the two sequences have in common, 0-1 (1 when both are
+ * empty). Same measure as Python's difflib ratio().
+ */
+export function similarityRatio<T>(a: T[], b: T[], equals?: (x: T, y: T) => boolean): number {
+  if (a.length + b.length === 0) {
+    return 1;
+  }
+
+  const matched = diffSequences(a, b, equals)
+    .filter(operation => operation.type === 'equal')
+    .reduce((sum, operation) => sum + operation.items.length, 0);
+  return (2 * matched) / (a.length + b.length);
+}
+
+export function splitLines(text: string): string[] {
+  return text.length === 0 ? [] : text.replace(/\r\n/g, '\n').split('\n');
+}
+
+function diffMiddle<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): DiffOperation<T>[] {
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+    return [{ type: 'delete', items: a }, { type: 'insert', items: b }];
+  }
+
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = equals(a[i], b[j])
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const operations: DiffOperation<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equals(a[i], b[j])) {
+      push(operations, 'equal', [a[i]]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push(operations, 'delete', [a[i]]);
+      i++;
+    } else {
+      push(operations, 'insert', [b[j]]);
+      j++;
+    }
+  }
+  push(operations, 'delete', a.slice(i));
+  push(operations, 'insert', b.slice(j));
+  return operations;
+}
+
+/** Append items, merging with the previous operation of the same type */
+function push<T>(operations: DiffOperation<T>[], type: DiffOperation<T>['type'], items: T[]): void {
+  if (items.length === 0) {
+    return;
+  }
+
+  const last = operations[operations.length - 1];
+  if (last && last.type === type) {
+    last.items.push(...items);
+  } else {
+    operations.push({ type, items: [...items] } as DiffOperation<T>);
+  }
+}
@@ -0,0 +1,45 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Map of event names to listener signatures.
+ */
+export type EventMap<Events> = { [E in keyof Events]: (...args: any[]) => void };
+
+/**
+ * Strongly typed wrapper around Node's EventEmitter. Listener exceptions are
+ * logged instead of propagating into the code that emitted the event.
+ */
+export class TypedEventEmitter<Events extends EventMap<Events>> {
+  private readonly emitter = new EventEmitter();
+
+  /**
+   * Subscribe to an event. Returns a function that removes the listener.
+   */
+  on<E extends keyof Events & string>(event: E, listener: Events[E]): () => void {
+    this.emitter.on(event, listener);
+    return () => this.off(event, listener);
+  }
+
+  once<E extends keyof Events & string>(event: E, listener: Events[E]): () => void {
+    this.emitter.once(event, listener);
+    return () => this.off(event, listener);
+  }
+
+  off<E extends keyof Events & string>(event: E, listener: Events[E]): void {
+    this.emitter.off(event, listener);
+  }
+
+  removeAllListeners(): void {
+    this.emitter.removeAllListeners();
+  }
+
+  protected emit<E extends keyof Events & string>(event: E, ...args: Parameters<Events[E]>): void {
+    for (const listener of this.emitter.listeners(event)) {
+      try {
+        (listener as (...values: unknown[]) => void)(...args);
+      } catch (error) {
+        console.error(`Listener for '${event}' failed:`, error);
+      }
+    }
+  }
+}
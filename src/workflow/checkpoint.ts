@@ -0,0 +1,136 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { redactSecrets } from '../redaction';
+import type { WorkflowCheckpoint, WorkflowTaskCheckpoint, WorkflowTaskState } from './types';
+
+/** Run ids become file names, so keep them to safe characters */
+const RUN_ID_PATTERN = /^[\w.-]+$/;
+
+/**
+ * Where workflow runs are checkpointed.
+ */
+export interface WorkflowCheckpointStore {
+  save(checkpoint: WorkflowCheckpoint): Promise<void>;
+  load(runId: string): Promise<WorkflowCheckpoint | undefined>;
+
+  /** Every saved run, most recently updated first */
+  list(): Promise<WorkflowCheckpoint[]>;
+
+  delete(runId: string): Promise<void>;
+}
+
+/**
+ * One JSON file per run in a directory. Files are replaced atomically, so a
+ * crash mid-save leaves the previous checkpoint intact.
+ */
+export class FileCheckpointStore implements WorkflowCheckpointStore {
+  constructor(private directory: string) {}
+
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    const file = this.fileFor(checkpoint.runId);
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(checkpoint, null, 2), 'utf8');
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  async load(runId: string): Promise<WorkflowCheckpoint | undefined> {
+    const text = await fs.readFile(this.fileFor(runId), 'utf8').catch(() => undefined);
+    return text === undefined ? undefined : parseCheckpoint(text);
+  }
+
+  async list(): Promise<WorkflowCheckpoint[]> {
+    const names = await fs.readdir(this.directory).catch(() => [] as string[]);
+    const checkpoints = await Promise.all(names
+      .filter(name => name.endsWith('.json'))
+      .map(async name => parseCheckpoint(await fs.readFile(path.join(this.directory, name), 'utf8').catch(() => ''))));
+
+    return checkpoints
+      .filter((checkpoint): checkpoint is WorkflowCheckpoint => checkpoint !== undefined)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async delete(runId: string): Promise<void> {
+    await fs.rm(this.fileFor(runId), { force: true });
+  }
+
+  private fileFor(runId: string): string {
+    if (!RUN_ID_PATTERN.test(runId)) {
+      throw new Error(`Invalid workflow run id '${runId}'`);
+    }
+    return path.join(this.directory, `${runId}.json`);
+  }
+}
+
+/**
+ * Non-persistent storage, for tests and for running outside VS Code.
+ */
+export class InMemoryCheckpointStore implements WorkflowCheckpointStore {
+  private readonly checkpoints = new Map<string, string>();
+
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.runId, JSON.stringify(checkpoint));
+  }
+
+  async load(runId: string): Promise<WorkflowCheckpoint | undefined> {
+    const text = this.checkpoints.get(runId);
+    return text === undefined ? undefined : parseCheckpoint(text);
+  }
+
+  async list(): Promise<WorkflowCheckpoint[]> {
+    return Array.from(this.checkpoints.values(), text => parseCheckpoint(text)!)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async delete(runId: string): Promise<void> {
+    this.checkpoints.delete(runId);
+  }
+}
+
+/**
+ * A task's state as saved. Secrets in the tool response and in the inputs
+ * and outputs derived from it are redacted, so none are written to disk; a
+ * resumed run sees the redacted outputs.
+ */
+export function toTaskCheckpoint(state: WorkflowTaskState): WorkflowTaskCheckpoint {
+  return {
+    ...state,
+    resolvedInputs: redactValue(state.resolvedInputs),
+    outputs: redactValue(state.outputs),
+    response: redactValue(state.response),
+    error: redactValue(state.error),
+    startedAt: state.startedAt?.toISOString(),
+    completedAt: state.completedAt?.toISOString()
+  };
+}
+
+export function fromTaskCheckpoint(checkpoint: WorkflowTaskCheckpoint): WorkflowTaskState {
+  return {
+    ...checkpoint,
+    startedAt: checkpoint.startedAt ? new Date(checkpoint.startedAt) : undefined,
+    completedAt: checkpoint.completedAt ? new Date(checkpoint.completedAt) : undefined
+  };
+}
+
+/** Copy of a JSON-like value with secrets in its strings redacted */
+function redactValue<T>(value: T): T {
+  if (typeof value === 'string') {
+    return redactSecrets(value).text as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactValue) as T;
+  }
+  if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item)])) as T;
+  }
+  return value;
+}
+
+/** Undefined for text that is not a checkpoint, e.g. a file cut short */
+function parseCheckpoint(text: string): WorkflowCheckpoint | undefined {
+  try {
+    const value = JSON.parse(text) as WorkflowCheckpoint;
+    return typeof value?.runId === 'string' && Array.isArray(value.tasks) && value.definition ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { JsonParseError, locateJsonPath, parseJsonTree } from './json-location';
+import { validateWorkflow } from './validator';
+
+/** Files treated as workflow definitions */
+export const WORKFLOW_FILE_PATTERNS = ['**/workflows/*.json', '**/*.workflow.json'];
+
+/**
+ * Publishes workflow validation issues as editor diagnostics, so typos in
+ * dependsOn ids, cycles and broken ${...} references show up while editing.
+ */
+export class WorkflowDiagnosticsProvider implements vscode.Disposable {
+  private readonly collection = vscode.languages.createDiagnosticCollection('ai-orchestration-workflow');
+  private readonly disposables: vscode.Disposable[] = [this.collection];
+
+  constructor(private readonly patterns: string[] = WORKFLOW_FILE_PATTERNS) {}
+
+  /**
+   * Validate open workflow documents and keep diagnostics in sync with edits.
+   */
+  register(): vscode.Disposable {
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument(document => this.refresh(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.refresh(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => this.collection.delete(document.uri))
+    );
+
+    vscode.workspace.textDocuments.forEach(document => this.refresh(document));
+    return this;
+  }
+
+  refresh(document: vscode.TextDocument): void {
+    if (!this.isWorkflowDocument(document)) {
+      return;
+    }
+
+    this.collection.set(document.uri, computeWorkflowDiagnostics(document));
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables.length = 0;
+  }
+
+  private isWorkflowDocument(document: vscode.TextDocument): boolean {
+    return document.languageId === 'json' &&
+      this.patterns.some(pattern => vscode.languages.match({ pattern }, document) > 0);
+  }
+}
+
+/**
+ * Validate a workflow document and map each issue to a diagnostic range.
+ */
+export function computeWorkflowDiagnostics(document: vscode.TextDocument): vscode.Diagnostic[] {
+  const text = document.getText();
+
+  let tree;
+  let value: unknown;
+  try {
+    tree = parseJsonTree(text);
+    value = JSON.parse(text);
+  } catch (error) {
+    const offset = error instanceof JsonParseError ? error.offset : 0;
+    const position = document.positionAt(offset);
+    return [createDiagnostic(new vscode.Range(position, position), (error as Error).message)];
+  }
+
+  return validateWorkflow(value).errors.map(issue => {
+    const location = locateJsonPath(tree, issue.path);
+    const range = new vscode.Range(
+      document.positionAt(location.offset),
+      document.positionAt(location.offset + location.length)
+    );
+    return createDiagnostic(range, `${issue.path} ${issue.message}`);
+  });
+}
+
+function createDiagnostic(range: vscode.Range, message: string): vscode.Diagnostic {
+  const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Error);
+  diagnostic.source = 'workflow';
+  return diagnostic;
+}
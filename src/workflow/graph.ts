@@ -0,0 +1,164 @@
+import { referencedTaskIds } from './interpolation';
+import type { WorkflowDefinition, WorkflowPhase, WorkflowTaskDefinition } from './types';
+
+/**
+ * Task dependency graph for a workflow.
+ *
+ * Edges come from four places:
+ * - explicit task `dependsOn`
+ * - ${tasks.<id>.outputs...} references in task inputs
+ * - phase `dependsOn` (every task waits for every task of the earlier phase)
+ * - sequential phases (`parallel: false` runs tasks in declared order)
+ */
+
+export interface WorkflowTaskNode {
+  task: WorkflowTaskDefinition;
+  phase: WorkflowPhase;
+  dependencies: Set<string>;
+  dependents: Set<string>;
+}
+
+export interface WorkflowGraph {
+  nodes: Map<string, WorkflowTaskNode>;
+
+  /** Task ids in a valid execution order */
+  order: string[];
+}
+
+export class WorkflowGraphError extends Error {
+  constructor(message: string, public cycle?: string[]) {
+    super(message);
+    this.name = 'WorkflowGraphError';
+  }
+}
+
+export function buildWorkflowGraph(definition: WorkflowDefinition): WorkflowGraph {
+  const nodes = new Map<string, WorkflowTaskNode>();
+  const phases = new Map<string, WorkflowPhase>();
+
+  for (const phase of definition.workflow.phases) {
+    phases.set(phase.id, phase);
+    for (const task of phase.tasks) {
+      if (nodes.has(task.id)) {
+        throw new WorkflowGraphError(`Duplicate task id '${task.id}'`);
+      }
+      nodes.set(task.id, { task, phase, dependencies: new Set(), dependents: new Set() });
+    }
+  }
+
+  const addEdge = (from: string, to: string) => {
+    if (from === to) {
+      return;
+    }
+    nodes.get(to)!.dependencies.add(from);
+    nodes.get(from)!.dependents.add(to);
+  };
+
+  for (const phase of definition.workflow.phases) {
+    for (const dependencyId of phase.dependsOn ?? []) {
+      const dependency = phases.get(dependencyId);
+      if (!dependency) {
+        throw new WorkflowGraphError(`Phase '${phase.id}' depends on unknown phase '${dependencyId}'`);
+      }
+      for (const upstream of dependency.tasks) {
+        for (const task of phase.tasks) {
+          addEdge(upstream.id, task.id);
+        }
+      }
+    }
+
+    phase.tasks.forEach((task, index) => {
+      if (!phase.parallel && index > 0) {
+        addEdge(phase.tasks[index - 1].id, task.id);
+      }
+
+      for (const dependencyId of task.dependsOn ?? []) {
+        if (!nodes.has(dependencyId)) {
+          throw new WorkflowGraphError(`Task '${task.id}' depends on unknown task '${dependencyId}'`);
+        }
+        addEdge(dependencyId, task.id);
+      }
+
+      // Unknown task references are left for interpolation to report
+      for (const referencedId of referencedTaskIds(task.inputs)) {
+        if (nodes.has(referencedId)) {
+          addEdge(referencedId, task.id);
+        }
+      }
+    });
+  }
+
+  const cycle = findCycle(nodes);
+  if (cycle) {
+    throw new WorkflowGraphError(`Dependency cycle: ${cycle.join(' -> ')}`, cycle);
+  }
+
+  return { nodes, order: topologicalOrder(nodes) };
+}
+
+/**
+ * Return one dependency cycle as a list of task ids (first id repeated at the
+ * end), or null when the graph is acyclic.
+ */
+export function findCycle(nodes: Map<string, { dependencies: Set<string> }>): string[] | null {
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (visiting.has(id)) {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+    if (visited.has(id)) {
+      return null;
+    }
+
+    visiting.add(id);
+    stack.push(id);
+    for (const dependency of nodes.get(id)?.dependencies ?? []) {
+      const cycle = visit(dependency);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    stack.pop();
+    visiting.delete(id);
+    visited.add(id);
+    return null;
+  };
+
+  for (const id of nodes.keys()) {
+    const cycle = visit(id);
+    if (cycle) {
+      return cycle.reverse();
+    }
+  }
+
+  return null;
+}
+
+function topologicalOrder(nodes: Map<string, WorkflowTaskNode>): string[] {
+  const remaining = new Map<string, number>();
+  for (const [id, node] of nodes) {
+    remaining.set(id, node.dependencies.size);
+  }
+
+  const ready = Array.from(remaining.entries())
+    .filter(([, count]) => count === 0)
+    .map(([id]) => id);
+  const order: string[] = [];
+
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const dependent of nodes.get(id)!.dependents) {
+      const count = remaining.get(dependent)! - 1;
+      remaining.set(dependent, count);
+      if (count === 0) {
+        ready.push(dependent);
+      }
+    }
+  }
+
+  return order;
+}
@@ -0,0 +1,15 @@
+/**
+ * Workflow definitions and the engine that executes them.
+ *
+ * The editor diagnostics provider lives in ./diagnostics and is not
+ * re-exported here, so this module stays usable outside VS Code.
+ */
+
+export * from './types';
+export * from './loader';
+export * from './validator';
+export * from './json-location';
+export * from './graph';
+export * from './interpolation';
+export * from './runner';
+export * from './checkpoint';
@@ -0,0 +1,166 @@
+/**
+ * Resolution of ${...} references inside workflow task inputs.
+ *
+ * Supported roots:
+ * - ${workflow.input.<name>}          caller supplied workflow inputs
+ * - ${context.<path>}                 project/workspace context
+ * - ${tasks.<id>.outputs[.<name>]}    outputs of an earlier task
+ */
+
+const REFERENCE_PATTERN = /\$\{([^}]+)\}/g;
+const WHOLE_REFERENCE_PATTERN = /^\$\{([^}]+)\}$/;
+
+export interface InterpolationScope {
+  workflow: { input: Record<string, unknown> };
+  context: Record<string, unknown>;
+  tasks: Record<string, { outputs: Record<string, unknown> }>;
+}
+
+export interface WorkflowReference {
+  /** Full expression without the ${} wrapper, e.g. 'tasks.a.outputs.b' */
+  expression: string;
+  root: string;
+  segments: string[];
+}
+
+export class InterpolationError extends Error {
+  constructor(message: string, public expression: string) {
+    super(message);
+    this.name = 'InterpolationError';
+  }
+}
+
+/**
+ * Collect every ${...} reference found in a value, walking objects and arrays.
+ */
+export function findReferences(value: unknown): WorkflowReference[] {
+  const references: WorkflowReference[] = [];
+
+  visitStrings(value, text => {
+    for (const match of text.matchAll(REFERENCE_PATTERN)) {
+      references.push(parseReference(match[1]));
+    }
+  });
+
+  return references;
+}
+
+/**
+ * Task ids referenced through ${tasks.<id>...} expressions.
+ */
+export function referencedTaskIds(value: unknown): string[] {
+  const ids = findReferences(value)
+    .filter(reference => reference.root === 'tasks' && reference.segments.length > 0)
+    .map(reference => reference.segments[0]);
+
+  return Array.from(new Set(ids));
+}
+
+export function parseReference(expression: string): WorkflowReference {
+  const [root, ...segments] = expression.trim().split('.');
+  return { expression: expression.trim(), root, segments };
+}
+
+/**
+ * Replace references in a value. A string that consists of a single reference
+ * takes the referenced value as-is; references embedded in longer strings are
+ * stringified.
+ */
+export function interpolate(value: unknown, scope: InterpolationScope): unknown {
+  if (typeof value === 'string') {
+    return interpolateString(value, scope);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => interpolate(item, scope));
+  }
+
+  if (isPlainObject(value)) {
+    const resolved: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      resolved[key] = interpolate(item, scope);
+    }
+    return resolved;
+  }
+
+  return value;
+}
+
+/**
+ * Resolve a single reference against the scope.
+ */
+export function resolveReference(reference: WorkflowReference, scope: InterpolationScope): unknown {
+  switch (reference.root) {
+    case 'workflow': {
+      const [section, ...path] = reference.segments;
+      if (section !== 'input') {
+        throw new InterpolationError(`Unknown workflow reference '${reference.expression}'`, reference.expression);
+      }
+      return getPath(scope.workflow.input, path);
+    }
+
+    case 'context':
+      return getPath(scope.context, reference.segments);
+
+    case 'tasks': {
+      const [taskId, section, ...path] = reference.segments;
+      const task = scope.tasks[taskId];
+      if (!task) {
+        throw new InterpolationError(`Task '${taskId}' has not produced outputs`, reference.expression);
+      }
+      if (section !== 'outputs') {
+        throw new InterpolationError(`Only task outputs can be referenced, got '${reference.expression}'`, reference.expression);
+      }
+      if (path.length > 0 && !(path[0] in task.outputs)) {
+        throw new InterpolationError(`Task '${taskId}' has no output '${path[0]}'`, reference.expression);
+      }
+      return getPath(task.outputs, path);
+    }
+
+    default:
+      throw new InterpolationError(`Unknown reference root '${reference.root}'`, reference.expression);
+  }
+}
+
+function interpolateString(text: string, scope: InterpolationScope): unknown {
+  const whole = WHOLE_REFERENCE_PATTERN.exec(text);
+  if (whole) {
+    return resolveReference(parseReference(whole[1]), scope);
+  }
+
+  return text.replace(REFERENCE_PATTERN, (_match, expression: string) =>
+    stringify(resolveReference(parseReference(expression), scope))
+  );
+}
+
+function getPath(source: unknown, path: string[]): unknown {
+  let current = source;
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function visitStrings(value: unknown, visit: (text: string) => void): void {
+  if (typeof value === 'string') {
+    visit(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => visitStrings(item, visit));
+  } else if (isPlainObject(value)) {
+    Object.values(value).forEach(item => visitStrings(item, visit));
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,170 @@
+/**
+ * Minimal JSON parser that keeps source offsets, so validation issues
+ * reported as JSON paths ('$.workflow.phases[0].id') can be mapped back to
+ * a range in the original text.
+ */
+
+export interface JsonNode {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+  offset: number;
+  length: number;
+
+  /** Object members, keyed by property name */
+  properties?: Map<string, { keyOffset: number; keyLength: number; value: JsonNode }>;
+
+  /** Array elements */
+  items?: JsonNode[];
+}
+
+export interface JsonRange {
+  offset: number;
+  length: number;
+}
+
+export class JsonParseError extends Error {
+  constructor(message: string, public offset: number) {
+    super(message);
+    this.name = 'JsonParseError';
+  }
+}
+
+export function parseJsonTree(text: string): JsonNode {
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new JsonParseError(`${message} at offset ${position}`, position);
+  };
+
+  const skipWhitespace = () => {
+    while (position < text.length && /\s/.test(text[position])) {
+      position++;
+    }
+  };
+
+  const parseString = (): JsonNode => {
+    const start = position;
+    position++; // opening quote
+    while (position < text.length && text[position] !== '"') {
+      position += text[position] === '\\' ? 2 : 1;
+    }
+    if (position >= text.length) {
+      fail('Unterminated string');
+    }
+    position++; // closing quote
+    return { type: 'string', offset: start, length: position - start };
+  };
+
+  const parseValue = (): JsonNode => {
+    skipWhitespace();
+    const start = position;
+    const char = text[position];
+
+    if (char === '{') {
+      position++;
+      const properties = new Map<string, { keyOffset: number; keyLength: number; value: JsonNode }>();
+      skipWhitespace();
+      if (text[position] === '}') {
+        position++;
+        return { type: 'object', offset: start, length: position - start, properties };
+      }
+      while (true) {
+        skipWhitespace();
+        if (text[position] !== '"') {
+          fail('Expected property name');
+        }
+        const key = parseString();
+        const name = JSON.parse(text.slice(key.offset, key.offset + key.length)) as string;
+        skipWhitespace();
+        if (text[position] !== ':') {
+          fail('Expected ":"');
+        }
+        position++;
+        properties.set(name, { keyOffset: key.offset, keyLength: key.length, value: parseValue() });
+        skipWhitespace();
+        if (text[position] === ',') {
+          position++;
+          continue;
+        }
+        if (text[position] === '}') {
+          position++;
+          return { type: 'object', offset: start, length: position - start, properties };
+        }
+        fail('Expected "," or "}"');
+      }
+    }
+
+    if (char === '[') {
+      position++;
+      const items: JsonNode[] = [];
+      skipWhitespace();
+      if (text[position] === ']') {
+        position++;
+        return { type: 'array', offset: start, length: position - start, items };
+      }
+      while (true) {
+        items.push(parseValue());
+        skipWhitespace();
+        if (text[position] === ',') {
+          position++;
+          continue;
+        }
+        if (text[position] === ']') {
+          position++;
+          return { type: 'array', offset: start, length: position - start, items };
+        }
+        fail('Expected "," or "]"');
+      }
+    }
+
+    if (char === '"') {
+      return parseString();
+    }
+
+    const literal = /^(true|false|null|-?\d+(\.\d+)?([eE][+-]?\d+)?)/.exec(text.slice(position));
+    if (!literal) {
+      fail('Unexpected token');
+    }
+    position += literal![0].length;
+    const type = literal![1] === 'null' ? 'null' : literal![1] === 'true' || literal![1] === 'false' ? 'boolean' : 'number';
+    return { type, offset: start, length: position - start };
+  };
+
+  const root = parseValue();
+  skipWhitespace();
+  if (position < text.length) {
+    fail('Unexpected trailing content');
+  }
+  return root;
+}
+
+/**
+ * Split a JSON path such as '$.phases[0].tasks[2].id' into segments.
+ */
+export function parseJsonPath(path: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  const pattern = /\.([^.[\]]+)|\[(\d+)\]/g;
+  for (const match of path.replace(/^\$/, '').matchAll(pattern)) {
+    segments.push(match[1] !== undefined ? match[1] : Number(match[2]));
+  }
+  return segments;
+}
+
+/**
+ * Find the source range for a JSON path. Paths to missing properties point
+ * at the opening brace of the deepest object that exists.
+ */
+export function locateJsonPath(root: JsonNode, path: string): JsonRange {
+  let node = root;
+
+  for (const segment of parseJsonPath(path)) {
+    const next = typeof segment === 'number'
+      ? node.items?.[segment]
+      : node.properties?.get(segment)?.value;
+    if (!next) {
+      return { offset: node.offset, length: 1 };
+    }
+    node = next;
+  }
+
+  return { offset: node.offset, length: node.length };
+}
@@ -0,0 +1,28 @@
+import { promises as fs } from 'fs';
+import { assertValid } from '../types';
+import type { WorkflowDefinition } from './types';
+import { validateWorkflow } from './validator';
+
+/**
+ * Load and parse a workflow definition file.
+ */
+export async function loadWorkflow(filePath: string): Promise<WorkflowDefinition> {
+  const text = await fs.readFile(filePath, 'utf8');
+  return parseWorkflow(text, filePath);
+}
+
+/**
+ * Parse workflow JSON and validate it. Throws a ValidationError listing
+ * every problem found.
+ */
+export function parseWorkflow(text: string, source = 'workflow'): WorkflowDefinition {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Failed to parse ${source}: ${(error as Error).message}`);
+  }
+
+  assertValid(validateWorkflow(value), `workflow definition in ${source}`);
+  return value as WorkflowDefinition;
+}
@@ -0,0 +1,538 @@
+import { randomUUID } from 'crypto';
+import type { CancellationToken, DiscoveredTool, Task, ToolResponse, WorkspaceContext } from '../types';
+import { contextForTool } from '../context';
+import { fromTaskCheckpoint, toTaskCheckpoint } from './checkpoint';
+import type { WorkflowCheckpointStore } from './checkpoint';
+import { buildWorkflowGraph } from './graph';
+import type { WorkflowGraph } from './graph';
+import { interpolate } from './interpolation';
+import type { InterpolationScope } from './interpolation';
+import type {
+  WorkflowCheckpoint,
+  WorkflowDefinition,
+  WorkflowEvents,
+  WorkflowPhaseState,
+  WorkflowRunResult,
+  WorkflowRunStatus,
+  WorkflowTaskDefinition,
+  WorkflowTaskState
+} from './types';
+
+/**
+ * Orders the tools a workflow task should be tried on. The first entry is
+ * used first; later entries are fallbacks for retries.
+ */
+export type WorkflowToolSelector = (
+  task: WorkflowTaskDefinition,
+  tools: Map<string, DiscoveredTool>
+) => DiscoveredTool[];
+
+export interface WorkflowRunnerOptions {
+  /** Tools available to the workflow, keyed by id */
+  tools: Map<string, DiscoveredTool>;
+
+  /** Workspace context handed to every connector, trimmed to each tool's contextSize */
+  context: WorkspaceContext;
+
+  /** Override how tools are picked for a task */
+  selectTools?: WorkflowToolSelector;
+}
+
+export interface WorkflowRunOptions {
+  /** Values for ${workflow.input.*} */
+  input?: Record<string, unknown>;
+
+  /** Values for ${context.*}; defaults to project and workspace info */
+  variables?: Record<string, unknown>;
+
+  /** Override the workflow's maxConcurrency */
+  maxConcurrency?: number;
+
+  events?: Partial<WorkflowEvents>;
+
+  /** Where the run's state is saved after every task, so it can be resumed */
+  checkpoints?: WorkflowCheckpointStore;
+
+  /** Defaults to the resumed run's id, or a new one */
+  runId?: string;
+
+  /**
+   * Continue a checkpointed run. Tasks that succeeded keep their outputs
+   * unless their definition changed; the rest run again. Input and
+   * variables default to the checkpoint's.
+   */
+  resumeFrom?: WorkflowCheckpoint;
+
+  /** Task ids to run again even though they succeeded; their dependents run again too */
+  rerun?: string[];
+
+  /** Tool id to use per task id, instead of the selected tools */
+  toolOverrides?: Record<string, string>;
+
+  /**
+   * Stops the run: no further tasks start and running ones are cancelled.
+   * The checkpoint keeps what finished, so the run can be resumed.
+   */
+  cancellationToken?: CancellationToken;
+}
+
+/**
+ * Executes workflow definitions: builds the task DAG, runs ready tasks
+ * concurrently up to the configured limit, resolves ${...} inputs from
+ * earlier outputs and reports per-task status. Given a checkpoint store,
+ * the run is saved after every task so it can be resumed later.
+ */
+export class WorkflowRunner {
+  constructor(private options: WorkflowRunnerOptions) {}
+
+  async run(definition: WorkflowDefinition, runOptions: WorkflowRunOptions = {}): Promise<WorkflowRunResult> {
+    const graph = buildWorkflowGraph(definition);
+    const events = runOptions.events ?? {};
+    const cancellationToken = runOptions.cancellationToken;
+    const resumed = runOptions.resumeFrom;
+    const runId = runOptions.runId ?? resumed?.runId ?? randomUUID();
+    const startedAt = resumed ? new Date(resumed.startedAt) : new Date();
+
+    for (const taskId of [...runOptions.rerun ?? [], ...Object.keys(runOptions.toolOverrides ?? {})]) {
+      if (!graph.nodes.has(taskId)) {
+        throw new Error(`Workflow '${definition.id}' has no task '${taskId}'`);
+      }
+    }
+
+    const scope: InterpolationScope = {
+      workflow: { input: this.resolveWorkflowInputs(definition, runOptions.input ?? resumed?.input ?? {}) },
+      context: runOptions.variables ?? resumed?.variables ?? this.defaultVariables(),
+      tasks: {}
+    };
+
+    const tasks = new Map<string, WorkflowTaskState>();
+    for (const [taskId, node] of graph.nodes) {
+      tasks.set(taskId, { taskId, phaseId: node.phase.id, status: 'pending', attempts: 0 });
+    }
+    if (resumed) {
+      this.restore(resumed, definition, graph, tasks, scope, runOptions.rerun ?? []);
+    }
+
+    const phases = new Map<string, WorkflowPhaseState>();
+    for (const phase of definition.workflow.phases) {
+      const state: WorkflowPhaseState = { phaseId: phase.id, status: 'pending', taskIds: phase.tasks.map(task => task.id) };
+      phases.set(phase.id, state);
+      if (resumed) {
+        this.updatePhase(state, tasks, {});
+      }
+    }
+
+    // Saves are chained so checkpoints are written in order; a later save
+    // that succeeds makes up for one that failed
+    let saving = Promise.resolve();
+    let checkpointError: Error | undefined;
+    const checkpoint = (status: WorkflowRunStatus) => {
+      const store = runOptions.checkpoints;
+      if (!store) {
+        return;
+      }
+      const snapshot: WorkflowCheckpoint = {
+        runId,
+        workflowId: definition.id,
+        status,
+        definition,
+        input: scope.workflow.input,
+        variables: scope.context,
+        tasks: Array.from(tasks.values(), toTaskCheckpoint),
+        startedAt: startedAt.toISOString(),
+        updatedAt: new Date().toISOString()
+      };
+      saving = saving
+        .then(() => store.save(snapshot))
+        .then(() => {
+          checkpointError = undefined;
+        }, error => {
+          checkpointError = error instanceof Error ? error : new Error(String(error));
+        });
+    };
+    checkpoint('running');
+
+    const maxConcurrency = Math.max(1, runOptions.maxConcurrency ?? this.configuredConcurrency(definition));
+    const failFast = definition.configuration?.errorHandling?.strategy === 'fail-fast';
+    const running = new Map<string, Promise<void>>();
+    let halted = false;
+
+    const settle = (state: WorkflowTaskState) => {
+      events.onTaskComplete?.(state);
+      this.updatePhase(phases.get(state.phaseId)!, tasks, events);
+      checkpoint('running');
+    };
+
+    while (true) {
+      this.skipBlockedTasks(graph, tasks, settle);
+
+      if (!halted && !cancellationToken?.isCancellationRequested) {
+        for (const taskId of graph.order) {
+          if (running.size >= maxConcurrency) {
+            break;
+          }
+
+          const state = tasks.get(taskId)!;
+          if (state.status !== 'pending' || !this.isReady(graph, tasks, taskId)) {
+            continue;
+          }
+
+          state.status = 'running';
+          state.startedAt = new Date();
+          phases.get(state.phaseId)!.status = 'running';
+          events.onTaskStart?.(state);
+
+          const toolId = runOptions.toolOverrides?.[taskId];
+          const execution = this.executeTask(definition, graph, state, scope, toolId, cancellationToken).then(() => {
+            running.delete(taskId);
+            if (state.status === 'failed' && failFast) {
+              halted = true;
+            }
+            settle(state);
+          });
+          running.set(taskId, execution);
+        }
+      }
+
+      if (running.size === 0) {
+        break;
+      }
+
+      await Promise.race(running.values());
+    }
+
+    for (const state of tasks.values()) {
+      if (state.status === 'pending') {
+        state.status = 'skipped';
+        state.error = cancellationToken?.isCancellationRequested
+          ? 'Workflow run was cancelled'
+          : 'Workflow halted after an earlier failure';
+        settle(state);
+      }
+    }
+
+    const success = Array.from(tasks.values()).every(state => state.status === 'succeeded');
+    const result: WorkflowRunResult = {
+      workflowId: definition.id,
+      runId,
+      success,
+      status: success ? 'succeeded' : cancellationToken?.isCancellationRequested ? 'cancelled' : 'failed',
+      tasks,
+      phases,
+      startedAt,
+      completedAt: new Date()
+    };
+
+    checkpoint(result.status);
+    await saving;
+    if (checkpointError) {
+      result.checkpointError = checkpointError.message;
+    }
+
+    events.onWorkflowComplete?.(result);
+    return result;
+  }
+
+  /**
+   * Run one task, trying the selected tools in order until one succeeds or
+   * the retry budget is spent. Tools over their usage budget are skipped.
+   * With `toolId`, only that tool is tried. Cancellation stops the retries.
+   */
+  private async executeTask(
+    definition: WorkflowDefinition,
+    graph: WorkflowGraph,
+    state: WorkflowTaskState,
+    scope: InterpolationScope,
+    toolId?: string,
+    cancellationToken?: CancellationToken
+  ): Promise<void> {
+    const step = graph.nodes.get(state.taskId)!.task;
+
+    try {
+      state.resolvedInputs = interpolate(step.inputs ?? {}, scope) as Record<string, unknown>;
+    } catch (error) {
+      this.fail(state, (error as Error).message);
+      return;
+    }
+
+    const override = toolId !== undefined ? this.options.tools.get(toolId) : undefined;
+    if (toolId !== undefined && !override) {
+      this.fail(state, `Tool '${toolId}' is not available`);
+      return;
+    }
+
+    const candidates = override ? [override] : (this.options.selectTools ?? selectWorkflowTools)(step, this.options.tools);
+    if (candidates.length === 0) {
+      this.fail(state, `No available tool can handle task type '${step.type}'`);
+      return;
+    }
+
+    const task = this.buildTask(definition, state, step);
+    const maxAttempts = (definition.configuration?.errorHandling?.retryAttempts ?? 0) + 1;
+
+    const available = [...candidates];
+    for (let attempt = 0; attempt < maxAttempts && available.length > 0;) {
+      const tool = available[attempt % available.length];
+      state.attempts = attempt + 1;
+      state.toolId = tool.id;
+
+      let response: ToolResponse;
+      try {
+        response = await tool.connector.invoke(task, contextForTool(this.options.context, tool), { cancellationToken });
+      } catch (error) {
+        response = { success: false, error: (error as Error).message, toolId: tool.id };
+      }
+
+      state.response = response;
+      if (response.success) {
+        state.outputs = extractOutputs(step, response);
+        state.status = 'succeeded';
+        state.error = undefined;
+        state.completedAt = new Date();
+        scope.tasks[step.id] = { outputs: state.outputs };
+        return;
+      }
+
+      state.error = response.error ?? `Tool '${tool.id}' reported failure`;
+      if (cancellationToken?.isCancellationRequested) {
+        break;
+      }
+
+      // A tool over its budget is dropped without using up an attempt; a
+      // workflow over its budget cannot continue on any tool
+      const budgetScope = response.metadata?.budgetScope;
+      if (budgetScope === 'workflow') {
+        break;
+      }
+      if (budgetScope === 'tool') {
+        available.splice(available.indexOf(tool), 1);
+        continue;
+      }
+      attempt++;
+    }
+
+    this.fail(state, state.error!);
+  }
+
+  /**
+   * Bring back the tasks of a checkpointed run that need not run again:
+   * those that succeeded, whose definition is unchanged, that were not asked
+   * to rerun and whose upstream tasks are all kept too.
+   */
+  private restore(
+    checkpoint: WorkflowCheckpoint,
+    definition: WorkflowDefinition,
+    graph: WorkflowGraph,
+    tasks: Map<string, WorkflowTaskState>,
+    scope: InterpolationScope,
+    rerun: string[]
+  ): void {
+    if (checkpoint.workflowId !== definition.id) {
+      throw new Error(`Checkpoint ${checkpoint.runId} is a run of workflow '${checkpoint.workflowId}', not '${definition.id}'`);
+    }
+
+    const saved = new Map(checkpoint.tasks.map(task => [task.taskId, task]));
+    const previousSteps = new Map(checkpoint.definition.workflow.phases.flatMap(phase => phase.tasks).map(task => [task.id, task]));
+    const again = new Set(rerun);
+
+    for (const taskId of graph.order) {
+      const node = graph.nodes.get(taskId)!;
+      const previous = saved.get(taskId);
+      const keep = previous?.status === 'succeeded'
+        && !again.has(taskId)
+        && JSON.stringify(previousSteps.get(taskId)) === JSON.stringify(node.task)
+        && Array.from(node.dependencies).every(dependency => !again.has(dependency));
+
+      if (!keep) {
+        again.add(taskId);
+        continue;
+      }
+      tasks.set(taskId, { ...fromTaskCheckpoint(previous!), phaseId: node.phase.id });
+      scope.tasks[taskId] = { outputs: previous!.outputs ?? {} };
+    }
+  }
+
+  private buildTask(definition: WorkflowDefinition, state: WorkflowTaskState, step: WorkflowTaskDefinition): Task {
+    const inputs = state.resolvedInputs ?? {};
+    const inputLines = Object.entries(inputs)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([name, value]) => `- ${name}: ${typeof value === 'string' ? value : JSON.stringify(value)}`);
+
+    const description = inputLines.length > 0
+      ? `${step.description}\n\nInputs:\n${inputLines.join('\n')}`
+      : step.description;
+
+    return {
+      id: step.id,
+      type: step.type,
+      description,
+      context: this.options.context,
+      priority: 'medium',
+      metadata: {
+        workflowId: definition.id,
+        phaseId: state.phaseId,
+        inputs,
+        expectedOutputs: step.outputs ?? {},
+        preferredTools: step.preferredTools ?? [],
+        requiredCapabilities: step.requiredCapabilities ?? []
+      }
+    };
+  }
+
+  private fail(state: WorkflowTaskState, error: string): void {
+    state.status = 'failed';
+    state.error = error;
+    state.completedAt = new Date();
+  }
+
+  private isReady(graph: WorkflowGraph, tasks: Map<string, WorkflowTaskState>, taskId: string): boolean {
+    for (const dependency of graph.nodes.get(taskId)!.dependencies) {
+      if (tasks.get(dependency)!.status !== 'succeeded') {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Mark pending tasks whose upstream failed or was skipped as skipped.
+   */
+  private skipBlockedTasks(
+    graph: WorkflowGraph,
+    tasks: Map<string, WorkflowTaskState>,
+    settle: (state: WorkflowTaskState) => void
+  ): void {
+    for (const taskId of graph.order) {
+      const state = tasks.get(taskId)!;
+      if (state.status !== 'pending') {
+        continue;
+      }
+
+      const blocker = Array.from(graph.nodes.get(taskId)!.dependencies).find(dependency => {
+        const status = tasks.get(dependency)!.status;
+        return status === 'failed' || status === 'skipped';
+      });
+
+      if (blocker) {
+        state.status = 'skipped';
+        state.error = `Upstream task '${blocker}' did not succeed`;
+        settle(state);
+      }
+    }
+  }
+
+  private updatePhase(
+    phase: WorkflowPhaseState,
+    tasks: Map<string, WorkflowTaskState>,
+    events: Partial<WorkflowEvents>
+  ): void {
+    const statuses = phase.taskIds.map(taskId => tasks.get(taskId)!.status);
+    if (statuses.some(status => status === 'pending' || status === 'running')) {
+      return;
+    }
+
+    if (statuses.some(status => status === 'failed')) {
+      phase.status = 'failed';
+    } else if (statuses.length > 0 && statuses.every(status => status === 'skipped')) {
+      phase.status = 'skipped';
+    } else if (statuses.some(status => status === 'skipped')) {
+      phase.status = 'failed';
+    } else {
+      phase.status = 'succeeded';
+    }
+
+    events.onPhaseComplete?.(phase);
+  }
+
+  private resolveWorkflowInputs(
+    definition: WorkflowDefinition,
+    provided: Record<string, unknown>
+  ): Record<string, unknown> {
+    const resolved: Record<string, unknown> = { ...provided };
+    const missing: string[] = [];
+
+    for (const [name, input] of Object.entries(definition.inputs ?? {})) {
+      if (resolved[name] === undefined) {
+        if (input.default !== undefined) {
+          resolved[name] = input.default;
+        } else if (input.required) {
+          missing.push(name);
+        }
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new Error(`Missing required workflow input(s): ${missing.join(', ')}`);
+    }
+
+    return resolved;
+  }
+
+  private configuredConcurrency(definition: WorkflowDefinition): number {
+    const parallel = definition.configuration?.parallelExecution;
+    if (parallel && !parallel.enabled) {
+      return 1;
+    }
+    return parallel?.maxConcurrency ?? 3;
+  }
+
+  private defaultVariables(): Record<string, unknown> {
+    const { context } = this.options;
+    return {
+      project: { ...context.projectInfo },
+      workspace: {
+        root: context.workspaceRoot,
+        files: context.openFiles.map(file => file.path)
+      }
+    };
+  }
+}
+
+/**
+ * Default tool selection: preferred tools first (in the order listed), then
+ * any other healthy tool that handles the task type, ranked by how many of
+ * the required capabilities it advertises.
+ */
+export function selectWorkflowTools(
+  task: WorkflowTaskDefinition,
+  tools: Map<string, DiscoveredTool>
+): DiscoveredTool[] {
+  const healthy = Array.from(tools.values()).filter(tool => tool.isHealthy);
+  const preferred = (task.preferredTools ?? [])
+    .map(id => healthy.find(tool => tool.id === id))
+    .filter((tool): tool is DiscoveredTool => tool !== undefined);
+
+  const required = task.requiredCapabilities ?? [];
+  const matchCount = (tool: DiscoveredTool) => {
+    const offered = new Set<string>([...tool.capabilities.tasks, ...tool.capabilities.integrations]);
+    return required.filter(capability => offered.has(capability)).length;
+  };
+
+  const others = healthy
+    .filter(tool => !preferred.includes(tool) && tool.capabilities.tasks.includes(task.type))
+    .sort((a, b) => matchCount(b) - matchCount(a));
+
+  return [...preferred, ...others];
+}
+
+/**
+ * Map a tool response onto a task's declared outputs. A response whose data
+ * carries an `outputs` object (or keys named like the outputs) fills them
+ * directly; any output left over receives the whole response payload, which
+ * is how free-text tools satisfy their outputs.
+ */
+export function extractOutputs(task: WorkflowTaskDefinition, response: ToolResponse): Record<string, unknown> {
+  const data = response.data;
+  const source: Record<string, unknown> =
+    isObject(data) && isObject(data.outputs) ? data.outputs : isObject(data) ? data : {};
+
+  const outputs: Record<string, unknown> = {};
+  for (const name of Object.keys(task.outputs ?? {})) {
+    outputs[name] = name in source ? source[name] : data;
+  }
+  return outputs;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
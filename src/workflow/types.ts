@@ -0,0 +1,203 @@
+import type { TaskType, ToolResponse } from '../types';
+
+/**
+ * Shape of a workflow definition file (see examples/workflows).
+ */
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  version?: string;
+  author?: string;
+  tags?: string[];
+
+  workflow: {
+    phases: WorkflowPhase[];
+  };
+
+  /** Inputs the caller supplies, referenced as ${workflow.input.<name>} */
+  inputs?: Record<string, WorkflowInputDefinition>;
+
+  /** Descriptive outputs of the workflow as a whole */
+  outputs?: Record<string, WorkflowOutputDefinition>;
+
+  configuration?: WorkflowConfiguration;
+
+  metadata?: Record<string, unknown>;
+}
+
+export interface WorkflowPhase {
+  id: string;
+  name: string;
+  description?: string;
+
+  /** Run the phase's tasks concurrently (subject to their own dependsOn) */
+  parallel?: boolean;
+
+  /** Phases that must finish before this one starts */
+  dependsOn?: string[];
+
+  tasks: WorkflowTaskDefinition[];
+}
+
+export interface WorkflowTaskDefinition {
+  id: string;
+  type: TaskType;
+  description: string;
+
+  /** Tool ids to try first, in order */
+  preferredTools?: string[];
+
+  /** Capabilities a tool should offer to run this task */
+  requiredCapabilities?: string[];
+
+  /** Tasks that must finish before this one starts */
+  dependsOn?: string[];
+
+  /** Named inputs, values may contain ${...} references */
+  inputs?: Record<string, unknown>;
+
+  /** Declared outputs mapped to a description of what they hold */
+  outputs?: Record<string, string>;
+}
+
+export interface WorkflowInputDefinition {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  description?: string;
+  required?: boolean;
+  default?: unknown;
+  enum?: unknown[];
+}
+
+export interface WorkflowOutputDefinition {
+  description: string;
+  includes?: string[];
+}
+
+export interface WorkflowConfiguration {
+  adaptiveRouting?: {
+    enabled: boolean;
+    description?: string;
+  };
+  parallelExecution?: {
+    enabled: boolean;
+    maxConcurrency?: number;
+    description?: string;
+  };
+  errorHandling?: {
+    strategy: 'graceful' | 'fail-fast';
+    retryAttempts?: number;
+    description?: string;
+  };
+  qualityGates?: {
+    enabled: boolean;
+    requirements?: Record<string, unknown>;
+    description?: string;
+  };
+}
+
+export type WorkflowTaskStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export type WorkflowPhaseStatus = WorkflowTaskStatus;
+
+/**
+ * Runtime state of a single workflow task.
+ */
+export interface WorkflowTaskState {
+  taskId: string;
+  phaseId: string;
+  status: WorkflowTaskStatus;
+
+  /** Tool that produced the final response */
+  toolId?: string;
+
+  /** Inputs after ${...} interpolation */
+  resolvedInputs?: Record<string, unknown>;
+
+  /** Outputs extracted from the tool response */
+  outputs?: Record<string, unknown>;
+
+  response?: ToolResponse;
+  error?: string;
+  attempts: number;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface WorkflowPhaseState {
+  phaseId: string;
+  status: WorkflowPhaseStatus;
+  taskIds: string[];
+}
+
+export interface WorkflowRunResult {
+  workflowId: string;
+
+  /** Identifies the run's checkpoints */
+  runId: string;
+
+  success: boolean;
+
+  /** 'cancelled' when the run was stopped before every task succeeded */
+  status: Exclude<WorkflowRunStatus, 'running'>;
+
+  tasks: Map<string, WorkflowTaskState>;
+  phases: Map<string, WorkflowPhaseState>;
+  startedAt: Date;
+  completedAt: Date;
+
+  /** Why the latest checkpoint could not be saved; the run may not be resumable */
+  checkpointError?: string;
+}
+
+export type WorkflowRunStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * A task's state as saved in a checkpoint, with dates as ISO strings.
+ */
+export type WorkflowTaskCheckpoint = Omit<WorkflowTaskState, 'startedAt' | 'completedAt'> & {
+  startedAt?: string;
+  completedAt?: string;
+};
+
+/**
+ * Everything needed to resume a workflow run, saved after each task
+ * settles.
+ */
+export interface WorkflowCheckpoint {
+  runId: string;
+  workflowId: string;
+  status: WorkflowRunStatus;
+
+  /** The definition the run executed */
+  definition: WorkflowDefinition;
+
+  /** ${workflow.input.*} values, defaults applied */
+  input: Record<string, unknown>;
+
+  /** ${context.*} values */
+  variables: Record<string, unknown>;
+
+  tasks: WorkflowTaskCheckpoint[];
+
+  /** ISO timestamps */
+  startedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Workflow lifecycle callbacks.
+ */
+export interface WorkflowEvents {
+  /** Fired when a task is handed to a tool */
+  onTaskStart: (state: WorkflowTaskState) => void;
+
+  /** Fired when a task succeeds, fails or is skipped */
+  onTaskComplete: (state: WorkflowTaskState) => void;
+
+  /** Fired when every task of a phase has settled */
+  onPhaseComplete: (state: WorkflowPhaseState) => void;
+
+  /** Fired when the run finishes */
+  onWorkflowComplete: (result: WorkflowRunResult) => void;
+}
@@ -0,0 +1,324 @@
+import { TASK_TYPES, isTaskType } from '../types';
+import type { ValidationIssue, ValidationResult } from '../types';
+import { WorkflowGraphError, buildWorkflowGraph } from './graph';
+import { findReferences } from './interpolation';
+import type { WorkflowDefinition } from './types';
+
+/**
+ * Static validation of workflow definitions.
+ *
+ * Mirrors schemas/workflow.schema.json for the structural checks and adds
+ * the cross-references a schema cannot express: dependsOn ids, dependency
+ * cycles, ${tasks.x.outputs.y} references and declared workflow inputs.
+ * Every issue carries the JSON path of the offending value.
+ */
+
+const INPUT_TYPES = ['string', 'number', 'boolean', 'object', 'array'];
+const ERROR_STRATEGIES = ['graceful', 'fail-fast'];
+
+interface TaskLocation {
+  path: string;
+  phaseId: string;
+  outputs: Set<string>;
+}
+
+export function validateWorkflow(value: unknown): ValidationResult {
+  const structure = validateWorkflowStructure(value);
+  if (!isObject(value) || !isObject(value.workflow) || !Array.isArray(value.workflow.phases)) {
+    return structure;
+  }
+
+  const errors = [...structure.errors];
+  const phases = new Map<string, string>();
+  const tasks = new Map<string, TaskLocation>();
+  let referencesBroken = false;
+
+  value.workflow.phases.forEach((phase, phaseIndex) => {
+    if (!isObject(phase) || !Array.isArray(phase.tasks)) {
+      referencesBroken = true;
+      return;
+    }
+    const phasePath = `$.workflow.phases[${phaseIndex}]`;
+    if (typeof phase.id === 'string') {
+      if (phases.has(phase.id)) {
+        errors.push({ path: `${phasePath}.id`, message: `duplicate phase id '${phase.id}'` });
+        referencesBroken = true;
+      } else {
+        phases.set(phase.id, phasePath);
+      }
+    }
+
+    phase.tasks.forEach((task, taskIndex) => {
+      if (!isObject(task) || typeof task.id !== 'string') {
+        referencesBroken = true;
+        return;
+      }
+      const taskPath = `${phasePath}.tasks[${taskIndex}]`;
+      if (tasks.has(task.id)) {
+        errors.push({ path: `${taskPath}.id`, message: `duplicate task id '${task.id}' (first declared at ${tasks.get(task.id)!.path})` });
+        referencesBroken = true;
+        return;
+      }
+      tasks.set(task.id, {
+        path: taskPath,
+        phaseId: String(phase.id),
+        outputs: new Set(isObject(task.outputs) ? Object.keys(task.outputs) : [])
+      });
+    });
+  });
+
+  const declaredInputs = isObject(value.inputs) ? new Set(Object.keys(value.inputs)) : new Set<string>();
+
+  value.workflow.phases.forEach((phase, phaseIndex) => {
+    if (!isObject(phase)) {
+      return;
+    }
+    const phasePath = `$.workflow.phases[${phaseIndex}]`;
+
+    asStringArray(phase.dependsOn).forEach((dependency, index) => {
+      const path = `${phasePath}.dependsOn[${index}]`;
+      if (dependency === phase.id) {
+        errors.push({ path, message: `phase '${dependency}' depends on itself` });
+        referencesBroken = true;
+      } else if (!phases.has(dependency)) {
+        errors.push({ path, message: unknownIdMessage('phase', dependency, tasks.has(dependency) ? 'task' : undefined) });
+        referencesBroken = true;
+      }
+    });
+
+    if (!Array.isArray(phase.tasks)) {
+      return;
+    }
+    phase.tasks.forEach((task, taskIndex) => {
+      if (!isObject(task)) {
+        return;
+      }
+      const taskPath = `${phasePath}.tasks[${taskIndex}]`;
+
+      asStringArray(task.dependsOn).forEach((dependency, index) => {
+        const path = `${taskPath}.dependsOn[${index}]`;
+        if (dependency === task.id) {
+          errors.push({ path, message: `task '${dependency}' depends on itself` });
+          referencesBroken = true;
+        } else if (!tasks.has(dependency)) {
+          errors.push({ path, message: unknownIdMessage('task', dependency, phases.has(dependency) ? 'phase' : undefined) });
+          referencesBroken = true;
+        }
+      });
+
+      visitStrings(task.inputs, `${taskPath}.inputs`, (text, path) => {
+        for (const reference of findReferences(text)) {
+          const issue = checkReference(reference.root, reference.segments, reference.expression, task.id, tasks, phases, declaredInputs);
+          if (issue) {
+            errors.push({ path, message: issue });
+          }
+        }
+      });
+    });
+  });
+
+  // Cycle detection needs a well-formed id space; otherwise the errors above explain the problem
+  if (!referencesBroken) {
+    try {
+      buildWorkflowGraph(value as unknown as WorkflowDefinition);
+    } catch (error) {
+      if (error instanceof WorkflowGraphError && error.cycle) {
+        const first = tasks.get(error.cycle[0]);
+        errors.push({ path: first ? `${first.path}.id` : '$.workflow.phases', message: error.message });
+      } else {
+        errors.push({ path: '$.workflow.phases', message: (error as Error).message });
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Structural checks on an untyped workflow definition.
+ */
+export function validateWorkflowStructure(value: unknown): ValidationResult {
+  const errors: ValidationIssue[] = [];
+
+  if (!isObject(value)) {
+    return { valid: false, errors: [{ path: '$', message: 'must be an object' }] };
+  }
+
+  requireString(value, 'id', '$', errors);
+  requireString(value, 'name', '$', errors);
+
+  if (value.inputs !== undefined) {
+    if (!isObject(value.inputs)) {
+      errors.push({ path: '$.inputs', message: 'must be an object' });
+    } else {
+      for (const [name, input] of Object.entries(value.inputs)) {
+        const inputPath = `$.inputs.${name}`;
+        if (!isObject(input)) {
+          errors.push({ path: inputPath, message: 'must be an object' });
+        } else if (typeof input.type !== 'string' || !INPUT_TYPES.includes(input.type)) {
+          errors.push({ path: `${inputPath}.type`, message: `must be one of: ${INPUT_TYPES.join(', ')}` });
+        } else if (Array.isArray(input.enum) && input.default !== undefined && !input.enum.includes(input.default)) {
+          errors.push({ path: `${inputPath}.default`, message: 'must be one of the enum values' });
+        }
+      }
+    }
+  }
+
+  if (isObject(value.configuration) && isObject(value.configuration.errorHandling)) {
+    const strategy = value.configuration.errorHandling.strategy;
+    if (typeof strategy !== 'string' || !ERROR_STRATEGIES.includes(strategy)) {
+      errors.push({ path: '$.configuration.errorHandling.strategy', message: `must be one of: ${ERROR_STRATEGIES.join(', ')}` });
+    }
+  }
+
+  const phases = isObject(value.workflow) ? value.workflow.phases : undefined;
+  if (!Array.isArray(phases)) {
+    errors.push({ path: '$.workflow.phases', message: 'must be an array' });
+    return { valid: false, errors };
+  }
+
+  phases.forEach((phase, phaseIndex) => {
+    const phasePath = `$.workflow.phases[${phaseIndex}]`;
+    if (!isObject(phase)) {
+      errors.push({ path: phasePath, message: 'must be an object' });
+      return;
+    }
+
+    requireString(phase, 'id', phasePath, errors);
+    requireString(phase, 'name', phasePath, errors);
+    checkStringArray(phase, 'dependsOn', phasePath, errors);
+    if (phase.parallel !== undefined && typeof phase.parallel !== 'boolean') {
+      errors.push({ path: `${phasePath}.parallel`, message: 'must be a boolean' });
+    }
+
+    if (!Array.isArray(phase.tasks)) {
+      errors.push({ path: `${phasePath}.tasks`, message: 'must be an array' });
+      return;
+    }
+
+    phase.tasks.forEach((task, taskIndex) => {
+      const taskPath = `${phasePath}.tasks[${taskIndex}]`;
+      if (!isObject(task)) {
+        errors.push({ path: taskPath, message: 'must be an object' });
+        return;
+      }
+
+      requireString(task, 'id', taskPath, errors);
+      if (typeof task.id === 'string' && /[.${}]/.test(task.id)) {
+        errors.push({ path: `${taskPath}.id`, message: "must not contain '.', '$', '{' or '}'" });
+      }
+      requireString(task, 'description', taskPath, errors);
+      if (!isTaskType(task.type)) {
+        errors.push({
+          path: `${taskPath}.type`,
+          message: `unknown task type '${String(task.type)}', expected one of: ${TASK_TYPES.join(', ')}`
+        });
+      }
+      checkStringArray(task, 'dependsOn', taskPath, errors);
+      checkStringArray(task, 'preferredTools', taskPath, errors);
+      checkStringArray(task, 'requiredCapabilities', taskPath, errors);
+      if (task.inputs !== undefined && !isObject(task.inputs)) {
+        errors.push({ path: `${taskPath}.inputs`, message: 'must be an object' });
+      }
+      if (task.outputs !== undefined) {
+        if (!isObject(task.outputs)) {
+          errors.push({ path: `${taskPath}.outputs`, message: 'must be an object' });
+        } else {
+          for (const [name, description] of Object.entries(task.outputs)) {
+            if (typeof description !== 'string') {
+              errors.push({ path: `${taskPath}.outputs.${name}`, message: 'must be a string describing the output' });
+            }
+          }
+        }
+      }
+    });
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+function checkReference(
+  root: string,
+  segments: string[],
+  expression: string,
+  taskId: unknown,
+  tasks: Map<string, TaskLocation>,
+  phases: Map<string, string>,
+  declaredInputs: Set<string>
+): string | null {
+  switch (root) {
+    case 'context':
+      return segments.length === 0 ? `'\${${expression}}' must name a context property` : null;
+
+    case 'workflow':
+      if (segments[0] !== 'input' || segments.length < 2) {
+        return `'\${${expression}}' must have the form \${workflow.input.<name>}`;
+      }
+      return declaredInputs.has(segments[1])
+        ? null
+        : `'\${${expression}}' references undeclared workflow input '${segments[1]}'`;
+
+    case 'tasks': {
+      const [referencedId, section, output] = segments;
+      if (!referencedId) {
+        return `'\${${expression}}' must name a task`;
+      }
+      if (referencedId === taskId) {
+        return `'\${${expression}}' references the task's own outputs`;
+      }
+      const target = tasks.get(referencedId);
+      if (!target) {
+        return `'\${${expression}}' references ${unknownIdMessage('task', referencedId, phases.has(referencedId) ? 'phase' : undefined)}`;
+      }
+      if (section !== 'outputs') {
+        return `'\${${expression}}' must reference outputs, e.g. \${tasks.${referencedId}.outputs.<name>}`;
+      }
+      if (output !== undefined && !target.outputs.has(output)) {
+        return `'\${${expression}}' references output '${output}' that task '${referencedId}' does not declare`;
+      }
+      return null;
+    }
+
+    default:
+      return `'\${${expression}}' has unknown root '${root}', expected workflow, context or tasks`;
+  }
+}
+
+function unknownIdMessage(kind: 'task' | 'phase', id: string, actualKind?: 'task' | 'phase'): string {
+  return actualKind
+    ? `unknown ${kind} '${id}' ('${id}' is a ${actualKind} id)`
+    : `unknown ${kind} '${id}'`;
+}
+
+function visitStrings(value: unknown, path: string, visit: (text: string, path: string) => void): void {
+  if (typeof value === 'string') {
+    visit(value, path);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => visitStrings(item, `${path}[${index}]`, visit));
+  } else if (isObject(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      visitStrings(item, `${path}.${key}`, visit);
+    }
+  }
+}
+
+function requireString(target: Record<string, unknown>, key: string, path: string, errors: ValidationIssue[]): void {
+  if (typeof target[key] !== 'string' || target[key] === '') {
+    errors.push({ path: `${path}.${key}`, message: 'must be a non-empty string' });
+  }
+}
+
+function checkStringArray(target: Record<string, unknown>, key: string, path: string, errors: ValidationIssue[]): void {
+  const value = target[key];
+  if (value !== undefined && (!Array.isArray(value) || !value.every(item => typeof item === 'string'))) {
+    errors.push({ path: `${path}.${key}`, message: 'must be an array of strings' });
+  }
+}
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
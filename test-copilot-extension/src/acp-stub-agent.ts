@@ -0,0 +1,178 @@
+/**
+ * A minimal ACP agent for trying out the ACP connector without a real
+ * agent. It speaks newline-delimited JSON-RPC on stdin/stdout and, for each
+ * prompt, reports a plan and tool calls, reads the files it was given and
+ * answers with a summary of them. Prompts that mention "edit" ask for
+ * permission and then add a comment to the first file; prompts that
+ * mention "slow" wait until they are cancelled.
+ *
+ * Run with `node acp-stub-agent.js`; enable
+ * `aiOrchestration.acp.enableStubAgent` to have the extension start it.
+ */
+
+import * as readline from 'readline';
+import type { JsonRpcMessage, JsonRpcRequest } from '../../src/mcp';
+import type { ACPContentBlock, ACPPermissionOutcome, ACPSessionUpdate, ACPStopReason } from '../../src/acp';
+
+interface PendingRequest {
+    resolve(result: any): void;
+    reject(error: Error): void;
+}
+
+const pending = new Map<number, PendingRequest>();
+const cancelled = new Set<string>();
+let nextId = 1;
+let nextSession = 1;
+
+function send(message: JsonRpcMessage): void {
+    process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+function request(method: string, params: Record<string, any>): Promise<any> {
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        send({ jsonrpc: '2.0', id, method, params });
+    });
+}
+
+function update(sessionId: string, sessionUpdate: ACPSessionUpdate): void {
+    send({ jsonrpc: '2.0', method: 'session/update', params: { sessionId, update: sessionUpdate } });
+}
+
+function say(sessionId: string, text: string): void {
+    update(sessionId, { sessionUpdate: 'agent_message_chunk', content: { type: 'text', text } });
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Paths of the files the prompt embeds or links to */
+function promptFiles(prompt: ACPContentBlock[]): string[] {
+    return prompt.flatMap(block => {
+        const uri = block.type === 'resource' ? block.resource.uri : block.type === 'resource_link' ? block.uri : undefined;
+        return uri?.startsWith('file://') ? [decodeURIComponent(new URL(uri).pathname)] : [];
+    });
+}
+
+async function runPrompt(sessionId: string, prompt: ACPContentBlock[]): Promise<ACPStopReason> {
+    const text = prompt.map(block => block.type === 'text' ? block.text : '').join('\n');
+    const files = promptFiles(prompt);
+
+    update(sessionId, {
+        sessionUpdate: 'plan',
+        entries: [
+            { content: 'Read the files', priority: 'high', status: 'in_progress' },
+            { content: 'Answer', priority: 'medium', status: 'pending' }
+        ]
+    });
+    update(sessionId, { sessionUpdate: 'agent_thought_chunk', content: { type: 'text', text: `Looking at ${files.length} file(s)` } });
+
+    const summaries: string[] = [];
+    for (const [index, file] of files.entries()) {
+        const toolCallId = `read-${index}`;
+        update(sessionId, { sessionUpdate: 'tool_call', toolCallId, title: `Read ${file}`, kind: 'read', status: 'in_progress', locations: [{ path: file }] });
+        try {
+            const { content } = await request('fs/read_text_file', { sessionId, path: file });
+            summaries.push(`- ${file}: ${content.split('\n').length} lines`);
+            update(sessionId, { sessionUpdate: 'tool_call_update', toolCallId, status: 'completed' });
+        } catch (error) {
+            summaries.push(`- ${file}: could not read (${(error as Error).message})`);
+            update(sessionId, { sessionUpdate: 'tool_call_update', toolCallId, status: 'failed' });
+        }
+    }
+
+    if (/\bslow\b/i.test(text)) {
+        while (!cancelled.has(sessionId)) {
+            await delay(100);
+        }
+    }
+    if (cancelled.has(sessionId)) {
+        return 'cancelled';
+    }
+
+    if (/\bedit\b/i.test(text) && files.length > 0) {
+        const target = files[0];
+        const toolCall = { toolCallId: 'edit-0', title: `Add a comment to ${target}`, kind: 'edit' as const, status: 'pending' as const, locations: [{ path: target }] };
+        update(sessionId, { sessionUpdate: 'tool_call', ...toolCall });
+
+        const outcome: ACPPermissionOutcome = (await request('session/request_permission', {
+            sessionId,
+            toolCall,
+            options: [
+                { optionId: 'allow', name: 'Allow', kind: 'allow_once' },
+                { optionId: 'reject', name: 'Reject', kind: 'reject_once' }
+            ]
+        })).outcome;
+
+        if (outcome.outcome === 'cancelled') {
+            return 'cancelled';
+        }
+        if (outcome.optionId === 'allow') {
+            const { content } = await request('fs/read_text_file', { sessionId, path: target });
+            await request('fs/write_text_file', { sessionId, path: target, content: `${content.replace(/\n?$/, '\n')}// Reviewed by the ACP stub agent\n` });
+            update(sessionId, { sessionUpdate: 'tool_call_update', toolCallId: 'edit-0', status: 'completed' });
+            summaries.push(`- added a comment to ${target}`);
+        } else {
+            update(sessionId, { sessionUpdate: 'tool_call_update', toolCallId: 'edit-0', status: 'failed' });
+            summaries.push(`- edit of ${target} was not allowed`);
+        }
+    }
+
+    update(sessionId, {
+        sessionUpdate: 'plan',
+        entries: [
+            { content: 'Read the files', priority: 'high', status: 'completed' },
+            { content: 'Answer', priority: 'medium', status: 'in_progress' }
+        ]
+    });
+    say(sessionId, `Stub agent received: ${text.split('\n')[0]}\n\n`);
+    say(sessionId, summaries.length > 0 ? summaries.join('\n') : 'No files were attached.');
+    return 'end_turn';
+}
+
+async function handleRequest(message: JsonRpcRequest): Promise<unknown> {
+    const params = message.params ?? {};
+    switch (message.method) {
+        case 'initialize':
+            return {
+                protocolVersion: 1,
+                agentCapabilities: { loadSession: false, promptCapabilities: { embeddedContext: false } },
+                authMethods: [],
+                agentInfo: { name: 'acp-stub-agent', title: 'ACP Stub Agent', version: '0.0.1' }
+            };
+        case 'session/new':
+            return { sessionId: `stub-${nextSession++}` };
+        case 'session/prompt': {
+            cancelled.delete(params.sessionId);
+            return { stopReason: await runPrompt(params.sessionId, params.prompt) };
+        }
+        default:
+            throw Object.assign(new Error(`Method not found: ${message.method}`), { code: -32601 });
+    }
+}
+
+readline.createInterface({ input: process.stdin }).on('line', line => {
+    if (!line.trim()) {
+        return;
+    }
+    const message = JSON.parse(line);
+
+    if ('id' in message && !('method' in message)) {
+        const request = pending.get(message.id);
+        pending.delete(message.id);
+        if (message.error) {
+            request?.reject(new Error(message.error.message));
+        } else {
+            request?.resolve(message.result);
+        }
+    } else if ('id' in message) {
+        handleRequest(message).then(
+            result => send({ jsonrpc: '2.0', id: message.id, result }),
+            error => send({ jsonrpc: '2.0', id: message.id, error: { code: error.code ?? -32603, message: error.message } })
+        );
+    } else if (message.method === 'session/cancel') {
+        cancelled.add(message.params.sessionId);
+    }
+}).on('close', () => process.exit(0));
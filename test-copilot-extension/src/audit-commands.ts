@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import type { AuditEntry, AuditQuery, InvocationStatus, JsonlAuditLog } from '../../src/audit';
+
+export const QUERY_AUDIT_COMMAND = 'aiOrchestration.queryAuditLog';
+export const EXPORT_AUDIT_COMMAND = 'aiOrchestration.exportAuditLog';
+
+/** Entries listed by the query command */
+const MAX_LISTED_ENTRIES = 500;
+
+const STATUS_ICONS: Record<InvocationStatus, string> = {
+    success: '$(check)',
+    failure: '$(error)',
+    error: '$(error)',
+    cancelled: '$(circle-slash)'
+};
+
+interface AuditEntryItem extends vscode.QuickPickItem {
+    entry: AuditEntry;
+}
+
+/**
+ * Commands to search the audit log and to export it.
+ */
+export function registerAuditCommands(log: JsonlAuditLog): vscode.Disposable {
+    return vscode.Disposable.from(
+        vscode.commands.registerCommand(QUERY_AUDIT_COMMAND, () => queryAuditLog(log)),
+        vscode.commands.registerCommand(EXPORT_AUDIT_COMMAND, () => exportAuditLog(log))
+    );
+}
+
+async function queryAuditLog(log: JsonlAuditLog): Promise<void> {
+    const filter = await vscode.window.showInputBox({
+        title: 'Search the orchestration audit log',
+        prompt: 'Free text, plus any of tool:<id> file:<path> status:<success|failure|error|cancelled> since:<date> hash:<context hash>',
+        placeHolder: 'tool:continue file:src/api.ts'
+    });
+    if (filter === undefined) {
+        return;
+    }
+
+    const entries = await log.query({ ...parseAuditFilter(filter), limit: MAX_LISTED_ENTRIES });
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage('No audit entries match.');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(entries.reverse().map(toItem), {
+        title: `${entries.length} audit entr${entries.length === 1 ? 'y' : 'ies'}, newest first`,
+        matchOnDescription: true,
+        matchOnDetail: true
+    });
+    if (!picked) {
+        return;
+    }
+
+    // The invocation together with any edits applied from it
+    const invocationId = picked.entry.kind === 'invocation' ? picked.entry.id
+        : picked.entry.kind === 'edits' ? picked.entry.invocationId
+        : undefined;
+    const related = invocationId ? await log.query({ invocationId }) : [picked.entry];
+    const document = await vscode.workspace.openTextDocument({ language: 'json', content: JSON.stringify(related, null, 2) });
+    await vscode.window.showTextDocument(document, { preview: true });
+}
+
+async function exportAuditLog(log: JsonlAuditLog): Promise<void> {
+    const target = await vscode.window.showSaveDialog({
+        title: 'Export the orchestration audit log',
+        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri.with({
+            path: `${vscode.workspace.workspaceFolders[0].uri.path}/orchestration-audit.jsonl`
+        }),
+        filters: { 'JSON Lines': ['jsonl'], 'JSON': ['json'] }
+    });
+    if (!target) {
+        return;
+    }
+
+    const count = await log.export(target.fsPath, {}, target.fsPath.endsWith('.json') ? 'json' : 'jsonl');
+    vscode.window.showInformationMessage(`Exported ${count} audit entr${count === 1 ? 'y' : 'ies'} to ${vscode.workspace.asRelativePath(target)}.`);
+}
+
+/** `tool:x file:y status:z since:d hash:h` prefixes, the rest is free text */
+function parseAuditFilter(filter: string): AuditQuery {
+    const query: AuditQuery = {};
+    const text: string[] = [];
+
+    for (const part of filter.trim().split(/\s+/).filter(Boolean)) {
+        const [, key, value] = /^(\w+):(.+)$/.exec(part) ?? [];
+        switch (key) {
+            case 'tool':
+                query.toolId = value;
+                break;
+            case 'file':
+                query.file = value;
+                break;
+            case 'status':
+                query.status = value as InvocationStatus;
+                break;
+            case 'since':
+                query.since = value;
+                break;
+            case 'hash':
+                query.contextHash = value;
+                break;
+            default:
+                text.push(part);
+        }
+    }
+
+    if (text.length > 0) {
+        query.text = text.join(' ');
+    }
+    return query;
+}
+
+function toItem(entry: AuditEntry): AuditEntryItem {
+    const time = new Date(entry.timestamp).toLocaleString();
+
+    if (entry.kind === 'edits') {
+        return {
+            entry,
+            label: `$(edit) ${entry.toolId}: edits applied to ${entry.files.length} file${entry.files.length === 1 ? '' : 's'}`,
+            description: time,
+            detail: entry.files.map(file => `${file.path} (+${file.linesAdded} -${file.linesRemoved})`).join(', ')
+        };
+    }
+
+    if (entry.kind === 'redaction') {
+        return {
+            entry,
+            label: `$(shield) ${entry.toolId}: request redacted`,
+            description: `${time} · ${entry.taskType} · ${entry.trust}`,
+            detail: [
+                ...entry.redactions.map(redaction => `${redaction.rule} x${redaction.count}`),
+                ...entry.excludedFiles.map(file => `excluded ${file}`)
+            ].join(', ')
+        };
+    }
+
+    return {
+        entry,
+        label: `${STATUS_ICONS[entry.status]} ${entry.toolId}: ${entry.task.description.split('\n')[0]}`,
+        description: `${time} · ${entry.task.type} · ${entry.durationMs} ms`,
+        detail: [entry.error, entry.context.files.join(', '), `context ${entry.contextHash.slice(0, 12)}`]
+            .filter(Boolean)
+            .join(' · ')
+    };
+}
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { CompletionArbiter } from '../../src/completion';
+import type { RankedCompletion } from '../../src/completion';
+import type { DiscoveredTool } from '../../src/types';
+import type { OrchestrationServices } from './services';
+import type { CompletionSettings } from './settings';
+
+export const COMPLETION_ACCEPTED_COMMAND = 'aiOrchestration.completionAccepted';
+
+/** Asks the editor for inline completions, which would re-enter this provider */
+const INLINE_SUGGEST_COMMAND = 'editor.action.inlineSuggest.trigger';
+
+/** How much of the document around the cursor is sent to the sources */
+const MAX_PREFIX_CHARS = 6000;
+const MAX_SUFFIX_CHARS = 2000;
+
+/**
+ * An inline completion tagged with the tools that proposed it.
+ */
+export class OrchestratedCompletionItem extends vscode.InlineCompletionItem {
+    constructor(readonly completion: RankedCompletion, range: vscode.Range) {
+        super(completion.text, range, {
+            title: 'Completion accepted',
+            command: COMPLETION_ACCEPTED_COMMAND,
+            arguments: [completion.sources]
+        });
+    }
+}
+
+/**
+ * Asks every completion source at once and offers the best few answers.
+ * Extensions that complete through the editor's inline suggestions, like
+ * Copilot, are left out unless listed in the `completion.sources` setting:
+ * triggering them from here would just re-enter this provider. Accepted
+ * completions are recorded in the tool metrics, which rank the sources
+ * next time.
+ */
+export class OrchestratedInlineCompletionProvider implements vscode.InlineCompletionItemProvider {
+    private readonly arbiter: CompletionArbiter;
+
+    constructor(private readonly services: OrchestrationServices, settings: CompletionSettings) {
+        this.arbiter = new CompletionArbiter({
+            tools: () => services.discovery.getDiscoveredTools().values(),
+            isSource: tool => isCompletionSource(tool, settings.sources),
+            debounce: settings.debounce,
+            timeout: settings.timeout,
+            maxCompletions: settings.maxItems,
+            priorities: services.config.user.toolPriorities,
+            performance: services.metrics
+        });
+    }
+
+    register(): vscode.Disposable {
+        return vscode.Disposable.from(
+            vscode.languages.registerInlineCompletionItemProvider({ pattern: '**' }, this),
+            vscode.commands.registerCommand(COMPLETION_ACCEPTED_COMMAND, (sources: string[]) => this.services.metrics.recordAcceptance(sources))
+        );
+    }
+
+    async provideInlineCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _context: vscode.InlineCompletionContext,
+        token: vscode.CancellationToken
+    ): Promise<OrchestratedCompletionItem[]> {
+        const offset = document.offsetAt(position);
+        const text = document.getText();
+
+        const completions = await this.arbiter.complete({
+            filePath: document.uri.fsPath,
+            language: document.languageId,
+            position: { line: position.line, character: position.character },
+            prefix: text.slice(Math.max(0, offset - MAX_PREFIX_CHARS), offset),
+            suffix: text.slice(offset, offset + MAX_SUFFIX_CHARS),
+            workspaceRoot: vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath
+        }, token);
+
+        return completions.map(completion => new OrchestratedCompletionItem(completion, new vscode.Range(position, position)));
+    }
+}
+
+function isCompletionSource(tool: DiscoveredTool, allowed: string[]): boolean {
+    if (allowed.length > 0) {
+        return allowed.includes(tool.id);
+    }
+    return tool.type !== 'vscode-extension' || !tool.capabilities.commands.includes(INLINE_SUGGEST_COMMAND);
+}
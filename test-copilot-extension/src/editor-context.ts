@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import { PROJECT_MANIFESTS, WorkspaceContextBuilder } from '../../src/context';
+import type { RecentEdit } from '../../src/context';
+import type { FileContext, WorkspaceContext } from '../../src/types';
+import type { ContextSettings } from './settings';
+
+/** Edited files remembered; only the newest few are sent */
+const MAX_TRACKED_EDITS = 50;
+
+/**
+ * Collects what the editor knows for a request (active editor, selection,
+ * open tabs, attached files and recent edits) and builds the context from
+ * it within the configured token budget.
+ */
+export class EditorContextCollector implements vscode.Disposable {
+    private readonly builder: WorkspaceContextBuilder;
+    private readonly recentEdits = new Map<string, number>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly settings: ContextSettings) {
+        this.builder = new WorkspaceContextBuilder({ maxRecentEdits: settings.maxRecentEdits });
+
+        const manifests = vscode.workspace.createFileSystemWatcher(`**/{${PROJECT_MANIFESTS.join(',')}}`);
+        const invalidate = () => this.builder.invalidateProjectInfo();
+        this.disposables.push(
+            manifests,
+            manifests.onDidChange(invalidate),
+            manifests.onDidCreate(invalidate),
+            manifests.onDidDelete(invalidate),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document.uri.scheme === 'file' && event.contentChanges.length > 0) {
+                    this.trackEdit(event.document.uri.fsPath);
+                }
+            })
+        );
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    /** Context for a request, with `extraFiles` (e.g. #file references) ranked just below the active file */
+    async collect(extraFiles: FileContext[] = []): Promise<WorkspaceContext> {
+        const editor = vscode.window.activeTextEditor;
+        const document = editor?.document;
+        const activeFile = document ? fileContext(document) : undefined;
+        const root = (document && vscode.workspace.getWorkspaceFolder(document.uri)) ?? vscode.workspace.workspaceFolders?.[0];
+
+        return this.builder.build({
+            workspaceRoot: root?.uri.fsPath ?? '',
+            activeFile,
+            selection: editor && document && !editor.selection.isEmpty
+                ? {
+                    filePath: document.uri.fsPath,
+                    start: { line: editor.selection.start.line, character: editor.selection.start.character },
+                    end: { line: editor.selection.end.line, character: editor.selection.end.character },
+                    text: document.getText(editor.selection)
+                }
+                : undefined,
+            referencedFiles: extraFiles,
+            openFiles: openTabDocuments().map(fileContext),
+            recentEdits: Array.from(this.recentEdits, ([path, editedAt]): RecentEdit => ({ path, editedAt }))
+        }, this.settings.maxTokens);
+    }
+
+    private trackEdit(path: string): void {
+        // Re-inserting keeps the map in edit order, oldest first
+        this.recentEdits.delete(path);
+        this.recentEdits.set(path, Date.now());
+        if (this.recentEdits.size > MAX_TRACKED_EDITS) {
+            this.recentEdits.delete(this.recentEdits.keys().next().value!);
+        }
+    }
+}
+
+/** Loaded documents shown in an editor tab */
+function openTabDocuments(): vscode.TextDocument[] {
+    const loaded = new Map(vscode.workspace.textDocuments.map(document => [document.uri.toString(), document]));
+    const documents: vscode.TextDocument[] = [];
+
+    for (const group of vscode.window.tabGroups.all) {
+        for (const tab of group.tabs) {
+            const document = tab.input instanceof vscode.TabInputText ? loaded.get(tab.input.uri.toString()) : undefined;
+            if (document && document.uri.scheme === 'file' && !documents.includes(document)) {
+                documents.push(document);
+            }
+        }
+    }
+    return documents;
+}
+
+function fileContext(document: vscode.TextDocument): FileContext {
+    return { path: document.uri.fsPath, content: document.getText(), language: document.languageId };
+}
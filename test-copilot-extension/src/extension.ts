@@ -1,4 +1,13 @@
 import * as vscode from 'vscode';
+// Not part of the workflow barrel, which has to load outside VS Code
+import { WorkflowDiagnosticsProvider } from '../../src/workflow/diagnostics';
+import { registerAuditCommands } from './audit-commands';
+import { OrchestratedInlineCompletionProvider } from './completion-provider';
+import { OrchestratorParticipant } from './orchestrator-participant';
+import { OrchestratorServer } from './orchestrator-server';
+import { createOrchestrationServices } from './services';
+import { loadCompletionSettings, loadMCPServerSettings } from './settings';
+import { registerWorkflowCommands } from './workflow-commands';
 
 export function activate(context: vscode.ExtensionContext) {
     // Test command to trigger Copilot suggestions
@@ -26,19 +35,28 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
-    // Register inline completion provider that could work with Copilot
-    const provider = vscode.languages.registerInlineCompletionItemProvider(
-        { pattern: '**' },
-        {
-            provideInlineCompletionItems: async (document, position, context, token) => {
-                // This is where we could potentially intercept or coordinate with Copilot
-                console.log('Inline completion requested at:', position);
-                return [];
-            }
-        }
+    const services = createOrchestrationServices(
+        (context.storageUri ?? context.globalStorageUri).fsPath,
+        context.workspaceState,
+        context.globalState
     );
+    context.subscriptions.push(disposable, services, registerAuditCommands(services.audit), registerWorkflowCommands(services));
+
+    // Inline completions from every completion-capable tool, ranked
+    const completionSettings = loadCompletionSettings();
+    if (completionSettings.enabled) {
+        context.subscriptions.push(new OrchestratedInlineCompletionProvider(services, completionSettings).register());
+    }
+
+    // Validation issues in workflow definitions, shown while they are edited
+    context.subscriptions.push(new WorkflowDiagnosticsProvider().register());
+
+    // @orchestrator in the chat view
+    const orchestrator = new OrchestratorParticipant(services);
+    context.subscriptions.push(orchestrator.register());
 
-    context.subscriptions.push(disposable, provider);
+    // The same tools for agents outside the editor, over MCP
+    context.subscriptions.push(new OrchestratorServer(services, loadMCPServerSettings(), context.secrets).register());
 }
 
 export function deactivate() {}
\ No newline at end of file
@@ -0,0 +1,353 @@
+import { randomUUID } from 'crypto';
+import * as vscode from 'vscode';
+import { contextForTool } from '../../src/context';
+import { recordAppliedEdits } from '../../src/audit';
+import { extractEditProposals } from '../../src/edits';
+import { applyFileChanges, fileChangesFromResponse } from '../../src/edits/workspace-edit';
+import { IntegrationEngine } from '../../src/orchestration';
+import { AdaptiveTaskRouter, classifyTask } from '../../src/routing';
+import { RoutingError } from '../../src/types';
+import type { DiscoveredTool, FileContext, OrchestrationConfig, RoutingPlan, Task, TaskType, ToolResponse } from '../../src/types';
+import { answerText } from '../../src/utils';
+import type { OrchestrationServices } from './services';
+
+export const PARTICIPANT_ID = 'aiOrchestration.orchestrator';
+export const APPLY_EDITS_COMMAND = 'aiOrchestration.applyEdits';
+
+/** Slash commands that fix the task type instead of classifying the prompt */
+const COMMAND_TASK_TYPES: Record<string, TaskType> = {
+    plan: 'planning',
+    implement: 'implementation',
+    review: 'analysis',
+    refactor: 'refactoring',
+    test: 'testing',
+    fix: 'debugging',
+    docs: 'documentation'
+};
+
+/** Task types whose answers are offered as edits */
+const EDIT_TASK_TYPES: TaskType[] = ['implementation', 'refactoring'];
+
+/** Responses kept so "apply edits" still works a few turns later */
+const MAX_KEPT_RESPONSES = 20;
+
+interface OrchestratorResultMetadata {
+    prompt: string;
+    taskType: TaskType;
+    responseId?: string;
+    toolId?: string;
+
+    /** Tools already asked for this prompt, for "ask another tool" */
+    triedTools: string[];
+
+    hasEdits: boolean;
+}
+
+/**
+ * The @orchestrator chat participant: classifies a request, routes it to the
+ * best discovered tool (or several, with aggressive parallelism), streams
+ * progress and the result, and offers to apply edits or ask another tool.
+ */
+export class OrchestratorParticipant implements vscode.Disposable {
+    private readonly config: OrchestrationConfig;
+    private readonly router: AdaptiveTaskRouter;
+    private readonly responses = new Map<string, ToolResponse>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly services: OrchestrationServices) {
+        this.config = services.config;
+        this.router = new AdaptiveTaskRouter(new Map(), this.config, {
+            performance: services.metrics,
+            budgets: services.budgets
+        });
+    }
+
+    register(): vscode.Disposable {
+        const participant = vscode.chat.createChatParticipant(PARTICIPANT_ID, (request, chatContext, stream, token) =>
+            this.handle(request, chatContext, stream, token)
+        );
+        participant.iconPath = new vscode.ThemeIcon('organization');
+        participant.followupProvider = {
+            provideFollowups: result => this.followups(result.metadata as OrchestratorResultMetadata | undefined)
+        };
+
+        this.disposables.push(
+            participant,
+            vscode.commands.registerCommand(APPLY_EDITS_COMMAND, (responseId: string) => this.applyEdits(responseId))
+        );
+        return this;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private async handle(
+        request: vscode.ChatRequest,
+        chatContext: vscode.ChatContext,
+        stream: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<vscode.ChatResult> {
+        stream.progress('Looking for available tools...');
+        await this.services.ready;
+        this.router.updateAvailableTools(this.services.discovery.getDiscoveredTools());
+
+        if (request.command === 'tools') {
+            stream.markdown(this.describeTools());
+            return {};
+        }
+
+        const previous = this.previousResult(chatContext);
+        if (request.command === 'apply') {
+            if (!previous?.responseId || !previous.hasEdits) {
+                stream.markdown('The previous answer has no edits to apply.');
+                return {};
+            }
+            const applied = await this.applyEdits(previous.responseId);
+            stream.markdown(applied ? 'Edits applied. Undo reverts them in every file at once.' : 'No edits were applied.');
+            return {};
+        }
+
+        const another = request.command === 'another' && previous !== undefined;
+        const prompt = another ? previous.prompt : request.prompt;
+        const taskType = another
+            ? previous.taskType
+            : COMMAND_TASK_TYPES[request.command ?? ''] ?? classifyTask(prompt).type;
+        const triedTools = another ? previous.triedTools : [];
+
+        const task = await this.buildTask(prompt, taskType, request.references);
+
+        let plan: RoutingPlan;
+        try {
+            plan = await this.router.routeTask(task);
+        } catch (error) {
+            if (error instanceof RoutingError) {
+                stream.markdown(`No available tool can handle **${taskType}** requests.\n\n${this.describeTools()}`);
+                return { errorDetails: { message: error.message } };
+            }
+            throw error;
+        }
+
+        const chain = [plan.primary, ...plan.fallbacks].filter(tool => !triedTools.includes(tool.id));
+        if (chain.length === 0) {
+            stream.markdown('Every tool that can handle this request has already answered it.');
+            return { metadata: { ...previous } };
+        }
+
+        if (this.config.user.showRoutingExplanations) {
+            stream.markdown(`> **${taskType}**: ${another ? `asking ${chain[0].name} this time` : plan.explanation}\n\n`);
+        }
+
+        const outcome = !another && plan.supporting.length > 0
+            ? await this.fanOut(task, [plan.primary, ...plan.supporting], stream, token)
+            : await this.runChain(task, chain, stream, token);
+
+        const metadata: OrchestratorResultMetadata = {
+            prompt,
+            taskType,
+            triedTools: [...triedTools, ...outcome.tried],
+            hasEdits: false
+        };
+        if (!outcome.response) {
+            return { metadata, errorDetails: { message: 'No tool could complete the request.' } };
+        }
+
+        const responseId = this.keep(outcome.response);
+        stream.markdown(responseMarkdown(outcome.response));
+
+        // Only whole files and diffs are offered; a snippet is usually code
+        // quoted to explain the answer, not meant to be written anywhere
+        const offersEdits = EDIT_TASK_TYPES.includes(taskType)
+            && extractEditProposals(outcome.response).some(proposal => proposal.kind === 'file' || proposal.kind === 'diff');
+        const changes = offersEdits ? await fileChangesFromResponse(outcome.response).catch(() => []) : [];
+        if (changes.length > 0) {
+            stream.button({
+                command: APPLY_EDITS_COMMAND,
+                title: `Review and apply edits (${changes.length} file${changes.length === 1 ? '' : 's'})`,
+                arguments: [responseId]
+            });
+        }
+
+        return { metadata: { ...metadata, responseId, toolId: outcome.response.toolId, hasEdits: changes.length > 0 } };
+    }
+
+    /**
+     * Try the tools in order until one succeeds, reporting failures as they
+     * happen.
+     */
+    private async runChain(
+        task: Task,
+        tools: DiscoveredTool[],
+        stream: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<{ response?: ToolResponse; tried: string[] }> {
+        const tried: string[] = [];
+
+        for (const tool of tools) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+
+            tried.push(tool.id);
+            stream.progress(`Asking ${tool.name}...`);
+
+            let response: ToolResponse;
+            try {
+                response = await tool.connector.invoke(task, contextForTool(task.context, tool), {
+                    cancellationToken: token,
+                    onProgress: progress => stream.progress(progress.message ?? `${tool.name}: ${progressText(progress.progress, progress.total)}`)
+                });
+            } catch (error) {
+                response = { success: false, error: (error as Error).message, toolId: tool.id };
+            }
+
+            if (response.success) {
+                return { response, tried };
+            }
+            stream.markdown(`*${tool.name} failed: ${response.error ?? 'unknown error'}.*\n\n`);
+        }
+
+        return { tried };
+    }
+
+    /**
+     * Ask the primary and supporting tools at once and keep the result most
+     * of them agree on.
+     */
+    private async fanOut(
+        task: Task,
+        tools: DiscoveredTool[],
+        stream: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<{ response?: ToolResponse; tried: string[] }> {
+        const names = new Map(tools.map(tool => [tool.id, tool.name]));
+        stream.progress(`Asking ${tools.map(tool => tool.name).join(', ')}...`);
+
+        const engine = new IntegrationEngine({
+            events: {
+                onToolResponse: (toolId, response) => stream.progress(
+                    `${names.get(toolId) ?? toolId} ${response.success ? 'answered' : `failed: ${response.error ?? 'unknown error'}`}`
+                )
+            }
+        });
+        const result = await engine.fanOut(task, task.context, tools, { strategy: 'majority-vote', cancellationToken: token });
+
+        if (result.conflicts.length > 0) {
+            stream.markdown(`*${result.conflicts[0].description}. ${result.summary}*\n\n`);
+        }
+        return { response: result.response, tried: result.results.map(entry => entry.toolId) };
+    }
+
+    private async applyEdits(responseId: string): Promise<boolean> {
+        const response = this.responses.get(responseId);
+        if (!response) {
+            vscode.window.showWarningMessage('That answer is no longer available; ask again to get fresh edits.');
+            return false;
+        }
+
+        try {
+            const changes = await fileChangesFromResponse(response);
+            const applied = await applyFileChanges(changes, { confirm: this.config.user.requireConfirmation });
+            if (applied) {
+                await recordAppliedEdits(this.services.audit, response, changes).catch(error => {
+                    console.error('Could not record applied edits:', error);
+                });
+            }
+            return applied;
+        } catch (error) {
+            vscode.window.showErrorMessage(`Could not apply edits: ${(error as Error).message}`);
+            return false;
+        }
+    }
+
+    private followups(metadata: OrchestratorResultMetadata | undefined): vscode.ChatFollowup[] {
+        if (!metadata?.responseId) {
+            return [];
+        }
+
+        const followups: vscode.ChatFollowup[] = [];
+        if (metadata.hasEdits) {
+            followups.push({ prompt: 'Apply the proposed edits', label: 'Apply edits', command: 'apply' });
+        }
+        followups.push({ prompt: metadata.prompt, label: 'Ask another tool', command: 'another' });
+        return followups;
+    }
+
+    /** Metadata of this participant's last answer in the conversation */
+    private previousResult(chatContext: vscode.ChatContext): OrchestratorResultMetadata | undefined {
+        for (let i = chatContext.history.length - 1; i >= 0; i--) {
+            const turn = chatContext.history[i];
+            if (turn instanceof vscode.ChatResponseTurn && turn.participant === PARTICIPANT_ID && turn.result.metadata) {
+                return turn.result.metadata as OrchestratorResultMetadata;
+            }
+        }
+        return undefined;
+    }
+
+    private keep(response: ToolResponse): string {
+        const responseId = randomUUID();
+        this.responses.set(responseId, response);
+        if (this.responses.size > MAX_KEPT_RESPONSES) {
+            this.responses.delete(this.responses.keys().next().value!);
+        }
+        return responseId;
+    }
+
+    private async buildTask(prompt: string, type: TaskType, references: readonly vscode.ChatPromptReference[]): Promise<Task> {
+        // Files attached with #file
+        const referenced: FileContext[] = [];
+        for (const reference of references) {
+            const uri = reference.value instanceof vscode.Uri
+                ? reference.value
+                : reference.value instanceof vscode.Location ? reference.value.uri : undefined;
+            if (uri && !referenced.some(file => file.path === uri.fsPath)) {
+                const document = await vscode.workspace.openTextDocument(uri);
+                referenced.push({ path: uri.fsPath, content: document.getText(), language: document.languageId });
+            }
+        }
+
+        return {
+            id: randomUUID(),
+            type,
+            description: prompt,
+            context: await this.services.context.collect(referenced),
+            priority: 'medium',
+            language: vscode.window.activeTextEditor?.document.languageId,
+            metadata: { source: 'chat' }
+        };
+    }
+
+    private describeTools(): string {
+        const tools = Array.from(this.services.discovery.getDiscoveredTools().values());
+        if (tools.length === 0) {
+            return 'No AI tools were found. Install a supported extension or declare MCP servers in `.vscode/mcp.json`.';
+        }
+
+        const rows = tools.map(tool =>
+            `| ${tool.name} | ${tool.type} | ${tool.capabilities.tasks.join(', ')} | ${tool.isHealthy ? 'healthy' : 'unavailable'} |`
+        );
+        return ['| Tool | Type | Tasks | Status |', '|---|---|---|---|', ...rows].join('\n');
+    }
+}
+
+/** Chat-ready markdown for a tool's answer */
+function responseMarkdown(response: ToolResponse): string {
+    const data = response.data;
+    const answer = answerText(data);
+    if (answer !== undefined) {
+        return answer;
+    }
+
+    if (typeof data === 'object' && data !== null) {
+        if (typeof data.code === 'string') {
+            return `\`\`\`${data.language ?? ''}\n${data.code}\n\`\`\``;
+        }
+        return `\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+    }
+
+    return '*The tool finished without returning any content.*';
+}
+
+function progressText(progress: number, total?: number): string {
+    return total ? `${Math.round((progress / total) * 100)}%` : `${progress}`;
+}
@@ -0,0 +1,98 @@
+import { randomBytes } from 'crypto';
+import * as vscode from 'vscode';
+import { MCPHttpServer, createOrchestratorMCPServer } from '../../src/mcp-server';
+import type { OrchestrationServices } from './services';
+import type { MCPServerSettings } from './settings';
+
+export const COPY_MCP_CONFIG_COMMAND = 'aiOrchestration.copyMCPServerConfig';
+
+/** Name outside agents know the server by */
+const SERVER_NAME = 'ai-orchestration';
+const TOKEN_KEY = 'aiOrchestration.mcpServer.token';
+
+/**
+ * Serves the orchestrator to agents outside the editor over MCP on a local
+ * port. Clients need the bearer token kept in the extension's secret
+ * storage; the copy command puts a ready-made client config on the
+ * clipboard.
+ */
+export class OrchestratorServer implements vscode.Disposable {
+    private http: MCPHttpServer | undefined;
+    private starting: Promise<void> | undefined;
+    private token: string | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly services: OrchestrationServices,
+        private readonly settings: MCPServerSettings,
+        private readonly secrets: vscode.SecretStorage
+    ) {}
+
+    register(): vscode.Disposable {
+        this.disposables.push(vscode.commands.registerCommand(COPY_MCP_CONFIG_COMMAND, () => this.copyConfig()));
+        if (this.settings.enabled) {
+            this.starting = this.start().catch(error => {
+                vscode.window.showErrorMessage(`Could not start the orchestrator MCP server: ${(error as Error).message}`);
+            });
+        }
+        return this;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        // A server closed while start() is still listening would keep the port
+        (this.starting ?? Promise.resolve())
+            .then(() => {
+                const http = this.http;
+                this.http = undefined;
+                return http?.close();
+            })
+            .catch(() => undefined);
+    }
+
+    private async start(): Promise<void> {
+        this.token = await this.secrets.get(TOKEN_KEY);
+        if (!this.token) {
+            this.token = randomBytes(32).toString('base64url');
+            await this.secrets.store(TOKEN_KEY, this.token);
+        }
+
+        const services = this.services;
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const server = createOrchestratorMCPServer({
+            discovery: services.discovery,
+            config: services.config,
+            metrics: services.metrics,
+            budgets: services.budgets,
+            checkpoints: services.workflowRuns,
+            ready: services.ready,
+            workspaceRoot,
+            collectContext: () => services.context.collect(),
+            redactContext: context => services.redactor.redact(
+                { type: 'general-purpose', description: '', context, priority: 'low' },
+                context,
+                SERVER_NAME,
+                this.settings.trust
+            ).context
+        });
+
+        this.http = new MCPHttpServer(server, { token: this.token, port: this.settings.port });
+        await this.http.start();
+    }
+
+    private async copyConfig(): Promise<void> {
+        const url = this.http?.url;
+        if (!url || !this.token) {
+            vscode.window.showWarningMessage('The orchestrator MCP server is not running. Turn on aiOrchestration.mcpServer.enabled first.');
+            return;
+        }
+
+        const config = {
+            mcpServers: {
+                [SERVER_NAME]: { type: 'http', url, headers: { Authorization: `Bearer ${this.token}` } }
+            }
+        };
+        await vscode.env.clipboard.writeText(JSON.stringify(config, null, 2));
+        vscode.window.showInformationMessage(`MCP client config for ${url} copied. It contains the access token; keep it private.`);
+    }
+}
@@ -0,0 +1,233 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import WebSocket = require('ws');
+import { CustomMCPConnector, createCustomMCPConfig } from '../../examples/mcp-connectors/custom-mcp-example';
+import { ACPConnector } from '../../src/acp';
+import { VSCodeACPHost } from '../../src/acp/vscode-host';
+import { JsonlAuditLog, recordRedaction, withAudit } from '../../src/audit';
+import { BudgetTracker, MementoBudgetStorage, withBudget } from '../../src/budget';
+import type { BudgetStatus } from '../../src/budget';
+import { CLI_TOOL_PRESETS, createCLIConnector } from '../../src/cli';
+import { ACPAgentProbe, CLIProbe, KNOWN_CLI_TOOLS, MCPConfigProbe, ToolDiscovery } from '../../src/discovery';
+import type { ACPAgentDefinition } from '../../src/discovery';
+import { ExtensionProbe } from '../../src/discovery/extension-probe';
+import { MementoMetricsStorage, ToolMetricsStore, withMetrics } from '../../src/metrics';
+import { DEFAULT_EXCLUDE_GLOBS, Redactor, defaultTrustLevel, withRedaction } from '../../src/redaction';
+import type { RedactionRecord, TrustLevel } from '../../src/redaction';
+import type { DiscoveredTool, OrchestrationConfig, RateLimit } from '../../src/types';
+import { FileCheckpointStore } from '../../src/workflow';
+import type { WorkflowCheckpointStore } from '../../src/workflow';
+import { EditorContextCollector } from './editor-context';
+import {
+    loadACPSettings,
+    loadAuditSettings,
+    loadBudgetSettings,
+    loadContextSettings,
+    loadOrchestrationConfig,
+    loadRedactionSettings
+} from './settings';
+
+/**
+ * State shared by the chat participant and the completion provider.
+ */
+export interface OrchestrationServices extends vscode.Disposable {
+    config: OrchestrationConfig;
+    discovery: ToolDiscovery;
+
+    /** Builds the workspace context sent with requests */
+    context: EditorContextCollector;
+
+    /** Every tool invocation, applied edit and redacted request */
+    audit: JsonlAuditLog;
+
+    /** Outcome and latency of every invocation, for routing and reporting */
+    metrics: ToolMetricsStore;
+
+    /** Rate limits and daily quotas per tool and workflow */
+    budgets: BudgetTracker;
+
+    /** Secret and excluded-file redaction applied to everything sent out */
+    redactor: Redactor;
+
+    /** Checkpoints of workflow runs, so they survive reloads */
+    workflowRuns: WorkflowCheckpointStore;
+
+    /** Settles once the first discovery pass is done */
+    ready: Promise<void>;
+}
+
+/**
+ * @param storageDirectory Where the audit log and workflow checkpoints are kept, normally the extension's storage path
+ * @param workspaceState Where tool metrics are kept between sessions
+ * @param globalState Where budget usage is kept; quotas apply across workspaces
+ */
+export function createOrchestrationServices(
+    storageDirectory: string,
+    workspaceState: vscode.Memento,
+    globalState: vscode.Memento
+): OrchestrationServices {
+    const config = loadOrchestrationConfig();
+    const auditSettings = loadAuditSettings();
+    const audit = new JsonlAuditLog({
+        directory: path.join(storageDirectory, 'audit'),
+        maxFileSize: auditSettings.maxFileSize * 1024 * 1024,
+        maxFiles: auditSettings.maxFiles
+    });
+    const budgetSettings = loadBudgetSettings();
+    const metrics = new ToolMetricsStore({
+        storage: new MementoMetricsStorage(workspaceState),
+        tokenPricing: budgetSettings.tokenPricing
+    });
+    const budgets = new BudgetTracker({
+        tools: budgetSettings.tools,
+        defaultToolLimits: budgetSettings.defaultTool,
+        workflows: budgetSettings.workflows,
+        tokenPricing: budgetSettings.tokenPricing,
+        warnAt: budgetSettings.warnAt,
+        maxQueueWait: budgetSettings.maxQueueWait,
+        declaredRateLimit: (toolId): RateLimit | undefined => discovery.getDiscoveredTools().get(toolId)?.capabilities.rateLimit,
+        storage: new MementoBudgetStorage(globalState)
+    });
+    budgets.on('budgetLow', status => {
+        vscode.window.showWarningMessage(`${describeBudget(status)} has used ${Math.round(status.used * 100)}% of its daily budget.`);
+    });
+    budgets.on('budgetExhausted', status => {
+        vscode.window.showWarningMessage(
+            `${describeBudget(status)} has ${status.exhaustedBecause} and will not be used again until ${status.resetsAt.toLocaleString()}.`
+        );
+    });
+    const redactionSettings = loadRedactionSettings();
+    const redactionLog = vscode.window.createOutputChannel('AI Orchestration: Redaction');
+    const redactor = new Redactor({
+        exclude: [...DEFAULT_EXCLUDE_GLOBS, ...redactionSettings.exclude],
+        events: {
+            onRedaction: record => {
+                if (record.redacted) {
+                    redactionLog.appendLine(describeRedaction(record));
+                    recordRedaction(audit, record).catch(error =>
+                        redactionLog.appendLine(`Could not write redaction to the audit log: ${(error as Error).message}`)
+                    );
+                }
+            }
+        }
+    });
+
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const trustOf = (tool: Pick<DiscoveredTool, 'id' | 'type' | 'endpoint'>): TrustLevel =>
+        redactionSettings.trust[tool.id] ?? defaultTrustLevel(tool);
+
+    const acpSettings = loadACPSettings();
+    const acpAgents: ACPAgentDefinition[] = [...acpSettings.agents];
+    if (acpSettings.enableStubAgent) {
+        acpAgents.push({
+            id: 'acp-stub',
+            name: 'ACP Stub Agent',
+            command: process.execPath,
+            args: [path.join(__dirname, 'acp-stub-agent.js')],
+            // process.execPath is VS Code itself; this makes it run as plain node
+            env: { ELECTRON_RUN_AS_NODE: '1' }
+        });
+    }
+
+    // Every request to a tool, from any feature, is redacted first and then
+    // audited, so the log records what the tool actually received and which
+    // requests its budget refused. Metrics time the tool alone
+    const discovery = new ToolDiscovery({
+        config: config.discovery,
+        healthCheckInterval: config.capabilities.healthCheckInterval,
+        wrapConnector: (connector, tool) => withRedaction(
+            withAudit(withBudget(withMetrics(connector, tool.id, metrics), tool.id, budgets), tool.id, audit),
+            tool.id,
+            redactor,
+            trustOf(tool)
+        ),
+        probes: [
+            new ExtensionProbe({ extensionWhitelist: config.discovery.extensionWhitelist }),
+            new MCPConfigProbe({
+                workspaceRoot,
+                createConnector: server => {
+                    switch (server.transport.type) {
+                        case 'stdio':
+                            return new CustomMCPConnector(createCustomMCPConfig({ transport: server.transport }));
+                        case 'websocket':
+                            // The extension host's Node has no global WebSocket
+                            return new CustomMCPConnector(createCustomMCPConfig({ transport: { ...server.transport, webSocket: WebSocket } }));
+                        default:
+                            return undefined;
+                    }
+                }
+            }),
+            // CLI agents we know how to run non-interactively
+            new CLIProbe({
+                candidates: KNOWN_CLI_TOOLS.filter(candidate => candidate.command in CLI_TOOL_PRESETS),
+                // Redacted contexts carry no usable root, so give them the workspace
+                createConnector: (candidate, executablePath) => createCLIConnector(candidate, executablePath, { cwd: workspaceRoot })
+            }),
+            // Agents the user configured, answering their file and permission
+            // requests through the editor; what they read is redacted too
+            new ACPAgentProbe({
+                agents: acpAgents,
+                createConnector: agent => {
+                    const trust = trustOf({ id: agent.id, type: 'acp-agent' });
+                    return new ACPConnector(agent.command, {
+                        id: agent.id,
+                        args: agent.args,
+                        env: agent.env,
+                        cwd: workspaceRoot,
+                        host: new VSCodeACPHost(agent.name ?? agent.id),
+                        isExcluded: filePath => workspaceRoot !== undefined && redactor.isExcluded(filePath, workspaceRoot),
+                        redactText: text => redactor.redactText(text, trust).text
+                    });
+                }
+            })
+        ]
+    });
+
+    const ready = Promise.all([
+        discovery.initializeDiscovery().catch(error => {
+            console.error('Tool discovery failed:', error);
+        }),
+        metrics.load().catch(error => {
+            console.error('Could not load tool metrics:', error);
+        }),
+        budgets.load().catch(error => {
+            console.error('Could not load budget usage:', error);
+        })
+    ]).then(() => undefined);
+
+    const context = new EditorContextCollector(loadContextSettings());
+
+    return {
+        config,
+        discovery,
+        context,
+        audit,
+        metrics,
+        budgets,
+        redactor,
+        workflowRuns: new FileCheckpointStore(path.join(storageDirectory, 'workflow-runs')),
+        ready,
+        dispose: () => {
+            context.dispose();
+            discovery.dispose();
+            metrics.dispose();
+            budgets.dispose();
+            redactionLog.dispose();
+        }
+    };
+}
+
+function describeBudget(status: BudgetStatus): string {
+    return `${status.scope === 'tool' ? 'Tool' : 'Workflow'} '${status.id}'`;
+}
+
+/** One log line per redacted request; the removed values are never logged */
+function describeRedaction(record: RedactionRecord): string {
+    const parts = record.findings.map(finding =>
+        `${finding.rule} x${finding.count} in ${finding.location}${finding.lines ? ` (line ${finding.lines.join(', ')})` : ''}`
+    );
+    if (record.excludedFiles.length > 0) {
+        parts.push(`excluded ${record.excludedFiles.join(', ')}`);
+    }
+    return `[${record.timestamp.toISOString()}] ${record.toolId} (${record.trust}, ${record.taskType}): ${parts.join('; ')}`;
+}
@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import type { BudgetLimits } from '../../src/budget';
+import type { OrchestrationConfig } from '../../src/types';
+import { DEFAULT_DISCOVERY_CONFIG } from '../../src/discovery';
+import type { ACPAgentDefinition } from '../../src/discovery';
+import type { TrustLevel } from '../../src/redaction';
+
+/** Settings section the orchestrator reads from */
+export const SETTINGS_SECTION = 'aiOrchestration';
+
+/**
+ * Build the orchestration config from the user's settings, with defaults for
+ * anything not set.
+ */
+export function loadOrchestrationConfig(): OrchestrationConfig {
+    const settings = vscode.workspace.getConfiguration(SETTINGS_SECTION);
+
+    return {
+        discovery: {
+            ...DEFAULT_DISCOVERY_CONFIG,
+            enableAutoDiscovery: settings.get('discovery.enableAutoDiscovery', DEFAULT_DISCOVERY_CONFIG.enableAutoDiscovery),
+            extensionWhitelist: settings.get('discovery.extensionWhitelist', DEFAULT_DISCOVERY_CONFIG.extensionWhitelist)
+        },
+        routing: {
+            preferredTools: settings.get('routing.preferredTools', {}),
+            fallbackBehavior: settings.get('routing.fallbackBehavior', 'graceful'),
+            parallelismLevel: settings.get('routing.parallelismLevel', 'conservative'),
+            maxConcurrentTasks: settings.get('routing.maxConcurrentTasks', 3)
+        },
+        capabilities: {
+            enableCapabilityTesting: true,
+            cacheDuration: 300000,
+            retestInterval: 300000,
+            healthCheckInterval: settings.get('capabilities.healthCheckInterval', 60000)
+        },
+        user: {
+            allowFallbacks: settings.get('user.allowFallbacks', true),
+            requireConfirmation: settings.get('user.requireConfirmation', true),
+            showRoutingExplanations: settings.get('user.showRoutingExplanations', true),
+            toolPriorities: settings.get('user.toolPriorities', {})
+        }
+    };
+}
+
+export interface CompletionSettings {
+    enabled: boolean;
+
+    /** Tool ids to ask; empty asks every completion-capable tool except command-driven extensions */
+    sources: string[];
+
+    debounce: number;
+    timeout: number;
+    maxItems: number;
+}
+
+export function loadCompletionSettings(): CompletionSettings {
+    const settings = vscode.workspace.getConfiguration(SETTINGS_SECTION);
+
+    return {
+        enabled: settings.get('completion.enabled', true),
+        sources: settings.get('completion.sources', []),
+        debounce: settings.get('completion.debounce', 150),
+        timeout: settings.get('completion.timeout', 2000),
+        maxItems: settings.get('completion.maxItems', 3)
+    };
+}
+
+export interface ContextSettings {
+    /** Token budget for the context of a request */
+    maxTokens: number;
+
+    maxRecentEdits: number;
+}
+
+export function loadContextSettings(): ContextSettings {
+    const settings = vscode.workspace.getConfiguration(SETTINGS_SECTION);
+
+    return {
+        maxTokens: settings.get('context.maxTokens', 32000),
+        maxRecentEdits: settings.get('context.maxRecentEdits', 5)
+    };
+}
+
+export interface RedactionSettings {
+    /** Globs of files never sent to a tool, on top of the built-in list */
+    exclude: string[];
+
+    /** Trust level per tool id, overriding the one derived from how the tool is reached */
+    trust: Record<string, TrustLevel>;
+}
+
+export function loadRedactionSettings(): RedactionSettings {
+    const settings = vscode.workspace.getConfiguration(SETTINGS_SECTION);
+
+    return {
+        exclude: settings.get('redaction.exclude', []),
+        trust: settings.get('redaction.trust', {})
+    };
+}
+
+export interface AuditSettings {
+    /** Size at which the audit log is rotated (MB) */
+    maxFileSize: number;
+
+    /** Rotated audit files kept */
+    maxFiles: number;
+}
+
+export function loadAuditSettings(): AuditSettings {
+    const settings = vscode.workspace.getConfiguration(SETTINGS_SECTION);
+
+    return {
+        maxFileSize: settings.get('audit.maxFileSize', 5),
+        maxFiles: settings.get('audit.maxFiles', 5)
+    };
+}
+
+export interface BudgetSettings {
+    /** Limits per tool id */
+    tools: Record<string, BudgetLimits>;
+
+    /** Limits for tools without their own entry */
+    defaultTool: BudgetLimits;
+
+    /** Limits per workflow id */
+    workflows: Record<string, BudgetLimits>;
+
+    /** Estimated cost per 1000 tokens, by tool id */
+    tokenPricing: Record<string, number>;
+
+    /** Share of a daily quota at which to warn */
+    warnAt: number;
+
+    /** Longest a request waits for a rate limit (ms) */
+    maxQueueWait: number;
+}
+
+export function loadBudgetSettings(): BudgetSettings {
+    const settings = vscode.workspace.getConfiguration(SETTINGS_SECTION);
+
+    return {
+        tools: settings.get('budgets.tools', {}),
+        defaultTool: settings.get('budgets.defaultTool', {}),
+        workflows: settings.get('budgets.workflows', {}),
+        tokenPricing: settings.get('budgets.tokenPricing', {}),
+        warnAt: settings.get('budgets.warnAt', 0.8),
+        maxQueueWait: settings.get('budgets.maxQueueWait', 60000)
+    };
+}
+
+export interface ACPSettings {
+    agents: ACPAgentDefinition[];
+
+    /** Offer the stub agent shipped with the extension */
+    enableStubAgent: boolean;
+}
+
+export function loadACPSettings(): ACPSettings {
+    const settings = vscode.workspace.getConfiguration(SETTINGS_SECTION);
+
+    return {
+        agents: settings.get('acp.agents', []),
+        enableStubAgent: settings.get('acp.enableStubAgent', false)
+    };
+}
+
+export interface MCPServerSettings {
+    /** Serve the orchestrator to outside agents over MCP */
+    enabled: boolean;
+
+    /** Local port; 0 picks a free one on every start */
+    port: number;
+
+    /** How much of the workspace context the server's clients may see */
+    trust: TrustLevel;
+}
+
+export function loadMCPServerSettings(): MCPServerSettings {
+    const settings = vscode.workspace.getConfiguration(SETTINGS_SECTION);
+
+    return {
+        enabled: settings.get('mcpServer.enabled', false),
+        port: settings.get('mcpServer.port', 47600),
+        trust: settings.get('mcpServer.trust', 'remote')
+    };
+}
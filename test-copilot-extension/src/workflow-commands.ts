@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { AdaptiveTaskRouter } from '../../src/routing';
+import { WorkflowRunner } from '../../src/workflow';
+import type { WorkflowCheckpoint, WorkflowRunOptions, WorkflowTaskCheckpoint } from '../../src/workflow';
+import type { OrchestrationServices } from './services';
+
+export const RESUME_WORKFLOW_COMMAND = 'aiOrchestration.resumeWorkflow';
+
+/** Runs listed by the resume command */
+const MAX_LISTED_RUNS = 50;
+
+const STATUS_ICONS: Record<WorkflowCheckpoint['status'], string> = {
+    running: '$(debug-pause)',
+    succeeded: '$(check)',
+    failed: '$(error)',
+    cancelled: '$(circle-slash)'
+};
+
+interface RunItem extends vscode.QuickPickItem {
+    run: WorkflowCheckpoint;
+}
+
+interface ActionItem extends vscode.QuickPickItem {
+    task?: WorkflowTaskCheckpoint;
+}
+
+interface ToolItem extends vscode.QuickPickItem {
+    toolId?: string;
+}
+
+/**
+ * Command to pick up a checkpointed workflow run: continue it where it
+ * stopped, or run one task again, optionally on another tool, keeping the
+ * work upstream of it.
+ */
+export function registerWorkflowCommands(services: OrchestrationServices): vscode.Disposable {
+    return vscode.commands.registerCommand(RESUME_WORKFLOW_COMMAND, () => resumeWorkflow(services));
+}
+
+async function resumeWorkflow(services: OrchestrationServices): Promise<void> {
+    const runs = (await services.workflowRuns.list()).slice(0, MAX_LISTED_RUNS);
+    if (runs.length === 0) {
+        vscode.window.showInformationMessage('No workflow runs have been checkpointed yet.');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(runs.map(toRunItem), {
+        title: 'Workflow runs, most recent first',
+        matchOnDescription: true,
+        matchOnDetail: true
+    });
+    if (!picked) {
+        return;
+    }
+
+    const run = picked.run;
+    const unfinished = run.tasks.filter(task => task.status !== 'succeeded').length;
+    const actions: ActionItem[] = [
+        ...(unfinished > 0 ? [{ label: '$(debug-continue) Resume', description: `${unfinished} task${unfinished === 1 ? '' : 's'} left` }] : []),
+        ...run.tasks
+            .filter(task => task.status === 'succeeded' || task.status === 'failed')
+            .map(task => ({
+                label: `$(refresh) Re-run ${task.taskId}`,
+                description: `${task.status}${task.toolId ? ` on ${task.toolId}` : ''}`,
+                task
+            }))
+    ];
+    const action = await vscode.window.showQuickPick(actions, { title: `${run.workflowId} (${run.runId})` });
+    if (!action) {
+        return;
+    }
+
+    const runOptions: WorkflowRunOptions = { resumeFrom: run };
+    if (action.task) {
+        const toolId = await pickTool(services, run, action.task);
+        if (toolId === null) {
+            return;
+        }
+        runOptions.rerun = [action.task.taskId];
+        runOptions.toolOverrides = toolId ? { [action.task.taskId]: toolId } : undefined;
+    }
+
+    await services.ready;
+    const tools = services.discovery.getDiscoveredTools();
+    const router = new AdaptiveTaskRouter(tools, services.config, {
+        performance: services.metrics,
+        budgets: services.budgets
+    });
+    const runner = new WorkflowRunner({
+        tools,
+        context: await services.context.collect(),
+        selectTools: router.toWorkflowToolSelector()
+    });
+
+    const result = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Workflow ${run.workflowId}`,
+        cancellable: true
+    }, (progress, token) => runner.run(run.definition, {
+        ...runOptions,
+        checkpoints: services.workflowRuns,
+        cancellationToken: token,
+        events: {
+            onTaskStart: state => progress.report({ message: `${state.taskId}...` })
+        }
+    }));
+
+    const failed = Array.from(result.tasks.values()).filter(state => state.status !== 'succeeded');
+    if (result.checkpointError) {
+        vscode.window.showErrorMessage(
+            `Workflow ${run.workflowId} could not be checkpointed and may not be resumable: ${result.checkpointError}`
+        );
+    }
+    if (result.success) {
+        vscode.window.showInformationMessage(`Workflow ${run.workflowId} succeeded.`);
+    } else if (result.status === 'cancelled') {
+        vscode.window.showInformationMessage(
+            `Workflow ${run.workflowId} was cancelled. Use AI Orchestration: Resume Workflow Run to continue it.`
+        );
+    } else {
+        vscode.window.showWarningMessage(
+            `Workflow ${run.workflowId} did not finish: ${failed.map(state => `${state.taskId} ${state.status}`).join(', ')}. ` +
+                'Use AI Orchestration: Resume Workflow Run to retry.'
+        );
+    }
+}
+
+/**
+ * Ask which tool should redo a task. Undefined lets the router choose;
+ * null means the user gave up.
+ */
+async function pickTool(services: OrchestrationServices, run: WorkflowCheckpoint, task: WorkflowTaskCheckpoint): Promise<string | undefined | null> {
+    const step = run.definition.workflow.phases.flatMap(phase => phase.tasks).find(candidate => candidate.id === task.taskId);
+    const tools = Array.from(services.discovery.getDiscoveredTools().values())
+        .filter(tool => tool.isHealthy && (!step || tool.capabilities.tasks.includes(step.type) || tool.capabilities.tasks.includes('general-purpose')));
+
+    const items: ToolItem[] = [
+        { label: '$(sparkle) Let the orchestrator choose' },
+        ...tools.map(tool => ({
+            label: tool.name,
+            description: tool.id === task.toolId ? `${tool.id}, used last time` : tool.id,
+            toolId: tool.id
+        }))
+    ];
+    const picked = await vscode.window.showQuickPick(items, { title: `Re-run ${task.taskId} with` });
+    return picked ? picked.toolId : null;
+}
+
+function toRunItem(run: WorkflowCheckpoint): RunItem {
+    const done = run.tasks.filter(task => task.status === 'succeeded').length;
+    return {
+        label: `${STATUS_ICONS[run.status]} ${run.definition.name}`,
+        description: `${run.status}, ${done}/${run.tasks.length} tasks done`,
+        detail: `${run.runId} - updated ${new Date(run.updatedAt).toLocaleString()}`,
+        run
+    };
+}
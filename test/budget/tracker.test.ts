@@ -0,0 +1,84 @@
+import * as assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { BudgetTracker, InMemoryBudgetStorage } from '../../src/budget';
+import type { BudgetTrackerOptions } from '../../src/budget';
+import { BudgetExceededError, RateLimitError } from '../../src/types';
+
+describe('BudgetTracker', () => {
+  let tracker: BudgetTracker;
+  const create = (options: BudgetTrackerOptions) => (tracker = new BudgetTracker(options));
+
+  afterEach(async () => {
+    await tracker.dispose();
+  });
+
+  it('counts requests and tokens per tool and workflow', async () => {
+    create({ tokenPricing: { claude: 2 } });
+
+    await tracker.acquire('claude', { workflowId: 'wf' });
+    tracker.record('claude', 500, 'wf');
+
+    assert.deepEqual(
+      { ...tracker.getStatus('tool', 'claude').usage, day: undefined },
+      { day: undefined, requests: 1, tokens: 500, cost: 1 }
+    );
+    assert.equal(tracker.getStatus('workflow', 'wf').usage.tokens, 500);
+  });
+
+  it('refuses requests once the daily quota is used up', async () => {
+    create({ tools: { claude: { tokensPerDay: 1000 } } });
+
+    tracker.record('claude', 1000);
+
+    assert.match(tracker.exhaustedReason('claude') ?? '', /used 1000 of 1000 tokens/);
+    await assert.rejects(tracker.acquire('claude'), (error: unknown) =>
+      error instanceof BudgetExceededError && error.scope === 'tool' && error.budgetId === 'claude'
+    );
+    await tracker.acquire('other');
+  });
+
+  it('applies a workflow quota to every tool', async () => {
+    create({ workflows: { wf: { tokensPerDay: 100 } } });
+
+    tracker.record('claude', 100, 'wf');
+
+    await assert.rejects(tracker.acquire('copilot', { workflowId: 'wf' }), (error: unknown) =>
+      error instanceof BudgetExceededError && error.scope === 'workflow'
+    );
+    await tracker.acquire('copilot');
+  });
+
+  it('warns once when a quota runs low and once when it runs out', () => {
+    create({ tools: { claude: { tokensPerDay: 100 } } });
+    const events: string[] = [];
+    tracker.on('budgetLow', status => events.push(`low ${status.used}`));
+    tracker.on('budgetExhausted', status => events.push(`exhausted ${status.used}`));
+
+    tracker.record('claude', 80);
+    tracker.record('claude', 10);
+    tracker.record('claude', 10);
+    tracker.record('claude', 10);
+
+    assert.deepEqual(events, ['low 0.8', 'exhausted 1']);
+  });
+
+  it('fails a request that would queue longer than maxQueueWait', async () => {
+    create({ tools: { claude: { requestsPerMinute: 1 } }, maxQueueWait: 1000 });
+
+    await tracker.acquire('claude');
+
+    await assert.rejects(tracker.acquire('claude'), RateLimitError);
+  });
+
+  it('persists usage through its storage', async () => {
+    const storage = new InMemoryBudgetStorage();
+    create({ storage });
+    tracker.record('claude', 42);
+    await tracker.flush();
+
+    const reloaded = create({ storage });
+    await reloaded.load();
+
+    assert.equal(reloaded.getStatus('tool', 'claude').usage.tokens, 42);
+  });
+});
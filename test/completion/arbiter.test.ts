@@ -0,0 +1,57 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CompletionArbiter } from '../../src/completion';
+import type { CompletionRequest } from '../../src/completion';
+import type { ToolPerformanceStats } from '../../src/routing';
+import { FakeConnector, fakeTool } from '../fakes';
+
+const request: CompletionRequest = {
+  filePath: '/workspace/a.ts',
+  language: 'typescript',
+  position: { line: 0, character: 10 },
+  prefix: 'const a = ',
+  suffix: ''
+};
+
+function source(id: string, completion: string) {
+  const connector = new FakeConnector(() => ({ success: true, toolId: id, data: { completion } }));
+  return { connector, tool: fakeTool(id, connector, ['completion']) };
+}
+
+describe('CompletionArbiter', () => {
+  it('ranks completions more sources agree on first', async () => {
+    const tools = [source('a', '1;'), source('b', '2;'), source('c', '2;')].map(entry => entry.tool);
+    const arbiter = new CompletionArbiter({ tools: () => tools, debounce: 0 });
+
+    const completions = await arbiter.complete(request);
+
+    assert.deepEqual(completions.map(completion => [completion.text, completion.sources]), [
+      ['2;', ['b', 'c']],
+      ['1;', ['a']]
+    ]);
+  });
+
+  it('prefers sources whose completions were accepted before', async () => {
+    const tools = [source('a', '1;'), source('b', '2;')].map(entry => entry.tool);
+    const stats: Record<string, ToolPerformanceStats> = {
+      a: { samples: 10, successRate: 1, averageLatencyMs: 0, acceptanceRate: 0.1 },
+      b: { samples: 10, successRate: 1, averageLatencyMs: 0, acceptanceRate: 0.9 }
+    };
+    const arbiter = new CompletionArbiter({ tools: () => tools, debounce: 0, performance: { getStats: toolId => stats[toolId] } });
+
+    const completions = await arbiter.complete(request);
+
+    assert.deepEqual(completions.map(completion => completion.text), ['2;', '1;']);
+  });
+
+  it('trims the context to the source\'s context size', async () => {
+    const { connector, tool } = source('a', '1;');
+    tool.capabilities.contextSize = 10;
+    const arbiter = new CompletionArbiter({ tools: () => [tool], debounce: 0 });
+
+    await arbiter.complete({ ...request, prefix: 'x'.repeat(5000) });
+
+    const [call] = connector.calls;
+    assert.ok(call.context.openFiles.every(file => file.content.length < 5000));
+  });
+});
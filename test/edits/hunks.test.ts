@@ -0,0 +1,65 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { applyHunks, computeHunks, formatUnifiedDiff } from '../../src/edits';
+
+describe('computeHunks', () => {
+  it('finds nothing to change in equal texts', () => {
+    assert.deepEqual(computeHunks('a\nb\n', 'a\nb\n'), []);
+  });
+
+  it('merges changes separated by a few unchanged lines', () => {
+    const original = 'a\nb\nc\nd\ne\n';
+    const hunks = computeHunks(original, 'A\nb\nc\nD\ne\n');
+    assert.equal(hunks.length, 1);
+    assert.deepEqual(hunks[0].removed, ['a', 'b', 'c', 'd']);
+    assert.deepEqual(hunks[0].added, ['A', 'b', 'c', 'D']);
+  });
+
+  it('keeps distant changes apart', () => {
+    const original = ['1', '2', '3', '4', '5', '6', '7', '8', '9'].join('\n');
+    const hunks = computeHunks(original, original.replace('1', 'one').replace('9', 'nine'), 3);
+    assert.deepEqual(hunks.map(hunk => hunk.id), ['hunk-1', 'hunk-2']);
+  });
+
+  it('treats a missing file as empty', () => {
+    const [hunk] = computeHunks(undefined, 'new');
+    assert.equal(hunk.originalLength, 0);
+    assert.deepEqual(hunk.added, ['new']);
+  });
+});
+
+describe('applyHunks', () => {
+  const original = 'one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nten\n';
+  const proposed = 'ONE\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nTEN\n';
+
+  it('applies every hunk to reach the proposed text', () => {
+    assert.equal(applyHunks(original, computeHunks(original, proposed)), proposed);
+  });
+
+  it('applies only the hunks it is given', () => {
+    const [first] = computeHunks(original, proposed);
+    assert.equal(applyHunks(original, [first]), original.replace('one', 'ONE'));
+  });
+
+  it('removes trailing lines without leaving an empty line', () => {
+    const text = 'a\nb\nc';
+    assert.equal(applyHunks(text, computeHunks(text, 'a')), 'a');
+  });
+
+  it('keeps CRLF line endings', () => {
+    const text = 'a\r\nb\r\nc\r\n';
+    assert.equal(applyHunks(text, computeHunks(text, 'a\r\nB\r\nc\r\n')), 'a\r\nB\r\nc\r\n');
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('renders headers, context and changes', () => {
+    const original = 'a\nb\nc\n';
+    const diff = formatUnifiedDiff('src/x.ts', original, computeHunks(original, 'a\nB\nc\n'), 1);
+    assert.equal(diff, ['--- a/src/x.ts', '+++ b/src/x.ts', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c'].join('\n'));
+  });
+
+  it('diffs a new file against /dev/null', () => {
+    assert.match(formatUnifiedDiff('n.ts', undefined, computeHunks(undefined, 'x')), /^--- \/dev\/null\n\+\+\+ b\/n.ts/);
+  });
+});
@@ -0,0 +1,125 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { extractEditProposals, resolveFileChanges } from '../../src/edits';
+import type { EditProposal } from '../../src/edits';
+import { PatchError } from '../../src/types';
+import type { ToolResponse } from '../../src/types';
+
+function response(data: unknown): ToolResponse {
+  return { success: true, toolId: 'fake', data };
+}
+
+function fence(info: string, code: string): string {
+  return '```' + info + '\n' + code + '\n```';
+}
+
+describe('extractEditProposals', () => {
+  it('reads file names from info strings and first-line comments', () => {
+    const text = [
+      'Two files:',
+      fence('ts src/a.ts', 'export const a = 1;'),
+      fence('python', '# file: tools/b.py\nB = 2')
+    ].join('\n\n');
+
+    assert.deepEqual(extractEditProposals(response(text)), [
+      { kind: 'file', path: 'src/a.ts', content: 'export const a = 1;' },
+      { kind: 'file', path: 'tools/b.py', content: 'B = 2' }
+    ]);
+  });
+
+  it('skips unnamed blocks when the response names no file', () => {
+    const text = `Use it like this:\n\n${fence('ts', 'call();')}`;
+
+    assert.deepEqual(extractEditProposals(response(text)), []);
+    assert.deepEqual(extractEditProposals(response({ code: 'call();' })), []);
+  });
+
+  it('uses the response file name for a single unnamed block', () => {
+    assert.deepEqual(extractEditProposals(response({ fileName: 'src/a.ts', result: fence('ts', 'const a = 2;') })), [
+      { kind: 'file', path: 'src/a.ts', content: 'const a = 2;' }
+    ]);
+    assert.deepEqual(extractEditProposals(response({ filePath: 'src/a.ts', code: 'const a = 3;' })), [
+      { kind: 'file', path: 'src/a.ts', content: 'const a = 3;' }
+    ]);
+  });
+
+  it('does not let several unnamed blocks overwrite the same file', () => {
+    const text = [fence('ts', 'first();'), fence('ts', 'second();'), fence('ts src/c.ts', 'third();')].join('\n\n');
+
+    assert.deepEqual(extractEditProposals(response({ fileName: 'src/a.ts', text })), [
+      { kind: 'file', path: 'src/c.ts', content: 'third();' }
+    ]);
+  });
+
+  it('turns code with the original it replaces into a snippet', () => {
+    const data = { originalCode: 'var x = 1;', changes: fence('js', 'const x = 1;') };
+
+    assert.deepEqual(extractEditProposals(response(data)), [
+      { kind: 'snippet', path: undefined, content: 'const x = 1;', original: 'var x = 1;' }
+    ]);
+  });
+
+  it('splits a multi-file unified diff', () => {
+    const diff = [
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1 +1 @@',
+      '-old',
+      '+new',
+      '--- a/src/gone.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-bye'
+    ].join('\n');
+
+    const proposals = extractEditProposals(response(`Here you go:\n\n${fence('diff', diff)}`));
+
+    assert.deepEqual(proposals.map(proposal => [proposal.kind, proposal.path, proposal.kind === 'diff' && proposal.deleted]), [
+      ['diff', 'src/a.ts', false],
+      ['diff', 'src/gone.ts', true]
+    ]);
+  });
+
+  it('reads structured file lists and skips entries without a path', () => {
+    const data = { files: [{ path: 'a.txt', content: 'A' }, { content: 'orphan' }] };
+
+    assert.deepEqual(extractEditProposals(response(data)), [{ kind: 'file', path: 'a.txt', content: 'A' }]);
+  });
+});
+
+describe('resolveFileChanges', () => {
+  const files: Record<string, string> = { 'src/a.ts': 'const a = 1;\nvar x = 1;\n' };
+  const readFile = async (path: string) => files[path];
+
+  it('applies proposals in order and keeps the final newline', async () => {
+    const proposals: EditProposal[] = [
+      { kind: 'file', path: 'src/a.ts', content: 'const a = 1;\nvar x = 1;' },
+      { kind: 'snippet', content: 'let x = 1;', original: 'var x = 1;' },
+      { kind: 'file', path: 'src/new.ts', content: 'new' }
+    ];
+
+    const changes = await resolveFileChanges(proposals, { readFile, defaultPath: 'src/a.ts', toolId: 'fake' });
+
+    assert.deepEqual(changes.map(change => [change.path, change.original, change.proposed, change.unnamed]), [
+      ['src/a.ts', 'const a = 1;\nvar x = 1;\n', 'const a = 1;\nlet x = 1;\n', true],
+      ['src/new.ts', undefined, 'new', undefined]
+    ]);
+  });
+
+  it('drops proposals that change nothing', async () => {
+    const changes = await resolveFileChanges([{ kind: 'file', path: 'src/a.ts', content: files['src/a.ts'] }], { readFile });
+
+    assert.deepEqual(changes, []);
+  });
+
+  it('rejects a snippet whose original is no longer in the file', async () => {
+    await assert.rejects(
+      resolveFileChanges([{ kind: 'snippet', path: 'src/a.ts', content: 'y', original: 'missing' }], { readFile }),
+      PatchError
+    );
+  });
+
+  it('rejects proposals without a file when there is no default', async () => {
+    await assert.rejects(resolveFileChanges([{ kind: 'snippet', content: 'y', original: 'x' }], { readFile }), PatchError);
+  });
+});
@@ -0,0 +1,51 @@
+import { ToolConnector } from '../src/types';
+import type { DiscoveredTool, InvokeOptions, Task, TaskType, ToolResponse, WorkspaceContext } from '../src/types';
+
+type Responder = (task: Task, context: WorkspaceContext, options?: InvokeOptions) => ToolResponse | Promise<ToolResponse>;
+
+/**
+ * Connector that answers with whatever `respond` returns and remembers
+ * every call.
+ */
+export class FakeConnector extends ToolConnector {
+  readonly calls: Array<{ task: Task; context: WorkspaceContext; options?: InvokeOptions }> = [];
+
+  constructor(private respond: Responder = task => ({ success: true, toolId: 'fake', data: `done ${task.id}` })) {
+    super();
+  }
+
+  async connect(): Promise<void> {}
+
+  async invoke(task: Task, context: WorkspaceContext, options?: InvokeOptions): Promise<ToolResponse> {
+    this.calls.push({ task, context, options });
+    return this.respond(task, context, options);
+  }
+
+  async testHealth(): Promise<boolean> {
+    return true;
+  }
+
+  async disconnect(): Promise<void> {}
+}
+
+export function fakeTool(id: string, connector: ToolConnector, tasks: TaskType[] = ['implementation']): DiscoveredTool {
+  return {
+    id,
+    name: id,
+    type: 'mcp-server',
+    capabilities: { tasks, languages: ['*'], integrations: [], commands: [] },
+    connector,
+    isHealthy: true,
+    lastChecked: new Date()
+  };
+}
+
+export function fakeContext(overrides: Partial<WorkspaceContext> = {}): WorkspaceContext {
+  return {
+    openFiles: [],
+    workspaceRoot: '/workspace',
+    environment: {},
+    projectInfo: { type: 'node', technologies: [], dependencies: {} },
+    ...overrides
+  };
+}
@@ -0,0 +1,43 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ToolMetricsStore } from '../../src/metrics';
+import type { InvocationRecord } from '../../src/metrics';
+
+function record(toolId: string, fields: Partial<InvocationRecord> = {}): InvocationRecord {
+  return { toolId, taskType: 'completion', success: true, latencyMs: 100, timestamp: Date.now(), ...fields };
+}
+
+describe('ToolMetricsStore', () => {
+  it('summarizes success rate and latency', async () => {
+    const store = new ToolMetricsStore();
+    store.record(record('a', { latencyMs: 100 }));
+    store.record(record('a', { latencyMs: 300, success: false, errorType: 'TimeoutError' }));
+
+    const stats = store.getStats('a');
+    await store.dispose();
+
+    assert.deepEqual({ ...stats }, {
+      samples: 2,
+      successRate: 0.5,
+      averageLatencyMs: 200,
+      p50LatencyMs: 100,
+      p95LatencyMs: 300,
+      acceptanceRate: 0
+    });
+  });
+
+  it('marks the latest successful completion of each source as accepted', async () => {
+    const store = new ToolMetricsStore();
+    store.record(record('a'));
+    store.record(record('a'));
+    store.record(record('a', { success: false }));
+    store.record(record('b', { taskType: 'implementation' }));
+
+    store.recordAcceptance(['a', 'b']);
+    await store.dispose();
+
+    assert.deepEqual(store.query({ toolId: 'a' }).map(entry => entry.accepted), [undefined, true, undefined]);
+    assert.equal(store.getStats('a', 'completion')!.acceptanceRate, 0.5);
+    assert.equal(store.getStats('b')!.acceptanceRate, undefined);
+  });
+});
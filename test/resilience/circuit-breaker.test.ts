@@ -0,0 +1,75 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CircuitBreaker } from '../../src/resilience';
+import type { CircuitState } from '../../src/resilience';
+
+function breaker(options = {}) {
+  let now = 0;
+  const circuit = new CircuitBreaker('tool', { failureThreshold: 2, resetTimeout: 1000, ...options }, () => now);
+  return { circuit, advance: (ms: number) => { now += ms; } };
+}
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and refuses calls', () => {
+    const { circuit } = breaker();
+    circuit.recordFailure();
+    assert.equal(circuit.state, 'closed');
+    circuit.recordFailure();
+    assert.equal(circuit.state, 'open');
+    assert.equal(circuit.allowRequest(), false);
+    assert.equal(circuit.retryAt?.getTime(), 1000);
+  });
+
+  it('forgets failures after a success', () => {
+    const { circuit } = breaker();
+    circuit.recordFailure();
+    circuit.recordSuccess();
+    circuit.recordFailure();
+    assert.equal(circuit.state, 'closed');
+  });
+
+  it('lets one probe through once the reset timeout has passed', () => {
+    const { circuit, advance } = breaker();
+    circuit.recordFailure();
+    circuit.recordFailure();
+    advance(1000);
+
+    assert.equal(circuit.allowRequest(), true);
+    assert.equal(circuit.state, 'half-open');
+    assert.equal(circuit.allowRequest(), false);
+
+    circuit.recordSuccess();
+    assert.equal(circuit.state, 'closed');
+  });
+
+  it('reopens when the probe fails', () => {
+    const { circuit, advance } = breaker();
+    circuit.recordFailure();
+    circuit.recordFailure();
+    advance(1000);
+    circuit.allowRequest();
+    circuit.recordFailure();
+
+    assert.equal(circuit.state, 'open');
+    assert.equal(circuit.allowRequest(), false);
+  });
+
+  it('admits another probe after one is released', () => {
+    const { circuit, advance } = breaker();
+    circuit.recordFailure();
+    circuit.recordFailure();
+    advance(1000);
+    circuit.allowRequest();
+    circuit.releaseProbe();
+    assert.equal(circuit.allowRequest(), true);
+  });
+
+  it('reports state changes', () => {
+    const { circuit } = breaker({ failureThreshold: 1 });
+    const changes: Array<[CircuitState, CircuitState]> = [];
+    circuit.on('stateChange', (state, previous) => changes.push([state, previous]));
+    circuit.recordFailure();
+    circuit.reset();
+    assert.deepEqual(changes, [['open', 'closed'], ['closed', 'open']]);
+  });
+});
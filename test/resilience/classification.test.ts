@@ -0,0 +1,49 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { JSON_RPC_ERROR_CODES, MCPRequestError } from '../../src/mcp';
+import { classifyError, isRetryable } from '../../src/resilience';
+import { BudgetExceededError, CancellationError, ConnectionError, RateLimitError, TimeoutError, ValidationError } from '../../src/types';
+
+describe('classifyError', () => {
+  it('treats timeouts and dropped connections as transient', () => {
+    assert.deepEqual(classifyError(new TimeoutError('slow', 100)), { kind: 'transient' });
+    assert.deepEqual(classifyError(new ConnectionError('gone')), { kind: 'transient' });
+  });
+
+  it('keeps the delay a rate-limited tool asked for', () => {
+    assert.deepEqual(classifyError(new RateLimitError('slow down', 2000)), { kind: 'rate-limited', retryAfterMs: 2000 });
+  });
+
+  it('does not retry what cannot succeed', () => {
+    assert.equal(classifyError(new ValidationError('bad', [])).kind, 'permanent');
+    assert.equal(classifyError(new BudgetExceededError('spent', 'tool', 'a', new Date())).kind, 'permanent');
+    assert.equal(classifyError(new Error('unknown')).kind, 'permanent');
+    assert.equal(classifyError('a string').kind, 'permanent');
+  });
+
+  it('tells cancellation apart from failure', () => {
+    assert.equal(classifyError(new CancellationError()).kind, 'cancelled');
+  });
+
+  it('retries MCP internal errors only', () => {
+    assert.equal(classifyError(new MCPRequestError('oops', JSON_RPC_ERROR_CODES.internalError, 'tools/call')).kind, 'transient');
+    assert.equal(classifyError(new MCPRequestError('bad', JSON_RPC_ERROR_CODES.invalidParams, 'tools/call')).kind, 'permanent');
+  });
+
+  it('understands HTTP statuses and Node error codes', () => {
+    assert.equal(classifyError({ status: 429 }).kind, 'rate-limited');
+    assert.equal(classifyError({ statusCode: 503 }).kind, 'transient');
+    assert.equal(classifyError({ status: 404 }).kind, 'permanent');
+    assert.equal(classifyError({ code: 'ECONNRESET' }).kind, 'transient');
+    assert.equal(classifyError({ retryable: true }).kind, 'transient');
+  });
+});
+
+describe('isRetryable', () => {
+  it('retries transient and rate-limited failures', () => {
+    assert.ok(isRetryable({ kind: 'transient' }));
+    assert.ok(isRetryable({ kind: 'rate-limited' }));
+    assert.ok(!isRetryable({ kind: 'permanent' }));
+    assert.ok(!isRetryable({ kind: 'cancelled' }));
+  });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ResiliencePolicy } from '../../src/resilience';
+import { TimeoutError } from '../../src/types';
+import { CancellationTokenSource } from '../../src/utils';
+
+const FAST_RETRY = { initialDelay: 1, maxDelay: 1, jitter: 0 };
+
+describe('ResiliencePolicy', () => {
+  it('retries transient failures until the operation succeeds', async () => {
+    const policy = new ResiliencePolicy('tool', { retry: { maxAttempts: 3, ...FAST_RETRY } });
+    let calls = 0;
+    const outcome = await policy.execute(async () => {
+      if (++calls < 3) {
+        throw new TimeoutError('slow', 10);
+      }
+      return 'done';
+    });
+    assert.deepEqual(outcome, { ok: true, value: 'done', attempts: 3 });
+  });
+
+  it('gives up at once on permanent failures', async () => {
+    const policy = new ResiliencePolicy('tool', { retry: { maxAttempts: 3, ...FAST_RETRY } });
+    let calls = 0;
+    const outcome = await policy.execute(async () => {
+      calls++;
+      throw new Error('bad input');
+    });
+    assert.equal(calls, 1);
+    assert.equal(outcome.ok, false);
+    assert.equal(!outcome.ok && outcome.classification.kind, 'permanent');
+  });
+
+  it('follows a custom classification', async () => {
+    const policy = new ResiliencePolicy('tool', {
+      retry: { maxAttempts: 3, ...FAST_RETRY },
+      classify: () => ({ kind: 'permanent' })
+    });
+    let calls = 0;
+    await policy.execute(async () => {
+      calls++;
+      throw new TimeoutError('slow', 10);
+    });
+    assert.equal(calls, 1);
+  });
+
+  it('times out a slow attempt', async () => {
+    const policy = new ResiliencePolicy('tool', { timeout: 5, retry: { maxAttempts: 1 } });
+    const outcome = await policy.execute(() => new Promise(resolve => setTimeout(resolve, 1000).unref()));
+    assert.equal(!outcome.ok && outcome.error instanceof TimeoutError, true);
+  });
+
+  it('stops when the caller cancels', async () => {
+    const policy = new ResiliencePolicy('tool');
+    const source = new CancellationTokenSource();
+    source.cancel();
+    const outcome = await policy.execute(async () => 'never', source.token);
+    assert.equal(!outcome.ok && outcome.classification.kind, 'cancelled');
+    assert.equal(outcome.attempts, 0);
+  });
+
+  it('refuses calls while the circuit is open', async () => {
+    const policy = new ResiliencePolicy('tool', { retry: { maxAttempts: 1 }, circuitBreaker: { failureThreshold: 1 } });
+    await policy.execute(async () => {
+      throw new TimeoutError('slow', 10);
+    });
+    let called = false;
+    const outcome = await policy.execute(async () => {
+      called = true;
+    });
+    assert.equal(called, false);
+    assert.equal(outcome.ok, false);
+  });
+});
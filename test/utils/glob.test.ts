@@ -0,0 +1,37 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { matchesGlob } from '../../src/utils';
+
+describe('matchesGlob', () => {
+  it('matches a slash-less pattern against the file name in any directory', () => {
+    assert.ok(matchesGlob('.env', '.env'));
+    assert.ok(matchesGlob('config/deep/.env', '.env'));
+    assert.ok(!matchesGlob('.env.example', '.env'));
+  });
+
+  it('keeps * within a path segment', () => {
+    assert.ok(matchesGlob('src/a.ts', 'src/*.ts'));
+    assert.ok(!matchesGlob('src/lib/a.ts', 'src/*.ts'));
+  });
+
+  it('lets ** cross segments', () => {
+    assert.ok(matchesGlob('src/lib/deep/a.ts', 'src/**/*.ts'));
+    assert.ok(matchesGlob('src/a.ts', 'src/**/*.ts'));
+  });
+
+  it('expands braces and ?', () => {
+    assert.ok(matchesGlob('keys/id.pem', '**/*.{pem,key}'));
+    assert.ok(matchesGlob('keys/id.key', '**/*.{pem,key}'));
+    assert.ok(matchesGlob('a1.txt', 'a?.txt'));
+    assert.ok(!matchesGlob('a12.txt', 'a?.txt'));
+  });
+
+  it('accepts backslashes and a leading ./ in the path', () => {
+    assert.ok(matchesGlob('.\\secrets\\prod.json', 'secrets/*.json'));
+  });
+
+  it('matches when any of several globs does', () => {
+    assert.ok(matchesGlob('a.key', ['*.pem', '*.key']));
+    assert.ok(!matchesGlob('a.txt', ['*.pem', '*.key']));
+  });
+});
@@ -0,0 +1,45 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findReferences, interpolate, InterpolationError, referencedTaskIds } from '../../src/workflow';
+import type { InterpolationScope } from '../../src/workflow';
+
+const scope: InterpolationScope = {
+  workflow: { input: { name: 'orders', limit: 5 } },
+  context: { project: { type: 'node' } },
+  tasks: { design: { outputs: { files: ['a.ts', 'b.ts'], summary: 'two files' } } }
+};
+
+describe('interpolate', () => {
+  it('keeps the value of a string that is a single reference', () => {
+    assert.deepEqual(interpolate('${tasks.design.outputs.files}', scope), ['a.ts', 'b.ts']);
+    assert.equal(interpolate('${workflow.input.limit}', scope), 5);
+  });
+
+  it('stringifies references embedded in longer text', () => {
+    assert.equal(interpolate('Build ${workflow.input.name} for ${context.project.type}', scope), 'Build orders for node');
+    assert.equal(interpolate('files: ${tasks.design.outputs.files}', scope), 'files: ["a.ts","b.ts"]');
+  });
+
+  it('walks objects and arrays', () => {
+    assert.deepEqual(
+      interpolate({ list: ['${workflow.input.name}'], nested: { summary: '${tasks.design.outputs.summary}' }, count: 2 }, scope),
+      { list: ['orders'], nested: { summary: 'two files' }, count: 2 }
+    );
+  });
+
+  it('rejects references to unknown tasks, outputs and roots', () => {
+    assert.throws(() => interpolate('${tasks.missing.outputs}', scope), InterpolationError);
+    assert.throws(() => interpolate('${tasks.design.outputs.nope}', scope), /has no output 'nope'/);
+    assert.throws(() => interpolate('${tasks.design.inputs}', scope), /Only task outputs/);
+    assert.throws(() => interpolate('${env.HOME}', scope), /Unknown reference root 'env'/);
+  });
+});
+
+describe('findReferences', () => {
+  it('lists references and the tasks they name', () => {
+    const value = { a: '${tasks.x.outputs.y} and ${workflow.input.z}', b: ['${tasks.x.outputs}', '${tasks.w.outputs}'] };
+
+    assert.deepEqual(findReferences(value).map(reference => reference.root), ['tasks', 'workflow', 'tasks', 'tasks']);
+    assert.deepEqual(referencedTaskIds(value), ['x', 'w']);
+  });
+});
@@ -0,0 +1,117 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { InMemoryCheckpointStore, WorkflowRunner } from '../../src/workflow';
+import type { WorkflowDefinition, WorkflowTaskDefinition } from '../../src/workflow';
+import { CancellationTokenSource } from '../../src/utils';
+import type { DiscoveredTool } from '../../src/types';
+import { FakeConnector, fakeContext, fakeTool } from '../fakes';
+
+function definition(tasks: WorkflowTaskDefinition[], configuration?: WorkflowDefinition['configuration']): WorkflowDefinition {
+  return { id: 'wf', name: 'Workflow', workflow: { phases: [{ id: 'build', name: 'Build', tasks }] }, configuration };
+}
+
+function step(id: string, fields: Partial<WorkflowTaskDefinition> = {}): WorkflowTaskDefinition {
+  return { id, type: 'implementation', description: `Task ${id}`, ...fields };
+}
+
+function runner(...tools: DiscoveredTool[]): WorkflowRunner {
+  return new WorkflowRunner({ tools: new Map(tools.map(tool => [tool.id, tool])), context: fakeContext() });
+}
+
+describe('WorkflowRunner', () => {
+  it('passes outputs on to the tasks that reference them', async () => {
+    const connector = new FakeConnector(task => ({ success: true, toolId: 'fake', data: `result of ${task.id}` }));
+    const workflow = definition([
+      step('code', { outputs: { code: 'the code' } }),
+      step('test', { inputs: { code: '${tasks.code.outputs.code}' } })
+    ]);
+
+    const result = await runner(fakeTool('fake', connector)).run(workflow);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(connector.calls.map(call => call.task.id), ['code', 'test']);
+    assert.deepEqual(result.tasks.get('test')!.resolvedInputs, { code: 'result of code' });
+  });
+
+  it('retries on the next tool and skips dependents of failed tasks', async () => {
+    const broken = new FakeConnector(() => ({ success: false, toolId: 'broken', error: 'boom' }));
+    const working = new FakeConnector();
+    const workflow = definition(
+      [step('a', { preferredTools: ['broken', 'working'] }), step('b', { preferredTools: ['broken'], type: 'testing' }), step('c', { dependsOn: ['b'] })],
+      { errorHandling: { strategy: 'graceful', retryAttempts: 1 } }
+    );
+    const tools = [fakeTool('broken', broken, ['testing']), fakeTool('working', working)];
+
+    const result = await runner(...tools).run(workflow);
+
+    assert.equal(result.success, false);
+    assert.equal(result.status, 'failed');
+    assert.deepEqual(
+      Array.from(result.tasks.values(), state => [state.taskId, state.status, state.toolId, state.attempts]),
+      [['a', 'succeeded', 'working', 2], ['b', 'failed', 'broken', 2], ['c', 'skipped', undefined, 0]]
+    );
+    assert.equal(result.tasks.get('c')!.error, "Upstream task 'b' did not succeed");
+  });
+
+  it('fails a task whose inputs reference a missing output', async () => {
+    const workflow = definition([step('a'), step('b', { dependsOn: ['a'], inputs: { x: '${tasks.a.outputs.nope}' } })]);
+
+    const result = await runner(fakeTool('fake', new FakeConnector())).run(workflow);
+
+    assert.equal(result.tasks.get('b')!.status, 'failed');
+    assert.match(result.tasks.get('b')!.error!, /has no output 'nope'/);
+  });
+
+  it('stops starting tasks once cancelled and keeps finished ones in the checkpoint', async () => {
+    const source = new CancellationTokenSource();
+    const connector = new FakeConnector(task => {
+      source.cancel();
+      return { success: true, toolId: 'fake', data: task.id };
+    });
+    const checkpoints = new InMemoryCheckpointStore();
+    const workflow = definition([step('a'), step('b', { dependsOn: ['a'] })]);
+
+    const result = await runner(fakeTool('fake', connector)).run(workflow, { checkpoints, cancellationToken: source.token });
+
+    assert.equal(result.tasks.get('a')!.status, 'succeeded');
+    assert.equal(result.tasks.get('b')!.status, 'skipped');
+    assert.equal(result.tasks.get('b')!.error, 'Workflow run was cancelled');
+    assert.equal(result.status, 'cancelled');
+    const saved = await checkpoints.load(result.runId);
+    assert.equal(saved!.status, 'cancelled');
+    assert.deepEqual(saved!.tasks.map(task => task.status), ['succeeded', 'skipped']);
+  });
+
+  it('resumes from a checkpoint without running succeeded tasks again', async () => {
+    let failing = true;
+    const connector = new FakeConnector(task => task.id === 'b' && failing
+      ? { success: false, toolId: 'fake', error: 'not yet' }
+      : { success: true, toolId: 'fake', data: task.id });
+    const checkpoints = new InMemoryCheckpointStore();
+    const workflow = definition([step('a'), step('b', { dependsOn: ['a'] })]);
+    const workflowRunner = runner(fakeTool('fake', connector));
+
+    const first = await workflowRunner.run(workflow, { checkpoints });
+    failing = false;
+    connector.calls.length = 0;
+    const second = await workflowRunner.run(workflow, { checkpoints, resumeFrom: await checkpoints.load(first.runId) });
+
+    assert.equal(first.success, false);
+    assert.equal(second.success, true);
+    assert.equal(second.runId, first.runId);
+    assert.deepEqual(connector.calls.map(call => call.task.id), ['b']);
+    assert.equal((await checkpoints.load(first.runId))!.status, 'succeeded');
+  });
+
+  it('reports a checkpoint that could not be saved', async () => {
+    const checkpoints = new InMemoryCheckpointStore();
+    checkpoints.save = async () => {
+      throw new Error('disk full');
+    };
+
+    const result = await runner(fakeTool('fake', new FakeConnector())).run(definition([step('a')]), { checkpoints });
+
+    assert.equal(result.success, true);
+    assert.equal(result.checkpointError, 'disk full');
+  });
+});
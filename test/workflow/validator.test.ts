@@ -0,0 +1,66 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { validateWorkflow } from '../../src/workflow';
+
+function workflow(tasks: unknown[], extra: Record<string, unknown> = {}) {
+  return { id: 'wf', name: 'Workflow', ...extra, workflow: { phases: [{ id: 'build', name: 'Build', tasks }] } };
+}
+
+function task(id: string, fields: Record<string, unknown> = {}) {
+  return { id, description: `Task ${id}`, type: 'implementation', ...fields };
+}
+
+describe('validateWorkflow', () => {
+  it('accepts a well-formed workflow', () => {
+    const result = validateWorkflow(workflow(
+      [task('a', { outputs: { code: 'the code' } }), task('b', { dependsOn: ['a'], inputs: { code: '${tasks.a.outputs.code}', name: '${workflow.input.name}' } })],
+      { inputs: { name: { type: 'string' } } }
+    ));
+
+    assert.deepEqual(result, { valid: true, errors: [] });
+  });
+
+  it('reports structural problems with their JSON path', () => {
+    const result = validateWorkflow(workflow([{ id: 'a.b', type: 'painting' }]));
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors.map(error => error.path), [
+      '$.workflow.phases[0].tasks[0].id',
+      '$.workflow.phases[0].tasks[0].description',
+      '$.workflow.phases[0].tasks[0].type'
+    ]);
+  });
+
+  it('reports unknown dependencies and says when the id is a phase', () => {
+    const result = validateWorkflow(workflow([task('a', { dependsOn: ['build'] })]));
+
+    assert.deepEqual(result.errors, [
+      { path: '$.workflow.phases[0].tasks[0].dependsOn[0]', message: "unknown task 'build' ('build' is a phase id)" }
+    ]);
+  });
+
+  it('reports duplicate ids', () => {
+    const result = validateWorkflow(workflow([task('a'), task('a')]));
+
+    assert.match(result.errors[0].message, /duplicate task id 'a'/);
+  });
+
+  it('reports dependency cycles', () => {
+    const result = validateWorkflow(workflow([task('a', { dependsOn: ['b'] }), task('b', { dependsOn: ['a'] })]));
+
+    assert.equal(result.valid, false);
+    assert.match(result.errors[0].message, /cycle/i);
+  });
+
+  it('checks references to outputs and workflow inputs', () => {
+    const result = validateWorkflow(workflow([
+      task('a', { outputs: { code: 'the code' } }),
+      task('b', { inputs: { code: '${tasks.a.outputs.tests}', name: '${workflow.input.name}' } })
+    ]));
+
+    assert.deepEqual(result.errors.map(error => error.message), [
+      "'${tasks.a.outputs.tests}' references output 'tests' that task 'a' does not declare",
+      "'${workflow.input.name}' references undeclared workflow input 'name'"
+    ]);
+  });
+});